@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Either the shared connection pool or an open transaction, for helpers that may run inside a caller's transaction
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -10,8 +10,10 @@ import {
   varchar,
   date,
   real,
-  index
+  index,
+  uniqueIndex
 } from 'drizzle-orm/pg-core';
+import type { PriceCalculationResult } from '../handlers/calculate_price';
 
 // Core entities
 export const customersTable = pgTable('customers', {
@@ -19,6 +21,7 @@ export const customersTable = pgTable('customers', {
   name: text('name').notNull(),
   phone: varchar('phone', { length: 20 }).notNull(),
   whatsapp_verified: boolean('whatsapp_verified').notNull().default(false),
+  preferred_language: varchar('preferred_language', { length: 2 }).notNull().default('ar'), // ar, en
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   phoneIdx: index('customers_phone_idx').on(table.phone),
@@ -32,6 +35,94 @@ export const zonesTable = pgTable('zones', {
   notes: text('notes'),
 });
 
+// Booking schedule per zone; zones without a row use the defaults in zone_schedules.ts
+export const zoneSchedulesTable = pgTable('zone_schedules', {
+  id: serial('id').primaryKey(),
+  zone_id: integer('zone_id').notNull().unique().references(() => zonesTable.id),
+  weekly_hours: jsonb('weekly_hours').notNull().$type<({ start: string; end: string } | null)[]>(), // index 0 = Sunday, null = closed
+  team_capacity: integer('team_capacity').notNull(),
+  slot_minutes: integer('slot_minutes').notNull(),
+  interval_minutes: integer('interval_minutes').notNull(),
+  buffer_minutes: integer('buffer_minutes').notNull(),
+  prayer_pause_enabled: boolean('prayer_pause_enabled').notNull().default(false),
+  prayer_pause_before_minutes: integer('prayer_pause_before_minutes').notNull().default(5),
+  prayer_pause_after_minutes: integer('prayer_pause_after_minutes').notNull().default(30),
+  updated_by: varchar('updated_by', { length: 200 }),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Holidays, blackouts and seasonal hours; these override the weekly hours for a date range
+export const scheduleExceptionsTable = pgTable('schedule_exceptions', {
+  id: serial('id').primaryKey(),
+  zone_id: integer('zone_id').references(() => zonesTable.id), // null applies to every zone
+  name: text('name').notNull(),
+  start_date: date('start_date').notNull(), // YYYY-MM-DD, inclusive
+  end_date: date('end_date').notNull(), // YYYY-MM-DD, inclusive
+  hours: jsonb('hours').$type<{ start: string; end: string }>(), // null = closed (blackout)
+  created_by: varchar('created_by', { length: 200 }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  datesIdx: index('schedule_exceptions_dates_idx').on(table.start_date, table.end_date),
+}));
+
+// Crews that take bookings; a solo crew is a single technician
+export const teamsTable = pgTable('teams', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  type: varchar('type', { length: 10 }).notNull(), // solo, team
+  home_zone_id: integer('home_zone_id').notNull().references(() => zonesTable.id),
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  homeZoneIdx: index('teams_home_zone_idx').on(table.home_zone_id),
+}));
+
+export const techniciansTable = pgTable('technicians', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  phone: varchar('phone', { length: 20 }).notNull(),
+  team_id: integer('team_id').references(() => teamsTable.id), // null while unassigned
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  teamIdx: index('technicians_team_idx').on(table.team_id),
+}));
+
+// Weekly working hours per team; a team can have several shifts on the same day
+export const teamShiftsTable = pgTable('team_shifts', {
+  id: serial('id').primaryKey(),
+  team_id: integer('team_id').notNull().references(() => teamsTable.id),
+  weekday: integer('weekday').notNull(), // 0 = Sunday
+  start_time: varchar('start_time', { length: 5 }).notNull(), // HH:MM
+  end_time: varchar('end_time', { length: 5 }).notNull(), // HH:MM
+}, (table) => ({
+  teamWeekdayIdx: index('team_shifts_team_weekday_idx').on(table.team_id, table.weekday),
+}));
+
+// Admin accounts
+export const adminUsersTable = pgTable('admin_users', {
+  id: serial('id').primaryKey(),
+  email: varchar('email', { length: 200 }).notNull().unique(),
+  name: text('name').notNull(),
+  password_hash: text('password_hash').notNull(), // scrypt salt:hash
+  role: varchar('role', { length: 30 }).notNull(), // owner, dispatcher, content_editor, marketer
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  emailIdx: index('admin_users_email_idx').on(table.email),
+}));
+
+export const adminSessionsTable = pgTable('admin_sessions', {
+  id: serial('id').primaryKey(),
+  admin_user_id: integer('admin_user_id').notNull().references(() => adminUsersTable.id),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // sha256 of the bearer token
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tokenIdx: index('admin_sessions_token_idx').on(table.token_hash),
+  userIdx: index('admin_sessions_user_idx').on(table.admin_user_id),
+}));
+
 // Catalog & Pricing
 export const servicesTable = pgTable('services', {
   id: serial('id').primaryKey(),
@@ -66,6 +157,26 @@ export const addonsTable = pgTable('addons', {
   orderIdx: index('addons_order_idx').on(table.order),
 }));
 
+// Explicit prices per car type, used instead of scaling the list price by the car type multiplier
+export const serviceCarTypePricesTable = pgTable('service_car_type_prices', {
+  id: serial('id').primaryKey(),
+  service_id: integer('service_id').notNull().references(() => servicesTable.id),
+  car_type: varchar('car_type', { length: 20 }).notNull(),
+  price_team: numeric('price_team', { precision: 10, scale: 2 }).notNull(),
+  price_solo: numeric('price_solo', { precision: 10, scale: 2 }).notNull(),
+}, (table) => ({
+  serviceCarTypeIdx: uniqueIndex('service_car_type_prices_service_car_type_idx').on(table.service_id, table.car_type),
+}));
+
+export const addonCarTypePricesTable = pgTable('addon_car_type_prices', {
+  id: serial('id').primaryKey(),
+  addon_id: integer('addon_id').notNull().references(() => addonsTable.id),
+  car_type: varchar('car_type', { length: 20 }).notNull(),
+  price: numeric('price', { precision: 10, scale: 2 }).notNull(),
+}, (table) => ({
+  addonCarTypeIdx: uniqueIndex('addon_car_type_prices_addon_car_type_idx').on(table.addon_id, table.car_type),
+}));
+
 export const plansTable = pgTable('plans', {
   id: serial('id').primaryKey(),
   code: varchar('code', { length: 50 }).notNull().unique(),
@@ -77,10 +188,29 @@ export const plansTable = pgTable('plans', {
   benefits_ar: jsonb('benefits_ar').notNull().$type<string[]>(),
   benefits_en: jsonb('benefits_en').notNull().$type<string[]>(),
   visible: boolean('visible').notNull().default(true),
+  credits_per_period: integer('credits_per_period').notNull().default(4), // washes included each period
+  period_days: integer('period_days').notNull().default(30),
+  service_ids: jsonb('service_ids').notNull().$type<number[]>().default([]), // services a credit pays for, empty = all
 }, (table) => ({
   codeIdx: index('plans_code_idx').on(table.code),
 }));
 
+// A customer's plan; credits reset to the plan's allowance each time the period renews
+export const subscriptionsTable = pgTable('subscriptions', {
+  id: serial('id').primaryKey(),
+  customer_id: integer('customer_id').notNull().references(() => customersTable.id),
+  plan_id: integer('plan_id').notNull().references(() => plansTable.id),
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, expired, canceled
+  period_start: timestamp('period_start').notNull(),
+  period_end: timestamp('period_end').notNull(), // exclusive
+  credits_remaining: integer('credits_remaining').notNull(),
+  auto_renew: boolean('auto_renew').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  customerStatusIdx: index('subscriptions_customer_status_idx').on(table.customer_id, table.status),
+  periodEndIdx: index('subscriptions_period_end_idx').on(table.period_end),
+}));
+
 export const pricingRulesTable = pgTable('pricing_rules', {
   id: serial('id').primaryKey(),
   key: varchar('key', { length: 100 }).notNull().unique(),
@@ -90,13 +220,37 @@ export const pricingRulesTable = pgTable('pricing_rules', {
   keyIdx: index('pricing_rules_key_idx').on(table.key),
 }));
 
+// Every public price quote with what it was quoted for, so a booking can be held to it
+export const priceQuotesTable = pgTable('price_quotes', {
+  id: serial('id').primaryKey(),
+  service_id: integer('service_id').notNull().references(() => servicesTable.id),
+  addons: jsonb('addons').notNull().$type<number[]>(),
+  car_type: varchar('car_type', { length: 20 }).notNull(), // sedan, suv, pickup, van, motorcycle
+  zone_id: integer('zone_id').notNull().references(() => zonesTable.id),
+  geo_point: text('geo_point').notNull(), // JSON string for lat/lng
+  is_solo: boolean('is_solo').notNull().default(false),
+  customer_phone: varchar('customer_phone', { length: 20 }), // null for anonymous quotes
+  coupon_code: varchar('coupon_code', { length: 50 }), // normalized, null without a coupon
+  window_start: timestamp('window_start'), // null when quoted without a slot
+  window_end: timestamp('window_end'),
+  breakdown: jsonb('breakdown').notNull().$type<PriceCalculationResult>(),
+  total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  booking_id: integer('booking_id').references(() => bookingsTable.id).unique(), // set once booked
+  converted_at: timestamp('converted_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  createdIdx: index('price_quotes_created_idx').on(table.created_at),
+  serviceIdx: index('price_quotes_service_idx').on(table.service_id),
+}));
+
 // Bookings
 export const bookingsTable = pgTable('bookings', {
   id: serial('id').primaryKey(),
   customer_id: integer('customer_id').notNull().references(() => customersTable.id),
   service_id: integer('service_id').notNull().references(() => servicesTable.id),
   addons: jsonb('addons').notNull().$type<number[]>(),
-  car_type: varchar('car_type', { length: 20 }).notNull(), // sedan, suv, pickup
+  car_type: varchar('car_type', { length: 20 }).notNull(), // sedan, suv, pickup, van, motorcycle
   zone_id: integer('zone_id').notNull().references(() => zonesTable.id),
   address_text: text('address_text').notNull(),
   geo_point: text('geo_point').notNull(), // JSON string for lat/lng
@@ -106,14 +260,103 @@ export const bookingsTable = pgTable('bookings', {
   price_total: numeric('price_total', { precision: 10, scale: 2 }).notNull(),
   is_solo: boolean('is_solo').notNull().default(false),
   distance_fee: numeric('distance_fee', { precision: 10, scale: 2 }).notNull().default('0'),
+  needs_reschedule: boolean('needs_reschedule').notNull().default(false), // set when a calendar change closes the booked window
+  team_id: integer('team_id').references(() => teamsTable.id), // assigned crew, null until dispatched
+  series_id: integer('series_id').references(() => bookingSeriesTable.id), // set on recurring occurrences
+  subscription_id: integer('subscription_id').references(() => subscriptionsTable.id), // paid with a subscription credit
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   customerIdx: index('bookings_customer_idx').on(table.customer_id),
   statusIdx: index('bookings_status_idx').on(table.status),
+  teamIdx: index('bookings_team_idx').on(table.team_id),
   dateIdx: index('bookings_date_idx').on(table.scheduled_window_start),
   createdIdx: index('bookings_created_idx').on(table.created_at),
 }));
 
+export const bookingEventsTable = pgTable('booking_events', {
+  id: serial('id').primaryKey(),
+  booking_id: integer('booking_id').notNull().references(() => bookingsTable.id),
+  actor: varchar('actor', { length: 200 }).notNull(), // admin email, 'customer' or 'system'
+  old_status: varchar('old_status', { length: 20 }), // null for the creation event
+  new_status: varchar('new_status', { length: 20 }).notNull(),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  bookingIdx: index('booking_events_booking_idx').on(table.booking_id),
+  createdIdx: index('booking_events_created_idx').on(table.created_at),
+}));
+
+// One row per booking and reminder tier; the unique index makes each reminder claimable exactly once
+export const bookingRemindersTable = pgTable('booking_reminders', {
+  id: serial('id').primaryKey(),
+  booking_id: integer('booking_id').notNull().references(() => bookingsTable.id),
+  tier: varchar('tier', { length: 20 }).notNull(), // lead time label, e.g. 24h, 2h
+  message_id: varchar('message_id', { length: 100 }), // null when the tier was skipped
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  bookingTierIdx: uniqueIndex('booking_reminders_booking_tier_idx').on(table.booking_id, table.tier),
+}));
+
+// Customers waiting for a fully booked slot; freed slots are offered to them in order
+export const waitlistEntriesTable = pgTable('waitlist_entries', {
+  id: serial('id').primaryKey(),
+  customer_id: integer('customer_id').notNull().references(() => customersTable.id),
+  zone_id: integer('zone_id').notNull().references(() => zonesTable.id),
+  service_id: integer('service_id').notNull().references(() => servicesTable.id),
+  addons: jsonb('addons').notNull().$type<number[]>(),
+  car_type: varchar('car_type', { length: 20 }).notNull(), // sedan, suv, pickup, van, motorcycle
+  address_text: text('address_text').notNull(),
+  geo_point: text('geo_point').notNull(), // JSON string for lat/lng
+  is_solo: boolean('is_solo').notNull().default(false),
+  slot_start: timestamp('slot_start').notNull(),
+  slot_end: timestamp('slot_end').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('waiting'), // waiting, offered, claimed, expired, canceled
+  offered_at: timestamp('offered_at'),
+  offer_expires_at: timestamp('offer_expires_at'),
+  booking_id: integer('booking_id').references(() => bookingsTable.id), // set once the offer is claimed
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  zoneSlotIdx: index('waitlist_entries_zone_slot_idx').on(table.zone_id, table.slot_start),
+  statusIdx: index('waitlist_entries_status_idx').on(table.status),
+}));
+
+// Recurring washes; occurrences are generated as ordinary bookings a few weeks ahead
+export const bookingSeriesTable = pgTable('booking_series', {
+  id: serial('id').primaryKey(),
+  customer_id: integer('customer_id').notNull().references(() => customersTable.id),
+  zone_id: integer('zone_id').notNull().references(() => zonesTable.id),
+  service_id: integer('service_id').notNull().references(() => servicesTable.id),
+  addons: jsonb('addons').notNull().$type<number[]>(),
+  car_type: varchar('car_type', { length: 20 }).notNull(), // sedan, suv, pickup, van, motorcycle
+  address_text: text('address_text').notNull(),
+  geo_point: text('geo_point').notNull(), // JSON string for lat/lng
+  is_solo: boolean('is_solo').notNull().default(false),
+  frequency: varchar('frequency', { length: 20 }).notNull(), // weekly, biweekly
+  weekday: integer('weekday').notNull(), // 0 = Sunday
+  window_start: varchar('window_start', { length: 5 }).notNull(), // HH:MM business time
+  window_end: varchar('window_end', { length: 5 }).notNull(), // HH:MM business time
+  start_date: date('start_date').notNull(), // YYYY-MM-DD, first occurrence is on or after it
+  end_date: date('end_date'), // YYYY-MM-DD inclusive, null = until canceled
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, canceled
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index('booking_series_customer_idx').on(table.customer_id),
+  statusIdx: index('booking_series_status_idx').on(table.status),
+}));
+
+// One row per series date once it has been generated, skipped or found to conflict
+export const bookingSeriesOccurrencesTable = pgTable('booking_series_occurrences', {
+  id: serial('id').primaryKey(),
+  series_id: integer('series_id').notNull().references(() => bookingSeriesTable.id),
+  date: date('date').notNull(), // YYYY-MM-DD
+  status: varchar('status', { length: 20 }).notNull(), // booked, conflict, skipped, canceled
+  booking_id: integer('booking_id').references(() => bookingsTable.id), // set when booked
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  seriesDateIdx: uniqueIndex('booking_series_occurrences_series_date_idx').on(table.series_id, table.date),
+  statusIdx: index('booking_series_occurrences_status_idx').on(table.status),
+}));
+
 // Content CMS
 export const contentBlocksTable = pgTable('content_blocks', {
   id: serial('id').primaryKey(),
@@ -217,10 +460,37 @@ export const whatsappTemplatesTable = pgTable('whatsapp_templates', {
   key: varchar('key', { length: 50 }).notNull().unique(),
   body_ar: text('body_ar').notNull(),
   body_en: text('body_en').notNull(),
+  required_variables: jsonb('required_variables').notNull().$type<string[]>().default([]), // Must be supplied on every send
+  optional_variables: jsonb('optional_variables').notNull().$type<string[]>().default([]), // Render as empty when not supplied
+  twilio_content_sids: jsonb('twilio_content_sids').notNull().$type<{ ar?: string; en?: string }>().default({}), // Approved Twilio content template per language
 }, (table) => ({
   keyIdx: index('whatsapp_templates_key_idx').on(table.key),
 }));
 
+export const whatsappMessagesTable = pgTable('whatsapp_messages', {
+  id: serial('id').primaryKey(),
+  message_id: varchar('message_id', { length: 100 }).notNull().unique(), // Our id, returned to callers
+  provider_message_id: varchar('provider_message_id', { length: 200 }).unique(), // Set once the provider accepts it
+  customer_id: integer('customer_id').references(() => customersTable.id),
+  booking_id: integer('booking_id').references(() => bookingsTable.id),
+  to_phone: varchar('to_phone', { length: 20 }).notNull(),
+  template_key: varchar('template_key', { length: 50 }).notNull(),
+  body: text('body').notNull(),
+  language: varchar('language', { length: 2 }).notNull().default('ar'), // ar, en
+  status: varchar('status', { length: 20 }).notNull().default('queued'), // queued, sent, delivered, read, failed
+  error: text('error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  sent_at: timestamp('sent_at'),
+  delivered_at: timestamp('delivered_at'),
+  read_at: timestamp('read_at'),
+  failed_at: timestamp('failed_at'),
+}, (table) => ({
+  customerIdx: index('whatsapp_messages_customer_idx').on(table.customer_id),
+  bookingIdx: index('whatsapp_messages_booking_idx').on(table.booking_id),
+  statusIdx: index('whatsapp_messages_status_idx').on(table.status),
+  createdIdx: index('whatsapp_messages_created_idx').on(table.created_at),
+}));
+
 // Marketing & Operations
 export const couponsTable = pgTable('coupons', {
   id: serial('id').primaryKey(),
@@ -230,11 +500,26 @@ export const couponsTable = pgTable('coupons', {
   start_at: timestamp('start_at').notNull(),
   end_at: timestamp('end_at').notNull(),
   usage_limit: integer('usage_limit').notNull(),
+  per_customer_limit: integer('per_customer_limit'), // null = no limit per customer
 }, (table) => ({
   codeIdx: index('coupons_code_idx').on(table.code),
   dateRangeIdx: index('coupons_date_range_idx').on(table.start_at, table.end_at),
 }));
 
+// One row per booking a coupon was used on; voided when the booking is canceled so the use is given back
+export const couponRedemptionsTable = pgTable('coupon_redemptions', {
+  id: serial('id').primaryKey(),
+  coupon_id: integer('coupon_id').notNull().references(() => couponsTable.id),
+  booking_id: integer('booking_id').notNull().references(() => bookingsTable.id).unique(),
+  customer_id: integer('customer_id').notNull().references(() => customersTable.id),
+  discount_amount: numeric('discount_amount', { precision: 10, scale: 2 }).notNull(),
+  voided_at: timestamp('voided_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  couponIdx: index('coupon_redemptions_coupon_idx').on(table.coupon_id),
+  customerIdx: index('coupon_redemptions_customer_idx').on(table.customer_id),
+}));
+
 export const fleetLeadsTable = pgTable('fleet_leads', {
   id: serial('id').primaryKey(),
   company_name: varchar('company_name', { length: 200 }).notNull(),
@@ -267,21 +552,69 @@ export type NewCustomer = typeof customersTable.$inferInsert;
 export type Zone = typeof zonesTable.$inferSelect;
 export type NewZone = typeof zonesTable.$inferInsert;
 
+export type ZoneScheduleRow = typeof zoneSchedulesTable.$inferSelect;
+export type NewZoneScheduleRow = typeof zoneSchedulesTable.$inferInsert;
+
+export type ScheduleException = typeof scheduleExceptionsTable.$inferSelect;
+export type NewScheduleException = typeof scheduleExceptionsTable.$inferInsert;
+
+export type Team = typeof teamsTable.$inferSelect;
+export type NewTeam = typeof teamsTable.$inferInsert;
+
+export type Technician = typeof techniciansTable.$inferSelect;
+export type NewTechnician = typeof techniciansTable.$inferInsert;
+
+export type TeamShift = typeof teamShiftsTable.$inferSelect;
+export type NewTeamShift = typeof teamShiftsTable.$inferInsert;
+
+export type AdminUser = typeof adminUsersTable.$inferSelect;
+export type NewAdminUser = typeof adminUsersTable.$inferInsert;
+
+export type AdminSession = typeof adminSessionsTable.$inferSelect;
+export type NewAdminSession = typeof adminSessionsTable.$inferInsert;
+
 export type Service = typeof servicesTable.$inferSelect;
 export type NewService = typeof servicesTable.$inferInsert;
 
 export type Addon = typeof addonsTable.$inferSelect;
 export type NewAddon = typeof addonsTable.$inferInsert;
 
+export type ServiceCarTypePrice = typeof serviceCarTypePricesTable.$inferSelect;
+export type NewServiceCarTypePrice = typeof serviceCarTypePricesTable.$inferInsert;
+
+export type AddonCarTypePrice = typeof addonCarTypePricesTable.$inferSelect;
+export type NewAddonCarTypePrice = typeof addonCarTypePricesTable.$inferInsert;
+
 export type Plan = typeof plansTable.$inferSelect;
 export type NewPlan = typeof plansTable.$inferInsert;
 
+export type Subscription = typeof subscriptionsTable.$inferSelect;
+export type NewSubscription = typeof subscriptionsTable.$inferInsert;
+
 export type PricingRule = typeof pricingRulesTable.$inferSelect;
 export type NewPricingRule = typeof pricingRulesTable.$inferInsert;
 
+export type PriceQuote = typeof priceQuotesTable.$inferSelect;
+export type NewPriceQuote = typeof priceQuotesTable.$inferInsert;
+
 export type Booking = typeof bookingsTable.$inferSelect;
 export type NewBooking = typeof bookingsTable.$inferInsert;
 
+export type BookingEvent = typeof bookingEventsTable.$inferSelect;
+export type NewBookingEvent = typeof bookingEventsTable.$inferInsert;
+
+export type BookingReminder = typeof bookingRemindersTable.$inferSelect;
+export type NewBookingReminder = typeof bookingRemindersTable.$inferInsert;
+
+export type WaitlistEntry = typeof waitlistEntriesTable.$inferSelect;
+export type NewWaitlistEntry = typeof waitlistEntriesTable.$inferInsert;
+
+export type BookingSeries = typeof bookingSeriesTable.$inferSelect;
+export type NewBookingSeries = typeof bookingSeriesTable.$inferInsert;
+
+export type BookingSeriesOccurrence = typeof bookingSeriesOccurrencesTable.$inferSelect;
+export type NewBookingSeriesOccurrence = typeof bookingSeriesOccurrencesTable.$inferInsert;
+
 export type ContentBlock = typeof contentBlocksTable.$inferSelect;
 export type NewContentBlock = typeof contentBlocksTable.$inferInsert;
 
@@ -306,9 +639,15 @@ export type NewSEOMeta = typeof seoMetaTable.$inferInsert;
 export type WhatsAppTemplate = typeof whatsappTemplatesTable.$inferSelect;
 export type NewWhatsAppTemplate = typeof whatsappTemplatesTable.$inferInsert;
 
+export type WhatsAppMessageRecord = typeof whatsappMessagesTable.$inferSelect;
+export type NewWhatsAppMessageRecord = typeof whatsappMessagesTable.$inferInsert;
+
 export type Coupon = typeof couponsTable.$inferSelect;
 export type NewCoupon = typeof couponsTable.$inferInsert;
 
+export type CouponRedemption = typeof couponRedemptionsTable.$inferSelect;
+export type NewCouponRedemption = typeof couponRedemptionsTable.$inferInsert;
+
 export type FleetLead = typeof fleetLeadsTable.$inferSelect;
 export type NewFleetLead = typeof fleetLeadsTable.$inferInsert;
 
@@ -319,11 +658,27 @@ export type NewKPIsDaily = typeof kpisDailyTable.$inferInsert;
 export const tables = {
   customers: customersTable,
   zones: zonesTable,
+  zoneSchedules: zoneSchedulesTable,
+  scheduleExceptions: scheduleExceptionsTable,
+  teams: teamsTable,
+  technicians: techniciansTable,
+  teamShifts: teamShiftsTable,
+  adminUsers: adminUsersTable,
+  adminSessions: adminSessionsTable,
   services: servicesTable,
   addons: addonsTable,
+  serviceCarTypePrices: serviceCarTypePricesTable,
+  addonCarTypePrices: addonCarTypePricesTable,
   plans: plansTable,
+  subscriptions: subscriptionsTable,
   pricingRules: pricingRulesTable,
+  priceQuotes: priceQuotesTable,
   bookings: bookingsTable,
+  bookingEvents: bookingEventsTable,
+  bookingReminders: bookingRemindersTable,
+  waitlistEntries: waitlistEntriesTable,
+  bookingSeries: bookingSeriesTable,
+  bookingSeriesOccurrences: bookingSeriesOccurrencesTable,
   contentBlocks: contentBlocksTable,
   faqs: faqsTable,
   testimonials: testimonialsTable,
@@ -332,7 +687,9 @@ export const tables = {
   popups: popupsTable,
   seoMeta: seoMetaTable,
   whatsappTemplates: whatsappTemplatesTable,
+  whatsappMessages: whatsappMessagesTable,
   coupons: couponsTable,
+  couponRedemptions: couponRedemptionsTable,
   fleetLeads: fleetLeadsTable,
   kpisDaily: kpisDailyTable,
 };
\ No newline at end of file
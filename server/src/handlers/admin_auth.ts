@@ -0,0 +1,208 @@
+import { db } from '../db';
+import { adminUsersTable, adminSessionsTable } from '../db/schema';
+import {
+  type AdminLoginInput,
+  type AdminRole,
+  type AdminSessionResponse,
+  type AdminUser,
+  type CreateAdminUserInput
+} from '../schema';
+import { and, count, desc, eq, gt } from 'drizzle-orm';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const SCRYPT_KEY_LENGTH = 64;
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+// Helper to strip the password hash before returning a user to callers
+function toAdminUser(row: typeof adminUsersTable.$inferSelect): AdminUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role as AdminRole,
+    active: row.active,
+    created_at: row.created_at
+  };
+}
+
+function scryptAsync(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+// Session tokens are only ever stored as a sha256 digest
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getSessionTtlMs(): number {
+  const hours = Number(process.env['ADMIN_SESSION_TTL_HOURS']) || DEFAULT_SESSION_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = await scryptAsync(password, salt);
+  return `${salt}:${derivedKey.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, keyHex] = storedHash.split(':');
+  if (!salt || !keyHex) {
+    return false;
+  }
+
+  const storedKey = Buffer.from(keyHex, 'hex');
+  const derivedKey = await scryptAsync(password, salt);
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+}
+
+// Owners can do everything; other roles only what the route explicitly allows
+export function hasRequiredRole(user: AdminUser, roles: AdminRole[]): boolean {
+  return user.role === 'owner' || roles.includes(user.role);
+}
+
+export async function createAdminUser(input: CreateAdminUserInput): Promise<AdminUser> {
+  try {
+    const email = input.email.toLowerCase();
+
+    const existing = await db.select()
+      .from(adminUsersTable)
+      .where(eq(adminUsersTable.email, email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Admin user with email ${email} already exists`);
+    }
+
+    const result = await db.insert(adminUsersTable)
+      .values({
+        email,
+        name: input.name,
+        password_hash: await hashPassword(input.password),
+        role: input.role
+      })
+      .returning()
+      .execute();
+
+    return toAdminUser(result[0]);
+  } catch (error) {
+    console.error('Admin user creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getAdminUsers(): Promise<AdminUser[]> {
+  try {
+    const results = await db.select()
+      .from(adminUsersTable)
+      .orderBy(desc(adminUsersTable.created_at))
+      .execute();
+
+    return results.map(toAdminUser);
+  } catch (error) {
+    console.error('Admin users retrieval failed:', error);
+    throw error;
+  }
+}
+
+export async function loginAdmin(input: AdminLoginInput): Promise<AdminSessionResponse> {
+  try {
+    const users = await db.select()
+      .from(adminUsersTable)
+      .where(eq(adminUsersTable.email, input.email.toLowerCase()))
+      .execute();
+
+    // Same message for unknown email and wrong password to avoid account enumeration
+    const user = users[0];
+    if (!user || !user.active || !(await verifyPassword(input.password, user.password_hash))) {
+      throw new Error('Invalid email or password');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + getSessionTtlMs());
+
+    await db.insert(adminSessionsTable)
+      .values({
+        admin_user_id: user.id,
+        token_hash: hashSessionToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
+    return {
+      token,
+      expires_at: expiresAt,
+      user: toAdminUser(user)
+    };
+  } catch (error) {
+    console.error('Admin login failed:', error);
+    throw error;
+  }
+}
+
+export async function getAdminBySessionToken(token: string): Promise<AdminUser | null> {
+  try {
+    const results = await db.select()
+      .from(adminSessionsTable)
+      .innerJoin(adminUsersTable, eq(adminSessionsTable.admin_user_id, adminUsersTable.id))
+      .where(and(
+        eq(adminSessionsTable.token_hash, hashSessionToken(token)),
+        gt(adminSessionsTable.expires_at, new Date()),
+        eq(adminUsersTable.active, true)
+      ))
+      .execute();
+
+    return results.length > 0 ? toAdminUser(results[0].admin_users) : null;
+  } catch (error) {
+    console.error('Admin session lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function logoutAdmin(token: string): Promise<boolean> {
+  try {
+    const result = await db.delete(adminSessionsTable)
+      .where(eq(adminSessionsTable.token_hash, hashSessionToken(token)))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Admin logout failed:', error);
+    throw error;
+  }
+}
+
+// Seed the first owner from ADMIN_BOOTSTRAP_EMAIL / ADMIN_BOOTSTRAP_PASSWORD when no admin exists yet
+export async function ensureBootstrapOwner(): Promise<AdminUser | null> {
+  try {
+    const email = process.env['ADMIN_BOOTSTRAP_EMAIL'];
+    const password = process.env['ADMIN_BOOTSTRAP_PASSWORD'];
+    if (!email || !password) {
+      return null;
+    }
+
+    const existing = await db.select({ total: count() })
+      .from(adminUsersTable)
+      .execute();
+
+    if (Number(existing[0].total) > 0) {
+      return null;
+    }
+
+    return await createAdminUser({
+      email,
+      name: 'Owner',
+      password,
+      role: 'owner'
+    });
+  } catch (error) {
+    console.error('Admin bootstrap failed:', error);
+    throw error;
+  }
+}
@@ -1,16 +1,15 @@
 import { db } from '../db';
 import { bookingsTable, customersTable, servicesTable, zonesTable, kpisDailyTable } from '../db/schema';
-import { type AdminOverviewResponse, type Booking } from '../schema';
-import { eq, gte, lte, and, count, sum, avg, desc, sql, type SQL } from 'drizzle-orm';
+import { type AdminOverviewResponse, type Booking, type CarType } from '../schema';
+import { eq, gte, lt, lte, and, count, sum, avg, desc, sql, type SQL } from 'drizzle-orm';
+import { startOfBusinessDay, toDateKey } from './business_time';
 
 export async function getAdminOverview(): Promise<AdminOverviewResponse> {
   try {
-    // Get today's date range (start and end of day)
+    // Get today's date range (start and end of the business day)
     const today = new Date();
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+    const startOfDay = startOfBusinessDay(today);
+    const endOfDay = startOfBusinessDay(today, 1);
 
     // Get today's booking statistics
     const todayStatsResult = await db
@@ -25,14 +24,13 @@ export async function getAdminOverview(): Promise<AdminOverviewResponse> {
       .where(
         and(
           gte(bookingsTable.created_at, startOfDay),
-          lte(bookingsTable.created_at, endOfDay)
+          lt(bookingsTable.created_at, endOfDay)
         )
       )
       .execute();
 
     // Get upcoming bookings (next 24 hours from now)
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
 
     const upcomingBookingsResult = await db
       .select({
@@ -50,6 +48,10 @@ export async function getAdminOverview(): Promise<AdminOverviewResponse> {
         price_total: bookingsTable.price_total,
         is_solo: bookingsTable.is_solo,
         distance_fee: bookingsTable.distance_fee,
+        needs_reschedule: bookingsTable.needs_reschedule,
+        team_id: bookingsTable.team_id,
+        series_id: bookingsTable.series_id,
+        subscription_id: bookingsTable.subscription_id,
         created_at: bookingsTable.created_at,
         customer_name: customersTable.name,
         customer_phone: customersTable.phone,
@@ -72,9 +74,8 @@ export async function getAdminOverview(): Promise<AdminOverviewResponse> {
       .execute();
 
     // Get recent KPIs (last 7 days average for better accuracy)
-    const sevenDaysAgo = new Date(today);
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const sevenDaysAgoString = sevenDaysAgo.toISOString().split('T')[0];
+    const sevenDaysAgo = startOfBusinessDay(today, -7);
+    const sevenDaysAgoString = toDateKey(sevenDaysAgo);
 
     const kpisResult = await db
       .select({
@@ -127,7 +128,7 @@ export async function getAdminOverview(): Promise<AdminOverviewResponse> {
       customer_id: result.customer_id,
       service_id: result.service_id,
       addons: result.addons,
-      car_type: result.car_type as 'sedan' | 'suv' | 'pickup',
+      car_type: result.car_type as CarType,
       zone_id: result.zone_id,
       address_text: result.address_text,
       geo_point: result.geo_point,
@@ -137,6 +138,10 @@ export async function getAdminOverview(): Promise<AdminOverviewResponse> {
       price_total: parseFloat(result.price_total),
       is_solo: result.is_solo,
       distance_fee: parseFloat(result.distance_fee),
+      needs_reschedule: result.needs_reschedule,
+      team_id: result.team_id,
+      series_id: result.series_id,
+      subscription_id: result.subscription_id,
       created_at: result.created_at
     }));
 
@@ -169,10 +174,8 @@ export async function getAdminOverview(): Promise<AdminOverviewResponse> {
 export async function getTodayBookings(): Promise<Booking[]> {
   try {
     const today = new Date();
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+    const startOfDay = startOfBusinessDay(today);
+    const endOfDay = startOfBusinessDay(today, 1);
 
     const bookingsResult = await db
       .select()
@@ -180,7 +183,7 @@ export async function getTodayBookings(): Promise<Booking[]> {
       .where(
         and(
           gte(bookingsTable.scheduled_window_start, startOfDay),
-          lte(bookingsTable.scheduled_window_start, endOfDay)
+          lt(bookingsTable.scheduled_window_start, endOfDay)
         )
       )
       .orderBy(bookingsTable.scheduled_window_start)
@@ -190,7 +193,7 @@ export async function getTodayBookings(): Promise<Booking[]> {
       ...booking,
       price_total: parseFloat(booking.price_total),
       distance_fee: parseFloat(booking.distance_fee),
-      car_type: booking.car_type as 'sedan' | 'suv' | 'pickup',
+      car_type: booking.car_type as CarType,
       status: booking.status as 'confirmed' | 'on_the_way' | 'started' | 'finished' | 'postponed' | 'canceled'
     }));
   } catch (error) {
@@ -217,7 +220,7 @@ export async function getBookingsByDateRange(startDate: Date, endDate: Date): Pr
       ...booking,
       price_total: parseFloat(booking.price_total),
       distance_fee: parseFloat(booking.distance_fee),
-      car_type: booking.car_type as 'sedan' | 'suv' | 'pickup',
+      car_type: booking.car_type as CarType,
       status: booking.status as 'confirmed' | 'on_the_way' | 'started' | 'finished' | 'postponed' | 'canceled'
     }));
   } catch (error) {
@@ -0,0 +1,161 @@
+import { db, type DbExecutor } from '../db';
+import { bookingsTable, teamShiftsTable, teamsTable } from '../db/schema';
+import { type AssignBookingInput, type Booking, type Team } from '../schema';
+import { and, asc, eq, gt, inArray, lt, ne, notInArray } from 'drizzle-orm';
+import { businessTimeRange, businessWeekday, startOfBusinessDay } from './business_time';
+
+type BookingRow = typeof bookingsTable.$inferSelect;
+type TeamRow = typeof teamsTable.$inferSelect;
+
+// Bookings that no longer need a crew
+const CLOSED_STATUSES: Booking['status'][] = ['finished', 'canceled'];
+
+function toBooking(booking: BookingRow): Booking {
+  return {
+    ...booking,
+    price_total: parseFloat(booking.price_total),
+    distance_fee: parseFloat(booking.distance_fee),
+    status: booking.status as Booking['status'],
+    car_type: booking.car_type as Booking['car_type']
+  };
+}
+
+// Why `team` can't take `booking`, or null when it can
+async function getAssignmentConflict(team: TeamRow, booking: BookingRow, executor: DbExecutor): Promise<string | null> {
+  if (!team.active) {
+    return `Team ${team.name} is inactive`;
+  }
+
+  if (team.home_zone_id !== booking.zone_id) {
+    return `Team ${team.name} does not cover zone ${booking.zone_id}`;
+  }
+
+  // The previous day's shifts count too when they run past midnight
+  const days = [startOfBusinessDay(booking.scheduled_window_start), startOfBusinessDay(booking.scheduled_window_start, -1)];
+  const shifts = await executor.select()
+    .from(teamShiftsTable)
+    .where(and(
+      eq(teamShiftsTable.team_id, team.id),
+      inArray(teamShiftsTable.weekday, days.map(businessWeekday))
+    ))
+    .execute();
+
+  const onShift = shifts.some(shift => days
+    .filter(day => businessWeekday(day) === shift.weekday)
+    .some(day => {
+      const range = businessTimeRange(day, shift.start_time, shift.end_time);
+      return range.start <= booking.scheduled_window_start && range.end >= booking.scheduled_window_end;
+    }));
+  if (!onShift) {
+    return `Team ${team.name} is not on shift for this booking`;
+  }
+
+  const clashes = await executor.select({ id: bookingsTable.id })
+    .from(bookingsTable)
+    .where(and(
+      eq(bookingsTable.team_id, team.id),
+      ne(bookingsTable.id, booking.id),
+      notInArray(bookingsTable.status, CLOSED_STATUSES),
+      lt(bookingsTable.scheduled_window_start, booking.scheduled_window_end),
+      gt(bookingsTable.scheduled_window_end, booking.scheduled_window_start)
+    ))
+    .execute();
+  if (clashes.length > 0) {
+    return `Team ${team.name} already has booking #${clashes[0].id} at that time`;
+  }
+
+  return null;
+}
+
+async function loadBooking(booking_id: number, executor: DbExecutor = db): Promise<BookingRow> {
+  const bookings = await executor.select()
+    .from(bookingsTable)
+    .where(eq(bookingsTable.id, booking_id))
+    .execute();
+
+  if (bookings.length === 0) {
+    throw new Error(`Booking with ID ${booking_id} not found`);
+  }
+
+  return bookings[0];
+}
+
+// Assigns or reassigns a booking to a crew; a null team_id unassigns it
+export const assignBookingToTeam = async (input: AssignBookingInput): Promise<Booking> => {
+  try {
+    const booking = await db.transaction(async (tx) => {
+      // Lock the booking so two dispatchers can't assign it at once
+      const locked = await tx.select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, input.booking_id))
+        .for('update')
+        .execute();
+
+      if (locked.length === 0) {
+        throw new Error(`Booking with ID ${input.booking_id} not found`);
+      }
+
+      const existing = locked[0];
+      if (CLOSED_STATUSES.includes(existing.status as Booking['status'])) {
+        throw new Error(`Cannot assign a ${existing.status} booking`);
+      }
+
+      if (input.team_id !== null) {
+        // Lock the team as well so it can't be double-booked by concurrent assignments
+        const teams = await tx.select()
+          .from(teamsTable)
+          .where(eq(teamsTable.id, input.team_id))
+          .for('update')
+          .execute();
+
+        if (teams.length === 0) {
+          throw new Error(`Team with ID ${input.team_id} not found`);
+        }
+
+        const conflict = await getAssignmentConflict(teams[0], existing, tx);
+        if (conflict) {
+          throw new Error(conflict);
+        }
+      }
+
+      const result = await tx.update(bookingsTable)
+        .set({ team_id: input.team_id })
+        .where(eq(bookingsTable.id, input.booking_id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    return toBooking(booking);
+  } catch (error) {
+    console.error('Booking assignment failed:', error);
+    throw error;
+  }
+};
+
+// Teams that could take the booking, crews matching its solo/team pricing first
+export const getAvailableTeamsForBooking = async (booking_id: number): Promise<Team[]> => {
+  try {
+    const booking = await loadBooking(booking_id);
+    const wantedType: Team['type'] = booking.is_solo ? 'solo' : 'team';
+
+    const teams = await db.select()
+      .from(teamsTable)
+      .where(and(eq(teamsTable.home_zone_id, booking.zone_id), eq(teamsTable.active, true)))
+      .orderBy(asc(teamsTable.id))
+      .execute();
+
+    const available: Team[] = [];
+    for (const team of teams) {
+      if (team.id !== booking.team_id && await getAssignmentConflict(team, booking, db) === null) {
+        available.push({ ...team, type: team.type as Team['type'] });
+      }
+    }
+
+    return available.sort((a, b) => Number(b.type === wantedType) - Number(a.type === wantedType));
+  } catch (error) {
+    console.error('Failed to fetch available teams:', error);
+    throw error;
+  }
+};
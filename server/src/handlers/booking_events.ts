@@ -0,0 +1,81 @@
+import { db, type DbExecutor } from '../db';
+import { bookingEventsTable, bookingsTable } from '../db/schema';
+import { type Booking, type BookingEvent } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+type BookingStatus = Booking['status'];
+
+// Allowed status changes; finished and canceled are terminal
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  confirmed: ['on_the_way', 'postponed', 'canceled'],
+  on_the_way: ['started', 'postponed', 'canceled'],
+  started: ['finished'],
+  postponed: ['confirmed', 'canceled'],
+  finished: [],
+  canceled: []
+};
+
+export function canTransitionBookingStatus(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export async function recordBookingEvent(
+  event: {
+    booking_id: number;
+    actor: string;
+    old_status: BookingStatus | null;
+    new_status: BookingStatus;
+    reason?: string | null;
+  },
+  executor: DbExecutor = db
+): Promise<BookingEvent> {
+  try {
+    const result = await executor.insert(bookingEventsTable)
+      .values({
+        booking_id: event.booking_id,
+        actor: event.actor,
+        old_status: event.old_status,
+        new_status: event.new_status,
+        reason: event.reason ?? null
+      })
+      .returning()
+      .execute();
+
+    return toBookingEvent(result[0]);
+  } catch (error) {
+    console.error('Booking event recording failed:', error);
+    throw error;
+  }
+}
+
+export async function getBookingTimeline(booking_id: number): Promise<BookingEvent[]> {
+  try {
+    const bookings = await db.select({ id: bookingsTable.id })
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, booking_id))
+      .execute();
+
+    if (bookings.length === 0) {
+      throw new Error(`Booking with ID ${booking_id} not found`);
+    }
+
+    const results = await db.select()
+      .from(bookingEventsTable)
+      .where(eq(bookingEventsTable.booking_id, booking_id))
+      .orderBy(asc(bookingEventsTable.created_at), asc(bookingEventsTable.id))
+      .execute();
+
+    return results.map(toBookingEvent);
+  } catch (error) {
+    console.error('Booking timeline retrieval failed:', error);
+    throw error;
+  }
+}
+
+function toBookingEvent(row: typeof bookingEventsTable.$inferSelect): BookingEvent {
+  return {
+    ...row,
+    old_status: row.old_status as BookingStatus | null,
+    new_status: row.new_status as BookingStatus
+  };
+}
@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { bookingsTable, customersTable, servicesTable } from '../db/schema';
+import { type Booking, type Language } from '../schema';
+import { eq } from 'drizzle-orm';
+import {
+  sendBookingConfirmation,
+  sendBookingReminder,
+  sendStatusUpdate,
+  type WhatsAppResponse
+} from './whatsapp_integration';
+import { createBookingToken, getBookingTokenExpiry } from './booking_tokens';
+
+type NotifiableStatus = 'on_the_way' | 'started' | 'finished';
+
+const NOTIFIABLE_STATUSES: Booking['status'][] = ['on_the_way', 'started', 'finished'];
+
+export function getPublicAppUrl(): string {
+  return (process.env['PUBLIC_APP_URL'] || 'http://localhost').replace(/\/$/, '');
+}
+
+// Customer-facing self-service links included in booking messages, signed for this booking only
+export function buildBookingLinks(booking: { id: number; scheduled_window_end: Date }): {
+  track_url: string;
+  edit_url: string;
+  cancel_url: string;
+  stars_link: string;
+  comment_link: string;
+} {
+  const token = createBookingToken(booking.id, getBookingTokenExpiry(booking.scheduled_window_end));
+  const base = `${getPublicAppUrl()}/b/${token}`;
+  return {
+    track_url: base,
+    edit_url: `${base}/edit`,
+    cancel_url: `${base}/cancel`,
+    stars_link: `${base}/review`,
+    comment_link: `${base}/review#comment`
+  };
+}
+
+function buildMapLink(geo_point: string): string {
+  try {
+    const point = JSON.parse(geo_point);
+    return `https://maps.google.com/?q=${point.lat},${point.lng}`;
+  } catch (parseError) {
+    console.error('Invalid booking geo point:', parseError);
+    return '';
+  }
+}
+
+async function loadBookingContext(booking_id: number) {
+  const results = await db.select()
+    .from(bookingsTable)
+    .innerJoin(customersTable, eq(bookingsTable.customer_id, customersTable.id))
+    .innerJoin(servicesTable, eq(bookingsTable.service_id, servicesTable.id))
+    .where(eq(bookingsTable.id, booking_id))
+    .execute();
+
+  if (results.length === 0) {
+    throw new Error(`Booking with ID ${booking_id} not found`);
+  }
+
+  return results[0];
+}
+
+// Sends the booking_confirmation template; failures are logged, never thrown,
+// so a WhatsApp outage can't undo a booking that has already been committed
+export async function notifyBookingConfirmed(booking_id: number): Promise<WhatsAppResponse> {
+  try {
+    const { bookings: booking, customers: customer, services: service } = await loadBookingContext(booking_id);
+    const links = buildBookingLinks(booking);
+    const language = customer.preferred_language as Language;
+
+    return await sendBookingConfirmation(customer.phone, {
+      name: customer.name,
+      service: language === 'en' ? service.name_en : service.name_ar,
+      price: parseFloat(booking.price_total),
+      date: booking.scheduled_window_start,
+      time: booking.scheduled_window_start,
+      map_link: buildMapLink(booking.geo_point),
+      track_url: links.track_url,
+      edit_url: links.edit_url,
+      cancel_url: links.cancel_url
+    }, { customer_id: customer.id, booking_id: booking.id }, language);
+  } catch (error) {
+    console.error('Booking confirmation notification failed:', error);
+    return {
+      message_id: `failed_${Date.now()}`,
+      status: 'failed'
+    };
+  }
+}
+
+// Sends the booking_<status> template for statuses customers are told about; returns null otherwise
+export async function notifyBookingStatusChange(
+  booking_id: number,
+  status: Booking['status'],
+  details?: { eta?: number }
+): Promise<WhatsAppResponse | null> {
+  if (!NOTIFIABLE_STATUSES.includes(status)) {
+    return null;
+  }
+
+  try {
+    const { bookings: booking, customers: customer } = await loadBookingContext(booking_id);
+    const links = buildBookingLinks(booking);
+
+    return await sendStatusUpdate(customer.phone, status as NotifiableStatus, {
+      eta: details?.eta,
+      stars_link: status === 'finished' ? links.stars_link : undefined,
+      comment_link: status === 'finished' ? links.comment_link : undefined
+    }, { customer_id: customer.id, booking_id: booking.id }, customer.preferred_language as Language);
+  } catch (error) {
+    console.error(`Booking ${status} notification failed:`, error);
+    return {
+      message_id: `failed_${Date.now()}`,
+      status: 'failed'
+    };
+  }
+}
+
+// Sends the booking_reminder template with the customer's self-service links; never throws
+export async function notifyBookingReminder(booking_id: number): Promise<WhatsAppResponse> {
+  try {
+    const { bookings: booking, customers: customer, services: service } = await loadBookingContext(booking_id);
+    const links = buildBookingLinks(booking);
+    const language = customer.preferred_language as Language;
+
+    return await sendBookingReminder(customer.phone, {
+      name: customer.name,
+      service: language === 'en' ? service.name_en : service.name_ar,
+      date: booking.scheduled_window_start,
+      time: booking.scheduled_window_start,
+      location: booking.address_text,
+      reschedule_url: links.edit_url,
+      cancel_url: links.cancel_url
+    }, { customer_id: customer.id, booking_id: booking.id }, language);
+  } catch (error) {
+    console.error('Booking reminder notification failed:', error);
+    return {
+      message_id: `failed_${Date.now()}`,
+      status: 'failed'
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { db } from '../db';
+import { bookingRemindersTable, bookingsTable } from '../db/schema';
+import { and, eq, gt, inArray, lte } from 'drizzle-orm';
+import { notifyBookingReminder } from './booking_notifications';
+
+export interface ReminderTier {
+  label: string; // stored per booking, e.g. 24h
+  lead_minutes: number;
+}
+
+const DEFAULT_REMINDER_LEAD_MINUTES = '1440,120';
+const DEFAULT_REMINDER_INTERVAL_SECONDS = 60;
+
+function tierLabel(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+}
+
+// Lead times come from BOOKING_REMINDER_LEAD_MINUTES (comma separated), longest first
+export function getReminderTiers(): ReminderTier[] {
+  const raw = process.env['BOOKING_REMINDER_LEAD_MINUTES'] || DEFAULT_REMINDER_LEAD_MINUTES;
+  const minutes = raw.split(',').map(value => Number(value.trim()));
+
+  if (minutes.some(value => !Number.isInteger(value) || value <= 0)) {
+    throw new Error(`Invalid BOOKING_REMINDER_LEAD_MINUTES '${raw}'`);
+  }
+
+  return [...new Set(minutes)]
+    .sort((a, b) => b - a)
+    .map(lead_minutes => ({ label: tierLabel(lead_minutes), lead_minutes }));
+}
+
+// Sends at most one reminder per booking per run: the tightest tier that is due.
+// Tiers a booking has already passed (e.g. while the server was down) are recorded as skipped,
+// and tiers whose window opened before the booking was made are never sent.
+export async function sendDueBookingReminders(
+  now: Date = new Date(),
+  tiers: ReminderTier[] = getReminderTiers()
+): Promise<{ sent: number; skipped: number }> {
+  try {
+    if (tiers.length === 0) {
+      return { sent: 0, skipped: 0 };
+    }
+
+    const maxLeadMinutes = Math.max(...tiers.map(tier => tier.lead_minutes));
+    const horizon = new Date(now.getTime() + maxLeadMinutes * 60 * 1000);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(and(
+        eq(bookingsTable.status, 'confirmed'),
+        gt(bookingsTable.scheduled_window_start, now),
+        lte(bookingsTable.scheduled_window_start, horizon)
+      ))
+      .execute();
+
+    if (bookings.length === 0) {
+      return { sent: 0, skipped: 0 };
+    }
+
+    const recorded = await db.select()
+      .from(bookingRemindersTable)
+      .where(inArray(bookingRemindersTable.booking_id, bookings.map(booking => booking.id)))
+      .execute();
+
+    let sent = 0;
+    let skipped = 0;
+
+    for (const booking of bookings) {
+      const pending = tiers.filter(tier => {
+        const opensAt = booking.scheduled_window_start.getTime() - tier.lead_minutes * 60 * 1000;
+        return opensAt <= now.getTime() &&
+          booking.created_at.getTime() < opensAt &&
+          !recorded.some(reminder => reminder.booking_id === booking.id && reminder.tier === tier.label);
+      });
+
+      if (pending.length === 0) {
+        continue;
+      }
+
+      // Claim every pending tier; another server instance may have claimed some of them already
+      const claimed = await db.insert(bookingRemindersTable)
+        .values(pending.map(tier => ({ booking_id: booking.id, tier: tier.label })))
+        .onConflictDoNothing()
+        .returning()
+        .execute();
+
+      const tightest = pending[pending.length - 1];
+      for (const claim of claimed) {
+        if (claim.tier !== tightest.label) {
+          skipped++;
+          continue;
+        }
+
+        const result = await notifyBookingReminder(booking.id);
+        await db.update(bookingRemindersTable)
+          .set({ message_id: result.message_id })
+          .where(eq(bookingRemindersTable.id, claim.id))
+          .execute();
+        sent++;
+      }
+    }
+
+    return { sent, skipped };
+  } catch (error) {
+    console.error('Booking reminder run failed:', error);
+    throw error;
+  }
+}
+
+// Polls for due reminders in the server process; returns a function that stops the scheduler
+export function startBookingReminderScheduler(
+  intervalMs: number = Number(process.env['BOOKING_REMINDER_INTERVAL_SECONDS'] || DEFAULT_REMINDER_INTERVAL_SECONDS) * 1000
+): () => void {
+  const tiers = getReminderTiers();
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await sendDueBookingReminders(new Date(), tiers);
+    } catch (error) {
+      console.error('Booking reminder scheduler tick failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(timer);
+}
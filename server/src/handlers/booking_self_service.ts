@@ -0,0 +1,227 @@
+import { db, type DbExecutor } from '../db';
+import { bookingRemindersTable, bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
+import {
+  type Booking,
+  type CancelBookingByTokenInput,
+  type PublicBooking,
+  type RescheduleBookingByTokenInput
+} from '../schema';
+import { eq } from 'drizzle-orm';
+import { verifyBookingToken } from './booking_tokens';
+import { getAvailableTimeSlots, getJobMinutes, validateTimeSlot } from './time_slots';
+import { recordBookingEvent } from './booking_events';
+import { notifyBookingConfirmed } from './booking_notifications';
+import { updateBooking } from './update_booking';
+import { offerWaitlistedSlots } from './waitlist';
+import { getRescheduledPrice } from './calculate_price';
+
+const DEFAULT_CHANGE_CUTOFF_MINUTES = 120;
+
+// Customers may only move or cancel bookings the team hasn't started on
+const CHANGEABLE_STATUSES: Booking['status'][] = ['confirmed', 'postponed'];
+
+// BOOKING_CHANGE_CUTOFF_MINUTES: how long before the window starts self-service changes close
+export function getChangeCutoffMinutes(): number {
+  const raw = process.env['BOOKING_CHANGE_CUTOFF_MINUTES'];
+  if (raw === undefined || raw === '') {
+    return DEFAULT_CHANGE_CUTOFF_MINUTES;
+  }
+
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`Invalid BOOKING_CHANGE_CUTOFF_MINUTES '${raw}'`);
+  }
+  return minutes;
+}
+
+type BookingRow = typeof bookingsTable.$inferSelect;
+
+// Postponed bookings are waiting for a new time, so the cutoff doesn't apply to them
+function getChangeDeadline(booking: BookingRow): Date | null {
+  if (booking.status === 'postponed') {
+    return null;
+  }
+  return new Date(booking.scheduled_window_start.getTime() - getChangeCutoffMinutes() * 60 * 1000);
+}
+
+function canChange(booking: BookingRow, now: Date): boolean {
+  const deadline = getChangeDeadline(booking);
+  return CHANGEABLE_STATUSES.includes(booking.status as Booking['status']) &&
+    (deadline === null || now < deadline);
+}
+
+function assertCanChange(booking: BookingRow, now: Date): void {
+  if (!CHANGEABLE_STATUSES.includes(booking.status as Booking['status'])) {
+    throw new Error(`Bookings that are ${booking.status} can no longer be changed`);
+  }
+
+  const deadline = getChangeDeadline(booking);
+  if (deadline !== null && now >= deadline) {
+    throw new Error(`Bookings can only be changed up to ${getChangeCutoffMinutes()} minutes before they start`);
+  }
+}
+
+async function loadBookingByToken(token: string, now: Date, executor: DbExecutor = db) {
+  const booking_id = verifyBookingToken(token, now);
+
+  const results = await executor.select()
+    .from(bookingsTable)
+    .innerJoin(customersTable, eq(bookingsTable.customer_id, customersTable.id))
+    .innerJoin(servicesTable, eq(bookingsTable.service_id, servicesTable.id))
+    .where(eq(bookingsTable.id, booking_id))
+    .execute();
+
+  if (results.length === 0) {
+    throw new Error('Booking not found');
+  }
+
+  const { bookings: booking } = results[0];
+  return { ...results[0], service_duration: await getJobMinutes(booking.service_id, booking.addons, executor) };
+}
+
+function toPublicBooking(
+  { bookings: booking, customers: customer, services: service, service_duration }: Awaited<ReturnType<typeof loadBookingByToken>>,
+  now: Date
+): PublicBooking {
+  const changeable = canChange(booking, now);
+
+  return {
+    id: booking.id,
+    status: booking.status as Booking['status'],
+    customer_name: customer.name,
+    service_id: service.id,
+    service_name_ar: service.name_ar,
+    service_name_en: service.name_en,
+    service_duration,
+    zone_id: booking.zone_id,
+    car_type: booking.car_type as Booking['car_type'],
+    address_text: booking.address_text,
+    scheduled_window_start: booking.scheduled_window_start,
+    scheduled_window_end: booking.scheduled_window_end,
+    price_total: parseFloat(booking.price_total),
+    can_reschedule: changeable,
+    can_cancel: changeable,
+    change_deadline: getChangeDeadline(booking)
+  };
+}
+
+export async function getBookingByToken(token: string, now: Date = new Date()): Promise<PublicBooking> {
+  try {
+    return toPublicBooking(await loadBookingByToken(token, now), now);
+  } catch (error) {
+    console.error('Booking lookup by token failed:', error);
+    throw error;
+  }
+}
+
+export async function rescheduleBookingByToken(
+  input: RescheduleBookingByTokenInput,
+  now: Date = new Date()
+): Promise<PublicBooking> {
+  try {
+    const { start, end } = input.scheduled_window;
+    const { bookings: booking, service_duration } = await loadBookingByToken(input.token, now);
+    assertCanChange(booking, now);
+
+    if (start >= end || start <= now) {
+      throw new Error('Selected time slot is not available');
+    }
+
+    // Customers pick from the same slots the booking form offers
+    const slots = await getAvailableTimeSlots(booking.zone_id, service_duration, start, booking.id);
+    const offered = slots.some(slot =>
+      slot.available && slot.start.getTime() === start.getTime() && slot.end.getTime() === end.getTime()
+    );
+    if (!offered) {
+      throw new Error('Selected time slot is not available');
+    }
+
+    // Peak and quiet slots cost different amounts, so the move is charged at the new slot's surge
+    const priceTotal = await getRescheduledPrice(booking, input.scheduled_window);
+
+    const previous = await db.transaction(async (tx) => {
+      // Same zone lock as createBooking so a reschedule can't race a new booking for the last slot
+      await tx.select()
+        .from(zonesTable)
+        .where(eq(zonesTable.id, booking.zone_id))
+        .for('update')
+        .execute();
+
+      const locked = await tx.select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, booking.id))
+        .for('update')
+        .execute();
+
+      // Re-check under the lock in case dispatch changed the booking meanwhile
+      assertCanChange(locked[0], now);
+
+      if (!await validateTimeSlot(booking.zone_id, start, end, tx, booking.id, service_duration)) {
+        throw new Error('Selected time slot is not available');
+      }
+
+      await tx.update(bookingsTable)
+        // The crew was planned for the old time, so dispatch assigns one again
+        .set({
+          scheduled_window_start: start,
+          scheduled_window_end: end,
+          price_total: priceTotal.toString(),
+          status: 'confirmed',
+          needs_reschedule: false,
+          team_id: null
+        })
+        .where(eq(bookingsTable.id, booking.id))
+        .execute();
+
+      if (locked[0].status !== 'confirmed') {
+        await recordBookingEvent({
+          booking_id: booking.id,
+          actor: 'customer',
+          old_status: locked[0].status as Booking['status'],
+          new_status: 'confirmed',
+          reason: 'Rescheduled by customer'
+        }, tx);
+      }
+
+      // Reminders are re-sent for the new time
+      await tx.delete(bookingRemindersTable)
+        .where(eq(bookingRemindersTable.booking_id, booking.id))
+        .execute();
+
+      return locked[0];
+    });
+
+    // Confirm the new time (with fresh links) once it is committed
+    await notifyBookingConfirmed(booking.id);
+
+    // Customers waiting for the window the booking left get offered it
+    await offerWaitlistedSlots(previous.zone_id, previous.scheduled_window_start, previous.scheduled_window_end, now);
+
+    return toPublicBooking(await loadBookingByToken(input.token, now), now);
+  } catch (error) {
+    console.error('Booking reschedule by token failed:', error);
+    throw error;
+  }
+}
+
+export async function cancelBookingByToken(
+  input: CancelBookingByTokenInput,
+  now: Date = new Date()
+): Promise<PublicBooking> {
+  try {
+    const { bookings: booking } = await loadBookingByToken(input.token, now);
+    assertCanChange(booking, now);
+
+    // updateBooking enforces the status transition rules and records the event
+    await updateBooking({
+      id: booking.id,
+      status: 'canceled',
+      reason: input.reason || 'Canceled by customer'
+    }, 'customer');
+
+    return toPublicBooking(await loadBookingByToken(input.token, now), now);
+  } catch (error) {
+    console.error('Booking cancellation by token failed:', error);
+    throw error;
+  }
+}
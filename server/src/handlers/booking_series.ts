@@ -0,0 +1,499 @@
+import { db } from '../db';
+import {
+  addonsTable,
+  bookingSeriesOccurrencesTable,
+  bookingSeriesTable,
+  bookingsTable,
+  customersTable
+} from '../db/schema';
+import {
+  type Booking,
+  type BookingSeries,
+  type BookingSeriesConflict,
+  type BookingSeriesDetails,
+  type BookingSeriesOccurrence,
+  type BookingSeriesOccurrenceStatus,
+  type CreateBookingSeriesInput,
+  type GetBookingSeriesConflictsInput,
+  type SkipSeriesOccurrenceInput
+} from '../schema';
+import { and, asc, eq, gte, inArray, lte, type SQL } from 'drizzle-orm';
+import { createCustomer } from './create_customer';
+import { calculatePrice } from './calculate_price';
+import { insertBookingUnderZoneLock } from './create_booking';
+import { updateBooking } from './update_booking';
+import { atBusinessTime, businessWeekday, fromDateKey, toDateKey } from './business_time';
+
+const DEFAULT_HORIZON_DAYS = 28;
+const DEFAULT_SERIES_INTERVAL_SECONDS = 60 * 60;
+
+// Bookings a skipped or canceled occurrence still has to cancel
+const CANCELABLE_STATUSES: Booking['status'][] = ['confirmed', 'postponed'];
+
+type SeriesRow = typeof bookingSeriesTable.$inferSelect;
+type OccurrenceRow = typeof bookingSeriesOccurrencesTable.$inferSelect;
+
+// BOOKING_SERIES_HORIZON_DAYS: how far ahead recurring occurrences are booked
+export function getSeriesHorizonDays(): number {
+  const raw = process.env['BOOKING_SERIES_HORIZON_DAYS'];
+  if (raw === undefined || raw === '') {
+    return DEFAULT_HORIZON_DAYS;
+  }
+
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(`Invalid BOOKING_SERIES_HORIZON_DAYS '${raw}'`);
+  }
+  return days;
+}
+
+function toBookingSeries(row: SeriesRow): BookingSeries {
+  return {
+    ...row,
+    car_type: row.car_type as BookingSeries['car_type'],
+    frequency: row.frequency as BookingSeries['frequency'],
+    status: row.status as BookingSeries['status']
+  };
+}
+
+function toOccurrence(row: OccurrenceRow): BookingSeriesOccurrence {
+  return {
+    ...row,
+    status: row.status as BookingSeriesOccurrenceStatus
+  };
+}
+
+// Dates (YYYY-MM-DD) the series falls on between `from` and `to`, inclusive.
+// Bi-weekly series count fortnights from their first date, not from `from`.
+export function getSeriesDates(
+  series: Pick<SeriesRow, 'frequency' | 'weekday' | 'start_date' | 'end_date'>,
+  from: string,
+  to: string
+): string[] {
+  const step = series.frequency === 'biweekly' ? 14 : 7;
+  const last = series.end_date !== null && series.end_date < to ? series.end_date : to;
+  const first = (series.weekday - businessWeekday(fromDateKey(series.start_date)) + 7) % 7;
+
+  const dates: string[] = [];
+  for (let offset = first; ; offset += step) {
+    const date = toDateKey(fromDateKey(series.start_date, offset));
+    if (date > last) {
+      break;
+    }
+    if (date >= from) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+function occurrenceWindow(series: SeriesRow, date: string): { start: Date; end: Date } {
+  const day = fromDateKey(date);
+  return {
+    start: atBusinessTime(day, series.window_start),
+    end: atBusinessTime(day, series.window_end)
+  };
+}
+
+async function loadSeries(series_id: number): Promise<SeriesRow> {
+  const series = await db.select()
+    .from(bookingSeriesTable)
+    .where(eq(bookingSeriesTable.id, series_id))
+    .execute();
+
+  if (series.length === 0) {
+    throw new Error(`Booking series with ID ${series_id} not found`);
+  }
+  return series[0];
+}
+
+async function loadOccurrences(series_id: number): Promise<BookingSeriesOccurrence[]> {
+  const occurrences = await db.select()
+    .from(bookingSeriesOccurrencesTable)
+    .where(eq(bookingSeriesOccurrencesTable.series_id, series_id))
+    .orderBy(asc(bookingSeriesOccurrencesTable.date))
+    .execute();
+
+  return occurrences.map(toOccurrence);
+}
+
+// Books one date of a series through insertBookingUnderZoneLock, like createBooking.
+// A full or closed window is recorded as a conflict for the dispatcher instead.
+// Returns null when the date was settled by someone else in the meantime.
+async function bookOccurrence(series: SeriesRow, date: string): Promise<BookingSeriesOccurrenceStatus | null> {
+  const window = occurrenceWindow(series, date);
+  const geoPoint = JSON.parse(series.geo_point);
+  const customers = await db.select({ phone: customersTable.phone })
+    .from(customersTable)
+    .where(eq(customersTable.id, series.customer_id))
+    .execute();
+
+  // Priced for the series' customer, so their subscription pays for occurrences like any booking
+  const price = await calculatePrice({
+    service_id: series.service_id,
+    addons: series.addons,
+    car_type: series.car_type as BookingSeries['car_type'],
+    zone_id: series.zone_id,
+    geo_point: geoPoint,
+    is_solo: series.is_solo,
+    customer_phone: customers[0]?.phone,
+    use_subscription: true,
+    scheduled_window: window
+  });
+
+  const booked = await insertBookingUnderZoneLock({
+    service_id: series.service_id,
+    addons: series.addons,
+    car_type: series.car_type,
+    zone_id: series.zone_id,
+    address_text: series.address_text,
+    geo_point: series.geo_point,
+    scheduled_window: window,
+    is_solo: series.is_solo,
+    price,
+    series_id: series.id,
+    actor: 'system',
+    reason: 'Recurring booking'
+  }, {
+    prepare: async (tx) => {
+      // A concurrent run or a skip may have settled this date while we waited for the lock
+      const existing = await tx.select()
+        .from(bookingSeriesOccurrencesTable)
+        .where(and(
+          eq(bookingSeriesOccurrencesTable.series_id, series.id),
+          eq(bookingSeriesOccurrencesTable.date, date)
+        ))
+        .execute();
+
+      return existing.length > 0 && existing[0].status !== 'conflict' ? null : series.customer_id;
+    },
+    complete: async (tx, booking) => {
+      const status: BookingSeriesOccurrenceStatus = booking ? 'booked' : 'conflict';
+      const bookingId = booking?.id ?? null;
+      await tx.insert(bookingSeriesOccurrencesTable)
+        .values({ series_id: series.id, date, status, booking_id: bookingId })
+        .onConflictDoUpdate({
+          target: [bookingSeriesOccurrencesTable.series_id, bookingSeriesOccurrencesTable.date],
+          set: { status, booking_id: bookingId }
+        })
+        .execute();
+      return status;
+    }
+  });
+
+  return booked?.result ?? null;
+}
+
+// Books every active series up to the horizon. Dates that conflicted on an earlier run are
+// retried, so a conflict clears itself once capacity frees up. Returns what this run did.
+export async function generateSeriesOccurrences(
+  now: Date = new Date(),
+  series_id?: number
+): Promise<{ booked: number; conflicts: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(bookingSeriesTable.status, 'active')];
+    if (series_id !== undefined) {
+      conditions.push(eq(bookingSeriesTable.id, series_id));
+    }
+
+    const seriesList = await db.select()
+      .from(bookingSeriesTable)
+      .where(and(...conditions))
+      .execute();
+
+    const today = toDateKey(now);
+    const horizon = toDateKey(fromDateKey(today, getSeriesHorizonDays()));
+    let booked = 0;
+    let conflicts = 0;
+
+    for (const series of seriesList) {
+      const settled = await db.select()
+        .from(bookingSeriesOccurrencesTable)
+        .where(and(
+          eq(bookingSeriesOccurrencesTable.series_id, series.id),
+          gte(bookingSeriesOccurrencesTable.date, today)
+        ))
+        .execute();
+      const settledDates = new Set(settled.filter(occurrence => occurrence.status !== 'conflict').map(occurrence => occurrence.date));
+
+      for (const date of getSeriesDates(series, today, horizon)) {
+        if (settledDates.has(date) || occurrenceWindow(series, date).start <= now) {
+          continue;
+        }
+
+        try {
+          const status = await bookOccurrence(series, date);
+          if (status === 'booked') {
+            booked++;
+          } else if (status === 'conflict') {
+            conflicts++;
+          }
+        } catch (error) {
+          // One broken series (e.g. a deleted service) shouldn't hold up the others
+          console.error(`Booking series ${series.id} occurrence ${date} failed:`, error);
+        }
+      }
+    }
+
+    return { booked, conflicts };
+  } catch (error) {
+    console.error('Booking series generation failed:', error);
+    throw error;
+  }
+}
+
+// Books upcoming occurrences in the server process; returns a function that stops the scheduler
+export function startBookingSeriesScheduler(
+  intervalMs: number = Number(process.env['BOOKING_SERIES_INTERVAL_SECONDS'] || DEFAULT_SERIES_INTERVAL_SECONDS) * 1000
+): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await generateSeriesOccurrences(new Date());
+    } catch (error) {
+      console.error('Booking series scheduler tick failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(timer);
+}
+
+export async function createBookingSeries(
+  input: CreateBookingSeriesInput,
+  now: Date = new Date()
+): Promise<BookingSeriesDetails> {
+  try {
+    if (input.addons.length > 0) {
+      const addons = await db.select()
+        .from(addonsTable)
+        .where(inArray(addonsTable.id, input.addons))
+        .execute();
+
+      if (addons.length !== input.addons.length) {
+        throw new Error('One or more addons not found');
+      }
+    }
+
+    // Validates the service and zone the same way a single booking does
+    await calculatePrice({
+      service_id: input.service_id,
+      addons: input.addons,
+      car_type: input.car_type,
+      zone_id: input.zone_id,
+      geo_point: input.geo_point,
+      is_solo: input.is_solo
+    });
+
+    const customer = await createCustomer({
+      name: input.customer.name,
+      phone: input.customer.phone,
+      whatsapp_verified: false,
+      preferred_language: input.customer.preferred_language ?? 'ar'
+    });
+
+    const inserted = await db.insert(bookingSeriesTable)
+      .values({
+        customer_id: customer.id,
+        zone_id: input.zone_id,
+        service_id: input.service_id,
+        addons: input.addons,
+        car_type: input.car_type,
+        address_text: input.address_text,
+        geo_point: JSON.stringify(input.geo_point),
+        is_solo: input.is_solo,
+        frequency: input.frequency,
+        weekday: input.weekday,
+        window_start: input.window_start,
+        window_end: input.window_end,
+        start_date: input.start_date,
+        end_date: input.end_date
+      })
+      .returning()
+      .execute();
+
+    const series = inserted[0];
+    await generateSeriesOccurrences(now, series.id);
+
+    return {
+      series: toBookingSeries(series),
+      occurrences: await loadOccurrences(series.id)
+    };
+  } catch (error) {
+    console.error('Booking series creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getBookingSeries(series_id: number): Promise<BookingSeriesDetails> {
+  try {
+    const series = await loadSeries(series_id);
+
+    return {
+      series: toBookingSeries(series),
+      occurrences: await loadOccurrences(series.id)
+    };
+  } catch (error) {
+    console.error('Booking series lookup failed:', error);
+    throw error;
+  }
+}
+
+// Occurrences of active series that couldn't be booked, soonest first
+export async function getSeriesConflicts(input: GetBookingSeriesConflictsInput = {}): Promise<BookingSeriesConflict[]> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(bookingSeriesOccurrencesTable.status, 'conflict'),
+      eq(bookingSeriesTable.status, 'active')
+    ];
+
+    if (input.zone_id !== undefined) {
+      conditions.push(eq(bookingSeriesTable.zone_id, input.zone_id));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(bookingSeriesOccurrencesTable.date, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lte(bookingSeriesOccurrencesTable.date, input.to));
+    }
+
+    const results = await db.select({
+      occurrence_id: bookingSeriesOccurrencesTable.id,
+      series_id: bookingSeriesTable.id,
+      date: bookingSeriesOccurrencesTable.date,
+      customer_id: customersTable.id,
+      customer_name: customersTable.name,
+      customer_phone: customersTable.phone,
+      zone_id: bookingSeriesTable.zone_id,
+      window_start: bookingSeriesTable.window_start,
+      window_end: bookingSeriesTable.window_end
+    })
+      .from(bookingSeriesOccurrencesTable)
+      .innerJoin(bookingSeriesTable, eq(bookingSeriesTable.id, bookingSeriesOccurrencesTable.series_id))
+      .innerJoin(customersTable, eq(customersTable.id, bookingSeriesTable.customer_id))
+      .where(and(...conditions))
+      .orderBy(asc(bookingSeriesOccurrencesTable.date), asc(bookingSeriesTable.window_start))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Booking series conflict lookup failed:', error);
+    throw error;
+  }
+}
+
+// Cancels the booking for one date if it was made and keeps the generator from booking it again
+async function closeOccurrence(
+  series: SeriesRow,
+  date: string,
+  status: 'skipped' | 'canceled',
+  actor: string,
+  reason: string
+): Promise<OccurrenceRow> {
+  const existing = await db.select()
+    .from(bookingSeriesOccurrencesTable)
+    .where(and(
+      eq(bookingSeriesOccurrencesTable.series_id, series.id),
+      eq(bookingSeriesOccurrencesTable.date, date)
+    ))
+    .execute();
+
+  const occurrence = existing[0];
+  if (occurrence?.booking_id) {
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, occurrence.booking_id))
+      .execute();
+
+    if (bookings.length > 0 && CANCELABLE_STATUSES.includes(bookings[0].status as Booking['status'])) {
+      await updateBooking({ id: occurrence.booking_id, status: 'canceled', reason }, actor);
+    }
+  }
+
+  const closed = await db.insert(bookingSeriesOccurrencesTable)
+    .values({ series_id: series.id, date, status })
+    .onConflictDoUpdate({
+      target: [bookingSeriesOccurrencesTable.series_id, bookingSeriesOccurrencesTable.date],
+      set: { status }
+    })
+    .returning()
+    .execute();
+
+  return closed[0];
+}
+
+// Skips one date of a series, canceling its booking if one was already made
+export async function skipSeriesOccurrence(
+  input: SkipSeriesOccurrenceInput,
+  actor: string = 'system'
+): Promise<BookingSeriesOccurrence> {
+  try {
+    const series = await loadSeries(input.series_id);
+    if (series.status !== 'active') {
+      throw new Error('Booking series has been canceled');
+    }
+    if (getSeriesDates(series, input.date, input.date).length === 0) {
+      throw new Error(`Booking series ${series.id} has no occurrence on ${input.date}`);
+    }
+
+    return toOccurrence(await closeOccurrence(series, input.date, 'skipped', actor, 'Recurring wash skipped'));
+  } catch (error) {
+    console.error('Skipping series occurrence failed:', error);
+    throw error;
+  }
+}
+
+// Ends a series: upcoming bookings are canceled and nothing further is generated.
+// Past occurrences keep their status so the history stays intact.
+export async function cancelBookingSeries(
+  series_id: number,
+  actor: string = 'system',
+  now: Date = new Date()
+): Promise<BookingSeriesDetails> {
+  try {
+    const series = await loadSeries(series_id);
+    if (series.status === 'canceled') {
+      throw new Error('Booking series has already been canceled');
+    }
+
+    const updated = await db.update(bookingSeriesTable)
+      .set({ status: 'canceled' })
+      .where(eq(bookingSeriesTable.id, series_id))
+      .returning()
+      .execute();
+
+    const upcoming = await db.select()
+      .from(bookingSeriesOccurrencesTable)
+      .where(and(
+        eq(bookingSeriesOccurrencesTable.series_id, series_id),
+        inArray(bookingSeriesOccurrencesTable.status, ['booked', 'conflict']),
+        gte(bookingSeriesOccurrencesTable.date, toDateKey(now))
+      ))
+      .execute();
+
+    for (const occurrence of upcoming) {
+      if (occurrenceWindow(series, occurrence.date).start > now) {
+        await closeOccurrence(series, occurrence.date, 'canceled', actor, 'Recurring series canceled');
+      }
+    }
+
+    return {
+      series: toBookingSeries(updated[0]),
+      occurrences: await loadOccurrences(series_id)
+    };
+  } catch (error) {
+    console.error('Booking series cancellation failed:', error);
+    throw error;
+  }
+}
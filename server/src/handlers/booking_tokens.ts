@@ -0,0 +1,91 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const DEFAULT_LINK_TTL_DAYS = 30;
+
+let testSecret: string | null = null;
+
+// BOOKING_LINK_SECRET signs customer booking links, so it is required: a per-process key would
+// silently break every link sent before a restart. Only the test runner signs with a throwaway key.
+export function getBookingLinkSecret(): string {
+  const secret = process.env['BOOKING_LINK_SECRET'];
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env['NODE_ENV'] !== 'test') {
+    throw new Error('BOOKING_LINK_SECRET must be set to sign customer booking links');
+  }
+  if (!testSecret) {
+    testSecret = randomBytes(32).toString('hex');
+  }
+  return testSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getBookingLinkSecret()).update(payload).digest('base64url');
+}
+
+// Links stay valid for BOOKING_LINK_TTL_DAYS after the booking window (reviews come after the visit)
+export function getBookingTokenExpiry(scheduled_window_end: Date, now: Date = new Date()): Date {
+  const days = Number(process.env['BOOKING_LINK_TTL_DAYS']) || DEFAULT_LINK_TTL_DAYS;
+  const base = Math.max(scheduled_window_end.getTime(), now.getTime());
+  return new Date(base + days * 24 * 60 * 60 * 1000);
+}
+
+// Token format: <booking id>.<expiry in unix seconds>.<HMAC-SHA256 signature>
+export function createBookingToken(booking_id: number, expires_at: Date): string {
+  const payload = `${booking_id}.${Math.floor(expires_at.getTime() / 1000)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the booking id the token was issued for
+export function verifyBookingToken(token: string, now: Date = new Date()): number {
+  const [bookingPart, expiryPart, signature] = token.split('.');
+  const booking_id = Number(bookingPart);
+  const expires = Number(expiryPart);
+
+  if (!signature || !Number.isInteger(booking_id) || booking_id <= 0 || !Number.isInteger(expires)) {
+    throw new Error('Invalid booking link');
+  }
+
+  const expected = Buffer.from(sign(`${bookingPart}.${expiryPart}`));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    throw new Error('Invalid booking link');
+  }
+
+  if (expires * 1000 <= now.getTime()) {
+    throw new Error('Booking link has expired');
+  }
+
+  return booking_id;
+}
+
+// Waitlist claim links sign `w<entry id>` so they can never be mistaken for a booking link
+export function createWaitlistClaimToken(entry_id: number, expires_at: Date): string {
+  const payload = `w${entry_id}.${Math.floor(expires_at.getTime() / 1000)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the waitlist entry id the token was issued for
+export function verifyWaitlistClaimToken(token: string, now: Date = new Date()): number {
+  const [entryPart, expiryPart, signature] = token.split('.');
+  const entry_id = entryPart?.startsWith('w') ? Number(entryPart.slice(1)) : NaN;
+  const expires = Number(expiryPart);
+
+  if (!signature || !Number.isInteger(entry_id) || entry_id <= 0 || !Number.isInteger(expires)) {
+    throw new Error('Invalid waitlist link');
+  }
+
+  const expected = Buffer.from(sign(`${entryPart}.${expiryPart}`));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    throw new Error('Invalid waitlist link');
+  }
+
+  if (expires * 1000 <= now.getTime()) {
+    throw new Error('This offer has expired');
+  }
+
+  return entry_id;
+}
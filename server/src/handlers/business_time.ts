@@ -0,0 +1,129 @@
+// Day boundaries, weekdays and opening hours are wall-clock times in the business timezone,
+// never the host's. Everything here converts between those and absolute instants.
+
+const DEFAULT_BUSINESS_TIMEZONE = 'Asia/Riyadh';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface BusinessDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday, matching team_shifts.weekday and weekly_hours
+}
+
+export function getBusinessTimeZone(): string {
+  return process.env['BUSINESS_TIMEZONE'] || DEFAULT_BUSINESS_TIMEZONE;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): BusinessDateParts & { second: number } {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts['year']),
+    month: Number(parts['month']),
+    day: Number(parts['day']),
+    hour: Number(parts['hour']),
+    minute: Number(parts['minute']),
+    second: Number(parts['second']),
+    weekday: WEEKDAYS.indexOf(parts['weekday'])
+  };
+}
+
+// Milliseconds the business timezone is ahead of UTC at `instant`
+function getOffset(instant: number, timeZone: string): number {
+  const wholeSecond = Math.floor(instant / 1000) * 1000;
+  const parts = getZonedParts(new Date(wholeSecond), timeZone);
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - wholeSecond;
+}
+
+export function getBusinessDateParts(date: Date): BusinessDateParts {
+  const { second, ...parts } = getZonedParts(date, getBusinessTimeZone());
+  return parts;
+}
+
+// The instant a wall-clock time occurs in the business timezone; out-of-range days roll over like Date.UTC
+export function businessDateTime(year: number, month: number, day: number, hours: number = 0, minutes: number = 0): Date {
+  const timeZone = getBusinessTimeZone();
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+  // The offset at the guess can differ from the offset at the answer across a DST change
+  let instant = wall - getOffset(wall, timeZone);
+  const offset = getOffset(instant, timeZone);
+  if (wall - instant !== offset) {
+    instant = wall - offset;
+  }
+  return new Date(instant);
+}
+
+// Weekday of `date` in the business timezone, 0 = Sunday
+export function businessWeekday(date: Date): number {
+  return getBusinessDateParts(date).weekday;
+}
+
+// Minutes since business midnight
+export function businessMinutesOfDay(date: Date): number {
+  const { hour, minute } = getBusinessDateParts(date);
+  return hour * 60 + minute;
+}
+
+// Start of the business day containing `date`, moved `days` days along
+export function startOfBusinessDay(date: Date, days: number = 0): Date {
+  const { year, month, day } = getBusinessDateParts(date);
+  return businessDateTime(year, month, day + days);
+}
+
+// The business day of `date` with its clock set to an HH:MM time of day
+export function atBusinessTime(date: Date, time: string): Date {
+  const { year, month, day } = getBusinessDateParts(date);
+  const [hours, minutes] = time.split(':').map(Number);
+  return businessDateTime(year, month, day, hours, minutes);
+}
+
+// An HH:MM-HH:MM range on the business day of `date`; an end at or before the start is read as
+// past midnight, so 21:00-02:00 closes at 02:00 the next day
+export function businessTimeRange(date: Date, start: string, end: string): { start: Date; end: Date } {
+  const rangeStart = atBusinessTime(date, start);
+  const rangeEnd = atBusinessTime(date, end);
+  return {
+    start: rangeStart,
+    end: end <= start ? atBusinessTime(startOfBusinessDay(date, 1), end) : rangeEnd
+  };
+}
+
+// Business calendar date of `date` as YYYY-MM-DD, matching the date columns
+export function toDateKey(date: Date): string {
+  const { year, month, day } = getBusinessDateParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Start of the business day named by a YYYY-MM-DD key, moved `days` days along
+export function fromDateKey(dateKey: string, days: number = 0): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return businessDateTime(year, month, day + days);
+}
@@ -1,24 +1,67 @@
 import { db } from '../db';
-import { servicesTable, addonsTable, zonesTable, pricingRulesTable } from '../db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { servicesTable, addonsTable, zonesTable, bookingsTable, customersTable } from '../db/schema';
+import { type CarType } from '../schema';
+import { eq, inArray } from 'drizzle-orm';
+import { computeZoneDistanceFee, computeTimeMultiplier, computeUtilisationMultiplier, loadPricingRule } from './pricing_rules';
+import { getDayUtilisation, getZoneSchedule, type TimeSlot } from './time_slots';
+import { loadCarTypePrices } from './price_matrix';
+import { findCustomerByPhone } from './create_customer';
+import { findCoveringSubscription } from './subscription_plans';
+import { evaluateCoupon } from './coupons';
+import { verifyBookingToken } from './booking_tokens';
 
 export interface PriceCalculationInput {
     service_id: number;
     addons: number[];
-    car_type: 'sedan' | 'suv' | 'pickup';
+    car_type: CarType;
     zone_id: number;
     geo_point: { lat: number; lng: number };
     is_solo: boolean;
+    customer_phone?: string; // counts the customer's coupon uses
+    use_subscription?: boolean; // lets the customer's active subscription pay for the service; only for a known customer
+    coupon_code?: string;
+    scheduled_window?: { start: Date; end: Date }; // prices peak and quiet slots differently
+}
+
+export interface PublicPriceInput extends Omit<PriceCalculationInput, 'use_subscription'> {
+    booking_token?: string; // a customer's booking link, proving who they are so their subscription applies
 }
 
 export interface PriceCalculationResult {
     base_price: number;
     addons_total: number;
     distance_fee: number;
+    surge_multiplier: number; // time-of-day and demand multipliers for the slot, 1 when unpriced
+    surge_adjustment: number; // added to service and add-ons by the surge, negative for discounts
     total_price: number;
     estimated_duration: number;
+    subscription_discount: number; // base price covered by a subscription credit
+    subscription_id: number | null; // the subscription the credit would come from
+    coupon_discount: number;
+    coupon_id: number | null;
 }
 
+// Surge for slots in one zone on the business day of `date`: the time-of-day rule for each slot
+// times the demand rule for how full the day already is, so the schedule is read once for all slots.
+// A booking being moved is left out of the day, as it was when it was first priced.
+export const getSlotSurge = async (
+    zone_id: number,
+    date: Date,
+    exclude_booking_id?: number
+): Promise<(slot_start: Date) => number> => {
+    const timeRule = await loadPricingRule('time_multipliers');
+    const utilisationRule = await loadPricingRule('utilisation_multipliers');
+
+    const demand_multiplier = utilisationRule
+        ? computeUtilisationMultiplier(
+            utilisationRule,
+            getDayUtilisation(await getZoneSchedule(zone_id, date, db, exclude_booking_id), date)
+        )
+        : 1;
+
+    return (slot_start: Date) => (timeRule ? computeTimeMultiplier(timeRule, slot_start) : 1) * demand_multiplier;
+};
+
 export const calculatePrice = async (input: PriceCalculationInput): Promise<PriceCalculationResult> => {
     try {
         // 1. Get service base price (team vs solo)
@@ -38,19 +81,15 @@ export const calculatePrice = async (input: PriceCalculationInput): Promise<Pric
 
         let estimated_duration = service.est_minutes;
 
-        // 2. Calculate addons total
-        let addons_total = 0;
-        if (input.addons.length > 0) {
-            const addonResults = await db.select()
+        // 2. Get the addons' list prices and minutes
+        const addonResults = input.addons.length > 0
+            ? await db.select()
                 .from(addonsTable)
                 .where(inArray(addonsTable.id, input.addons))
-                .execute();
+                .execute()
+            : [];
 
-            addons_total = addonResults.reduce((total, addon) => {
-                estimated_duration += addon.est_minutes;
-                return total + parseFloat(addon.price);
-            }, 0);
-        }
+        estimated_duration += addonResults.reduce((total, addon) => total + addon.est_minutes, 0);
 
         // 3. Verify zone exists
         const zoneResults = await db.select()
@@ -64,74 +103,70 @@ export const calculatePrice = async (input: PriceCalculationInput): Promise<Pric
 
         // 4. Check if location requires distance fee
         let distance_fee = 0;
-        
-        // Get distance fee pricing rule
-        const distanceFeeRules = await db.select()
-            .from(pricingRulesTable)
-            .where(and(
-                eq(pricingRulesTable.key, 'distance_fee'),
-                eq(pricingRulesTable.enabled, true)
-            ))
-            .execute();
+        const distanceRule = await loadPricingRule('distance_fee');
 
-        if (distanceFeeRules.length > 0) {
-            try {
-                const distanceRule = JSON.parse(distanceFeeRules[0].value_json);
-                
-                // Simple distance calculation based on zone center
-                // In a real implementation, this would use proper geospatial calculations
-                const zone = zoneResults[0];
-                const zoneCenter = JSON.parse(zone.polygon_or_center);
-                
-                // Calculate distance if zone center has coordinates
-                if (zoneCenter.lat && zoneCenter.lng) {
-                    const distance = calculateDistance(
-                        input.geo_point.lat, input.geo_point.lng,
-                        zoneCenter.lat, zoneCenter.lng
-                    );
-                    
-                    // Apply distance fee if beyond threshold
-                    if (distance > (distanceRule.free_radius_km || 5)) {
-                        const extra_distance = distance - (distanceRule.free_radius_km || 5);
-                        distance_fee = extra_distance * (distanceRule.fee_per_km || 5);
-                    }
-                }
-            } catch (error) {
-                console.error('Error parsing distance fee rule:', error);
-            }
+        if (distanceRule) {
+            distance_fee = computeZoneDistanceFee(distanceRule, input.geo_point, zoneResults[0].polygon_or_center);
         }
 
-        // 5. Apply car type pricing adjustments
-        const carTypePricingRules = await db.select()
-            .from(pricingRulesTable)
-            .where(and(
-                eq(pricingRulesTable.key, 'car_type_multipliers'),
-                eq(pricingRulesTable.enabled, true)
-            ))
-            .execute();
-
-        let car_type_multiplier = 1;
-        if (carTypePricingRules.length > 0) {
-            try {
-                const carTypeRule = JSON.parse(carTypePricingRules[0].value_json);
-                car_type_multiplier = carTypeRule[input.car_type] || 1;
-            } catch (error) {
-                console.error('Error parsing car type rule:', error);
+        // 5. Price for the car type: an explicit service or add-on price wins, otherwise
+        // the car type multiplier scales the list price
+        const carTypeRule = await loadPricingRule('car_type_multipliers');
+        const car_type_multiplier = carTypeRule ? carTypeRule[input.car_type] : 1;
+        const carTypePrices = await loadCarTypePrices(input.service_id, input.addons, input.car_type);
+
+        const adjusted_base_price = carTypePrices.service
+            ? (input.is_solo ? carTypePrices.service.price_solo : carTypePrices.service.price_team)
+            : base_price * car_type_multiplier;
+        const adjusted_addons_total = addonResults.reduce((total, addon) =>
+            total + (carTypePrices.addons.get(addon.id) ?? parseFloat(addon.price) * car_type_multiplier), 0);
+
+        // 6. Peak, quiet and busy-day pricing for the chosen slot
+        let surge_multiplier = 1;
+        if (input.scheduled_window) {
+            const surgeFor = await getSlotSurge(input.zone_id, input.scheduled_window.start);
+            surge_multiplier = surgeFor(input.scheduled_window.start);
+        }
+        const surge_adjustment = (adjusted_base_price + adjusted_addons_total) * (surge_multiplier - 1);
+
+        // 7. A subscription credit pays for the service itself, at the slot's price; add-ons and distance are still charged
+        const customer = input.customer_phone ? await findCustomerByPhone(input.customer_phone) : null;
+
+        let subscription_id: number | null = null;
+        let subscription_discount = 0;
+        if (customer && input.use_subscription) {
+            const subscription = await findCoveringSubscription(customer.id, input.service_id);
+            if (subscription) {
+                subscription_id = subscription.id;
+                subscription_discount = adjusted_base_price * surge_multiplier;
             }
         }
 
-        // Apply car type multiplier to base price and addons
-        const adjusted_base_price = base_price * car_type_multiplier;
-        const adjusted_addons_total = addons_total * car_type_multiplier;
+        // 8. A coupon comes off whatever is left to pay; invalid codes are rejected rather than ignored
+        let coupon_id: number | null = null;
+        let coupon_discount = 0;
+        if (input.coupon_code) {
+            const subtotal = adjusted_base_price + adjusted_addons_total + surge_adjustment + distance_fee - subscription_discount;
+            const coupon = await evaluateCoupon(input.coupon_code, customer?.id ?? null, subtotal);
+            coupon_id = coupon.coupon.id;
+            coupon_discount = coupon.discount;
+        }
 
-        const total_price = adjusted_base_price + adjusted_addons_total + distance_fee;
+        const total_price = adjusted_base_price + adjusted_addons_total + surge_adjustment + distance_fee
+            - subscription_discount - coupon_discount;
 
         return {
             base_price: adjusted_base_price,
             addons_total: adjusted_addons_total,
             distance_fee,
+            surge_multiplier,
+            surge_adjustment,
             total_price,
-            estimated_duration
+            estimated_duration,
+            subscription_discount,
+            subscription_id,
+            coupon_discount,
+            coupon_id
         };
     } catch (error) {
         console.error('Price calculation failed:', error);
@@ -139,15 +174,78 @@ export const calculatePrice = async (input: PriceCalculationInput): Promise<Pric
     }
 };
 
-// Helper function to calculate distance between two points (Haversine formula)
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = 
-        Math.sin(dLat/2) * Math.sin(dLat/2) +
-        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-        Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-}
\ No newline at end of file
+// The price of a booking moved to `window`: its booked price plus the difference in surge between the
+// old and new slot, so a booking made for a quiet slot can't move into a peak one at the quiet price.
+// Surge only changes what the customer pays for (a subscription covers the service at any slot's price);
+// the distance fee, coupon and a quoted price stay as booked.
+export const getRescheduledPrice = async (
+    booking: typeof bookingsTable.$inferSelect,
+    window: { start: Date; end: Date }
+): Promise<number> => {
+    const surgeBefore = (await getSlotSurge(booking.zone_id, booking.scheduled_window_start, booking.id))(booking.scheduled_window_start);
+    const surgeAfter = (await getSlotSurge(booking.zone_id, window.start, booking.id))(window.start);
+    const bookedPrice = parseFloat(booking.price_total);
+
+    if (surgeAfter === surgeBefore) {
+        return bookedPrice;
+    }
+
+    const listPrice = await calculatePrice({
+        service_id: booking.service_id,
+        addons: booking.addons,
+        car_type: booking.car_type as CarType,
+        zone_id: booking.zone_id,
+        geo_point: JSON.parse(booking.geo_point),
+        is_solo: booking.is_solo
+    });
+    const surged = booking.subscription_id !== null ? listPrice.addons_total : listPrice.base_price + listPrice.addons_total;
+
+    return Math.max(0, Math.round((bookedPrice + surged * (surgeAfter - surgeBefore)) * 100) / 100);
+};
+
+// What an anonymous caller may have priced: anyone can type a phone number, so a subscription only
+// applies when a booking link proves the caller is that customer. Otherwise a quote would tell
+// whether the number has a subscription.
+export const resolvePublicPriceInput = async (input: PublicPriceInput, now: Date = new Date()): Promise<PriceCalculationInput> => {
+    const { booking_token, ...priceInput } = input;
+    if (!booking_token) {
+        return priceInput;
+    }
+
+    const booking_id = verifyBookingToken(booking_token, now);
+    const customers = await db.select({ phone: customersTable.phone })
+        .from(bookingsTable)
+        .innerJoin(customersTable, eq(bookingsTable.customer_id, customersTable.id))
+        .where(eq(bookingsTable.id, booking_id))
+        .execute();
+
+    if (customers.length === 0) {
+        throw new Error('Booking not found');
+    }
+
+    return { ...priceInput, customer_phone: customers[0].phone, use_subscription: true };
+};
+
+export const calculatePublicPrice = async (input: PublicPriceInput, now: Date = new Date()): Promise<PriceCalculationResult> =>
+    calculatePrice(await resolvePublicPriceInput(input, now));
+
+// Attaches the price of each slot for a customer without a subscription or coupon, so they can
+// pick a cheaper one. Slots are expected on the business day of `date`, as getAvailableTimeSlots returns them.
+export const priceTimeSlots = async (
+    slots: TimeSlot[],
+    input: Omit<PriceCalculationInput, 'customer_phone' | 'use_subscription' | 'coupon_code' | 'scheduled_window'>,
+    date: Date
+): Promise<TimeSlot[]> => {
+    try {
+        const quote = await calculatePrice(input);
+        const surgeFor = await getSlotSurge(input.zone_id, date);
+
+        return slots.map(slot => {
+            const surge_adjustment = (quote.base_price + quote.addons_total) * (surgeFor(slot.start) - 1);
+            return { ...slot, price: Math.round((quote.total_price + surge_adjustment) * 100) / 100 };
+        });
+    } catch (error) {
+        console.error('Time slot pricing failed:', error);
+        throw error;
+    }
+};
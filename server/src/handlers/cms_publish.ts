@@ -2,7 +2,7 @@ import { db } from '../db';
 import { contentBlocksTable } from '../db/schema';
 import { eq, inArray, desc } from 'drizzle-orm';
 
-export async function publishContentBlocks(keys: string[]): Promise<{ published: number; errors: string[] }> {
+export async function publishContentBlocks(keys: string[], updated_by?: string): Promise<{ published: number; errors: string[] }> {
   if (!keys.length) {
     return { published: 0, errors: [] };
   }
@@ -12,7 +12,8 @@ export async function publishContentBlocks(keys: string[]): Promise<{ published:
     const result = await db.update(contentBlocksTable)
       .set({ 
         status: 'published',
-        updated_at: new Date()
+        updated_at: new Date(),
+        ...(updated_by !== undefined ? { updated_by } : {})
       })
       .where(inArray(contentBlocksTable.key, keys))
       .returning()
@@ -0,0 +1,292 @@
+import { db, type DbExecutor } from '../db';
+import { couponRedemptionsTable, couponsTable } from '../db/schema';
+import { type Coupon, type CouponStats, type CreateCouponInput, type UpdateCouponInput } from '../schema';
+import { and, asc, count, countDistinct, eq, isNull, max, sum } from 'drizzle-orm';
+
+type CouponRow = typeof couponsTable.$inferSelect;
+
+export interface CouponEvaluation {
+  coupon: Coupon;
+  discount: number;
+}
+
+// Codes are matched case-insensitively, so customers can type them however they like
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function toCoupon(row: CouponRow): Coupon {
+  return {
+    ...row,
+    discount_type: row.discount_type as Coupon['discount_type'],
+    value: parseFloat(row.value)
+  };
+}
+
+async function loadCoupon(id: number): Promise<CouponRow> {
+  const coupons = await db.select()
+    .from(couponsTable)
+    .where(eq(couponsTable.id, id))
+    .execute();
+
+  if (coupons.length === 0) {
+    throw new Error(`Coupon with ID ${id} not found`);
+  }
+  return coupons[0];
+}
+
+// Uses that still count against the limits; voided redemptions don't
+async function countRedemptions(
+  coupon_id: number,
+  customer_id: number | null,
+  executor: DbExecutor
+): Promise<{ total: number; customer: number }> {
+  const redemptions = await executor.select({ customer_id: couponRedemptionsTable.customer_id })
+    .from(couponRedemptionsTable)
+    .where(and(
+      eq(couponRedemptionsTable.coupon_id, coupon_id),
+      isNull(couponRedemptionsTable.voided_at)
+    ))
+    .execute();
+
+  return {
+    total: redemptions.length,
+    customer: redemptions.filter(redemption => redemption.customer_id === customer_id).length
+  };
+}
+
+function checkCoupon(coupon: CouponRow, used: { total: number; customer: number }, now: Date): void {
+  if (now < coupon.start_at) {
+    throw new Error(`Coupon ${coupon.code} is not active yet`);
+  }
+  if (now >= coupon.end_at) {
+    throw new Error(`Coupon ${coupon.code} has expired`);
+  }
+  if (used.total >= coupon.usage_limit) {
+    throw new Error(`Coupon ${coupon.code} has reached its usage limit`);
+  }
+  if (coupon.per_customer_limit !== null && used.customer >= coupon.per_customer_limit) {
+    throw new Error(`Coupon ${coupon.code} has already been used by this customer`);
+  }
+}
+
+// Discount off `subtotal`, rounded to cents and never more than the subtotal
+function discountFor(coupon: CouponRow, subtotal: number): number {
+  const value = parseFloat(coupon.value);
+  const discount = coupon.discount_type === 'percentage'
+    ? subtotal * value / 100
+    : value;
+  return Math.round(Math.min(discount, Math.max(subtotal, 0)) * 100) / 100;
+}
+
+// Checks a code for a quote; customer_id is null for customers we haven't seen yet
+export async function evaluateCoupon(
+  code: string,
+  customer_id: number | null,
+  subtotal: number,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<CouponEvaluation> {
+  const coupons = await executor.select()
+    .from(couponsTable)
+    .where(eq(couponsTable.code, normalizeCouponCode(code)))
+    .execute();
+
+  if (coupons.length === 0) {
+    throw new Error(`Coupon ${normalizeCouponCode(code)} not found`);
+  }
+
+  const coupon = coupons[0];
+  checkCoupon(coupon, await countRedemptions(coupon.id, customer_id, executor), now);
+
+  return { coupon: toCoupon(coupon), discount: discountFor(coupon, subtotal) };
+}
+
+// Records the coupon against a booking inside the booking's transaction. The coupon row is
+// locked so two bookings can't both take the last use.
+export async function redeemCoupon(
+  redemption: { coupon_id: number; booking_id: number; customer_id: number; discount_amount: number },
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<void> {
+  const coupons = await executor.select()
+    .from(couponsTable)
+    .where(eq(couponsTable.id, redemption.coupon_id))
+    .for('update')
+    .execute();
+
+  if (coupons.length === 0) {
+    throw new Error(`Coupon with ID ${redemption.coupon_id} not found`);
+  }
+
+  checkCoupon(coupons[0], await countRedemptions(redemption.coupon_id, redemption.customer_id, executor), now);
+
+  await executor.insert(couponRedemptionsTable)
+    .values({
+      coupon_id: redemption.coupon_id,
+      booking_id: redemption.booking_id,
+      customer_id: redemption.customer_id,
+      discount_amount: redemption.discount_amount.toString()
+    })
+    .execute();
+}
+
+// Gives a canceled booking's coupon use back; returns whether there was one
+export async function voidCouponRedemption(
+  booking_id: number,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<boolean> {
+  const voided = await executor.update(couponRedemptionsTable)
+    .set({ voided_at: now })
+    .where(and(
+      eq(couponRedemptionsTable.booking_id, booking_id),
+      isNull(couponRedemptionsTable.voided_at)
+    ))
+    .returning()
+    .execute();
+
+  return voided.length > 0;
+}
+
+export async function getCoupons(): Promise<Coupon[]> {
+  try {
+    const coupons = await db.select()
+      .from(couponsTable)
+      .orderBy(asc(couponsTable.start_at), asc(couponsTable.id))
+      .execute();
+
+    return coupons.map(toCoupon);
+  } catch (error) {
+    console.error('Get coupons failed:', error);
+    throw error;
+  }
+}
+
+export async function createCoupon(input: CreateCouponInput): Promise<Coupon> {
+  try {
+    const result = await db.insert(couponsTable)
+      .values({
+        code: normalizeCouponCode(input.code),
+        discount_type: input.discount_type,
+        value: input.value.toString(),
+        start_at: input.start_at,
+        end_at: input.end_at,
+        usage_limit: input.usage_limit,
+        per_customer_limit: input.per_customer_limit
+      })
+      .returning()
+      .execute();
+
+    return toCoupon(result[0]);
+  } catch (error) {
+    console.error('Coupon creation failed:', error);
+    throw error;
+  }
+}
+
+// Bookings already made keep the discount they were quoted
+export async function updateCoupon(input: UpdateCouponInput): Promise<Coupon> {
+  try {
+    const existing = await loadCoupon(input.id);
+
+    const updateData: Partial<typeof couponsTable.$inferInsert> = {};
+
+    if (input.code !== undefined) updateData.code = normalizeCouponCode(input.code);
+    if (input.discount_type !== undefined) updateData.discount_type = input.discount_type;
+    if (input.value !== undefined) updateData.value = input.value.toString();
+    if (input.start_at !== undefined) updateData.start_at = input.start_at;
+    if (input.end_at !== undefined) updateData.end_at = input.end_at;
+    if (input.usage_limit !== undefined) updateData.usage_limit = input.usage_limit;
+    if (input.per_customer_limit !== undefined) updateData.per_customer_limit = input.per_customer_limit;
+
+    if ((updateData.start_at ?? existing.start_at) >= (updateData.end_at ?? existing.end_at)) {
+      throw new Error('Coupon must end after it starts');
+    }
+    const discountType = updateData.discount_type ?? existing.discount_type;
+    if (discountType === 'percentage' && parseFloat(updateData.value ?? existing.value) > 100) {
+      throw new Error('Percentage discounts cannot exceed 100');
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return toCoupon(existing);
+    }
+
+    const result = await db.update(couponsTable)
+      .set(updateData)
+      .where(eq(couponsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toCoupon(result[0]);
+  } catch (error) {
+    console.error('Coupon update failed:', error);
+    throw error;
+  }
+}
+
+// Coupons that were ever redeemed stay for the booking history; end them instead
+export async function deleteCoupon(id: number): Promise<{ success: boolean }> {
+  try {
+    await loadCoupon(id);
+
+    const redemptions = await db.select({ id: couponRedemptionsTable.id })
+      .from(couponRedemptionsTable)
+      .where(eq(couponRedemptionsTable.coupon_id, id))
+      .limit(1)
+      .execute();
+
+    if (redemptions.length > 0) {
+      throw new Error('Coupon has been redeemed; end it instead of deleting it');
+    }
+
+    await db.delete(couponsTable)
+      .where(eq(couponsTable.id, id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Coupon deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getCouponStats(): Promise<CouponStats[]> {
+  try {
+    const coupons = await db.select()
+      .from(couponsTable)
+      .orderBy(asc(couponsTable.start_at), asc(couponsTable.id))
+      .execute();
+
+    const usage = await db.select({
+      coupon_id: couponRedemptionsTable.coupon_id,
+      redemptions: count(couponRedemptionsTable.id),
+      customers: countDistinct(couponRedemptionsTable.customer_id),
+      total_discount: sum(couponRedemptionsTable.discount_amount),
+      last_redeemed_at: max(couponRedemptionsTable.created_at)
+    })
+      .from(couponRedemptionsTable)
+      .where(isNull(couponRedemptionsTable.voided_at))
+      .groupBy(couponRedemptionsTable.coupon_id)
+      .execute();
+
+    const usageByCoupon = new Map(usage.map(row => [row.coupon_id, row]));
+
+    return coupons.map(coupon => {
+      const row = usageByCoupon.get(coupon.id);
+      const redemptions = row?.redemptions ?? 0;
+
+      return {
+        coupon: toCoupon(coupon),
+        redemptions,
+        remaining_uses: Math.max(coupon.usage_limit - redemptions, 0),
+        customers: row?.customers ?? 0,
+        total_discount: row?.total_discount ? parseFloat(row.total_discount) : 0,
+        last_redeemed_at: row?.last_redeemed_at ?? null
+      };
+    });
+  } catch (error) {
+    console.error('Coupon stats failed:', error);
+    throw error;
+  }
+}
@@ -1,57 +1,133 @@
-import { db } from '../db';
-import { customersTable, bookingsTable, servicesTable, addonsTable, zonesTable } from '../db/schema';
+import { db, type DbExecutor } from '../db';
+import { customersTable, bookingsTable, addonsTable, zonesTable } from '../db/schema';
 import { type CreateBookingInput, type CreateBookingResponse } from '../schema';
 import { eq, inArray } from 'drizzle-orm';
+import { calculatePrice, type PriceCalculationResult } from './calculate_price';
+import { getJobMinutes, validateTimeSlot } from './time_slots';
+import { recordBookingEvent } from './booking_events';
+import { notifyBookingConfirmed } from './booking_notifications';
+import { useSubscriptionCredit } from './subscription_plans';
+import { redeemCoupon } from './coupons';
+import { convertPriceQuote, getQuotedPrice } from './price_quotes';
+import { type WhatsAppResponse } from './whatsapp_integration';
 
-export const createBooking = async (input: CreateBookingInput): Promise<CreateBookingResponse> => {
-  try {
-    // 1. Create or find customer by phone
-    let customer;
-    const existingCustomers = await db.select()
-      .from(customersTable)
-      .where(eq(customersTable.phone, input.customer.phone))
+type BookingRow = typeof bookingsTable.$inferSelect;
+
+// A confirmed booking to create at an already calculated price
+export interface NewBooking {
+  service_id: number;
+  addons: number[];
+  car_type: string;
+  zone_id: number;
+  address_text: string;
+  geo_point: string; // JSON, as stored
+  scheduled_window: { start: Date; end: Date };
+  is_solo: boolean;
+  price: PriceCalculationResult;
+  series_id?: number | null;
+  actor: string; // recorded on the creation event
+  reason?: string;
+}
+
+export interface ZoneLockedBookingSteps<T> {
+  // Runs first under the lock and returns the customer to book for, or null to abandon the booking
+  prepare: (tx: DbExecutor) => Promise<number | null>;
+  // Runs in the same transaction with the new booking, or with null when the window is taken
+  complete: (tx: DbExecutor, booking: BookingRow | null) => Promise<T>;
+}
+
+export interface ZoneLockedBookingResult<T> {
+  booking: BookingRow | null; // null when the window was taken
+  confirmation: WhatsAppResponse | null; // sent once the booking is committed
+  result: T;
+}
+
+// Books a window in one transaction holding the zone row lock, so concurrent bookings for the zone
+// queue up behind each other: checks operating hours, capacity and that the window fits the job,
+// takes the subscription credit the price was quoted with, inserts the booking and starts its status
+// history. The WhatsApp confirmation goes out after commit. Returns null when `prepare` backs out.
+export async function insertBookingUnderZoneLock<T>(
+  booking: NewBooking,
+  steps: ZoneLockedBookingSteps<T>
+): Promise<ZoneLockedBookingResult<T> | null> {
+  const outcome = await db.transaction(async (tx) => {
+    const zones = await tx.select()
+      .from(zonesTable)
+      .where(eq(zonesTable.id, booking.zone_id))
+      .for('update')
       .execute();
 
-    if (existingCustomers.length > 0) {
-      customer = existingCustomers[0];
-    } else {
-      const newCustomers = await db.insert(customersTable)
-        .values({
-          name: input.customer.name,
-          phone: input.customer.phone,
-          whatsapp_verified: false
-        })
-        .returning()
-        .execute();
-      customer = newCustomers[0];
+    if (zones.length === 0) {
+      throw new Error(`Zone with id ${booking.zone_id} not found`);
     }
 
-    // 2. Validate service exists
-    const services = await db.select()
-      .from(servicesTable)
-      .where(eq(servicesTable.id, input.service_id))
-      .execute();
+    const customerId = await steps.prepare(tx);
+    if (customerId === null) {
+      return null;
+    }
+
+    const slotAvailable = await validateTimeSlot(
+      booking.zone_id,
+      booking.scheduled_window.start,
+      booking.scheduled_window.end,
+      tx,
+      undefined,
+      await getJobMinutes(booking.service_id, booking.addons, tx)
+    );
 
-    if (services.length === 0) {
-      throw new Error(`Service with id ${input.service_id} not found`);
+    if (!slotAvailable) {
+      return { booking: null, result: await steps.complete(tx, null) };
     }
 
-    const service = services[0];
+    if (booking.price.subscription_id !== null) {
+      await useSubscriptionCredit(booking.price.subscription_id, new Date(), tx);
+    }
 
-    // 3. Validate zone exists
-    const zones = await db.select()
-      .from(zonesTable)
-      .where(eq(zonesTable.id, input.zone_id))
+    const inserted = await tx.insert(bookingsTable)
+      .values({
+        customer_id: customerId,
+        service_id: booking.service_id,
+        addons: booking.addons,
+        car_type: booking.car_type,
+        zone_id: booking.zone_id,
+        address_text: booking.address_text,
+        geo_point: booking.geo_point,
+        scheduled_window_start: booking.scheduled_window.start,
+        scheduled_window_end: booking.scheduled_window.end,
+        status: 'confirmed',
+        price_total: (Math.round(booking.price.total_price * 100) / 100).toString(),
+        is_solo: booking.is_solo,
+        distance_fee: (Math.round(booking.price.distance_fee * 100) / 100).toString(),
+        subscription_id: booking.price.subscription_id,
+        series_id: booking.series_id ?? null
+      })
+      .returning()
       .execute();
 
-    if (zones.length === 0) {
-      throw new Error(`Zone with id ${input.zone_id} not found`);
-    }
+    await recordBookingEvent({
+      booking_id: inserted[0].id,
+      actor: booking.actor,
+      old_status: null,
+      new_status: 'confirmed',
+      reason: booking.reason
+    }, tx);
 
-    // 4. Validate addons exist (if any)
-    let addons: any[] = [];
+    return { booking: inserted[0], result: await steps.complete(tx, inserted[0]) };
+  });
+
+  if (outcome === null) {
+    return null;
+  }
+
+  const confirmation = outcome.booking ? await notifyBookingConfirmed(outcome.booking.id) : null;
+  return { ...outcome, confirmation };
+}
+
+export const createBooking = async (input: CreateBookingInput): Promise<CreateBookingResponse> => {
+  try {
+    // 1. Validate addons exist (if any) - the pricing engine silently skips unknown ids
     if (input.addons.length > 0) {
-      addons = await db.select()
+      const addons = await db.select()
         .from(addonsTable)
         .where(inArray(addonsTable.id, input.addons))
         .execute();
@@ -61,47 +137,113 @@ export const createBooking = async (input: CreateBookingInput): Promise<CreateBo
       }
     }
 
-    // 5. Calculate total price
-    const basePrice = input.is_solo 
-      ? parseFloat(service.base_price_solo)
-      : parseFloat(service.base_price_team);
+    // 2. Price the booking exactly as it was quoted: at the locked price of a matching quote,
+    // otherwise afresh (validates service and zone)
+    const price = input.quote_id !== undefined ? await getQuotedPrice(input.quote_id, input) : await calculatePrice({
+      service_id: input.service_id,
+      addons: input.addons,
+      car_type: input.car_type,
+      zone_id: input.zone_id,
+      geo_point: input.geo_point,
+      is_solo: input.is_solo,
+      customer_phone: input.customer.phone,
+      use_subscription: true,
+      coupon_code: input.coupon_code,
+      scheduled_window: input.scheduled_window
+    });
 
-    const addonsPrice = addons.reduce((sum, addon) => sum + parseFloat(addon.price), 0);
-    const distanceFee = 0; // Default distance fee - could be calculated based on zone/location
-    const totalPrice = basePrice + addonsPrice + distanceFee;
+    const couponDiscount = Math.round(price.coupon_discount * 100) / 100;
 
-    // 6. Create booking record
-    const bookingResult = await db.insert(bookingsTable)
-      .values({
-        customer_id: customer.id,
-        service_id: input.service_id,
-        addons: input.addons,
-        car_type: input.car_type,
-        zone_id: input.zone_id,
-        address_text: input.address_text,
-        geo_point: JSON.stringify(input.geo_point),
-        scheduled_window_start: input.scheduled_window.start,
-        scheduled_window_end: input.scheduled_window.end,
-        status: 'confirmed',
-        price_total: totalPrice.toString(),
-        is_solo: input.is_solo,
-        distance_fee: distanceFee.toString()
-      })
-      .returning()
-      .execute();
+    // 3. Book under the zone lock; the slot check, credit, insert and creation event happen there
+    const created = await insertBookingUnderZoneLock({
+      service_id: input.service_id,
+      addons: input.addons,
+      car_type: input.car_type,
+      zone_id: input.zone_id,
+      address_text: input.address_text,
+      geo_point: JSON.stringify(input.geo_point),
+      scheduled_window: input.scheduled_window,
+      is_solo: input.is_solo,
+      price,
+      actor: 'customer'
+    }, {
+      // 4. Create or find customer by phone
+      prepare: async (tx) => {
+        // Re-check the quote with its row locked, so a second booking racing for it stops here
+        // before taking a credit or coupon use
+        if (input.quote_id !== undefined) {
+          await getQuotedPrice(input.quote_id, input, new Date(), tx);
+        }
+
+        const existingCustomers = await tx.select()
+          .from(customersTable)
+          .where(eq(customersTable.phone, input.customer.phone))
+          .execute();
+
+        if (existingCustomers.length > 0) {
+          const customer = existingCustomers[0];
+
+          // Returning customers can switch the language their messages are sent in
+          const preferredLanguage = input.customer.preferred_language;
+          if (preferredLanguage && preferredLanguage !== customer.preferred_language) {
+            await tx.update(customersTable)
+              .set({ preferred_language: preferredLanguage })
+              .where(eq(customersTable.id, customer.id))
+              .execute();
+          }
+          return customer.id;
+        }
+
+        const newCustomers = await tx.insert(customersTable)
+          .values({
+            name: input.customer.name,
+            phone: input.customer.phone,
+            whatsapp_verified: false,
+            preferred_language: input.customer.preferred_language ?? 'ar'
+          })
+          .returning()
+          .execute();
+        return newCustomers[0].id;
+      },
+      complete: async (tx, booking) => {
+        if (!booking) {
+          throw new Error('Selected time slot is not available');
+        }
 
-    const booking = bookingResult[0];
+        // 5. Record the coupon use; this re-checks its limits with the coupon row locked
+        if (price.coupon_id !== null) {
+          await redeemCoupon({
+            coupon_id: price.coupon_id,
+            booking_id: booking.id,
+            customer_id: booking.customer_id,
+            discount_amount: couponDiscount
+          }, new Date(), tx);
+        }
 
-    // 7. Generate WhatsApp message ID (placeholder for actual WhatsApp integration)
-    const waMessageId = `wa_${booking.id}_${Date.now()}`;
+        // 6. A quote becomes this one booking
+        if (input.quote_id !== undefined) {
+          await convertPriceQuote(input.quote_id, booking.id, new Date(), tx);
+        }
+
+        return booking;
+      }
+    });
+
+    // prepare always names a customer and complete throws without a booking, so this can't happen
+    if (!created?.confirmation) {
+      throw new Error('Booking was not created');
+    }
+    const { result: booking, confirmation } = created;
 
+    // 7. The WhatsApp confirmation went out once the booking was committed
     return {
       booking_id: booking.id.toString(),
-      price_total: totalPrice,
-      wa_message_id: waMessageId
+      price_total: parseFloat(booking.price_total),
+      wa_message_id: confirmation.message_id,
+      coupon_discount: couponDiscount
     };
   } catch (error) {
     console.error('Booking creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -1,6 +1,6 @@
 import { db } from '../db';
 import { customersTable } from '../db/schema';
-import { type CreateCustomerInput, type Customer } from '../schema';
+import { type CreateCustomerInput, type Customer, type Language } from '../schema';
 import { eq } from 'drizzle-orm';
 
 export const createCustomer = async (input: CreateCustomerInput): Promise<Customer> => {
@@ -17,14 +17,16 @@ export const createCustomer = async (input: CreateCustomerInput): Promise<Custom
       .values({
         name: input.name,
         phone: input.phone,
-        whatsapp_verified: input.whatsapp_verified // Uses default false if not provided
+        whatsapp_verified: input.whatsapp_verified, // Uses default false if not provided
+        preferred_language: input.preferred_language
       })
       .returning()
       .execute();
 
     const customer = result[0];
     return {
-      ...customer
+      ...customer,
+      preferred_language: customer.preferred_language as Language
     };
   } catch (error) {
     console.error('Customer creation failed:', error);
@@ -39,7 +41,9 @@ export const findCustomerByPhone = async (phone: string): Promise<Customer | nul
       .where(eq(customersTable.phone, phone))
       .execute();
 
-    return customers.length > 0 ? customers[0] : null;
+    return customers.length > 0
+      ? { ...customers[0], preferred_language: customers[0].preferred_language as Language }
+      : null;
   } catch (error) {
     console.error('Customer lookup failed:', error);
     throw error;
@@ -0,0 +1,77 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Riyadh traffic: roads are ~30% longer than the straight line and crews average ~30 km/h door to door
+const ROAD_DISTANCE_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 30;
+const PARKING_MINUTES = 5;
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+// Great-circle distance between two points in kilometers
+export function haversineDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+// Driving time estimate in whole minutes; staying put costs nothing
+export function estimateTravelMinutes(from: Coordinates, to: Coordinates): number {
+  const distance = haversineDistanceKm(from.lat, from.lng, to.lat, to.lng);
+  if (distance < 0.05) {
+    return 0;
+  }
+  return Math.ceil(distance * ROAD_DISTANCE_FACTOR / AVERAGE_SPEED_KMH * 60) + PARKING_MINUTES;
+}
+
+// Parses a `{ lat, lng }` JSON string such as bookings.geo_point
+export function parseGeoPoint(geo_point: string): Coordinates | null {
+  try {
+    const point = JSON.parse(geo_point);
+    if (typeof point?.lat === 'number' && typeof point?.lng === 'number') {
+      return { lat: point.lat, lng: point.lng };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Zones store either a centre point or a polygon; this returns one representative point
+export function getZoneCoordinates(polygon_or_center: string): Coordinates | null {
+  try {
+    const geoData = JSON.parse(polygon_or_center);
+
+    if (typeof geoData?.lat === 'number' && typeof geoData?.lng === 'number') {
+      return { lat: geoData.lat, lng: geoData.lng };
+    }
+
+    if (typeof geoData?.center?.lat === 'number' && typeof geoData?.center?.lng === 'number') {
+      return { lat: geoData.center.lat, lng: geoData.center.lng };
+    }
+
+    if (Array.isArray(geoData?.coordinates) && geoData.coordinates.length > 0) {
+      const points: Coordinates[] = geoData.coordinates;
+      return {
+        lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+        lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+      };
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Failed to parse zone geometry:', error);
+    return null;
+  }
+}
@@ -1,7 +1,7 @@
 import { db } from '../db';
 import { bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { type Booking } from '../schema';
+import { type Booking, type CarType } from '../schema';
 
 export async function getBookings(): Promise<Booking[]> {
   try {
@@ -15,7 +15,7 @@ export async function getBookings(): Promise<Booking[]> {
       price_total: parseFloat(booking.price_total),
       distance_fee: parseFloat(booking.distance_fee),
       status: booking.status as 'confirmed' | 'on_the_way' | 'started' | 'finished' | 'postponed' | 'canceled',
-      car_type: booking.car_type as 'sedan' | 'suv' | 'pickup'
+      car_type: booking.car_type as CarType
     }));
   } catch (error) {
     console.error('Failed to fetch bookings:', error);
@@ -40,7 +40,7 @@ export async function getBookingById(id: number): Promise<Booking | null> {
       price_total: parseFloat(booking.price_total),
       distance_fee: parseFloat(booking.distance_fee),
       status: booking.status as 'confirmed' | 'on_the_way' | 'started' | 'finished' | 'postponed' | 'canceled',
-      car_type: booking.car_type as 'sedan' | 'suv' | 'pickup'
+      car_type: booking.car_type as CarType
     };
   } catch (error) {
     console.error('Failed to fetch booking by ID:', error);
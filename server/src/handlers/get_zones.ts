@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { zonesTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { haversineDistanceKm } from './geo';
 import { type Zone } from '../schema';
 
 export async function getZones(): Promise<Zone[]> {
@@ -57,7 +58,7 @@ function isLocationInZone(lat: number, lng: number, polygonOrCenter: string): bo
     
     // If it's a center point (for circular zones), check distance
     if (geoData.type === 'center') {
-      const distance = calculateDistance(
+      const distance = haversineDistanceKm(
         lat, lng,
         geoData.lat, geoData.lng
       );
@@ -78,23 +79,6 @@ function isLocationInZone(lat: number, lng: number, polygonOrCenter: string): bo
   }
 }
 
-// Calculate distance between two points using Haversine formula
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = toRadians(lat2 - lat1);
-  const dLng = toRadians(lng2 - lng1);
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
-
 // Point-in-polygon algorithm using ray casting
 function isPointInPolygon(lat: number, lng: number, polygon: Array<{lat: number, lng: number}>): boolean {
   let inside = false;
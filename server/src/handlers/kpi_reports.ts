@@ -3,11 +3,12 @@ import { kpisDailyTable, bookingsTable, customersTable } from '../db/schema';
 import { type CreateKPIsDailyInput, type KPIsDaily } from '../schema';
 import { eq, gte, lte, between, and, count, avg, sum, desc } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
+import { businessDateTime, fromDateKey, getBusinessDateParts, startOfBusinessDay, toDateKey } from './business_time';
 
 export async function recordDailyKPIs(input: CreateKPIsDailyInput): Promise<KPIsDaily> {
   try {
-    // Format date as YYYY-MM-DD string for database
-    const dateString = input.date.toISOString().split('T')[0];
+    // The business day the KPIs belong to, as the YYYY-MM-DD date column
+    const dateString = toDateKey(input.date);
     
     // Insert or update KPI record for the date
     const result = await db.insert(kpisDailyTable)
@@ -32,11 +33,11 @@ export async function recordDailyKPIs(input: CreateKPIsDailyInput): Promise<KPIs
       .returning()
       .execute();
 
-    // Convert numeric fields back to numbers and date string to Date
+    // Convert numeric fields back to numbers and the date to the start of its business day
     const kpi = result[0];
     return {
       ...kpi,
-      date: new Date(kpi.date + 'T00:00:00.000Z'),
+      date: fromDateKey(kpi.date),
       aov: parseFloat(kpi.aov),
       cpl: parseFloat(kpi.cpl)
     };
@@ -48,9 +49,9 @@ export async function recordDailyKPIs(input: CreateKPIsDailyInput): Promise<KPIs
 
 export async function getKPIsByDateRange(startDate: Date, endDate: Date): Promise<KPIsDaily[]> {
   try {
-    // Convert dates to YYYY-MM-DD strings for database comparison
-    const startDateString = startDate.toISOString().split('T')[0];
-    const endDateString = endDate.toISOString().split('T')[0];
+    // Compare business days, not UTC dates
+    const startDateString = toDateKey(startDate);
+    const endDateString = toDateKey(endDate);
     
     const conditions = [];
     conditions.push(gte(kpisDailyTable.date, startDateString));
@@ -62,10 +63,10 @@ export async function getKPIsByDateRange(startDate: Date, endDate: Date): Promis
       .orderBy(desc(kpisDailyTable.date))
       .execute();
     
-    // Convert numeric fields back to numbers and date strings to Dates
+    // Convert numeric fields back to numbers and dates to the start of their business day
     return results.map(kpi => ({
       ...kpi,
-      date: new Date(kpi.date + 'T00:00:00.000Z'),
+      date: fromDateKey(kpi.date),
       aov: parseFloat(kpi.aov),
       cpl: parseFloat(kpi.cpl)
     }));
@@ -80,19 +81,20 @@ export async function generateKPIReport(
   format: 'csv' | 'pdf'
 ): Promise<string> {
   try {
-    // Calculate date range based on period
+    // Calculate date range based on period, counted in business days
     const endDate = new Date();
-    const startDate = new Date();
+    const today = getBusinessDateParts(endDate);
+    let startDate: Date;
     
     switch (period) {
       case 'daily':
-        startDate.setDate(endDate.getDate() - 7); // Last 7 days
+        startDate = startOfBusinessDay(endDate, -7); // Last 7 days
         break;
       case 'weekly':
-        startDate.setDate(endDate.getDate() - 28); // Last 4 weeks
+        startDate = startOfBusinessDay(endDate, -28); // Last 4 weeks
         break;
       case 'monthly':
-        startDate.setMonth(endDate.getMonth() - 6); // Last 6 months
+        startDate = businessDateTime(today.year, today.month - 6, today.day); // Last 6 months
         break;
     }
     
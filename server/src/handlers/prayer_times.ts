@@ -0,0 +1,124 @@
+import { db, type DbExecutor } from '../db';
+import { zonesTable } from '../db/schema';
+import { type ZoneScheduleConfig } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getZoneCoordinates, type Coordinates } from './geo';
+import { getBusinessDateParts } from './business_time';
+
+export type PrayerName = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export type PrayerTimes = Record<PrayerName, Date>;
+
+export interface PrayerPause {
+    prayer: PrayerName;
+    start: Date;
+    end: Date;
+}
+
+// Umm al-Qura parameters, the calendar used across Saudi Arabia
+const FAJR_ANGLE = 18.5;
+const ISHA_MINUTES_AFTER_MAGHRIB = 90;
+const SUNSET_ANGLE = 0.833; // refraction plus the sun's radius
+const ASR_SHADOW_FACTOR = 1; // Shafi'i/Maliki/Hanbali
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+const fixAngle = (angle: number) => angle - 360 * Math.floor(angle / 360);
+const fixHour = (hour: number) => hour - 24 * Math.floor(hour / 24);
+
+function julianDate(year: number, month: number, day: number): number {
+    if (month <= 2) {
+        year -= 1;
+        month += 12;
+    }
+    const a = Math.floor(year / 100);
+    const b = 2 - a + Math.floor(a / 4);
+    return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+// Declination (degrees) and equation of time (hours) for a julian date
+function sunPosition(jd: number): { declination: number; equation: number } {
+    const d = jd - 2451545.0;
+    const g = fixAngle(357.529 + 0.98560028 * d);
+    const q = fixAngle(280.459 + 0.98564736 * d);
+    const l = fixAngle(q + 1.915 * Math.sin(toRadians(g)) + 0.020 * Math.sin(toRadians(2 * g)));
+    const e = 23.439 - 0.00000036 * d;
+
+    const rightAscension = fixHour(toDegrees(Math.atan2(Math.cos(toRadians(e)) * Math.sin(toRadians(l)), Math.cos(toRadians(l)))) / 15);
+
+    return {
+        declination: toDegrees(Math.asin(Math.sin(toRadians(e)) * Math.sin(toRadians(l)))),
+        equation: q / 15 - rightAscension
+    };
+}
+
+// Hours between solar noon and the sun reaching `altitude` (negative = below the horizon)
+function hourAngle(altitude: number, latitude: number, declination: number): number {
+    const cosine = (Math.sin(toRadians(altitude)) - Math.sin(toRadians(latitude)) * Math.sin(toRadians(declination))) /
+        (Math.cos(toRadians(latitude)) * Math.cos(toRadians(declination)));
+    // Clamp for high latitudes where the sun never reaches the angle
+    return toDegrees(Math.acos(Math.min(1, Math.max(-1, cosine)))) / 15;
+}
+
+// Offline prayer times for the business day of `date` at the given coordinates
+export function calculatePrayerTimes(date: Date, coordinates: Coordinates): PrayerTimes {
+    const { year, month, day } = getBusinessDateParts(date);
+
+    const { declination, equation } = sunPosition(julianDate(year, month, day) - coordinates.lng / (15 * 24));
+
+    // All times are hours after UTC midnight of the day
+    const noon = fixHour(12 - equation) - coordinates.lng / 15;
+    const asrAltitude = toDegrees(Math.atan(1 / (ASR_SHADOW_FACTOR + Math.tan(toRadians(Math.abs(coordinates.lat - declination))))));
+    const sunset = noon + hourAngle(-SUNSET_ANGLE, coordinates.lat, declination);
+
+    const midnight = Date.UTC(year, month - 1, day);
+    const at = (hours: number) => new Date(midnight + Math.round(hours * 60) * 60 * 1000);
+
+    return {
+        fajr: at(noon - hourAngle(-FAJR_ANGLE, coordinates.lat, declination)),
+        dhuhr: at(noon),
+        asr: at(noon + hourAngle(asrAltitude, coordinates.lat, declination)),
+        maghrib: at(sunset),
+        isha: at(sunset + ISHA_MINUTES_AFTER_MAGHRIB / 60)
+    };
+}
+
+export function getPrayerPauses(
+    times: PrayerTimes,
+    before_minutes: number,
+    after_minutes: number
+): PrayerPause[] {
+    return (Object.keys(times) as PrayerName[]).map(prayer => ({
+        prayer,
+        start: new Date(times[prayer].getTime() - before_minutes * 60 * 1000),
+        end: new Date(times[prayer].getTime() + after_minutes * 60 * 1000)
+    }));
+}
+
+// Prayer pauses for a zone on the day of `date`; empty when the zone has them switched off
+export async function getZonePrayerPauses(
+    config: ZoneScheduleConfig,
+    date: Date,
+    executor: DbExecutor = db
+): Promise<PrayerPause[]> {
+    if (!config.prayer_pause_enabled) {
+        return [];
+    }
+
+    const zones = await executor.select()
+        .from(zonesTable)
+        .where(eq(zonesTable.id, config.zone_id))
+        .execute();
+
+    const coordinates = zones.length > 0 ? getZoneCoordinates(zones[0].polygon_or_center) : null;
+    if (!coordinates) {
+        console.error(`Zone ${config.zone_id} has no usable coordinates; skipping prayer pauses`);
+        return [];
+    }
+
+    return getPrayerPauses(
+        calculatePrayerTimes(date, coordinates),
+        config.prayer_pause_before_minutes,
+        config.prayer_pause_after_minutes
+    );
+}
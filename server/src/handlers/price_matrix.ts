@@ -0,0 +1,206 @@
+import { db, type DbExecutor } from '../db';
+import { addonCarTypePricesTable, addonsTable, serviceCarTypePricesTable, servicesTable } from '../db/schema';
+import {
+  carTypeSchema,
+  type AddonCarTypePrice,
+  type CarType,
+  type PriceMatrix,
+  type ServiceCarTypePrice,
+  type SetAddonCarTypePricesInput,
+  type SetServiceCarTypePricesInput
+} from '../schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { loadPricingRule } from './pricing_rules';
+
+export interface CarTypePrices {
+  service: { price_team: number; price_solo: number } | null; // null when the service has no price for the car type
+  addons: Map<number, number>; // add-on id to price, for add-ons priced for the car type
+}
+
+function toServiceCarTypePrice(row: typeof serviceCarTypePricesTable.$inferSelect): ServiceCarTypePrice {
+  return {
+    service_id: row.service_id,
+    car_type: row.car_type as CarType,
+    price_team: parseFloat(row.price_team),
+    price_solo: parseFloat(row.price_solo)
+  };
+}
+
+function toAddonCarTypePrice(row: typeof addonCarTypePricesTable.$inferSelect): AddonCarTypePrice {
+  return {
+    addon_id: row.addon_id,
+    car_type: row.car_type as CarType,
+    price: parseFloat(row.price)
+  };
+}
+
+// Explicit prices for one booking's service and add-ons; anything missing falls back to the multiplier
+export async function loadCarTypePrices(
+  service_id: number,
+  addon_ids: number[],
+  car_type: CarType,
+  executor: DbExecutor = db
+): Promise<CarTypePrices> {
+  const services = await executor.select()
+    .from(serviceCarTypePricesTable)
+    .where(and(
+      eq(serviceCarTypePricesTable.service_id, service_id),
+      eq(serviceCarTypePricesTable.car_type, car_type)
+    ))
+    .execute();
+
+  const addons = addon_ids.length > 0
+    ? await executor.select()
+      .from(addonCarTypePricesTable)
+      .where(and(
+        inArray(addonCarTypePricesTable.addon_id, addon_ids),
+        eq(addonCarTypePricesTable.car_type, car_type)
+      ))
+      .execute()
+    : [];
+
+  return {
+    service: services.length > 0 ? toServiceCarTypePrice(services[0]) : null,
+    addons: new Map(addons.map(row => [row.addon_id, parseFloat(row.price)]))
+  };
+}
+
+export async function getServiceCarTypePrices(service_id: number): Promise<ServiceCarTypePrice[]> {
+  const prices = await db.select()
+    .from(serviceCarTypePricesTable)
+    .where(eq(serviceCarTypePricesTable.service_id, service_id))
+    .orderBy(asc(serviceCarTypePricesTable.car_type))
+    .execute();
+
+  return prices.map(toServiceCarTypePrice);
+}
+
+export async function setServiceCarTypePrices(input: SetServiceCarTypePricesInput): Promise<ServiceCarTypePrice[]> {
+  try {
+    const services = await db.select({ id: servicesTable.id })
+      .from(servicesTable)
+      .where(eq(servicesTable.id, input.service_id))
+      .execute();
+
+    if (services.length === 0) {
+      throw new Error(`Service with ID ${input.service_id} not found`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(serviceCarTypePricesTable)
+        .where(eq(serviceCarTypePricesTable.service_id, input.service_id))
+        .execute();
+
+      if (input.prices.length > 0) {
+        await tx.insert(serviceCarTypePricesTable)
+          .values(input.prices.map(price => ({
+            service_id: input.service_id,
+            car_type: price.car_type,
+            price_team: price.price_team.toString(),
+            price_solo: price.price_solo.toString()
+          })))
+          .execute();
+      }
+    });
+
+    return await getServiceCarTypePrices(input.service_id);
+  } catch (error) {
+    console.error('Failed to save service car type prices:', error);
+    throw error;
+  }
+}
+
+export async function getAddonCarTypePrices(addon_id: number): Promise<AddonCarTypePrice[]> {
+  const prices = await db.select()
+    .from(addonCarTypePricesTable)
+    .where(eq(addonCarTypePricesTable.addon_id, addon_id))
+    .orderBy(asc(addonCarTypePricesTable.car_type))
+    .execute();
+
+  return prices.map(toAddonCarTypePrice);
+}
+
+export async function setAddonCarTypePrices(input: SetAddonCarTypePricesInput): Promise<AddonCarTypePrice[]> {
+  try {
+    const addons = await db.select({ id: addonsTable.id })
+      .from(addonsTable)
+      .where(eq(addonsTable.id, input.addon_id))
+      .execute();
+
+    if (addons.length === 0) {
+      throw new Error(`Addon with ID ${input.addon_id} not found`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(addonCarTypePricesTable)
+        .where(eq(addonCarTypePricesTable.addon_id, input.addon_id))
+        .execute();
+
+      if (input.prices.length > 0) {
+        await tx.insert(addonCarTypePricesTable)
+          .values(input.prices.map(price => ({
+            addon_id: input.addon_id,
+            car_type: price.car_type,
+            price: price.price.toString()
+          })))
+          .execute();
+      }
+    });
+
+    return await getAddonCarTypePrices(input.addon_id);
+  } catch (error) {
+    console.error('Failed to save addon car type prices:', error);
+    throw error;
+  }
+}
+
+// Every service and add-on priced for every car type, so the owner can see where the multiplier still applies
+export async function getPriceMatrix(): Promise<PriceMatrix> {
+  try {
+    const services = await db.select()
+      .from(servicesTable)
+      .orderBy(asc(servicesTable.order), asc(servicesTable.id))
+      .execute();
+    const addons = await db.select()
+      .from(addonsTable)
+      .orderBy(asc(addonsTable.order), asc(addonsTable.id))
+      .execute();
+    const servicePrices = (await db.select().from(serviceCarTypePricesTable).execute()).map(toServiceCarTypePrice);
+    const addonPrices = (await db.select().from(addonCarTypePricesTable).execute()).map(toAddonCarTypePrice);
+
+    const carTypeRule = await loadPricingRule('car_type_multipliers');
+    const multiplier = (car_type: CarType) => carTypeRule ? carTypeRule[car_type] : 1;
+    const round = (price: number) => Math.round(price * 100) / 100;
+
+    return {
+      services: services.map(service => ({
+        service_id: service.id,
+        name_en: service.name_en,
+        prices: carTypeSchema.options.map(car_type => {
+          const explicit = servicePrices.find(price => price.service_id === service.id && price.car_type === car_type);
+          return explicit
+            ? { car_type, price_team: explicit.price_team, price_solo: explicit.price_solo, explicit: true }
+            : {
+              car_type,
+              price_team: round(parseFloat(service.base_price_team) * multiplier(car_type)),
+              price_solo: round(parseFloat(service.base_price_solo) * multiplier(car_type)),
+              explicit: false
+            };
+        })
+      })),
+      addons: addons.map(addon => ({
+        addon_id: addon.id,
+        name_en: addon.name_en,
+        prices: carTypeSchema.options.map(car_type => {
+          const explicit = addonPrices.find(price => price.addon_id === addon.id && price.car_type === car_type);
+          return explicit
+            ? { car_type, price: explicit.price, explicit: true }
+            : { car_type, price: round(parseFloat(addon.price) * multiplier(car_type)), explicit: false };
+        })
+      }))
+    };
+  } catch (error) {
+    console.error('Price matrix failed:', error);
+    throw error;
+  }
+}
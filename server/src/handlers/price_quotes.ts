@@ -0,0 +1,230 @@
+import { db, type DbExecutor } from '../db';
+import { priceQuotesTable } from '../db/schema';
+import { type CreateBookingInput, type QuoteConversionStats, type QuoteConversionStatsInput } from '../schema';
+import { and, eq, gte, isNull, lte, type SQL } from 'drizzle-orm';
+import { calculatePrice, resolvePublicPriceInput, type PriceCalculationResult, type PublicPriceInput } from './calculate_price';
+import { normalizeCouponCode } from './coupons';
+import { getAvailableTimeSlots, getJobMinutes, validateTimeSlot } from './time_slots';
+
+const DEFAULT_QUOTE_TTL_MINUTES = 15;
+
+type QuoteRow = typeof priceQuotesTable.$inferSelect;
+
+export interface PriceQuoteInput extends PublicPriceInput {
+  scheduled_window: { start: Date; end: Date }; // bookings always have a slot, so a quote without one could never match
+}
+
+export interface PriceQuote extends PriceCalculationResult {
+  quote_id: number;
+  expires_at: Date;
+}
+
+// PRICE_QUOTE_TTL_MINUTES: how long a quoted price is held for booking
+export function getQuoteTtlMinutes(): number {
+  const raw = process.env['PRICE_QUOTE_TTL_MINUTES'];
+  if (raw === undefined || raw === '') {
+    return DEFAULT_QUOTE_TTL_MINUTES;
+  }
+
+  const minutes = Number(raw);
+  if (!Number.isInteger(minutes) || minutes <= 0) {
+    throw new Error(`Invalid PRICE_QUOTE_TTL_MINUTES '${raw}'`);
+  }
+  return minutes;
+}
+
+function conversionRate(quotes: number, converted: number): number {
+  return quotes > 0 ? Math.round(converted / quotes * 10000) / 10000 : 0;
+}
+
+// Prices the input and stores it as a quote the customer can book at until it expires.
+// A booking link ties the quote to its customer, the only way it can include their subscription.
+export async function createPriceQuote(quoteInput: PriceQuoteInput, now: Date = new Date()): Promise<PriceQuote> {
+  try {
+    if (!quoteInput.scheduled_window) {
+      throw new Error('Choose a time slot before requesting a quote');
+    }
+
+    // Only a slot the customer could book is worth holding a price for: one createBooking accepts,
+    // on the grid of slots the booking form offers
+    const window = quoteInput.scheduled_window;
+    const jobMinutes = await getJobMinutes(quoteInput.service_id, quoteInput.addons);
+    if (window.start >= window.end
+      || !await validateTimeSlot(quoteInput.zone_id, window.start, window.end, db, undefined, jobMinutes)) {
+      throw new Error('Selected time slot is not available');
+    }
+
+    const slots = await getAvailableTimeSlots(quoteInput.zone_id, jobMinutes, window.start);
+    if (!slots.some(slot => slot.start.getTime() === window.start.getTime() && slot.end.getTime() === window.end.getTime())) {
+      throw new Error('Selected time slot is not available');
+    }
+
+    const input = await resolvePublicPriceInput(quoteInput, now);
+    const price = await calculatePrice(input);
+    const expiresAt = new Date(now.getTime() + getQuoteTtlMinutes() * 60 * 1000);
+
+    const result = await db.insert(priceQuotesTable)
+      .values({
+        service_id: input.service_id,
+        addons: input.addons,
+        car_type: input.car_type,
+        zone_id: input.zone_id,
+        geo_point: JSON.stringify(input.geo_point),
+        is_solo: input.is_solo,
+        customer_phone: input.customer_phone ?? null,
+        coupon_code: input.coupon_code ? normalizeCouponCode(input.coupon_code) : null,
+        window_start: window.start,
+        window_end: window.end,
+        breakdown: price,
+        total_price: (Math.round(price.total_price * 100) / 100).toString(),
+        expires_at: expiresAt,
+        created_at: now
+      })
+      .returning()
+      .execute();
+
+    return { ...price, quote_id: result[0].id, expires_at: expiresAt };
+  } catch (error) {
+    console.error('Price quote failed:', error);
+    throw error;
+  }
+}
+
+// Parts of a booking that differ from what was quoted; empty when the quote applies.
+// Anonymous quotes hold for any customer, quotes made with a phone only for that customer.
+export function getQuoteMismatches(quote: QuoteRow, input: CreateBookingInput): string[] {
+  const mismatches: string[] = [];
+  const geoPoint = JSON.parse(quote.geo_point);
+  const sameAddons = [...quote.addons].sort((a, b) => a - b).join(',')
+    === [...input.addons].sort((a, b) => a - b).join(',');
+  const couponCode = input.coupon_code ? normalizeCouponCode(input.coupon_code) : null;
+
+  if (quote.service_id !== input.service_id) mismatches.push('service_id');
+  if (!sameAddons) mismatches.push('addons');
+  if (quote.car_type !== input.car_type) mismatches.push('car_type');
+  if (quote.zone_id !== input.zone_id) mismatches.push('zone_id');
+  if (geoPoint.lat !== input.geo_point.lat || geoPoint.lng !== input.geo_point.lng) mismatches.push('geo_point');
+  if (quote.is_solo !== input.is_solo) mismatches.push('is_solo');
+  if (quote.customer_phone !== null && quote.customer_phone !== input.customer.phone) mismatches.push('customer');
+  if (quote.coupon_code !== couponCode) mismatches.push('coupon_code');
+  if (quote.window_start?.getTime() !== input.scheduled_window.start.getTime()
+    || quote.window_end?.getTime() !== input.scheduled_window.end.getTime()) {
+    mismatches.push('scheduled_window');
+  }
+
+  return mismatches;
+}
+
+// The locked price of a quote for createBooking; throws unless the quote is unused, unexpired and
+// quoted for this exact booking, so the customer never pays something other than what they saw.
+// Inside a transaction the quote row stays locked until convertPriceQuote ties it to the booking.
+export async function getQuotedPrice(
+  quote_id: number,
+  input: CreateBookingInput,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<PriceCalculationResult> {
+  const quotes = await executor.select()
+    .from(priceQuotesTable)
+    .where(eq(priceQuotesTable.id, quote_id))
+    .for('update')
+    .execute();
+
+  if (quotes.length === 0) {
+    throw new Error(`Quote with ID ${quote_id} not found`);
+  }
+
+  const quote = quotes[0];
+  if (quote.booking_id !== null) {
+    throw new Error(`Quote ${quote_id} has already been booked`);
+  }
+  if (now >= quote.expires_at) {
+    throw new Error(`Quote ${quote_id} has expired; please request a new price`);
+  }
+
+  const mismatches = getQuoteMismatches(quote, input);
+  if (mismatches.length > 0) {
+    throw new Error(`Quote ${quote_id} does not match the booking (${mismatches.join(', ')}); please request a new price`);
+  }
+
+  return quote.breakdown;
+}
+
+// Ties the quote to its booking inside the booking's transaction; the guard on booking_id
+// keeps two bookings from both using one quote
+export async function convertPriceQuote(
+  quote_id: number,
+  booking_id: number,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<void> {
+  const converted = await executor.update(priceQuotesTable)
+    .set({ booking_id, converted_at: now })
+    .where(and(eq(priceQuotesTable.id, quote_id), isNull(priceQuotesTable.booking_id)))
+    .returning()
+    .execute();
+
+  if (converted.length === 0) {
+    throw new Error(`Quote ${quote_id} has already been booked`);
+  }
+}
+
+// How many quotes made in the range turned into bookings, overall and per service
+export async function getQuoteConversionStats(
+  input: QuoteConversionStatsInput,
+  now: Date = new Date()
+): Promise<QuoteConversionStats> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      gte(priceQuotesTable.created_at, input.from),
+      lte(priceQuotesTable.created_at, input.to)
+    ];
+    if (input.zone_id !== undefined) {
+      conditions.push(eq(priceQuotesTable.zone_id, input.zone_id));
+    }
+
+    const quotes = await db.select({
+      service_id: priceQuotesTable.service_id,
+      total_price: priceQuotesTable.total_price,
+      expires_at: priceQuotesTable.expires_at,
+      booking_id: priceQuotesTable.booking_id
+    })
+      .from(priceQuotesTable)
+      .where(and(...conditions))
+      .execute();
+
+    const converted = quotes.filter(quote => quote.booking_id !== null);
+    const average = (rows: typeof quotes) => rows.length > 0
+      ? Math.round(rows.reduce((total, quote) => total + parseFloat(quote.total_price), 0) / rows.length * 100) / 100
+      : 0;
+
+    const byService = new Map<number, { quotes: number; converted: number }>();
+    for (const quote of quotes) {
+      const entry = byService.get(quote.service_id) ?? { quotes: 0, converted: 0 };
+      entry.quotes += 1;
+      if (quote.booking_id !== null) entry.converted += 1;
+      byService.set(quote.service_id, entry);
+    }
+
+    return {
+      quotes: quotes.length,
+      converted: converted.length,
+      conversion_rate: conversionRate(quotes.length, converted.length),
+      expired: quotes.filter(quote => quote.booking_id === null && now >= quote.expires_at).length,
+      open: quotes.filter(quote => quote.booking_id === null && now < quote.expires_at).length,
+      average_quoted_price: average(quotes),
+      average_converted_price: average(converted),
+      by_service: [...byService.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([service_id, entry]) => ({
+          service_id,
+          quotes: entry.quotes,
+          converted: entry.converted,
+          conversion_rate: conversionRate(entry.quotes, entry.converted)
+        }))
+    };
+  } catch (error) {
+    console.error('Quote conversion stats failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,132 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { pricingRulesTable, zonesTable } from '../db/schema';
-import { type CreatePricingRuleInput, type PricingRule } from '../schema';
-import { eq } from 'drizzle-orm';
+import {
+  pricingRuleKeySchema,
+  pricingRuleValueSchemas,
+  type CreatePricingRuleInput,
+  type DistanceFeeRule,
+  type PricingRule,
+  type PricingRuleKey,
+  type PricingRuleValues,
+  type TimeMultipliersRule,
+  type UpdatePricingRuleInput,
+  type UtilisationMultipliersRule
+} from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { getZoneCoordinates, haversineDistanceKm, type Coordinates } from './geo';
+import { businessMinutesOfDay, businessWeekday } from './business_time';
+
+// Parses a rule's value_json with the schema registered for its key; throws on unknown keys and bad values
+export function parsePricingRuleValue<K extends PricingRuleKey>(key: K, value_json: string): PricingRuleValues[K];
+export function parsePricingRuleValue(key: string, value_json: string): PricingRuleValues[PricingRuleKey];
+export function parsePricingRuleValue(key: string, value_json: string): PricingRuleValues[PricingRuleKey] {
+  const knownKey = pricingRuleKeySchema.safeParse(key);
+  if (!knownKey.success) {
+    throw new Error(`Unknown pricing rule '${key}'`);
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(value_json);
+  } catch {
+    throw new Error(`Pricing rule '${key}' is not valid JSON`);
+  }
+
+  const parsed = pricingRuleValueSchemas[knownKey.data].safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`);
+    throw new Error(`Invalid pricing rule '${key}': ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// The shared loader for pricing: the parsed value of an enabled rule, or null when the rule is
+// missing or disabled. A stored value that no longer parses throws: treating it as missing would
+// quietly drop the fee or multiplier from every price.
+export async function loadPricingRule<K extends PricingRuleKey>(
+  key: K,
+  executor: DbExecutor = db
+): Promise<PricingRuleValues[K] | null> {
+  const rules = await executor.select()
+    .from(pricingRulesTable)
+    .where(and(eq(pricingRulesTable.key, key), eq(pricingRulesTable.enabled, true)))
+    .execute();
+
+  if (rules.length === 0) {
+    return null;
+  }
+
+  return parsePricingRuleValue(key, rules[0].value_json);
+}
+
+// Startup check that every enabled rule still parses, for rules saved before validation existed
+// or under an older schema; lists them all so they can be fixed or disabled in one go
+export async function assertStoredPricingRulesValid(): Promise<void> {
+  const rules = await db.select()
+    .from(pricingRulesTable)
+    .where(eq(pricingRulesTable.enabled, true))
+    .execute();
+
+  const problems: string[] = [];
+  for (const rule of rules) {
+    try {
+      parsePricingRuleValue(rule.key, rule.value_json);
+    } catch (error) {
+      problems.push(`#${rule.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Stored pricing rules must be fixed or disabled before pricing can run: ${problems.join('; ')}`);
+  }
+}
+
+// Fee for a customer `distance_km` from the zone center
+export function computeDistanceFee(rule: DistanceFeeRule, distance_km: number): number {
+  if (distance_km <= rule.free_radius_km) {
+    return 0;
+  }
+
+  const fee = (distance_km - rule.free_radius_km) * rule.fee_per_km;
+  return rule.max_fee !== undefined ? Math.min(fee, rule.max_fee) : fee;
+}
+
+// Fee for a customer at `geo_point`, measured from the zone's representative point. Throws when the
+// zone's geometry has none, so a broken zone can't quietly price without its fee.
+export function computeZoneDistanceFee(rule: DistanceFeeRule, geo_point: Coordinates, polygon_or_center: string): number {
+  const center = getZoneCoordinates(polygon_or_center);
+  if (!center) {
+    throw new Error('Zone geometry has no center to measure the distance fee from');
+  }
+
+  return computeDistanceFee(rule, haversineDistanceKm(geo_point.lat, geo_point.lng, center.lat, center.lng));
+}
+
+function minutesOfTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Product of every window the slot starts in, by business-time weekday and clock; 1 outside them all
+export function computeTimeMultiplier(rule: TimeMultipliersRule, slot_start: Date): number {
+  const weekday = businessWeekday(slot_start);
+  const minutes = businessMinutesOfDay(slot_start);
+
+  return rule.windows.reduce((multiplier, window) => {
+    const onDay = window.weekdays === undefined || window.weekdays.includes(weekday);
+    const inWindow = minutes >= minutesOfTime(window.start) && minutes < minutesOfTime(window.end);
+    return onDay && inWindow ? multiplier * window.multiplier : multiplier;
+  }, 1);
+}
+
+// Multiplier of the highest tier the day's utilisation has reached; 1 below the lowest tier
+export function computeUtilisationMultiplier(rule: UtilisationMultipliersRule, utilisation: number): number {
+  const reached = rule.tiers.filter(tier => utilisation >= tier.min_utilisation);
+  if (reached.length === 0) {
+    return 1;
+  }
+  return reached.reduce((highest, tier) => tier.min_utilisation > highest.min_utilisation ? tier : highest).multiplier;
+}
 
 export async function getPricingRules(): Promise<PricingRule[]> {
   try {
@@ -21,6 +146,8 @@ export async function getPricingRules(): Promise<PricingRule[]> {
 
 export async function createPricingRule(input: CreatePricingRuleInput): Promise<PricingRule> {
   try {
+    parsePricingRuleValue(input.key, input.value_json);
+
     // Insert pricing rule record
     const result = await db.insert(pricingRulesTable)
       .values({
@@ -42,6 +169,45 @@ export async function createPricingRule(input: CreatePricingRuleInput): Promise<
   }
 }
 
+export async function updatePricingRule(input: UpdatePricingRuleInput): Promise<PricingRule> {
+  try {
+    const existing = await db.select()
+      .from(pricingRulesTable)
+      .where(eq(pricingRulesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Pricing rule with ID ${input.id} not found`);
+    }
+
+    const updateData: Partial<typeof pricingRulesTable.$inferInsert> = {};
+
+    if (input.value_json !== undefined) {
+      parsePricingRuleValue(existing[0].key, input.value_json);
+      updateData.value_json = input.value_json;
+    } else if (input.enabled === true) {
+      // Re-enabling must not bring back a value saved before validation existed
+      parsePricingRuleValue(existing[0].key, existing[0].value_json);
+    }
+    if (input.enabled !== undefined) updateData.enabled = input.enabled;
+
+    if (Object.keys(updateData).length === 0) {
+      return existing[0];
+    }
+
+    const result = await db.update(pricingRulesTable)
+      .set(updateData)
+      .where(eq(pricingRulesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Pricing rule update failed:', error);
+    throw error;
+  }
+}
+
 export async function getPricingRuleByKey(key: string): Promise<PricingRule | null> {
   try {
     const results = await db.select()
@@ -65,99 +231,27 @@ export async function getPricingRuleByKey(key: string): Promise<PricingRule | nu
 }
 
 export async function calculateDistanceFee(
-  geo_point: { lat: number; lng: number },
+  geo_point: Coordinates,
   zone_id: number
 ): Promise<number> {
   try {
-    // Get the zone information
     const zones = await db.select()
       .from(zonesTable)
       .where(eq(zonesTable.id, zone_id))
       .execute();
 
     if (zones.length === 0) {
-      // Zone not found, apply default distance fee
-      return 10; // Default fee for unknown zones
+      throw new Error(`Zone with ID ${zone_id} not found`);
     }
 
-    const zone = zones[0];
-    
-    // Parse the polygon/center data
-    let zoneData;
-    try {
-      zoneData = JSON.parse(zone.polygon_or_center);
-    } catch (parseError) {
-      console.error('Invalid zone geometry data:', parseError);
-      return 10; // Default fee for invalid geometry
-    }
-
-    // Get distance fee pricing rule
-    const distanceFeeRule = await getPricingRuleByKey('distance_fee');
-    if (!distanceFeeRule || !distanceFeeRule.enabled) {
+    const distanceFeeRule = await loadPricingRule('distance_fee');
+    if (!distanceFeeRule) {
       return 0; // No distance fee if rule disabled or missing
     }
 
-    let ruleConfig;
-    try {
-      ruleConfig = JSON.parse(distanceFeeRule.value_json);
-    } catch (parseError) {
-      console.error('Invalid distance fee rule configuration:', parseError);
-      return 0;
-    }
-
-    // Simple distance calculation based on zone center
-    if (zoneData.center) {
-      const distance = calculateHaversineDistance(
-        geo_point.lat,
-        geo_point.lng,
-        zoneData.center.lat,
-        zoneData.center.lng
-      );
-
-      // Apply distance fee based on configuration
-      const maxFreeDistance = ruleConfig.max_free_distance_km || 5;
-      const feePerKm = ruleConfig.fee_per_km || 2;
-      const maxFee = ruleConfig.max_fee || 50;
-
-      if (distance <= maxFreeDistance) {
-        return 0;
-      }
-
-      const extraDistance = distance - maxFreeDistance;
-      const calculatedFee = extraDistance * feePerKm;
-      
-      return Math.min(calculatedFee, maxFee);
-    }
-
-    // If no center data available, return default fee
-    return 10;
+    return computeZoneDistanceFee(distanceFeeRule, geo_point, zones[0].polygon_or_center);
   } catch (error) {
     console.error('Distance fee calculation failed:', error);
-    return 10; // Default fee on error
+    throw error;
   }
 }
-
-// Helper function to calculate distance between two points using Haversine formula
-function calculateHaversineDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = toRadians(lat2 - lat1);
-  const dLon = toRadians(lon2 - lon1);
-  
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-  
-  return distance;
-}
-
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
\ No newline at end of file
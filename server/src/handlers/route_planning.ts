@@ -0,0 +1,243 @@
+import { db } from '../db';
+import { addonsTable, bookingsTable, customersTable, servicesTable, teamShiftsTable, teamsTable, zonesTable } from '../db/schema';
+import { type Booking, type PlanRoutesInput, type RoutePlan, type RouteStop, type TeamRoute } from '../schema';
+import { and, asc, eq, gte, inArray, isNotNull, isNull, lt, type SQL } from 'drizzle-orm';
+import { estimateTravelMinutes, getZoneCoordinates, parseGeoPoint, type Coordinates } from './geo';
+import { atBusinessTime, businessWeekday, startOfBusinessDay } from './business_time';
+
+const MINUTE = 60 * 1000;
+
+// Every ordering is tried up to this many stops; longer days are visited in window order
+const MAX_EXACT_STOPS = 8;
+
+// Bookings a team still has to visit
+const ROUTED_STATUSES: Booking['status'][] = ['confirmed', 'on_the_way', 'started'];
+
+export interface PlannableStop {
+  booking_id: number;
+  location: Coordinates | null; // unknown locations are treated as next door to the previous stop
+  window_start: Date;
+  window_end: Date;
+  service_minutes: number;
+}
+
+export interface RouteStart {
+  location: Coordinates | null;
+  time: Date;
+}
+
+export interface PlannedStop {
+  booking_id: number;
+  travel_minutes: number;
+  arrival: Date;
+  service_start: Date;
+  service_end: Date;
+  window_missed: boolean;
+}
+
+interface RouteCost {
+  missed: number;
+  travel: number;
+  finish: number;
+}
+
+// Fewest missed windows first, then the least driving, then the earliest finish
+function isCheaper(a: RouteCost, b: RouteCost): boolean {
+  if (a.missed !== b.missed) return a.missed < b.missed;
+  if (a.travel !== b.travel) return a.travel < b.travel;
+  return a.finish < b.finish;
+}
+
+function visit(stop: PlannableStop, from: Coordinates | null, time: Date): PlannedStop {
+  const travel_minutes = from && stop.location ? estimateTravelMinutes(from, stop.location) : 0;
+  const arrival = new Date(time.getTime() + travel_minutes * MINUTE);
+  const service_start = arrival < stop.window_start ? new Date(stop.window_start) : arrival;
+  const service_end = new Date(service_start.getTime() + stop.service_minutes * MINUTE);
+
+  return {
+    booking_id: stop.booking_id,
+    travel_minutes,
+    arrival,
+    service_start,
+    service_end,
+    window_missed: service_end > stop.window_end
+  };
+}
+
+// Projected itinerary for visiting the stops in the given order
+export function simulateRoute(start: RouteStart, stops: PlannableStop[]): PlannedStop[] {
+  const planned: PlannedStop[] = [];
+  let location = start.location;
+  let time = start.time;
+
+  for (const stop of stops) {
+    const result = visit(stop, location, time);
+    planned.push(result);
+    location = stop.location ?? location;
+    time = result.service_end;
+  }
+
+  return planned;
+}
+
+// Orders a team's visits to meet as many windows as possible with the least travel
+export function planTeamRoute(start: RouteStart, stops: PlannableStop[]): PlannedStop[] {
+  const byWindow = [...stops].sort((a, b) => a.window_start.getTime() - b.window_start.getTime());
+  if (stops.length > MAX_EXACT_STOPS) {
+    return simulateRoute(start, byWindow);
+  }
+
+  let bestOrder = byWindow;
+  let bestCost: RouteCost | null = null;
+  const order: PlannableStop[] = [];
+  const used = new Array(byWindow.length).fill(false);
+
+  // Depth-first over all orderings; missed windows and travel only grow, so worse branches are cut early
+  const search = (location: Coordinates | null, time: Date, cost: RouteCost) => {
+    if (bestCost && !isCheaper({ ...cost, finish: -Infinity }, bestCost)) {
+      return;
+    }
+
+    if (order.length === byWindow.length) {
+      bestOrder = [...order];
+      bestCost = cost;
+      return;
+    }
+
+    byWindow.forEach((stop, index) => {
+      if (used[index]) return;
+
+      const result = visit(stop, location, time);
+      used[index] = true;
+      order.push(stop);
+      search(stop.location ?? location, result.service_end, {
+        missed: cost.missed + (result.window_missed ? 1 : 0),
+        travel: cost.travel + result.travel_minutes,
+        finish: result.service_end.getTime()
+      });
+      order.pop();
+      used[index] = false;
+    });
+  };
+
+  search(start.location, start.time, { missed: 0, travel: 0, finish: start.time.getTime() });
+
+  return simulateRoute(start, bestOrder);
+}
+
+export const planRoutes = async (input: PlanRoutesInput): Promise<RoutePlan> => {
+  try {
+    const dayStart = startOfBusinessDay(input.date);
+    const dayEnd = startOfBusinessDay(input.date, 1);
+
+    const conditions: SQL<unknown>[] = [
+      gte(bookingsTable.scheduled_window_start, dayStart),
+      lt(bookingsTable.scheduled_window_start, dayEnd),
+      inArray(bookingsTable.status, ROUTED_STATUSES)
+    ];
+
+    if (input.zone_id !== undefined) {
+      conditions.push(eq(bookingsTable.zone_id, input.zone_id));
+    }
+
+    const assigned = await db.select({
+      booking: bookingsTable,
+      customer_name: customersTable.name,
+      service_minutes: servicesTable.est_minutes
+    })
+      .from(bookingsTable)
+      .innerJoin(customersTable, eq(bookingsTable.customer_id, customersTable.id))
+      .innerJoin(servicesTable, eq(bookingsTable.service_id, servicesTable.id))
+      .where(and(
+        ...conditions,
+        input.team_id !== undefined ? eq(bookingsTable.team_id, input.team_id) : isNotNull(bookingsTable.team_id)
+      ))
+      .orderBy(asc(bookingsTable.scheduled_window_start))
+      .execute();
+
+    const unassigned = input.team_id !== undefined ? [] : await db.select({ id: bookingsTable.id })
+      .from(bookingsTable)
+      .where(and(...conditions, isNull(bookingsTable.team_id)))
+      .orderBy(asc(bookingsTable.scheduled_window_start))
+      .execute();
+
+    // Add-ons extend the time spent at each stop
+    const addonIds = [...new Set(assigned.flatMap(row => row.booking.addons))];
+    const addons = addonIds.length > 0
+      ? await db.select({ id: addonsTable.id, est_minutes: addonsTable.est_minutes })
+        .from(addonsTable)
+        .where(inArray(addonsTable.id, addonIds))
+        .execute()
+      : [];
+    const addonMinutes = new Map(addons.map(addon => [addon.id, addon.est_minutes]));
+
+    const teamIds = [...new Set(assigned.map(row => row.booking.team_id as number))];
+    const teams = teamIds.length > 0
+      ? await db.select({ team: teamsTable, polygon_or_center: zonesTable.polygon_or_center })
+        .from(teamsTable)
+        .innerJoin(zonesTable, eq(teamsTable.home_zone_id, zonesTable.id))
+        .where(inArray(teamsTable.id, teamIds))
+        .orderBy(asc(teamsTable.id))
+        .execute()
+      : [];
+    const shifts = teamIds.length > 0
+      ? await db.select()
+        .from(teamShiftsTable)
+        .where(and(inArray(teamShiftsTable.team_id, teamIds), eq(teamShiftsTable.weekday, businessWeekday(dayStart))))
+        .execute()
+      : [];
+
+    const routes: TeamRoute[] = teams.map(({ team, polygon_or_center }) => {
+      const rows = assigned.filter(row => row.booking.team_id === team.id);
+      const stops: PlannableStop[] = rows.map(({ booking, service_minutes }) => ({
+        booking_id: booking.id,
+        location: parseGeoPoint(booking.geo_point),
+        window_start: booking.scheduled_window_start,
+        window_end: booking.scheduled_window_end,
+        service_minutes: service_minutes + booking.addons.reduce((sum, id) => sum + (addonMinutes.get(id) ?? 0), 0)
+      }));
+
+      // Teams leave their home zone when their first shift starts, or at the first window without a shift
+      const shiftStarts = shifts
+        .filter(shift => shift.team_id === team.id)
+        .map(shift => atBusinessTime(dayStart, shift.start_time).getTime());
+      const start_at = new Date(shiftStarts.length > 0
+        ? Math.min(...shiftStarts)
+        : Math.min(...stops.map(stop => stop.window_start.getTime())));
+
+      const planned = planTeamRoute({ location: getZoneCoordinates(polygon_or_center), time: start_at }, stops);
+
+      const routeStops: RouteStop[] = planned.map(stop => {
+        const { booking, customer_name } = rows.find(row => row.booking.id === stop.booking_id)!;
+        const plannable = stops.find(candidate => candidate.booking_id === stop.booking_id)!;
+        return {
+          ...stop,
+          customer_name,
+          address_text: booking.address_text,
+          geo_point: booking.geo_point,
+          window_start: booking.scheduled_window_start,
+          window_end: booking.scheduled_window_end,
+          service_minutes: plannable.service_minutes
+        };
+      });
+
+      return {
+        team_id: team.id,
+        team_name: team.name,
+        start_at,
+        stops: routeStops,
+        total_travel_minutes: routeStops.reduce((sum, stop) => sum + stop.travel_minutes, 0),
+        missed_windows: routeStops.filter(stop => stop.window_missed).length
+      };
+    });
+
+    return {
+      date: dayStart,
+      routes,
+      unassigned_booking_ids: unassigned.map(row => row.id)
+    };
+  } catch (error) {
+    console.error('Route planning failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,174 @@
+import { db } from '../db';
+import { bookingsTable, scheduleExceptionsTable, zonesTable } from '../db/schema';
+import {
+    type Booking,
+    type CreateScheduleExceptionInput,
+    type CreateScheduleExceptionResult,
+    type GetScheduleExceptionsInput,
+    type ScheduleException
+} from '../schema';
+import { and, asc, eq, gte, isNull, lt, lte, or, type SQL } from 'drizzle-orm';
+import { getZoneScheduleConfig, resolveCoveringOperatingHours } from './zone_schedules';
+import { fromDateKey } from './business_time';
+
+function toScheduleException(row: typeof scheduleExceptionsTable.$inferSelect): ScheduleException {
+    return {
+        ...row,
+        hours: row.hours ?? null
+    };
+}
+
+export async function getScheduleExceptions(input: GetScheduleExceptionsInput = {}): Promise<ScheduleException[]> {
+    try {
+        const conditions: SQL<unknown>[] = [];
+
+        if (input.zone_id !== undefined) {
+            conditions.push(or(eq(scheduleExceptionsTable.zone_id, input.zone_id), isNull(scheduleExceptionsTable.zone_id))!);
+        }
+
+        // Entries overlapping the requested range
+        if (input.from) {
+            conditions.push(gte(scheduleExceptionsTable.end_date, input.from));
+        }
+
+        if (input.to) {
+            conditions.push(lte(scheduleExceptionsTable.start_date, input.to));
+        }
+
+        const rows = await db.select()
+            .from(scheduleExceptionsTable)
+            .where(conditions.length > 0 ? and(...conditions) : undefined)
+            .orderBy(asc(scheduleExceptionsTable.start_date), asc(scheduleExceptionsTable.id))
+            .execute();
+
+        return rows.map(toScheduleException);
+    } catch (error) {
+        console.error('Failed to fetch schedule exceptions:', error);
+        throw error;
+    }
+}
+
+export async function createScheduleException(
+    input: CreateScheduleExceptionInput,
+    created_by: string | null = null
+): Promise<CreateScheduleExceptionResult> {
+    try {
+        if (input.zone_id !== null) {
+            const zones = await db.select({ id: zonesTable.id })
+                .from(zonesTable)
+                .where(eq(zonesTable.id, input.zone_id))
+                .execute();
+
+            if (zones.length === 0) {
+                throw new Error(`Zone with ID ${input.zone_id} not found`);
+            }
+        }
+
+        const result = await db.insert(scheduleExceptionsTable)
+            .values({
+                zone_id: input.zone_id,
+                name: input.name,
+                start_date: input.start_date,
+                end_date: input.end_date,
+                hours: input.hours,
+                created_by
+            })
+            .returning()
+            .execute();
+
+        const flagged_booking_ids = await flagBookingsOutsideCalendar(input.zone_id, input.start_date, input.end_date);
+
+        return {
+            exception: toScheduleException(result[0]),
+            flagged_booking_ids
+        };
+    } catch (error) {
+        console.error('Failed to create schedule exception:', error);
+        throw error;
+    }
+}
+
+// Bookings flagged by the removed entry stay flagged; dispatch clears them by rescheduling
+export async function deleteScheduleException(id: number): Promise<boolean> {
+    try {
+        const result = await db.delete(scheduleExceptionsTable)
+            .where(eq(scheduleExceptionsTable.id, id))
+            .returning({ id: scheduleExceptionsTable.id })
+            .execute();
+
+        if (result.length === 0) {
+            throw new Error(`Schedule exception with ID ${id} not found`);
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Failed to delete schedule exception:', error);
+        throw error;
+    }
+}
+
+// Marks confirmed bookings in the date range whose window the calendar now closes
+async function flagBookingsOutsideCalendar(zone_id: number | null, start_date: string, end_date: string): Promise<number[]> {
+    const conditions: SQL<unknown>[] = [
+        eq(bookingsTable.status, 'confirmed'),
+        eq(bookingsTable.needs_reschedule, false),
+        gte(bookingsTable.scheduled_window_start, fromDateKey(start_date)),
+        lt(bookingsTable.scheduled_window_start, fromDateKey(end_date, 1))
+    ];
+
+    if (zone_id !== null) {
+        conditions.push(eq(bookingsTable.zone_id, zone_id));
+    }
+
+    const bookings = await db.select()
+        .from(bookingsTable)
+        .where(and(...conditions))
+        .execute();
+
+    const flagged: number[] = [];
+    for (const booking of bookings) {
+        const config = await getZoneScheduleConfig(booking.zone_id);
+        const covering = await resolveCoveringOperatingHours(
+            config,
+            booking.scheduled_window_start,
+            booking.scheduled_window_end
+        );
+
+        if (!covering) {
+            flagged.push(booking.id);
+        }
+    }
+
+    for (const booking_id of flagged) {
+        await db.update(bookingsTable)
+            .set({ needs_reschedule: true })
+            .where(eq(bookingsTable.id, booking_id))
+            .execute();
+    }
+
+    return flagged;
+}
+
+export async function getBookingsNeedingReschedule(): Promise<Booking[]> {
+    try {
+        const results = await db.select()
+            .from(bookingsTable)
+            .where(and(
+                eq(bookingsTable.needs_reschedule, true),
+                eq(bookingsTable.status, 'confirmed')
+            ))
+            .orderBy(asc(bookingsTable.scheduled_window_start))
+            .execute();
+
+        return results.map(booking => ({
+            ...booking,
+            price_total: parseFloat(booking.price_total),
+            distance_fee: parseFloat(booking.distance_fee),
+            status: booking.status as Booking['status'],
+            car_type: booking.car_type as Booking['car_type']
+        }));
+    } catch (error) {
+        console.error('Failed to fetch bookings needing reschedule:', error);
+        throw error;
+    }
+}
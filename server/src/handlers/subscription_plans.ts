@@ -0,0 +1,440 @@
+import { db, type DbExecutor } from '../db';
+import { customersTable, plansTable, subscriptionsTable } from '../db/schema';
+import {
+  type CreatePlanInput,
+  type CreateSubscriptionInput,
+  type GetSubscriptionsInput,
+  type Plan,
+  type Subscription,
+  type SubscriptionStatus,
+  type UpdatePlanInput
+} from '../schema';
+import { and, asc, desc, eq, gt, lte, sql, type SQL } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SUBSCRIPTION_INTERVAL_SECONDS = 60 * 60;
+
+type PlanRow = typeof plansTable.$inferSelect;
+type SubscriptionRow = typeof subscriptionsTable.$inferSelect;
+
+function toPlan(row: PlanRow): Plan {
+  return {
+    ...row,
+    price: parseFloat(row.price)
+  };
+}
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    ...row,
+    status: row.status as SubscriptionStatus
+  };
+}
+
+function planCovers(plan: Pick<PlanRow, 'service_ids'>, service_id: number): boolean {
+  return plan.service_ids.length === 0 || plan.service_ids.includes(service_id);
+}
+
+async function loadPlan(id: number, executor: DbExecutor = db): Promise<PlanRow> {
+  const plans = await executor.select()
+    .from(plansTable)
+    .where(eq(plansTable.id, id))
+    .execute();
+
+  if (plans.length === 0) {
+    throw new Error(`Plan with ID ${id} not found`);
+  }
+  return plans[0];
+}
+
+async function loadSubscription(id: number, executor: DbExecutor = db): Promise<SubscriptionRow> {
+  const subscriptions = await executor.select()
+    .from(subscriptionsTable)
+    .where(eq(subscriptionsTable.id, id))
+    .execute();
+
+  if (subscriptions.length === 0) {
+    throw new Error(`Subscription with ID ${id} not found`);
+  }
+  return subscriptions[0];
+}
+
+// Plans
+export async function getPlans(visibleOnly: boolean = true): Promise<Plan[]> {
+  try {
+    const plans = await db.select()
+      .from(plansTable)
+      .where(visibleOnly ? eq(plansTable.visible, true) : undefined)
+      .orderBy(asc(plansTable.price), asc(plansTable.id))
+      .execute();
+
+    return plans.map(toPlan);
+  } catch (error) {
+    console.error('Get plans failed:', error);
+    throw error;
+  }
+}
+
+export async function createPlan(input: CreatePlanInput): Promise<Plan> {
+  try {
+    const result = await db.insert(plansTable)
+      .values({
+        code: input.code,
+        name_ar: input.name_ar,
+        name_en: input.name_en,
+        desc_ar: input.desc_ar,
+        desc_en: input.desc_en,
+        price: input.price.toString(),
+        benefits_ar: input.benefits_ar,
+        benefits_en: input.benefits_en,
+        visible: input.visible,
+        credits_per_period: input.credits_per_period,
+        period_days: input.period_days,
+        service_ids: input.service_ids
+      })
+      .returning()
+      .execute();
+
+    return toPlan(result[0]);
+  } catch (error) {
+    console.error('Plan creation failed:', error);
+    throw error;
+  }
+}
+
+// Changes apply to existing subscribers from their next period
+export async function updatePlan(input: UpdatePlanInput): Promise<Plan> {
+  try {
+    await loadPlan(input.id);
+
+    const updateData: Partial<typeof plansTable.$inferInsert> = {};
+
+    if (input.code !== undefined) updateData.code = input.code;
+    if (input.name_ar !== undefined) updateData.name_ar = input.name_ar;
+    if (input.name_en !== undefined) updateData.name_en = input.name_en;
+    if (input.desc_ar !== undefined) updateData.desc_ar = input.desc_ar;
+    if (input.desc_en !== undefined) updateData.desc_en = input.desc_en;
+    if (input.price !== undefined) updateData.price = input.price.toString();
+    if (input.benefits_ar !== undefined) updateData.benefits_ar = input.benefits_ar;
+    if (input.benefits_en !== undefined) updateData.benefits_en = input.benefits_en;
+    if (input.visible !== undefined) updateData.visible = input.visible;
+    if (input.credits_per_period !== undefined) updateData.credits_per_period = input.credits_per_period;
+    if (input.period_days !== undefined) updateData.period_days = input.period_days;
+    if (input.service_ids !== undefined) updateData.service_ids = input.service_ids;
+
+    if (Object.keys(updateData).length === 0) {
+      return toPlan(await loadPlan(input.id));
+    }
+
+    const result = await db.update(plansTable)
+      .set(updateData)
+      .where(eq(plansTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPlan(result[0]);
+  } catch (error) {
+    console.error('Plan update failed:', error);
+    throw error;
+  }
+}
+
+// Plans that were ever subscribed to are kept for the subscription history; hide them instead
+export async function deletePlan(id: number): Promise<{ success: boolean }> {
+  try {
+    await loadPlan(id);
+
+    const subscriptions = await db.select({ id: subscriptionsTable.id })
+      .from(subscriptionsTable)
+      .where(eq(subscriptionsTable.plan_id, id))
+      .limit(1)
+      .execute();
+
+    if (subscriptions.length > 0) {
+      throw new Error('Plan has subscriptions; hide it instead of deleting it');
+    }
+
+    await db.delete(plansTable)
+      .where(eq(plansTable.id, id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Plan deletion failed:', error);
+    throw error;
+  }
+}
+
+// Subscriptions
+export async function createSubscription(input: CreateSubscriptionInput, now: Date = new Date()): Promise<Subscription> {
+  try {
+    const plan = await loadPlan(input.plan_id);
+
+    const customers = await db.select({ id: customersTable.id })
+      .from(customersTable)
+      .where(eq(customersTable.id, input.customer_id))
+      .execute();
+
+    if (customers.length === 0) {
+      throw new Error(`Customer with ID ${input.customer_id} not found`);
+    }
+
+    // One plan at a time keeps it obvious which credits a booking uses
+    const active = await db.select({ id: subscriptionsTable.id })
+      .from(subscriptionsTable)
+      .where(and(
+        eq(subscriptionsTable.customer_id, input.customer_id),
+        eq(subscriptionsTable.status, 'active')
+      ))
+      .execute();
+
+    if (active.length > 0) {
+      throw new Error('Customer already has an active subscription');
+    }
+
+    const result = await db.insert(subscriptionsTable)
+      .values({
+        customer_id: input.customer_id,
+        plan_id: plan.id,
+        period_start: now,
+        period_end: new Date(now.getTime() + plan.period_days * DAY_MS),
+        credits_remaining: plan.credits_per_period,
+        auto_renew: input.auto_renew
+      })
+      .returning()
+      .execute();
+
+    return toSubscription(result[0]);
+  } catch (error) {
+    console.error('Subscription creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSubscriptions(input: GetSubscriptionsInput = {}): Promise<Subscription[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.customer_id !== undefined) {
+      conditions.push(eq(subscriptionsTable.customer_id, input.customer_id));
+    }
+    if (input.status !== undefined) {
+      conditions.push(eq(subscriptionsTable.status, input.status));
+    }
+
+    const subscriptions = await db.select()
+      .from(subscriptionsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(subscriptionsTable.created_at), desc(subscriptionsTable.id))
+      .execute();
+
+    return subscriptions.map(toSubscription);
+  } catch (error) {
+    console.error('Get subscriptions failed:', error);
+    throw error;
+  }
+}
+
+// Starts a fresh period with a full allowance of credits, e.g. when an expired subscriber pays again
+export async function renewSubscription(id: number, now: Date = new Date()): Promise<Subscription> {
+  try {
+    const subscription = await loadSubscription(id);
+    if (subscription.status === 'active' && subscription.period_end > now) {
+      throw new Error('Subscription is still active; it renews when the period ends');
+    }
+
+    const others = await db.select({ id: subscriptionsTable.id })
+      .from(subscriptionsTable)
+      .where(and(
+        eq(subscriptionsTable.customer_id, subscription.customer_id),
+        eq(subscriptionsTable.status, 'active')
+      ))
+      .execute();
+
+    if (others.some(other => other.id !== subscription.id)) {
+      throw new Error('Customer already has an active subscription');
+    }
+
+    const plan = await loadPlan(subscription.plan_id);
+    const result = await db.update(subscriptionsTable)
+      .set({
+        status: 'active',
+        period_start: now,
+        period_end: new Date(now.getTime() + plan.period_days * DAY_MS),
+        credits_remaining: plan.credits_per_period,
+        auto_renew: true
+      })
+      .where(eq(subscriptionsTable.id, id))
+      .returning()
+      .execute();
+
+    return toSubscription(result[0]);
+  } catch (error) {
+    console.error('Subscription renewal failed:', error);
+    throw error;
+  }
+}
+
+// Stops renewal so the subscription expires when its period ends, or ends it now when immediate
+export async function cancelSubscription(id: number, immediate: boolean = false): Promise<Subscription> {
+  try {
+    const subscription = await loadSubscription(id);
+    if (subscription.status !== 'active') {
+      throw new Error(`Subscription is already ${subscription.status}`);
+    }
+
+    const result = await db.update(subscriptionsTable)
+      .set(immediate ? { status: 'canceled', auto_renew: false } : { auto_renew: false })
+      .where(eq(subscriptionsTable.id, id))
+      .returning()
+      .execute();
+
+    return toSubscription(result[0]);
+  } catch (error) {
+    console.error('Subscription cancellation failed:', error);
+    throw error;
+  }
+}
+
+// Rolls over every subscription whose period has ended: auto-renewing ones get a new period
+// and a full allowance (unused credits don't carry over), the rest expire.
+export async function processSubscriptionRenewals(now: Date = new Date()): Promise<{ renewed: number; expired: number }> {
+  try {
+    const due = await db.select()
+      .from(subscriptionsTable)
+      .innerJoin(plansTable, eq(plansTable.id, subscriptionsTable.plan_id))
+      .where(and(
+        eq(subscriptionsTable.status, 'active'),
+        lte(subscriptionsTable.period_end, now)
+      ))
+      .execute();
+
+    let renewed = 0;
+    let expired = 0;
+
+    for (const { subscriptions: subscription, plans: plan } of due) {
+      if (!subscription.auto_renew) {
+        await db.update(subscriptionsTable)
+          .set({ status: 'expired' })
+          .where(eq(subscriptionsTable.id, subscription.id))
+          .execute();
+        expired++;
+        continue;
+      }
+
+      // Periods stay back to back even if the scheduler was down for a while
+      let periodStart = subscription.period_end;
+      let periodEnd = new Date(periodStart.getTime() + plan.period_days * DAY_MS);
+      while (periodEnd <= now) {
+        periodStart = periodEnd;
+        periodEnd = new Date(periodStart.getTime() + plan.period_days * DAY_MS);
+      }
+
+      await db.update(subscriptionsTable)
+        .set({
+          period_start: periodStart,
+          period_end: periodEnd,
+          credits_remaining: plan.credits_per_period
+        })
+        .where(eq(subscriptionsTable.id, subscription.id))
+        .execute();
+      renewed++;
+    }
+
+    return { renewed, expired };
+  } catch (error) {
+    console.error('Subscription renewal run failed:', error);
+    throw error;
+  }
+}
+
+// Renews subscriptions in the server process; returns a function that stops the scheduler
+export function startSubscriptionScheduler(
+  intervalMs: number = Number(process.env['SUBSCRIPTION_INTERVAL_SECONDS'] || DEFAULT_SUBSCRIPTION_INTERVAL_SECONDS) * 1000
+): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await processSubscriptionRenewals(new Date());
+    } catch (error) {
+      console.error('Subscription scheduler tick failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(timer);
+}
+
+// The customer's active subscription if it has a credit left in the current period for the service
+export async function findCoveringSubscription(
+  customer_id: number,
+  service_id: number,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<Subscription | null> {
+  const results = await executor.select()
+    .from(subscriptionsTable)
+    .innerJoin(plansTable, eq(plansTable.id, subscriptionsTable.plan_id))
+    .where(and(
+      eq(subscriptionsTable.customer_id, customer_id),
+      eq(subscriptionsTable.status, 'active'),
+      lte(subscriptionsTable.period_start, now),
+      gt(subscriptionsTable.period_end, now),
+      gt(subscriptionsTable.credits_remaining, 0)
+    ))
+    .execute();
+
+  const covering = results.find(({ plans: plan }) => planCovers(plan, service_id));
+  return covering ? toSubscription(covering.subscriptions) : null;
+}
+
+// Spends one credit; the conditional decrement keeps concurrent bookings from overdrawing
+export async function useSubscriptionCredit(
+  subscription_id: number,
+  now: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<void> {
+  const updated = await executor.update(subscriptionsTable)
+    .set({ credits_remaining: sql`${subscriptionsTable.credits_remaining} - 1` })
+    .where(and(
+      eq(subscriptionsTable.id, subscription_id),
+      eq(subscriptionsTable.status, 'active'),
+      gt(subscriptionsTable.credits_remaining, 0),
+      gt(subscriptionsTable.period_end, now)
+    ))
+    .returning()
+    .execute();
+
+  if (updated.length === 0) {
+    throw new Error('Subscription has no wash credits left');
+  }
+}
+
+// Gives back the credit of a canceled booking, unless it came out of a period that has since ended
+export async function refundSubscriptionCredit(
+  subscription_id: number,
+  booked_at: Date,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  const subscription = await loadSubscription(subscription_id, executor);
+  if (subscription.status !== 'active' || booked_at < subscription.period_start) {
+    return false;
+  }
+
+  await executor.update(subscriptionsTable)
+    .set({ credits_remaining: sql`${subscriptionsTable.credits_remaining} + 1` })
+    .where(eq(subscriptionsTable.id, subscription_id))
+    .execute();
+  return true;
+}
@@ -0,0 +1,245 @@
+import { db, type DbExecutor } from '../db';
+import { teamShiftsTable, teamsTable, techniciansTable, zonesTable } from '../db/schema';
+import {
+    type CreateTeamInput,
+    type CreateTechnicianInput,
+    type SetTeamShiftsInput,
+    type Team,
+    type TeamShift,
+    type Technician,
+    type UpdateTeamInput,
+    type UpdateTechnicianInput
+} from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { businessTimeRange, businessWeekday } from './business_time';
+
+// A team's shift on a specific day
+export interface TeamShiftWindow {
+    team_id: number;
+    start: Date;
+    end: Date;
+}
+
+function toTeam(row: typeof teamsTable.$inferSelect): Team {
+    return {
+        ...row,
+        type: row.type as Team['type']
+    };
+}
+
+async function assertZoneExists(zone_id: number): Promise<void> {
+    const zones = await db.select({ id: zonesTable.id })
+        .from(zonesTable)
+        .where(eq(zonesTable.id, zone_id))
+        .execute();
+
+    if (zones.length === 0) {
+        throw new Error(`Zone with ID ${zone_id} not found`);
+    }
+}
+
+async function assertTeamExists(team_id: number): Promise<void> {
+    const teams = await db.select({ id: teamsTable.id })
+        .from(teamsTable)
+        .where(eq(teamsTable.id, team_id))
+        .execute();
+
+    if (teams.length === 0) {
+        throw new Error(`Team with ID ${team_id} not found`);
+    }
+}
+
+export async function getTeams(zone_id?: number): Promise<Team[]> {
+    try {
+        const rows = await db.select()
+            .from(teamsTable)
+            .where(zone_id !== undefined ? eq(teamsTable.home_zone_id, zone_id) : undefined)
+            .orderBy(asc(teamsTable.id))
+            .execute();
+
+        return rows.map(toTeam);
+    } catch (error) {
+        console.error('Failed to fetch teams:', error);
+        throw error;
+    }
+}
+
+export async function createTeam(input: CreateTeamInput): Promise<Team> {
+    try {
+        await assertZoneExists(input.home_zone_id);
+
+        const result = await db.insert(teamsTable)
+            .values(input)
+            .returning()
+            .execute();
+
+        return toTeam(result[0]);
+    } catch (error) {
+        console.error('Failed to create team:', error);
+        throw error;
+    }
+}
+
+export async function updateTeam(input: UpdateTeamInput): Promise<Team> {
+    try {
+        const { id, ...values } = input;
+
+        if (values.home_zone_id !== undefined) {
+            await assertZoneExists(values.home_zone_id);
+        }
+
+        const result = await db.update(teamsTable)
+            .set(values)
+            .where(eq(teamsTable.id, id))
+            .returning()
+            .execute();
+
+        if (result.length === 0) {
+            throw new Error(`Team with ID ${id} not found`);
+        }
+
+        return toTeam(result[0]);
+    } catch (error) {
+        console.error('Failed to update team:', error);
+        throw error;
+    }
+}
+
+export async function getTechnicians(team_id?: number): Promise<Technician[]> {
+    try {
+        return await db.select()
+            .from(techniciansTable)
+            .where(team_id !== undefined ? eq(techniciansTable.team_id, team_id) : undefined)
+            .orderBy(asc(techniciansTable.id))
+            .execute();
+    } catch (error) {
+        console.error('Failed to fetch technicians:', error);
+        throw error;
+    }
+}
+
+export async function createTechnician(input: CreateTechnicianInput): Promise<Technician> {
+    try {
+        if (input.team_id !== null) {
+            await assertTeamExists(input.team_id);
+        }
+
+        const result = await db.insert(techniciansTable)
+            .values(input)
+            .returning()
+            .execute();
+
+        return result[0];
+    } catch (error) {
+        console.error('Failed to create technician:', error);
+        throw error;
+    }
+}
+
+export async function updateTechnician(input: UpdateTechnicianInput): Promise<Technician> {
+    try {
+        const { id, ...values } = input;
+
+        if (values.team_id !== undefined && values.team_id !== null) {
+            await assertTeamExists(values.team_id);
+        }
+
+        const result = await db.update(techniciansTable)
+            .set(values)
+            .where(eq(techniciansTable.id, id))
+            .returning()
+            .execute();
+
+        if (result.length === 0) {
+            throw new Error(`Technician with ID ${id} not found`);
+        }
+
+        return result[0];
+    } catch (error) {
+        console.error('Failed to update technician:', error);
+        throw error;
+    }
+}
+
+export async function getTeamShifts(team_id: number): Promise<TeamShift[]> {
+    try {
+        return await db.select()
+            .from(teamShiftsTable)
+            .where(eq(teamShiftsTable.team_id, team_id))
+            .orderBy(asc(teamShiftsTable.weekday), asc(teamShiftsTable.start_time))
+            .execute();
+    } catch (error) {
+        console.error('Failed to fetch team shifts:', error);
+        throw error;
+    }
+}
+
+export async function setTeamShifts(input: SetTeamShiftsInput): Promise<TeamShift[]> {
+    try {
+        await assertTeamExists(input.team_id);
+
+        await db.transaction(async (tx) => {
+            await tx.delete(teamShiftsTable)
+                .where(eq(teamShiftsTable.team_id, input.team_id))
+                .execute();
+
+            if (input.shifts.length > 0) {
+                await tx.insert(teamShiftsTable)
+                    .values(input.shifts.map(shift => ({ team_id: input.team_id, ...shift })))
+                    .execute();
+            }
+        });
+
+        return await getTeamShifts(input.team_id);
+    } catch (error) {
+        console.error('Failed to save team shifts:', error);
+        throw error;
+    }
+}
+
+// Shifts of the zone's active teams on the day of `date`.
+// Returns null when the zone has no active teams yet, so callers fall back to the configured capacity.
+export async function getZoneShiftWindows(
+    zone_id: number,
+    date: Date,
+    executor: DbExecutor = db
+): Promise<TeamShiftWindow[] | null> {
+    const teams = await executor.select({ id: teamsTable.id })
+        .from(teamsTable)
+        .where(and(eq(teamsTable.home_zone_id, zone_id), eq(teamsTable.active, true)))
+        .execute();
+
+    if (teams.length === 0) {
+        return null;
+    }
+
+    const shifts = await executor.select({
+        team_id: teamShiftsTable.team_id,
+        start_time: teamShiftsTable.start_time,
+        end_time: teamShiftsTable.end_time
+    })
+        .from(teamShiftsTable)
+        .innerJoin(teamsTable, eq(teamShiftsTable.team_id, teamsTable.id))
+        .where(and(
+            eq(teamsTable.home_zone_id, zone_id),
+            eq(teamsTable.active, true),
+            eq(teamShiftsTable.weekday, businessWeekday(date))
+        ))
+        .execute();
+
+    // Shifts ending at or before their start run past midnight
+    return shifts.map(shift => ({
+        team_id: shift.team_id,
+        ...businessTimeRange(date, shift.start_time, shift.end_time)
+    }));
+}
+
+// Number of distinct teams whose shift covers the whole window
+export function countTeamsOnShift(shifts: TeamShiftWindow[], start: Date, end: Date): number {
+    const teams = new Set(
+        shifts
+            .filter(shift => shift.start <= start && shift.end >= end)
+            .map(shift => shift.team_id)
+    );
+    return teams.size;
+}
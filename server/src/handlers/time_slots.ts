@@ -1,31 +1,39 @@
-import { db } from '../db';
-import { bookingsTable, zonesTable } from '../db/schema';
-import { eq, and, between, gte, lte } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { addonsTable, bookingsTable, servicesTable, zonesTable } from '../db/schema';
+import { eq, ne, and, between, gte, inArray, lte, type SQL } from 'drizzle-orm';
+import { type Booking, type OperatingHours } from '../schema';
+import { getOperatingWindow, getZoneScheduleConfig, resolveCoveringOperatingHours, resolveOperatingHours } from './zone_schedules';
+import { getZonePrayerPauses, type PrayerPause } from './prayer_times';
+import { countTeamsOnShift, getZoneShiftWindows, type TeamShiftWindow } from './team_roster';
+import { startOfBusinessDay } from './business_time';
+
+// Bookings whose crew is still committed to the window, so they hold zone capacity
+export const CAPACITY_STATUSES: Booking['status'][] = ['confirmed', 'on_the_way', 'started'];
 
 export interface TimeSlot {
     start: Date;
     end: Date;
     available: boolean;
     zone_id: number;
+    price?: number; // set when the slots are priced for a service, see priceTimeSlots
 }
 
 export interface ZoneSchedule {
-    operating_hours: { start: string; end: string };
+    operating_hours: OperatingHours | null; // null when the zone is closed that day
     booked_slots: TimeSlot[];
-    team_capacity: number;
+    team_capacity: number; // used when the zone has no roster
+    team_shifts: TeamShiftWindow[] | null; // null until the zone has active teams
+    slot_minutes: number;
+    interval_minutes: number;
+    buffer_minutes: number;
+    prayer_pauses: PrayerPause[]; // empty unless the zone pauses for prayers
 }
 
-// Configuration constants
-const DEFAULT_OPERATING_HOURS = { start: '08:00', end: '18:00' };
-const DEFAULT_TEAM_CAPACITY = 3;
-const SLOT_WINDOW_MINUTES = 90; // 90-minute appointment windows
-const BUFFER_MINUTES = 30; // Buffer between appointments
-const SLOT_INTERVAL_MINUTES = 60; // Generate slots every 60 minutes
-
 export async function getAvailableTimeSlots(
     zone_id: number,
-    service_duration: number,
-    date: Date
+    service_duration: number, // minutes of work, see getJobMinutes
+    date: Date,
+    exclude_booking_id?: number // Lets a booking be moved without competing with itself
 ): Promise<TimeSlot[]> {
     try {
         // Validate zone exists
@@ -39,10 +47,21 @@ export async function getAvailableTimeSlots(
         }
 
         // Get zone schedule for the date
-        const schedule = await getZoneSchedule(zone_id, date);
+        const schedule = await getZoneSchedule(zone_id, date, db, exclude_booking_id);
         
-        // Generate all possible time slots for the day
-        const allSlots = generateTimeSlots(date, schedule.operating_hours);
+        // Closed days have no slots
+        if (!schedule.operating_hours) {
+            return [];
+        }
+
+        // Generate all possible time slots for the day, long enough for the job
+        const allSlots = generateTimeSlots(
+            date,
+            schedule.operating_hours,
+            getWindowMinutes(schedule, service_duration),
+            schedule.interval_minutes,
+            schedule.prayer_pauses
+        );
         
         // Check availability for each slot
         const availableSlots: TimeSlot[] = [];
@@ -54,7 +73,8 @@ export async function getAvailableTimeSlots(
                 slot.end,
                 service_duration,
                 schedule.booked_slots,
-                schedule.team_capacity
+                getSlotCapacity(schedule, slot.start, slot.end),
+                schedule.buffer_minutes
             );
             
             availableSlots.push({
@@ -74,11 +94,14 @@ export async function getAvailableTimeSlots(
 export async function validateTimeSlot(
     zone_id: number,
     start_time: Date,
-    end_time: Date
+    end_time: Date,
+    executor: DbExecutor = db,
+    exclude_booking_id?: number,
+    service_duration?: number // when given, the window must also fit the job plus the buffer
 ): Promise<boolean> {
     try {
         // Validate zone exists
-        const zone = await db.select()
+        const zone = await executor.select()
             .from(zonesTable)
             .where(eq(zonesTable.id, zone_id))
             .execute();
@@ -87,17 +110,33 @@ export async function validateTimeSlot(
             return false;
         }
 
-        // Check if slot is within operating hours
-        const schedule = await getZoneSchedule(zone_id, start_time);
-        if (!isWithinOperatingHours(start_time, end_time, schedule.operating_hours)) {
+        // Check if slot is within operating hours, including the previous day's when they run past midnight
+        const covering = await resolveCoveringOperatingHours(
+            await getZoneScheduleConfig(zone_id, executor),
+            start_time,
+            end_time,
+            executor
+        );
+        if (!covering) {
+            return false;
+        }
+        const schedule = await getZoneSchedule(zone_id, covering.day, executor);
+
+        if (service_duration !== undefined &&
+            service_duration + schedule.buffer_minutes > (end_time.getTime() - start_time.getTime()) / (1000 * 60)) {
+            return false;
+        }
+
+        // Teams don't work through prayer pauses
+        if (schedule.prayer_pauses.some(pause => isTimeOverlap(start_time, end_time, pause.start, pause.end))) {
             return false;
         }
 
         // Check for conflicts with existing bookings
-        const conflictingBookings = await getConflictingBookings(zone_id, start_time, end_time);
+        const conflictingBookings = await getConflictingBookings(zone_id, start_time, end_time, executor, exclude_booking_id);
         
         // Validate team capacity isn't exceeded
-        if (conflictingBookings.length >= schedule.team_capacity) {
+        if (conflictingBookings.length >= getSlotCapacity(schedule, start_time, end_time)) {
             return false;
         }
 
@@ -108,25 +147,36 @@ export async function validateTimeSlot(
     }
 }
 
-export async function getZoneSchedule(zone_id: number, date: Date): Promise<ZoneSchedule> {
+export async function getZoneSchedule(
+    zone_id: number,
+    date: Date,
+    executor: DbExecutor = db,
+    exclude_booking_id?: number
+): Promise<ZoneSchedule> {
     try {
-        // Get start and end of the day
-        const dayStart = new Date(date);
-        dayStart.setHours(0, 0, 0, 0);
-        
-        const dayEnd = new Date(date);
-        dayEnd.setHours(23, 59, 59, 999);
+        const config = await getZoneScheduleConfig(zone_id, executor);
+        const operatingHours = await resolveOperatingHours(config, date, executor);
+
+        // Get start and end of the business day, running on to closing time when the zone works past midnight
+        const dayStart = startOfBusinessDay(date);
+        const dayEnd = new Date(Math.max(
+            startOfBusinessDay(date, 1).getTime(),
+            operatingHours ? getOperatingWindow(date, operatingHours).end.getTime() : 0
+        ) - 1);
 
         // Get all bookings for the zone on this date
-        const bookings = await db.select()
+        const conditions: SQL<unknown>[] = [
+            eq(bookingsTable.zone_id, zone_id),
+            between(bookingsTable.scheduled_window_start, dayStart, dayEnd),
+            inArray(bookingsTable.status, CAPACITY_STATUSES)
+        ];
+        if (exclude_booking_id !== undefined) {
+            conditions.push(ne(bookingsTable.id, exclude_booking_id));
+        }
+
+        const bookings = await executor.select()
             .from(bookingsTable)
-            .where(
-                and(
-                    eq(bookingsTable.zone_id, zone_id),
-                    between(bookingsTable.scheduled_window_start, dayStart, dayEnd),
-                    eq(bookingsTable.status, 'confirmed') // Only consider confirmed bookings
-                )
-            )
+            .where(and(...conditions))
             .execute();
 
         // Convert bookings to time slots
@@ -138,9 +188,14 @@ export async function getZoneSchedule(zone_id: number, date: Date): Promise<Zone
         }));
 
         return {
-            operating_hours: DEFAULT_OPERATING_HOURS,
+            operating_hours: operatingHours,
             booked_slots: bookedSlots,
-            team_capacity: DEFAULT_TEAM_CAPACITY
+            team_capacity: config.team_capacity,
+            team_shifts: await getZoneShiftWindows(zone_id, date, executor),
+            slot_minutes: config.slot_minutes,
+            interval_minutes: config.interval_minutes,
+            buffer_minutes: config.buffer_minutes,
+            prayer_pauses: await getZonePrayerPauses(config, date, executor)
         };
     } catch (error) {
         console.error('Failed to get zone schedule:', error);
@@ -148,38 +203,107 @@ export async function getZoneSchedule(zone_id: number, date: Date): Promise<Zone
     }
 }
 
+// Minutes of work for a service plus its add-ons
+export async function getJobMinutes(
+    service_id: number,
+    addon_ids: number[],
+    executor: DbExecutor = db
+): Promise<number> {
+    const services = await executor.select({ est_minutes: servicesTable.est_minutes })
+        .from(servicesTable)
+        .where(eq(servicesTable.id, service_id))
+        .execute();
+
+    if (services.length === 0) {
+        throw new Error(`Service with ID ${service_id} not found`);
+    }
+
+    const addons = addon_ids.length > 0
+        ? await executor.select({ est_minutes: addonsTable.est_minutes })
+            .from(addonsTable)
+            .where(inArray(addonsTable.id, addon_ids))
+            .execute()
+        : [];
+
+    return services[0].est_minutes + addons.reduce((sum, addon) => sum + addon.est_minutes, 0);
+}
+
+// Share of the day's crew time already booked (0-1); closed days count as empty
+export function getDayUtilisation(schedule: ZoneSchedule, date: Date): number {
+    if (!schedule.operating_hours) {
+        return 0;
+    }
+
+    const window = getOperatingWindow(date, schedule.operating_hours);
+    const open = window.start.getTime();
+    const close = window.end.getTime();
+    const capacityMs = schedule.team_shifts === null
+        ? (close - open) * schedule.team_capacity
+        : schedule.team_shifts.reduce((total, shift) =>
+            total + Math.max(0, Math.min(shift.end.getTime(), close) - Math.max(shift.start.getTime(), open)), 0);
+
+    if (capacityMs <= 0) {
+        return 0;
+    }
+
+    const bookedMs = schedule.booked_slots.reduce((total, slot) => total + (slot.end.getTime() - slot.start.getTime()), 0);
+    return Math.min(bookedMs / capacityMs, 1);
+}
+
 // Helper functions
+
+// Jobs that don't fit a standard window get one spanning as many extra intervals as they need
+function getWindowMinutes(schedule: ZoneSchedule, service_duration: number): number {
+    const overflow = service_duration + schedule.buffer_minutes - schedule.slot_minutes;
+    if (overflow <= 0) {
+        return schedule.slot_minutes;
+    }
+    return schedule.slot_minutes + Math.ceil(overflow / schedule.interval_minutes) * schedule.interval_minutes;
+}
+
+// Teams on shift for the whole window, or the configured capacity for zones without a roster
+function getSlotCapacity(schedule: ZoneSchedule, start: Date, end: Date): number {
+    if (schedule.team_shifts === null) {
+        return schedule.team_capacity;
+    }
+    return countTeamsOnShift(schedule.team_shifts, start, end);
+}
 function generateTimeSlots(
     date: Date,
-    operating_hours: { start: string; end: string }
+    operating_hours: OperatingHours,
+    slot_minutes: number,
+    interval_minutes: number,
+    prayer_pauses: PrayerPause[]
 ): Omit<TimeSlot, 'available' | 'zone_id'>[] {
     const slots: Omit<TimeSlot, 'available' | 'zone_id'>[] = [];
     
-    // Parse operating hours
-    const [startHour, startMin] = operating_hours.start.split(':').map(Number);
-    const [endHour, endMin] = operating_hours.end.split(':').map(Number);
-    
-    // Set up start time
-    const currentSlot = new Date(date);
-    currentSlot.setHours(startHour, startMin, 0, 0);
-    
-    // Set up end boundary
-    const dayEnd = new Date(date);
-    dayEnd.setHours(endHour, endMin, 0, 0);
+    // Operating hours are wall-clock times in the business timezone, closing the next day when they run past midnight
+    const window = getOperatingWindow(date, operating_hours);
+    const currentSlot = new Date(window.start);
+    const dayEnd = window.end;
     
     // Generate slots at intervals
-    while (currentSlot.getTime() + (SLOT_WINDOW_MINUTES * 60 * 1000) <= dayEnd.getTime()) {
+    while (currentSlot.getTime() + (slot_minutes * 60 * 1000) <= dayEnd.getTime()) {
         const slotStart = new Date(currentSlot);
-        const slotEnd = new Date(currentSlot);
-        slotEnd.setMinutes(slotEnd.getMinutes() + SLOT_WINDOW_MINUTES);
-        
-        slots.push({
-            start: slotStart,
-            end: slotEnd
-        });
+        let slotEnd = new Date(currentSlot.getTime() + slot_minutes * 60 * 1000);
+
+        // Slots starting inside a prayer pause are dropped; slots running into one end where it starts
+        const startsInPause = prayer_pauses.some(pause => pause.start <= slotStart && slotStart < pause.end);
+        for (const pause of prayer_pauses) {
+            if (pause.start > slotStart && pause.start < slotEnd) {
+                slotEnd = new Date(pause.start);
+            }
+        }
+
+        if (!startsInPause) {
+            slots.push({
+                start: slotStart,
+                end: slotEnd
+            });
+        }
         
         // Move to next slot
-        currentSlot.setMinutes(currentSlot.getMinutes() + SLOT_INTERVAL_MINUTES);
+        currentSlot.setTime(currentSlot.getTime() + interval_minutes * 60 * 1000);
     }
     
     return slots;
@@ -191,7 +315,8 @@ function isSlotAvailable(
     end: Date,
     service_duration: number,
     booked_slots: TimeSlot[],
-    team_capacity: number
+    team_capacity: number,
+    buffer_minutes: number
 ): boolean {
     // Check for overlapping bookings
     const overlapping = booked_slots.filter(slot => 
@@ -205,7 +330,7 @@ function isSlotAvailable(
     
     // Additional check: ensure service duration fits within the slot with buffer
     const slotDuration = (end.getTime() - start.getTime()) / (1000 * 60); // in minutes
-    if (service_duration + BUFFER_MINUTES > slotDuration) {
+    if (service_duration + buffer_minutes > slotDuration) {
         return false;
     }
     
@@ -215,47 +340,30 @@ function isSlotAvailable(
 async function getConflictingBookings(
     zone_id: number,
     start_time: Date,
-    end_time: Date
+    end_time: Date,
+    executor: DbExecutor,
+    exclude_booking_id?: number
 ): Promise<any[]> {
+    const conditions: SQL<unknown>[] = [
+        eq(bookingsTable.zone_id, zone_id),
+        // Check for overlap: booking starts before our slot ends AND booking ends after our slot starts
+        lte(bookingsTable.scheduled_window_start, end_time),
+        gte(bookingsTable.scheduled_window_end, start_time),
+        inArray(bookingsTable.status, CAPACITY_STATUSES)
+    ];
+    if (exclude_booking_id !== undefined) {
+        conditions.push(ne(bookingsTable.id, exclude_booking_id));
+    }
+
     // Get bookings that overlap with the proposed time slot
-    const bookings = await db.select()
+    const bookings = await executor.select()
         .from(bookingsTable)
-        .where(
-            and(
-                eq(bookingsTable.zone_id, zone_id),
-                // Check for overlap: booking starts before our slot ends AND booking ends after our slot starts
-                lte(bookingsTable.scheduled_window_start, end_time),
-                gte(bookingsTable.scheduled_window_end, start_time),
-                eq(bookingsTable.status, 'confirmed')
-            )
-        )
+        .where(and(...conditions))
         .execute();
     
     return bookings;
 }
 
-function isWithinOperatingHours(
-    start_time: Date,
-    end_time: Date,
-    operating_hours: { start: string; end: string }
-): boolean {
-    const [startHour, startMin] = operating_hours.start.split(':').map(Number);
-    const [endHour, endMin] = operating_hours.end.split(':').map(Number);
-    
-    const slotStartHour = start_time.getHours();
-    const slotStartMin = start_time.getMinutes();
-    const slotEndHour = end_time.getHours();
-    const slotEndMin = end_time.getMinutes();
-    
-    // Convert to minutes for easier comparison
-    const opStartMinutes = startHour * 60 + startMin;
-    const opEndMinutes = endHour * 60 + endMin;
-    const slotStartMinutes = slotStartHour * 60 + slotStartMin;
-    const slotEndMinutes = slotEndHour * 60 + slotEndMin;
-    
-    return slotStartMinutes >= opStartMinutes && slotEndMinutes <= opEndMinutes;
-}
-
 function isTimeOverlap(
     start1: Date,
     end1: Date,
@@ -2,74 +2,131 @@ import { db } from '../db';
 import { bookingsTable } from '../db/schema';
 import { type UpdateBookingInput, type Booking } from '../schema';
 import { eq } from 'drizzle-orm';
+import { canTransitionBookingStatus, recordBookingEvent } from './booking_events';
+import { notifyBookingStatusChange } from './booking_notifications';
+import { offerWaitlistedSlots } from './waitlist';
+import { refundSubscriptionCredit } from './subscription_plans';
+import { voidCouponRedemption } from './coupons';
+import { getRescheduledPrice } from './calculate_price';
 
-export const updateBooking = async (input: UpdateBookingInput): Promise<Booking> => {
+// Statuses that give the booked window back to the zone
+const FREEING_STATUSES: Booking['status'][] = ['canceled', 'postponed'];
+
+export const updateBooking = async (input: UpdateBookingInput, actor: string = 'system'): Promise<Booking> => {
   try {
-    // First verify the booking exists
-    const existingBookings = await db.select()
-      .from(bookingsTable)
-      .where(eq(bookingsTable.id, input.id))
-      .execute();
-
-    if (existingBookings.length === 0) {
-      throw new Error(`Booking with ID ${input.id} not found`);
-    }
+    const { booking, statusChanged } = await db.transaction(async (tx) => {
+      // First verify the booking exists, locking it so concurrent status changes are serialized
+      const existingBookings = await tx.select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, input.id))
+        .for('update')
+        .execute();
 
-    const existingBooking = existingBookings[0];
+      if (existingBookings.length === 0) {
+        throw new Error(`Booking with ID ${input.id} not found`);
+      }
 
-    // Prepare update values - only include fields that are provided
-    const updateValues: any = {};
+      const existingBooking = existingBookings[0];
+      const currentStatus = existingBooking.status as Booking['status'];
 
-    if (input.status !== undefined) {
-      updateValues.status = input.status;
-    }
+      // Prepare update values - only include fields that are provided
+      const updateValues: any = {};
 
-    if (input.scheduled_window_start !== undefined) {
-      updateValues.scheduled_window_start = input.scheduled_window_start;
-    }
+      if (input.status !== undefined && input.status !== currentStatus) {
+        if (!canTransitionBookingStatus(currentStatus, input.status)) {
+          throw new Error(`Cannot change booking status from ${currentStatus} to ${input.status}`);
+        }
+        updateValues.status = input.status;
+      }
 
-    if (input.scheduled_window_end !== undefined) {
-      updateValues.scheduled_window_end = input.scheduled_window_end;
-    }
+      if (input.scheduled_window_start !== undefined) {
+        updateValues.scheduled_window_start = input.scheduled_window_start;
+      }
 
-    if (input.address_text !== undefined) {
-      updateValues.address_text = input.address_text;
-    }
+      if (input.scheduled_window_end !== undefined) {
+        updateValues.scheduled_window_end = input.scheduled_window_end;
+      }
 
-    if (input.geo_point !== undefined) {
-      updateValues.geo_point = input.geo_point;
-    }
+      // A new window resolves a calendar conflict
+      if (input.scheduled_window_start !== undefined || input.scheduled_window_end !== undefined) {
+        updateValues.needs_reschedule = false;
+      }
 
-    // If no updates provided, return existing booking
-    if (Object.keys(updateValues).length === 0) {
-      return {
-        ...existingBooking,
-        price_total: parseFloat(existingBooking.price_total),
-        distance_fee: parseFloat(existingBooking.distance_fee),
-        status: existingBooking.status as any,
-        car_type: existingBooking.car_type as any
-      };
-    }
+      // Moving the booking to a slot with a different surge changes what the customer pays
+      if (input.scheduled_window_start !== undefined
+        && input.scheduled_window_start.getTime() !== existingBooking.scheduled_window_start.getTime()) {
+        const priceTotal = await getRescheduledPrice(existingBooking, {
+          start: input.scheduled_window_start,
+          end: input.scheduled_window_end ?? existingBooking.scheduled_window_end
+        });
+        updateValues.price_total = priceTotal.toString();
+      }
+
+      if (input.address_text !== undefined) {
+        updateValues.address_text = input.address_text;
+      }
+
+      if (input.geo_point !== undefined) {
+        updateValues.geo_point = input.geo_point;
+      }
 
-    // Update the booking
-    const result = await db.update(bookingsTable)
-      .set(updateValues)
-      .where(eq(bookingsTable.id, input.id))
-      .returning()
-      .execute();
+      // If no updates provided, return existing booking
+      if (Object.keys(updateValues).length === 0) {
+        return { booking: existingBooking, statusChanged: false };
+      }
 
-    const updatedBooking = result[0];
+      // Update the booking
+      const result = await tx.update(bookingsTable)
+        .set(updateValues)
+        .where(eq(bookingsTable.id, input.id))
+        .returning()
+        .execute();
+
+      const updatedBooking = result[0];
+
+      // A canceled wash gives its subscription credit back; a postponed one still owes the wash
+      if (updateValues.status === 'canceled' && existingBooking.subscription_id !== null) {
+        await refundSubscriptionCredit(existingBooking.subscription_id, existingBooking.created_at, tx);
+      }
+
+      // Likewise its coupon use goes back to the coupon's limits
+      if (updateValues.status === 'canceled') {
+        await voidCouponRedemption(existingBooking.id, new Date(), tx);
+      }
+
+      if (updateValues.status !== undefined) {
+        await recordBookingEvent({
+          booking_id: updatedBooking.id,
+          actor,
+          old_status: currentStatus,
+          new_status: updateValues.status,
+          reason: input.reason
+        }, tx);
+      }
+
+      return { booking: updatedBooking, statusChanged: updateValues.status !== undefined };
+    });
+
+    // Tell the customer about the new status once the change is committed
+    if (statusChanged) {
+      await notifyBookingStatusChange(booking.id, booking.status as Booking['status'], { eta: input.eta_minutes });
+    }
+
+    // Customers waiting for the freed window get offered it
+    if (statusChanged && FREEING_STATUSES.includes(booking.status as Booking['status'])) {
+      await offerWaitlistedSlots(booking.zone_id, booking.scheduled_window_start, booking.scheduled_window_end);
+    }
 
     // Convert numeric fields back to numbers before returning
     return {
-      ...updatedBooking,
-      price_total: parseFloat(updatedBooking.price_total),
-      distance_fee: parseFloat(updatedBooking.distance_fee),
-      status: updatedBooking.status as any,
-      car_type: updatedBooking.car_type as any
+      ...booking,
+      price_total: parseFloat(booking.price_total),
+      distance_fee: parseFloat(booking.distance_fee),
+      status: booking.status as any,
+      car_type: booking.car_type as any
     };
   } catch (error) {
     console.error('Booking update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,442 @@
+import { db } from '../db';
+import { customersTable, servicesTable, waitlistEntriesTable } from '../db/schema';
+import {
+  type CreateBookingResponse,
+  type GetWaitlistInput,
+  type JoinWaitlistInput,
+  type JoinWaitlistResponse,
+  type Language,
+  type WaitlistEntry,
+  type WaitlistStatus
+} from '../schema';
+import { and, asc, eq, gt, gte, inArray, lt, lte, type SQL } from 'drizzle-orm';
+import { getAvailableTimeSlots, getJobMinutes, validateTimeSlot } from './time_slots';
+import { createBooking } from './create_booking';
+import { createWaitlistClaimToken, verifyWaitlistClaimToken } from './booking_tokens';
+import { getPublicAppUrl } from './booking_notifications';
+import { sendWaitlistOffer } from './whatsapp_integration';
+
+const DEFAULT_OFFER_MINUTES = 30;
+const DEFAULT_WAITLIST_INTERVAL_SECONDS = 60;
+
+// Entries still in line for their slot
+const OPEN_STATUSES: WaitlistStatus[] = ['waiting', 'offered'];
+
+type WaitlistRow = typeof waitlistEntriesTable.$inferSelect;
+
+// WAITLIST_OFFER_MINUTES: how long a customer has to claim a slot offered to them
+export function getOfferMinutes(): number {
+  const raw = process.env['WAITLIST_OFFER_MINUTES'];
+  if (raw === undefined || raw === '') {
+    return DEFAULT_OFFER_MINUTES;
+  }
+
+  const minutes = Number(raw);
+  if (!Number.isInteger(minutes) || minutes <= 0) {
+    throw new Error(`Invalid WAITLIST_OFFER_MINUTES '${raw}'`);
+  }
+  return minutes;
+}
+
+function toWaitlistEntry(row: WaitlistRow): WaitlistEntry {
+  return {
+    ...row,
+    car_type: row.car_type as WaitlistEntry['car_type'],
+    status: row.status as WaitlistStatus
+  };
+}
+
+function slotsOverlap(a: Pick<WaitlistRow, 'slot_start' | 'slot_end'>, b: Pick<WaitlistRow, 'slot_start' | 'slot_end'>): boolean {
+  return a.slot_start < b.slot_end && b.slot_start < a.slot_end;
+}
+
+export async function joinWaitlist(input: JoinWaitlistInput, now: Date = new Date()): Promise<JoinWaitlistResponse> {
+  try {
+    const { start, end } = input.scheduled_window;
+    if (start <= now) {
+      throw new Error('Selected time slot has already started');
+    }
+
+    // Only slots the booking form shows as full can be waited for
+    const jobMinutes = await getJobMinutes(input.service_id, input.addons);
+    const slots = await getAvailableTimeSlots(input.zone_id, jobMinutes, start);
+    const slot = slots.find(candidate =>
+      candidate.start.getTime() === start.getTime() && candidate.end.getTime() === end.getTime()
+    );
+    if (!slot) {
+      throw new Error('Selected time slot does not exist');
+    }
+    if (slot.available) {
+      throw new Error('Selected time slot is still available; book it directly');
+    }
+
+    return await db.transaction(async (tx) => {
+      const existingCustomers = await tx.select()
+        .from(customersTable)
+        .where(eq(customersTable.phone, input.customer.phone))
+        .execute();
+
+      const customer = existingCustomers.length > 0
+        ? existingCustomers[0]
+        : (await tx.insert(customersTable)
+          .values({
+            name: input.customer.name,
+            phone: input.customer.phone,
+            whatsapp_verified: false,
+            preferred_language: input.customer.preferred_language ?? 'ar'
+          })
+          .returning()
+          .execute())[0];
+
+      const duplicates = await tx.select({ id: waitlistEntriesTable.id })
+        .from(waitlistEntriesTable)
+        .where(and(
+          eq(waitlistEntriesTable.customer_id, customer.id),
+          eq(waitlistEntriesTable.zone_id, input.zone_id),
+          eq(waitlistEntriesTable.slot_start, start),
+          inArray(waitlistEntriesTable.status, OPEN_STATUSES)
+        ))
+        .execute();
+
+      if (duplicates.length > 0) {
+        throw new Error('Customer is already on the waitlist for this slot');
+      }
+
+      const inserted = await tx.insert(waitlistEntriesTable)
+        .values({
+          customer_id: customer.id,
+          zone_id: input.zone_id,
+          service_id: input.service_id,
+          addons: input.addons,
+          car_type: input.car_type,
+          address_text: input.address_text,
+          geo_point: JSON.stringify(input.geo_point),
+          is_solo: input.is_solo,
+          slot_start: start,
+          slot_end: end
+        })
+        .returning()
+        .execute();
+
+      const entry = inserted[0];
+      const ahead = await tx.select({ id: waitlistEntriesTable.id })
+        .from(waitlistEntriesTable)
+        .where(and(
+          eq(waitlistEntriesTable.zone_id, entry.zone_id),
+          inArray(waitlistEntriesTable.status, OPEN_STATUSES),
+          lt(waitlistEntriesTable.slot_start, entry.slot_end),
+          gt(waitlistEntriesTable.slot_end, entry.slot_start),
+          lt(waitlistEntriesTable.id, entry.id)
+        ))
+        .execute();
+
+      return { entry: toWaitlistEntry(entry), position: ahead.length + 1 };
+    });
+  } catch (error) {
+    console.error('Joining waitlist failed:', error);
+    throw error;
+  }
+}
+
+// Sends the waitlist_offer template with a claim link valid until the offer expires; never throws
+async function notifyWaitlistOffer(entry: WaitlistRow): Promise<void> {
+  try {
+    const results = await db.select()
+      .from(customersTable)
+      .innerJoin(servicesTable, eq(servicesTable.id, entry.service_id))
+      .where(eq(customersTable.id, entry.customer_id))
+      .execute();
+
+    const { customers: customer, services: service } = results[0];
+    const language = customer.preferred_language as Language;
+    const token = createWaitlistClaimToken(entry.id, entry.offer_expires_at!);
+
+    await sendWaitlistOffer(customer.phone, {
+      name: customer.name,
+      service: language === 'en' ? service.name_en : service.name_ar,
+      date: entry.slot_start,
+      time: entry.slot_start,
+      expires_at: entry.offer_expires_at!,
+      claim_url: `${getPublicAppUrl()}/w/${token}`
+    }, { customer_id: customer.id }, language);
+  } catch (error) {
+    console.error('Waitlist offer notification failed:', error);
+  }
+}
+
+// Offers waitlisted slots overlapping a freed window, longest-waiting customer first.
+// A slot with an open offer isn't offered again until that one is claimed or lapses,
+// so one freed seat is never promised to several customers. Returns the offered entry ids; never throws.
+export async function offerWaitlistedSlots(
+  zone_id: number,
+  window_start: Date,
+  window_end: Date,
+  now: Date = new Date()
+): Promise<number[]> {
+  try {
+    const entries = await db.select()
+      .from(waitlistEntriesTable)
+      .where(and(
+        eq(waitlistEntriesTable.zone_id, zone_id),
+        inArray(waitlistEntriesTable.status, OPEN_STATUSES),
+        lt(waitlistEntriesTable.slot_start, window_end),
+        gt(waitlistEntriesTable.slot_end, window_start),
+        gt(waitlistEntriesTable.slot_start, now)
+      ))
+      .orderBy(asc(waitlistEntriesTable.created_at), asc(waitlistEntriesTable.id))
+      .execute();
+
+    const openOffers = entries.filter(entry =>
+      entry.status === 'offered' && entry.offer_expires_at !== null && entry.offer_expires_at > now
+    );
+    const offered: number[] = [];
+
+    for (const entry of entries) {
+      if (entry.status !== 'waiting' || openOffers.some(offer => slotsOverlap(offer, entry))) {
+        continue;
+      }
+
+      const jobMinutes = await getJobMinutes(entry.service_id, entry.addons);
+      if (!await validateTimeSlot(zone_id, entry.slot_start, entry.slot_end, db, undefined, jobMinutes)) {
+        continue;
+      }
+
+      // Another server instance may be offering the same entry
+      const updated = await db.update(waitlistEntriesTable)
+        .set({
+          status: 'offered',
+          offered_at: now,
+          offer_expires_at: new Date(now.getTime() + getOfferMinutes() * 60 * 1000)
+        })
+        .where(and(eq(waitlistEntriesTable.id, entry.id), eq(waitlistEntriesTable.status, 'waiting')))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        continue;
+      }
+
+      openOffers.push(updated[0]);
+      offered.push(entry.id);
+      await notifyWaitlistOffer(updated[0]);
+    }
+
+    return offered;
+  } catch (error) {
+    console.error('Waitlist offer run failed:', error);
+    return [];
+  }
+}
+
+async function loadOffer(token: string, now: Date): Promise<WaitlistRow> {
+  const entry_id = verifyWaitlistClaimToken(token, now);
+
+  const entries = await db.select()
+    .from(waitlistEntriesTable)
+    .where(eq(waitlistEntriesTable.id, entry_id))
+    .execute();
+
+  if (entries.length === 0) {
+    throw new Error('Waitlist entry not found');
+  }
+  return entries[0];
+}
+
+// What the claim link shows before the customer confirms
+export async function getWaitlistOffer(token: string, now: Date = new Date()): Promise<WaitlistEntry> {
+  try {
+    return toWaitlistEntry(await loadOffer(token, now));
+  } catch (error) {
+    console.error('Waitlist offer lookup failed:', error);
+    throw error;
+  }
+}
+
+// Books the offered slot through the normal booking flow, which re-checks capacity and prices it
+export async function claimWaitlistOffer(token: string, now: Date = new Date()): Promise<CreateBookingResponse> {
+  try {
+    const offer = await loadOffer(token, now);
+
+    // Take the offer before booking so a double tap can't book the slot twice
+    const taken = await db.update(waitlistEntriesTable)
+      .set({ status: 'claimed' })
+      .where(and(
+        eq(waitlistEntriesTable.id, offer.id),
+        eq(waitlistEntriesTable.status, 'offered'),
+        gt(waitlistEntriesTable.offer_expires_at, now)
+      ))
+      .returning()
+      .execute();
+
+    if (taken.length === 0) {
+      throw new Error('This offer is no longer available');
+    }
+
+    const entry = taken[0];
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.id, entry.customer_id))
+      .execute();
+
+    let result: CreateBookingResponse;
+    try {
+      result = await createBooking({
+        customer: {
+          name: customers[0].name,
+          phone: customers[0].phone,
+          preferred_language: customers[0].preferred_language as Language
+        },
+        service_id: entry.service_id,
+        addons: entry.addons,
+        car_type: entry.car_type as WaitlistEntry['car_type'],
+        zone_id: entry.zone_id,
+        address_text: entry.address_text,
+        geo_point: JSON.parse(entry.geo_point),
+        scheduled_window: { start: entry.slot_start, end: entry.slot_end },
+        is_solo: entry.is_solo
+      });
+    } catch (bookingError) {
+      // Hand the offer back; if the slot is gone it lapses like any unclaimed offer
+      await db.update(waitlistEntriesTable)
+        .set({ status: 'offered' })
+        .where(eq(waitlistEntriesTable.id, entry.id))
+        .execute();
+      throw bookingError;
+    }
+
+    await db.update(waitlistEntriesTable)
+      .set({ booking_id: Number(result.booking_id) })
+      .where(eq(waitlistEntriesTable.id, entry.id))
+      .execute();
+
+    // Several seats may have been freed at once; the next one can go out now
+    await offerWaitlistedSlots(entry.zone_id, entry.slot_start, entry.slot_end, now);
+
+    return result;
+  } catch (error) {
+    console.error('Waitlist claim failed:', error);
+    throw error;
+  }
+}
+
+// Lapses unclaimed offers and passes their slots down the line; entries whose slot has started are closed
+export async function expireWaitlistOffers(now: Date = new Date()): Promise<{ expired: number; offered: number }> {
+  try {
+    const lapsed = await db.update(waitlistEntriesTable)
+      .set({ status: 'expired' })
+      .where(and(
+        eq(waitlistEntriesTable.status, 'offered'),
+        lte(waitlistEntriesTable.offer_expires_at, now)
+      ))
+      .returning()
+      .execute();
+
+    await db.update(waitlistEntriesTable)
+      .set({ status: 'expired' })
+      .where(and(
+        inArray(waitlistEntriesTable.status, OPEN_STATUSES),
+        lte(waitlistEntriesTable.slot_start, now)
+      ))
+      .execute();
+
+    let offered = 0;
+    for (const entry of lapsed) {
+      offered += (await offerWaitlistedSlots(entry.zone_id, entry.slot_start, entry.slot_end, now)).length;
+    }
+
+    return { expired: lapsed.length, offered };
+  } catch (error) {
+    console.error('Waitlist expiry run failed:', error);
+    throw error;
+  }
+}
+
+// Polls for lapsed offers in the server process; returns a function that stops the scheduler
+export function startWaitlistScheduler(
+  intervalMs: number = Number(process.env['WAITLIST_INTERVAL_SECONDS'] || DEFAULT_WAITLIST_INTERVAL_SECONDS) * 1000
+): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await expireWaitlistOffers(new Date());
+    } catch (error) {
+      console.error('Waitlist scheduler tick failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  void tick();
+
+  return () => clearInterval(timer);
+}
+
+export async function getWaitlist(input: GetWaitlistInput = {}): Promise<WaitlistEntry[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.zone_id !== undefined) {
+      conditions.push(eq(waitlistEntriesTable.zone_id, input.zone_id));
+    }
+    if (input.status !== undefined) {
+      conditions.push(eq(waitlistEntriesTable.status, input.status));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(waitlistEntriesTable.slot_start, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lt(waitlistEntriesTable.slot_start, input.to));
+    }
+
+    const entries = await db.select()
+      .from(waitlistEntriesTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(waitlistEntriesTable.slot_start), asc(waitlistEntriesTable.created_at), asc(waitlistEntriesTable.id))
+      .execute();
+
+    return entries.map(toWaitlistEntry);
+  } catch (error) {
+    console.error('Waitlist lookup failed:', error);
+    throw error;
+  }
+}
+
+// Removes a customer from the line; a withdrawn offer goes to the next customer
+export async function cancelWaitlistEntry(id: number, now: Date = new Date()): Promise<WaitlistEntry> {
+  try {
+    const existing = await db.select()
+      .from(waitlistEntriesTable)
+      .where(eq(waitlistEntriesTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Waitlist entry with ID ${id} not found`);
+    }
+    if (!OPEN_STATUSES.includes(existing[0].status as WaitlistStatus)) {
+      throw new Error(`Waitlist entries that are ${existing[0].status} can't be canceled`);
+    }
+
+    const updated = await db.update(waitlistEntriesTable)
+      .set({ status: 'canceled' })
+      .where(eq(waitlistEntriesTable.id, id))
+      .returning()
+      .execute();
+
+    if (existing[0].status === 'offered') {
+      await offerWaitlistedSlots(updated[0].zone_id, updated[0].slot_start, updated[0].slot_end, now);
+    }
+
+    return toWaitlistEntry(updated[0]);
+  } catch (error) {
+    console.error('Waitlist cancel failed:', error);
+    throw error;
+  }
+}
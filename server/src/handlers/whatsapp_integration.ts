@@ -1,16 +1,36 @@
 import { db } from '../db';
-import { whatsappTemplatesTable } from '../db/schema';
+import { customersTable, whatsappTemplatesTable } from '../db/schema';
+import { type Language } from '../schema';
 import { eq } from 'drizzle-orm';
+import {
+    createOutboundMessage,
+    generateMessageId,
+    getWhatsAppMessage,
+    markMessageFailed,
+    markMessageSent
+} from './whatsapp_messages';
+import { getWhatsAppProvider } from './whatsapp_providers';
+import { extractTemplateVariables, findMissingVariables, renderTemplate } from './whatsapp_templates';
+import { getBusinessTimeZone } from './business_time';
 
 export interface WhatsAppMessage {
     to: string;
     template: string;
     variables: Record<string, string>;
+    customer_id?: number | null;
+    booking_id?: number | null;
+    language?: Language; // Defaults to the customer's preferred language, then Arabic
+}
+
+// Links a message log entry to the customer/booking it was sent for
+export interface WhatsAppMessageRefs {
+    customer_id?: number | null;
+    booking_id?: number | null;
 }
 
 export interface WhatsAppResponse {
     message_id: string;
-    status: 'sent' | 'delivered' | 'read' | 'failed';
+    status: 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
 }
 
 export interface WhatsAppTemplate {
@@ -18,6 +38,9 @@ export interface WhatsAppTemplate {
     key: string;
     body_ar: string;
     body_en: string;
+    required_variables: string[];
+    optional_variables: string[];
+    twilio_content_sids: { ar?: string; en?: string };
 }
 
 // Helper function to format phone number to WhatsApp format
@@ -42,21 +65,83 @@ function formatPhoneNumber(phone: string): string {
     return digits;
 }
 
-// Helper function to replace template variables in message body
-function replaceTemplateVariables(template: string, variables: Record<string, string>): string {
-    let result = template;
-    
-    // Replace variables in format {{variable_name}}
-    Object.entries(variables).forEach(([key, value]) => {
-        const placeholder = `{{${key}}}`;
-        result = result.replace(new RegExp(placeholder, 'g'), value);
-    });
-    
-    return result;
+const LOCALES: Record<Language, string> = {
+    ar: 'ar-SA-u-ca-gregory',
+    en: 'en-GB'
+};
+
+// Locale-aware formatting for values substituted into templates; dates and times read in business time
+export function formatLocalizedNumber(value: number, language: Language, fractionDigits = 0): string {
+    return new Intl.NumberFormat(LOCALES[language], {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits
+    }).format(value);
+}
+
+export function formatLocalizedPrice(amount: number, language: Language): string {
+    return formatLocalizedNumber(amount, language, 2);
+}
+
+export function formatLocalizedDate(date: Date, language: Language): string {
+    return new Intl.DateTimeFormat(LOCALES[language], {
+        timeZone: getBusinessTimeZone(),
+        weekday: 'long',
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric'
+    }).format(date);
+}
+
+export function formatLocalizedTime(date: Date, language: Language): string {
+    return new Intl.DateTimeFormat(LOCALES[language], {
+        timeZone: getBusinessTimeZone(),
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true
+    }).format(date);
+}
+
+// Pre-formatted strings are passed through untouched
+function formatDateVariable(value: Date | string, language: Language): string {
+    return value instanceof Date ? formatLocalizedDate(value, language) : value;
+}
+
+function formatTimeVariable(value: Date | string, language: Language): string {
+    return value instanceof Date ? formatLocalizedTime(value, language) : value;
+}
+
+// Customers without a stored preference (or unknown ids) are messaged in Arabic
+export async function getCustomerLanguage(customer_id?: number | null): Promise<Language> {
+    try {
+        if (!customer_id) {
+            return 'ar';
+        }
+
+        const customers = await db.select({ preferred_language: customersTable.preferred_language })
+            .from(customersTable)
+            .where(eq(customersTable.id, customer_id))
+            .execute();
+
+        return customers[0]?.preferred_language === 'en' ? 'en' : 'ar';
+    } catch (error) {
+        console.error('Customer language lookup failed:', error);
+        throw error;
+    }
+}
+
+// English bodies fall back to Arabic when a template has no translation yet
+function selectTemplateBody(template: { body_ar: string; body_en: string }, language: Language): { body: string; language: Language } {
+    if (language === 'en' && template.body_en.trim().length > 0) {
+        return { body: template.body_en, language: 'en' };
+    }
+    return { body: template.body_ar, language: 'ar' };
 }
 
 // Core function to send WhatsApp message via Business API
 export async function sendWhatsAppMessage(message: WhatsAppMessage): Promise<WhatsAppResponse> {
+    const messageId = generateMessageId();
+    let logged = false;
+
     try {
         // Format phone number
         const formattedPhone = formatPhoneNumber(message.to);
@@ -67,33 +152,58 @@ export async function sendWhatsAppMessage(message: WhatsAppMessage): Promise<Wha
             .where(eq(whatsappTemplatesTable.key, message.template))
             .execute();
             
-        if (templates.length === 0) {
-            throw new Error(`WhatsApp template '${message.template}' not found`);
-        }
-        
         const template = templates[0];
         
-        // For now, use Arabic template (could be made configurable)
-        const messageBody = replaceTemplateVariables(template.body_ar, message.variables);
-        
-        // In a real implementation, this would make an HTTP request to:
-        // - Meta WhatsApp Business API (https://developers.facebook.com/docs/whatsapp/cloud-api)
-        // - Twilio WhatsApp API (https://www.twilio.com/docs/whatsapp/api)
-        // - Or another WhatsApp Business provider
-        
-        // Simulate API call delay and response
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // Generate unique message ID
-        const messageId = `wam_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+        const requestedLanguage = message.language ?? await getCustomerLanguage(message.customer_id);
+        const selected = template
+            ? selectTemplateBody(template, requestedLanguage)
+            : { body: '', language: requestedLanguage };
+        // Optional variables the caller left out render as empty text
+        const variables = {
+            ...Object.fromEntries((template?.optional_variables ?? []).map(name => [name, ''])),
+            ...message.variables
+        };
+        const messageBody = renderTemplate(selected.body, variables);
+
+        // Record the message before handing it to the provider so every attempt is traceable
+        await createOutboundMessage({
+            message_id: messageId,
+            to_phone: formattedPhone,
+            template_key: message.template,
+            body: messageBody,
+            language: selected.language,
+            customer_id: message.customer_id,
+            booking_id: message.booking_id
+        });
+        logged = true;
+
+        if (!template) {
+            throw new Error(`WhatsApp template '${message.template}' not found`);
+        }
+
+        const missingVariables = findMissingVariables(template.required_variables, message.variables);
+        if (missingVariables.length > 0) {
+            throw new Error(`WhatsApp template '${message.template}' is missing required variables: ${missingVariables.join(', ')}`);
+        }
+
+        // Placeholders the template never declared would otherwise reach the customer verbatim
+        const unfilled = extractTemplateVariables(messageBody);
+        if (unfilled.length > 0) {
+            throw new Error(`WhatsApp template '${message.template}' left placeholders unfilled: ${unfilled.join(', ')}`);
+        }
         
-        // Log the message for debugging (in production, this should be stored in a messages table)
-        console.log(`WhatsApp message sent:`, {
+        // Hand off to the configured provider (Meta Cloud API, Twilio or the in-process fake) as a
+        // template send, with the placeholder values in the order the approved template numbers them
+        const { provider_message_id: providerMessageId } = await getWhatsAppProvider().send({
             to: formattedPhone,
-            template: message.template,
             body: messageBody,
-            message_id: messageId
+            template_key: message.template,
+            language: selected.language,
+            parameters: extractTemplateVariables(selected.body).map(name => variables[name]),
+            twilio_content_sid: template.twilio_content_sids[selected.language] ?? null
         });
+
+        await markMessageSent(messageId, providerMessageId);
         
         return {
             message_id: messageId,
@@ -102,9 +212,17 @@ export async function sendWhatsAppMessage(message: WhatsAppMessage): Promise<Wha
         
     } catch (error) {
         console.error('WhatsApp message failed:', error);
+
+        if (logged) {
+            try {
+                await markMessageFailed(messageId, error instanceof Error ? error.message : 'Unknown error');
+            } catch (logError) {
+                console.error('WhatsApp failure logging failed:', logError);
+            }
+        }
         
         return {
-            message_id: `failed_${Date.now()}`,
+            message_id: messageId,
             status: 'failed'
         };
     }
@@ -117,24 +235,30 @@ export async function sendBookingConfirmation(
         name: string;
         service: string;
         price: number;
-        date: string;
-        time: string;
+        date: Date | string;
+        time: Date | string;
         map_link: string;
         track_url: string;
         edit_url: string;
         cancel_url: string;
-    }
+    },
+    refs: WhatsAppMessageRefs = {},
+    language?: Language
 ): Promise<WhatsAppResponse> {
     try {
+        const messageLanguage = language ?? await getCustomerLanguage(refs.customer_id);
+
         return await sendWhatsAppMessage({
+            ...refs,
             to: phone,
             template: 'booking_confirmation',
+            language: messageLanguage,
             variables: {
                 name: bookingDetails.name,
                 service: bookingDetails.service,
-                price: bookingDetails.price.toString(),
-                date: bookingDetails.date,
-                time: bookingDetails.time,
+                price: formatLocalizedPrice(bookingDetails.price, messageLanguage),
+                date: formatDateVariable(bookingDetails.date, messageLanguage),
+                time: formatTimeVariable(bookingDetails.time, messageLanguage),
                 map_link: bookingDetails.map_link,
                 track_url: bookingDetails.track_url,
                 edit_url: bookingDetails.edit_url,
@@ -151,14 +275,17 @@ export async function sendBookingConfirmation(
 export async function sendStatusUpdate(
     phone: string,
     status: 'on_the_way' | 'started' | 'finished',
-    details?: { eta?: number; stars_link?: string; comment_link?: string }
+    details?: { eta?: number; stars_link?: string; comment_link?: string },
+    refs: WhatsAppMessageRefs = {},
+    language?: Language
 ): Promise<WhatsAppResponse> {
     try {
+        const messageLanguage = language ?? await getCustomerLanguage(refs.customer_id);
         const variables: Record<string, string> = {};
         
         if (details) {
             if (details.eta !== undefined) {
-                variables['eta'] = details.eta.toString();
+                variables['eta'] = formatLocalizedNumber(details.eta, messageLanguage);
             }
             if (details.stars_link) {
                 variables['stars_link'] = details.stars_link;
@@ -169,8 +296,10 @@ export async function sendStatusUpdate(
         }
         
         return await sendWhatsAppMessage({
+            ...refs,
             to: phone,
             template: `booking_${status}`,
+            language: messageLanguage,
             variables
         });
     } catch (error) {
@@ -185,16 +314,19 @@ export async function sendPromoMessage(
     promoDetails: {
         offer_title: string;
         discount: string;
-        valid_until: string;
+        valid_until: Date | string;
         promo_code?: string;
         terms_url?: string;
-    }
+    },
+    refs: WhatsAppMessageRefs = {},
+    language?: Language
 ): Promise<WhatsAppResponse> {
     try {
+        const messageLanguage = language ?? await getCustomerLanguage(refs.customer_id);
         const variables: Record<string, string> = {
             offer_title: promoDetails.offer_title,
             discount: promoDetails.discount,
-            valid_until: promoDetails.valid_until
+            valid_until: formatDateVariable(promoDetails.valid_until, messageLanguage)
         };
         
         if (promoDetails.promo_code) {
@@ -205,8 +337,10 @@ export async function sendPromoMessage(
         }
         
         return await sendWhatsAppMessage({
+            ...refs,
             to: phone,
             template: 'promotion',
+            language: messageLanguage,
             variables
         });
     } catch (error) {
@@ -221,22 +355,28 @@ export async function sendBookingReminder(
     reminderDetails: {
         name: string;
         service: string;
-        date: string;
-        time: string;
+        date: Date | string;
+        time: Date | string;
         location: string;
         reschedule_url: string;
         cancel_url: string;
-    }
+    },
+    refs: WhatsAppMessageRefs = {},
+    language?: Language
 ): Promise<WhatsAppResponse> {
     try {
+        const messageLanguage = language ?? await getCustomerLanguage(refs.customer_id);
+
         return await sendWhatsAppMessage({
+            ...refs,
             to: phone,
             template: 'booking_reminder',
+            language: messageLanguage,
             variables: {
                 name: reminderDetails.name,
                 service: reminderDetails.service,
-                date: reminderDetails.date,
-                time: reminderDetails.time,
+                date: formatDateVariable(reminderDetails.date, messageLanguage),
+                time: formatTimeVariable(reminderDetails.time, messageLanguage),
                 location: reminderDetails.location,
                 reschedule_url: reminderDetails.reschedule_url,
                 cancel_url: reminderDetails.cancel_url
@@ -248,6 +388,42 @@ export async function sendBookingReminder(
     }
 }
 
+export async function sendWaitlistOffer(
+    phone: string,
+    offerDetails: {
+        name: string;
+        service: string;
+        date: Date | string;
+        time: Date | string;
+        expires_at: Date | string; // shown as a time; claims are refused after it
+        claim_url: string;
+    },
+    refs: WhatsAppMessageRefs = {},
+    language?: Language
+): Promise<WhatsAppResponse> {
+    try {
+        const messageLanguage = language ?? await getCustomerLanguage(refs.customer_id);
+
+        return await sendWhatsAppMessage({
+            ...refs,
+            to: phone,
+            template: 'waitlist_offer',
+            language: messageLanguage,
+            variables: {
+                name: offerDetails.name,
+                service: offerDetails.service,
+                date: formatDateVariable(offerDetails.date, messageLanguage),
+                time: formatTimeVariable(offerDetails.time, messageLanguage),
+                expires_at: formatTimeVariable(offerDetails.expires_at, messageLanguage),
+                claim_url: offerDetails.claim_url
+            }
+        });
+    } catch (error) {
+        console.error('Waitlist offer failed:', error);
+        throw error;
+    }
+}
+
 // Verify WhatsApp number is valid and active
 export async function verifyWhatsAppNumber(phone: string): Promise<boolean> {
     try {
@@ -275,41 +451,15 @@ export async function verifyWhatsAppNumber(phone: string): Promise<boolean> {
     }
 }
 
-// Get message delivery status
+// Get message delivery status from the outbound message log
 export async function getMessageStatus(messageId: string): Promise<WhatsAppResponse['status']> {
     try {
-        // In a real implementation, this would query the WhatsApp Business API
-        // or check a messages tracking table in the database
-        
-        // Simulate status check
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // For failed messages, return failed status
-        if (messageId.startsWith('failed_')) {
-            return 'failed';
-        }
-        
-        // Validate message ID format
-        if (!messageId.startsWith('wam_') || messageId.split('_').length < 2) {
-            return 'failed';
-        }
-        
-        // Simulate message progression
-        const timestampStr = messageId.split('_')[1];
-        const timestamp = parseInt(timestampStr);
-        
-        if (isNaN(timestamp)) {
-            return 'failed';
-        }
-        
-        const age = Date.now() - timestamp;
-        
-        if (age < 5000) return 'sent';
-        if (age < 15000) return 'delivered';
-        return 'read';
-        
+        const message = await getWhatsAppMessage(messageId);
+
+        // Unknown ids never reached the provider
+        return message ? message.status : 'failed';
     } catch (error) {
         console.error('Status check failed:', error);
         return 'failed';
     }
-}
\ No newline at end of file
+}
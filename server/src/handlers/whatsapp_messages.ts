@@ -0,0 +1,196 @@
+import { db } from '../db';
+import { whatsappMessagesTable } from '../db/schema';
+import {
+  type GetWhatsAppMessagesInput,
+  type Language,
+  type WhatsAppMessageRecord,
+  type WhatsAppMessageStatus
+} from '../schema';
+import { and, desc, eq, or, type SQL } from 'drizzle-orm';
+
+// Delivery progresses forward only; a late 'delivered' callback must not undo 'read'
+const STATUS_RANK: Record<WhatsAppMessageStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 1
+};
+
+function toMessageRecord(row: typeof whatsappMessagesTable.$inferSelect): WhatsAppMessageRecord {
+  return {
+    ...row,
+    language: row.language as Language,
+    status: row.status as WhatsAppMessageStatus
+  };
+}
+
+export function generateMessageId(): string {
+  return `wam_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export async function createOutboundMessage(message: {
+  message_id: string;
+  to_phone: string;
+  template_key: string;
+  body: string;
+  language: Language;
+  customer_id?: number | null;
+  booking_id?: number | null;
+  status?: WhatsAppMessageStatus;
+  error?: string | null;
+}): Promise<WhatsAppMessageRecord> {
+  try {
+    const failed = message.status === 'failed';
+    const result = await db.insert(whatsappMessagesTable)
+      .values({
+        message_id: message.message_id,
+        to_phone: message.to_phone,
+        template_key: message.template_key,
+        body: message.body,
+        language: message.language,
+        customer_id: message.customer_id ?? null,
+        booking_id: message.booking_id ?? null,
+        status: message.status ?? 'queued',
+        error: message.error ?? null,
+        failed_at: failed ? new Date() : null
+      })
+      .returning()
+      .execute();
+
+    return toMessageRecord(result[0]);
+  } catch (error) {
+    console.error('WhatsApp message logging failed:', error);
+    throw error;
+  }
+}
+
+export async function markMessageSent(message_id: string, provider_message_id: string): Promise<void> {
+  try {
+    await db.update(whatsappMessagesTable)
+      .set({ status: 'sent', provider_message_id, sent_at: new Date() })
+      .where(eq(whatsappMessagesTable.message_id, message_id))
+      .execute();
+  } catch (error) {
+    console.error('WhatsApp message sent update failed:', error);
+    throw error;
+  }
+}
+
+export async function markMessageFailed(message_id: string, errorMessage: string): Promise<void> {
+  try {
+    await db.update(whatsappMessagesTable)
+      .set({ status: 'failed', error: errorMessage, failed_at: new Date() })
+      .where(eq(whatsappMessagesTable.message_id, message_id))
+      .execute();
+  } catch (error) {
+    console.error('WhatsApp message failure update failed:', error);
+    throw error;
+  }
+}
+
+// Applies a provider delivery callback; returns null when the provider id is unknown
+export async function applyDeliveryStatus(
+  provider_message_id: string,
+  status: WhatsAppMessageStatus,
+  occurred_at: Date = new Date(),
+  errorMessage?: string
+): Promise<WhatsAppMessageRecord | null> {
+  try {
+    const existing = await db.select()
+      .from(whatsappMessagesTable)
+      .where(eq(whatsappMessagesTable.provider_message_id, provider_message_id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    const message = existing[0];
+    const currentStatus = message.status as WhatsAppMessageStatus;
+
+    // Ignore out-of-order callbacks and failures reported after delivery
+    if (STATUS_RANK[status] < STATUS_RANK[currentStatus] ||
+        (status === 'failed' && STATUS_RANK[currentStatus] > STATUS_RANK.sent) ||
+        status === currentStatus) {
+      return toMessageRecord(message);
+    }
+
+    const updateValues: Partial<typeof whatsappMessagesTable.$inferInsert> = { status };
+    if (status === 'sent') updateValues.sent_at = message.sent_at ?? occurred_at;
+    if (status === 'delivered') updateValues.delivered_at = occurred_at;
+    if (status === 'read') {
+      updateValues.read_at = occurred_at;
+      updateValues.delivered_at = message.delivered_at ?? occurred_at;
+    }
+    if (status === 'failed') {
+      updateValues.failed_at = occurred_at;
+      updateValues.error = errorMessage ?? message.error;
+    }
+
+    const result = await db.update(whatsappMessagesTable)
+      .set(updateValues)
+      .where(eq(whatsappMessagesTable.id, message.id))
+      .returning()
+      .execute();
+
+    return toMessageRecord(result[0]);
+  } catch (error) {
+    console.error('WhatsApp delivery status update failed:', error);
+    throw error;
+  }
+}
+
+// Looks a message up by our id or by the provider's id
+export async function getWhatsAppMessage(id: string): Promise<WhatsAppMessageRecord | null> {
+  try {
+    const results = await db.select()
+      .from(whatsappMessagesTable)
+      .where(or(
+        eq(whatsappMessagesTable.message_id, id),
+        eq(whatsappMessagesTable.provider_message_id, id)
+      ))
+      .limit(1)
+      .execute();
+
+    return results.length > 0 ? toMessageRecord(results[0]) : null;
+  } catch (error) {
+    console.error('WhatsApp message lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function getWhatsAppMessages(input: GetWhatsAppMessagesInput): Promise<WhatsAppMessageRecord[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.customer_id !== undefined) {
+      conditions.push(eq(whatsappMessagesTable.customer_id, input.customer_id));
+    }
+
+    if (input.booking_id !== undefined) {
+      conditions.push(eq(whatsappMessagesTable.booking_id, input.booking_id));
+    }
+
+    if (input.status !== undefined) {
+      conditions.push(eq(whatsappMessagesTable.status, input.status));
+    }
+
+    if (input.template_key !== undefined) {
+      conditions.push(eq(whatsappMessagesTable.template_key, input.template_key));
+    }
+
+    const results = await db.select()
+      .from(whatsappMessagesTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(whatsappMessagesTable.created_at), desc(whatsappMessagesTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+
+    return results.map(toMessageRecord);
+  } catch (error) {
+    console.error('WhatsApp messages retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,395 @@
+import { type IncomingHttpHeaders } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { type Language, type WhatsAppMessageStatus } from '../schema';
+
+// Business-initiated messages go out as approved templates, since WhatsApp drops free text outside
+// the 24-hour session window. The approved template mirrors our body with {{1}}, {{2}}, ... in place
+// of the placeholders, in order of first appearance; `body` is the rendered text kept for the log.
+export interface OutboundWhatsAppMessage {
+    to: string; // Digits only, with country code (e.g. 9665XXXXXXXX)
+    body: string;
+    template_key: string; // also the template name approved with Meta
+    language: Language;
+    parameters: string[]; // placeholder values in order of first appearance in the body
+    twilio_content_sid?: string | null; // Twilio Content API template for this language
+}
+
+export interface DeliveryStatusUpdate {
+    provider_message_id: string;
+    status: WhatsAppMessageStatus;
+    occurred_at: Date;
+    error?: string;
+}
+
+export interface WhatsAppProvider {
+    name: 'meta' | 'twilio' | 'fake';
+    // Resolves with the provider's message id; rejects when the provider refuses the message
+    send(message: OutboundWhatsAppMessage): Promise<{ provider_message_id: string }>;
+    // Authenticates a delivery callback before it is trusted
+    verifyCallback(rawBody: string, headers: IncomingHttpHeaders, url: string): boolean;
+    parseStatusCallback(rawBody: string, contentType: string | undefined): DeliveryStatusUpdate[];
+}
+
+type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+interface MetaSendResponse {
+    messages?: { id: string }[];
+    error?: { message?: string };
+}
+
+interface TwilioSendResponse {
+    sid?: string;
+    message?: string;
+}
+
+// Error responses aren't always JSON; an unreadable body reads as an empty response
+async function readJson<T extends object>(response: Response): Promise<T> {
+    return response.json().then(body => (body ?? {}) as T, () => ({} as T));
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Meta Cloud API status callbacks: entry[].changes[].value.statuses[]; other webhook fields are ignored
+const metaStatusPayloadSchema = z.object({
+    entry: z.array(z.object({
+        changes: z.array(z.object({
+            value: z.object({
+                statuses: z.array(z.object({
+                    id: z.string().min(1),
+                    status: z.string(),
+                    timestamp: z.union([z.string(), z.number()]).optional(), // unix seconds
+                    errors: z.array(z.object({
+                        code: z.number().optional(),
+                        title: z.string().optional(),
+                        message: z.string().optional()
+                    })).optional()
+                })).default([])
+            })
+        })).default([])
+    })).default([])
+});
+
+export function parseMetaStatusPayload(payload: unknown): DeliveryStatusUpdate[] {
+    const statuses: Record<string, WhatsAppMessageStatus> = {
+        sent: 'sent',
+        delivered: 'delivered',
+        read: 'read',
+        failed: 'failed'
+    };
+
+    const parsed = metaStatusPayloadSchema.safeParse(payload);
+    if (!parsed.success) {
+        console.error('Invalid WhatsApp status callback payload:', parsed.error.issues);
+        return [];
+    }
+
+    const updates: DeliveryStatusUpdate[] = [];
+    for (const entry of parsed.data.entry) {
+        for (const change of entry.changes) {
+            for (const item of change.value.statuses) {
+                const status = statuses[item.status];
+                if (!status) {
+                    continue;
+                }
+
+                const timestamp = Number(item.timestamp);
+                const error = item.errors?.[0];
+
+                updates.push({
+                    provider_message_id: item.id,
+                    status,
+                    occurred_at: Number.isFinite(timestamp) && timestamp > 0 ? new Date(timestamp * 1000) : new Date(),
+                    error: error ? String(error.message || error.title || error.code) : undefined
+                });
+            }
+        }
+    }
+
+    return updates;
+}
+
+function parseJsonStatusCallback(rawBody: string): DeliveryStatusUpdate[] {
+    try {
+        return parseMetaStatusPayload(JSON.parse(rawBody));
+    } catch (parseError) {
+        console.error('Invalid WhatsApp status callback body:', parseError);
+        return [];
+    }
+}
+
+export function createMetaCloudProvider(config: {
+    accessToken: string;
+    phoneNumberId: string;
+    apiVersion?: string;
+    appSecret: string; // signs the delivery callbacks; without it no callback is trusted
+    fetchImpl?: FetchFn;
+}): WhatsAppProvider {
+    const fetchImpl = config.fetchImpl ?? fetch;
+
+    return {
+        name: 'meta',
+
+        async send(message) {
+            const response = await fetchImpl(
+                `https://graph.facebook.com/${config.apiVersion ?? 'v20.0'}/${config.phoneNumberId}/messages`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Bearer ${config.accessToken}`,
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify({
+                        messaging_product: 'whatsapp',
+                        to: message.to,
+                        type: 'template',
+                        template: {
+                            name: message.template_key,
+                            language: { code: message.language },
+                            components: message.parameters.length > 0
+                                ? [{ type: 'body', parameters: message.parameters.map(text => ({ type: 'text', text })) }]
+                                : []
+                        }
+                    })
+                }
+            );
+
+            const result = await readJson<MetaSendResponse>(response);
+            const messageId = result.messages?.[0]?.id;
+            if (!response.ok || !messageId) {
+                throw new Error(`Meta Cloud API error (${response.status}): ${result.error?.message ?? 'no message id returned'}`);
+            }
+
+            return { provider_message_id: String(messageId) };
+        },
+
+        verifyCallback(rawBody, headers) {
+            if (!config.appSecret) {
+                return false;
+            }
+
+            const signature = firstHeader(headers['x-hub-signature-256']);
+            if (!signature?.startsWith('sha256=')) {
+                return false;
+            }
+
+            const expected = createHmac('sha256', config.appSecret).update(rawBody).digest('hex');
+            return safeEqual(expected, signature.slice('sha256='.length));
+        },
+
+        parseStatusCallback(rawBody) {
+            return parseJsonStatusCallback(rawBody);
+        }
+    };
+}
+
+export function createTwilioProvider(config: {
+    accountSid: string;
+    authToken: string;
+    from: string; // WhatsApp-enabled sender, e.g. +14155238886
+    statusCallbackUrl?: string;
+    fetchImpl?: FetchFn;
+}): WhatsAppProvider {
+    const fetchImpl = config.fetchImpl ?? fetch;
+    const statuses: Record<string, WhatsAppMessageStatus> = {
+        queued: 'queued',
+        accepted: 'queued',
+        sending: 'queued',
+        sent: 'sent',
+        delivered: 'delivered',
+        read: 'read',
+        failed: 'failed',
+        undelivered: 'failed'
+    };
+
+    return {
+        name: 'twilio',
+
+        async send(message) {
+            if (!message.twilio_content_sid) {
+                throw new Error(`WhatsApp template '${message.template_key}' has no Twilio content SID for '${message.language}'`);
+            }
+
+            const form = new URLSearchParams({
+                From: `whatsapp:${config.from}`,
+                To: `whatsapp:+${message.to}`,
+                ContentSid: message.twilio_content_sid,
+                ContentVariables: JSON.stringify(Object.fromEntries(
+                    message.parameters.map((value, index) => [String(index + 1), value])
+                ))
+            });
+            if (config.statusCallbackUrl) {
+                form.set('StatusCallback', config.statusCallbackUrl);
+            }
+
+            const response = await fetchImpl(
+                `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`,
+                        'Content-Type': 'application/x-www-form-urlencoded'
+                    },
+                    body: form.toString()
+                }
+            );
+
+            const result = await readJson<TwilioSendResponse>(response);
+            if (!response.ok || !result.sid) {
+                throw new Error(`Twilio API error (${response.status}): ${result.message ?? 'no message sid returned'}`);
+            }
+
+            return { provider_message_id: String(result.sid) };
+        },
+
+        // Twilio signs the callback URL followed by the sorted form parameters with HMAC-SHA1
+        verifyCallback(rawBody, headers, url) {
+            const signature = firstHeader(headers['x-twilio-signature']);
+            if (!signature) {
+                return false;
+            }
+
+            const params = new URLSearchParams(rawBody);
+            const signedData = [...params.keys()].sort()
+                .reduce((data, key) => data + key + params.get(key), config.statusCallbackUrl ?? url);
+            const expected = createHmac('sha1', config.authToken).update(signedData).digest('base64');
+            return safeEqual(expected, signature);
+        },
+
+        parseStatusCallback(rawBody) {
+            const params = new URLSearchParams(rawBody);
+            const sid = params.get('MessageSid');
+            const status = statuses[params.get('MessageStatus') ?? ''];
+            if (!sid || !status) {
+                return [];
+            }
+
+            const errorCode = params.get('ErrorCode');
+            return [{
+                provider_message_id: sid,
+                status,
+                occurred_at: new Date(),
+                error: status === 'failed'
+                    ? params.get('ErrorMessage') ?? (errorCode ? `Twilio error ${errorCode}` : undefined)
+                    : undefined
+            }];
+        }
+    };
+}
+
+export interface FakeWhatsAppProvider extends WhatsAppProvider {
+    sent: Array<OutboundWhatsAppMessage & { provider_message_id: string }>;
+    // Makes the next `count` sends reject with `error`
+    failNext(count?: number, error?: string): void;
+    reset(): void;
+}
+
+// In-process provider for tests and local development: records messages instead of sending them.
+// It trusts every callback, so it must never run in production; see createWhatsAppProviderFromEnv.
+// Status callbacks use the Meta payload shape so local tools can replay them.
+export function createFakeWhatsAppProvider(): FakeWhatsAppProvider {
+    let failuresRemaining = 0;
+    let failureMessage = 'Simulated provider failure';
+    let counter = 0;
+
+    const provider: FakeWhatsAppProvider = {
+        name: 'fake',
+        sent: [],
+
+        async send(message) {
+            if (failuresRemaining > 0) {
+                failuresRemaining--;
+                throw new Error(failureMessage);
+            }
+
+            counter++;
+            const provider_message_id = `wamid.fake_${Date.now()}_${counter}`;
+            provider.sent.push({ ...message, provider_message_id });
+            return { provider_message_id };
+        },
+
+        verifyCallback() {
+            return true;
+        },
+
+        parseStatusCallback(rawBody) {
+            return parseJsonStatusCallback(rawBody);
+        },
+
+        failNext(count = 1, error = 'Simulated provider failure') {
+            failuresRemaining = count;
+            failureMessage = error;
+        },
+
+        reset() {
+            provider.sent.length = 0;
+            failuresRemaining = 0;
+            failureMessage = 'Simulated provider failure';
+        }
+    };
+
+    return provider;
+}
+
+function requireEnv(name: string): string {
+    const value = process.env[name];
+    if (!value) {
+        throw new Error(`${name} must be set for the configured WhatsApp provider`);
+    }
+    return value;
+}
+
+// Builds the provider named by WHATSAPP_PROVIDER (meta, twilio or fake). The fake is opt-in, and
+// refused in production; only the test runner falls back to it when nothing is configured.
+export function createWhatsAppProviderFromEnv(): WhatsAppProvider {
+    const providerName = process.env['WHATSAPP_PROVIDER'] || (process.env['NODE_ENV'] === 'test' ? 'fake' : '');
+    if (!providerName) {
+        throw new Error('WHATSAPP_PROVIDER must be set to meta, twilio or fake');
+    }
+
+    switch (providerName) {
+        case 'meta':
+            return createMetaCloudProvider({
+                accessToken: requireEnv('WHATSAPP_META_ACCESS_TOKEN'),
+                phoneNumberId: requireEnv('WHATSAPP_META_PHONE_NUMBER_ID'),
+                apiVersion: process.env['WHATSAPP_META_API_VERSION'],
+                appSecret: requireEnv('WHATSAPP_APP_SECRET')
+            });
+        case 'twilio':
+            return createTwilioProvider({
+                accountSid: requireEnv('TWILIO_ACCOUNT_SID'),
+                authToken: requireEnv('TWILIO_AUTH_TOKEN'),
+                from: requireEnv('TWILIO_WHATSAPP_FROM'),
+                statusCallbackUrl: process.env['TWILIO_STATUS_CALLBACK_URL']
+            });
+        case 'fake':
+            if (process.env['NODE_ENV'] === 'production') {
+                throw new Error('WHATSAPP_PROVIDER=fake cannot be used in production');
+            }
+            return createFakeWhatsAppProvider();
+        default:
+            throw new Error(`Unknown WHATSAPP_PROVIDER '${providerName}'`);
+    }
+}
+
+let activeProvider: WhatsAppProvider | null = null;
+
+export function getWhatsAppProvider(): WhatsAppProvider {
+    if (!activeProvider) {
+        activeProvider = createWhatsAppProviderFromEnv();
+    }
+    return activeProvider;
+}
+
+// Overrides the active provider (e.g. with a fake in tests); pass null to go back to the env config
+export function setWhatsAppProvider(provider: WhatsAppProvider | null): void {
+    activeProvider = provider;
+}
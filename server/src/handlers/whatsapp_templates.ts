@@ -0,0 +1,253 @@
+import { db } from '../db';
+import { whatsappTemplatesTable } from '../db/schema';
+import {
+    type CreateWhatsAppTemplateInput,
+    type Language,
+    type PreviewWhatsAppTemplateInput,
+    type UpdateWhatsAppTemplateInput,
+    type WhatsAppTemplate,
+    type WhatsAppTemplatePreview
+} from '../schema';
+import { eq } from 'drizzle-orm';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// Realistic stand-ins so previews read like real messages
+const SAMPLE_VARIABLES: Record<Language, Record<string, string>> = {
+    ar: {
+        name: 'أحمد',
+        service: 'غسيل شامل',
+        price: '١٥٠٫٠٠',
+        date: 'الاثنين، ١٥ يناير ٢٠٢٤',
+        time: '١٠:٣٠ ص',
+        eta: '٢٠',
+        location: 'الرياض - حي النخيل',
+        offer_title: 'عرض نهاية الأسبوع',
+        discount: '٢٠٪',
+        valid_until: 'الجمعة، ١٩ يناير ٢٠٢٤',
+        promo_code: 'WASH20'
+    },
+    en: {
+        name: 'Ahmed',
+        service: 'Full Wash',
+        price: '150.00',
+        date: 'Monday, 15 January 2024',
+        time: '10:30 am',
+        eta: '20',
+        location: 'Riyadh - Al Nakheel',
+        offer_title: 'Weekend offer',
+        discount: '20%',
+        valid_until: 'Friday, 19 January 2024',
+        promo_code: 'WASH20'
+    }
+};
+
+const SAMPLE_LINK = 'https://example.com/bookings/123';
+
+// Unique placeholder names in order of first appearance
+export function extractTemplateVariables(body: string): string[] {
+    const names = [...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+    return [...new Set(names)];
+}
+
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+    return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+    );
+}
+
+// Required variables that are absent or blank in `variables`
+export function findMissingVariables(required: string[], variables: Record<string, string>): string[] {
+    return required.filter(name => (variables[name] ?? '').trim().length === 0);
+}
+
+// Every placeholder must be declared, as required or optional, so a send can never leave {{...}} in the text
+function assertPlaceholdersDeclared(
+    body_ar: string,
+    body_en: string,
+    required_variables: string[],
+    optional_variables: string[]
+): void {
+    const both = required_variables.filter(name => optional_variables.includes(name));
+    if (both.length > 0) {
+        throw new Error(`Variables cannot be both required and optional: ${both.join(', ')}`);
+    }
+
+    const undeclared = [...new Set([...extractTemplateVariables(body_ar), ...extractTemplateVariables(body_en)])]
+        .filter(name => !required_variables.includes(name) && !optional_variables.includes(name));
+
+    if (undeclared.length > 0) {
+        throw new Error(`Template uses undeclared variables: ${undeclared.join(', ')}`);
+    }
+}
+
+async function assertKeyAvailable(key: string, exceptId?: number): Promise<void> {
+    const existing = await db.select({ id: whatsappTemplatesTable.id })
+        .from(whatsappTemplatesTable)
+        .where(eq(whatsappTemplatesTable.key, key))
+        .execute();
+
+    if (existing.length > 0 && existing[0].id !== exceptId) {
+        throw new Error(`WhatsApp template '${key}' already exists`);
+    }
+}
+
+export async function getWhatsAppTemplates(): Promise<WhatsAppTemplate[]> {
+    try {
+        const results = await db.select()
+            .from(whatsappTemplatesTable)
+            .orderBy(whatsappTemplatesTable.key)
+            .execute();
+
+        return results;
+    } catch (error) {
+        console.error('Failed to fetch WhatsApp templates:', error);
+        throw error;
+    }
+}
+
+export async function getWhatsAppTemplateByKey(key: string): Promise<WhatsAppTemplate | null> {
+    try {
+        const results = await db.select()
+            .from(whatsappTemplatesTable)
+            .where(eq(whatsappTemplatesTable.key, key))
+            .execute();
+
+        return results.length > 0 ? results[0] : null;
+    } catch (error) {
+        console.error('Failed to fetch WhatsApp template by key:', error);
+        throw error;
+    }
+}
+
+export async function createWhatsAppTemplate(input: CreateWhatsAppTemplateInput): Promise<WhatsAppTemplate> {
+    try {
+        const requiredVariables = [...new Set(input.required_variables)];
+        const optionalVariables = [...new Set(input.optional_variables ?? [])];
+        assertPlaceholdersDeclared(input.body_ar, input.body_en, requiredVariables, optionalVariables);
+        await assertKeyAvailable(input.key);
+
+        const result = await db.insert(whatsappTemplatesTable)
+            .values({
+                key: input.key,
+                body_ar: input.body_ar,
+                body_en: input.body_en,
+                required_variables: requiredVariables,
+                optional_variables: optionalVariables,
+                twilio_content_sids: input.twilio_content_sids ?? {}
+            })
+            .returning()
+            .execute();
+
+        return result[0];
+    } catch (error) {
+        console.error('Failed to create WhatsApp template:', error);
+        throw error;
+    }
+}
+
+export async function updateWhatsAppTemplate(input: UpdateWhatsAppTemplateInput): Promise<WhatsAppTemplate> {
+    try {
+        const existing = await db.select()
+            .from(whatsappTemplatesTable)
+            .where(eq(whatsappTemplatesTable.id, input.id))
+            .execute();
+
+        if (existing.length === 0) {
+            throw new Error(`WhatsApp template with ID ${input.id} not found`);
+        }
+
+        const current = existing[0];
+        const updated = {
+            key: input.key ?? current.key,
+            body_ar: input.body_ar ?? current.body_ar,
+            body_en: input.body_en ?? current.body_en,
+            required_variables: input.required_variables !== undefined
+                ? [...new Set(input.required_variables)]
+                : current.required_variables,
+            optional_variables: input.optional_variables !== undefined
+                ? [...new Set(input.optional_variables)]
+                : current.optional_variables,
+            twilio_content_sids: input.twilio_content_sids ?? current.twilio_content_sids
+        };
+
+        // Validate the merged result, not just the changed fields
+        assertPlaceholdersDeclared(updated.body_ar, updated.body_en, updated.required_variables, updated.optional_variables);
+        if (updated.key !== current.key) {
+            await assertKeyAvailable(updated.key, input.id);
+        }
+
+        const result = await db.update(whatsappTemplatesTable)
+            .set(updated)
+            .where(eq(whatsappTemplatesTable.id, input.id))
+            .returning()
+            .execute();
+
+        return result[0];
+    } catch (error) {
+        console.error('Failed to update WhatsApp template:', error);
+        throw error;
+    }
+}
+
+export async function deleteWhatsAppTemplate(id: number): Promise<boolean> {
+    try {
+        const result = await db.delete(whatsappTemplatesTable)
+            .where(eq(whatsappTemplatesTable.id, id))
+            .returning({ id: whatsappTemplatesTable.id })
+            .execute();
+
+        if (result.length === 0) {
+            throw new Error(`WhatsApp template with ID ${id} not found`);
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Failed to delete WhatsApp template:', error);
+        throw error;
+    }
+}
+
+function buildSampleVariables(names: string[], language: Language, overrides: Record<string, string>): Record<string, string> {
+    const samples: Record<string, string> = {};
+
+    for (const name of names) {
+        samples[name] = overrides[name]
+            ?? SAMPLE_VARIABLES[language][name]
+            ?? (name.endsWith('_url') || name.endsWith('_link') ? SAMPLE_LINK : `[${name}]`);
+    }
+
+    return samples;
+}
+
+// Renders both languages with sample data (or caller-provided values) without sending anything
+export async function previewWhatsAppTemplate(input: PreviewWhatsAppTemplateInput): Promise<WhatsAppTemplatePreview> {
+    try {
+        const template = await getWhatsAppTemplateByKey(input.key);
+        if (!template) {
+            throw new Error(`WhatsApp template '${input.key}' not found`);
+        }
+
+        const names = [...new Set([
+            ...template.required_variables,
+            ...template.optional_variables,
+            ...extractTemplateVariables(template.body_ar),
+            ...extractTemplateVariables(template.body_en)
+        ])];
+        const variablesAr = buildSampleVariables(names, 'ar', input.variables);
+        const variablesEn = buildSampleVariables(names, 'en', input.variables);
+
+        return {
+            key: template.key,
+            required_variables: template.required_variables,
+            optional_variables: template.optional_variables,
+            body_ar: renderTemplate(template.body_ar, variablesAr),
+            body_en: renderTemplate(template.body_en, variablesEn),
+            variables_ar: variablesAr,
+            variables_en: variablesEn
+        };
+    } catch (error) {
+        console.error('Failed to preview WhatsApp template:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,83 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { applyDeliveryStatus } from './whatsapp_messages';
+import { getWhatsAppProvider, type DeliveryStatusUpdate } from './whatsapp_providers';
+
+export const WHATSAPP_WEBHOOK_PATH = '/webhooks/whatsapp';
+
+export async function processStatusWebhook(updates: DeliveryStatusUpdate[]): Promise<{ updated: number; ignored: number }> {
+    try {
+        let updated = 0;
+
+        for (const update of updates) {
+            const result = await applyDeliveryStatus(
+                update.provider_message_id,
+                update.status,
+                update.occurred_at,
+                update.error
+            );
+            if (result) {
+                updated++;
+            }
+        }
+
+        return { updated, ignored: updates.length - updated };
+    } catch (error) {
+        console.error('WhatsApp status webhook processing failed:', error);
+        throw error;
+    }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendResponse(res: ServerResponse, statusCode: number, body: string, contentType = 'application/json'): void {
+    res.statusCode = statusCode;
+    res.setHeader('Content-Type', contentType);
+    res.end(body);
+}
+
+// Plain HTTP handler mounted next to the tRPC router; providers can't speak tRPC
+export async function handleWhatsAppWebhookRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+        // Meta subscription handshake
+        if (req.method === 'GET') {
+            const verifyToken = process.env['WHATSAPP_WEBHOOK_VERIFY_TOKEN'];
+            if (url.searchParams.get('hub.mode') === 'subscribe' &&
+                verifyToken && url.searchParams.get('hub.verify_token') === verifyToken) {
+                sendResponse(res, 200, url.searchParams.get('hub.challenge') ?? '', 'text/plain');
+            } else {
+                sendResponse(res, 403, JSON.stringify({ error: 'Verification failed' }));
+            }
+            return;
+        }
+
+        if (req.method !== 'POST') {
+            sendResponse(res, 405, JSON.stringify({ error: 'Method not allowed' }));
+            return;
+        }
+
+        const provider = getWhatsAppProvider();
+        const rawBody = await readBody(req);
+
+        if (!provider.verifyCallback(rawBody, req.headers, url.toString())) {
+            sendResponse(res, 401, JSON.stringify({ error: 'Invalid signature' }));
+            return;
+        }
+
+        const updates = provider.parseStatusCallback(rawBody, req.headers['content-type']);
+        const result = await processStatusWebhook(updates);
+        sendResponse(res, 200, JSON.stringify(result));
+    } catch (error) {
+        console.error('WhatsApp webhook request failed:', error);
+        sendResponse(res, 500, JSON.stringify({ error: 'Internal error' }));
+    }
+}
@@ -0,0 +1,209 @@
+import { db, type DbExecutor } from '../db';
+import { scheduleExceptionsTable, zoneSchedulesTable, zonesTable } from '../db/schema';
+import {
+    type OperatingHours,
+    type UpsertZoneScheduleInput,
+    type ZoneScheduleConfig
+} from '../schema';
+import { and, desc, eq, gte, isNull, lte, or } from 'drizzle-orm';
+import { businessTimeRange, businessWeekday, startOfBusinessDay, toDateKey } from './business_time';
+
+// Used for zones that have no saved schedule: open 08:00-18:00 every day
+export const DEFAULT_ZONE_SCHEDULE: Omit<ZoneScheduleConfig, 'zone_id' | 'is_default' | 'updated_by' | 'updated_at'> = {
+    weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+    team_capacity: 3,
+    slot_minutes: 90, // appointment window length
+    interval_minutes: 60, // a new window starts every hour
+    buffer_minutes: 30, // travel/setup time a service must leave free inside its window
+    prayer_pause_enabled: false,
+    prayer_pause_before_minutes: 5,
+    prayer_pause_after_minutes: 30
+};
+
+function toZoneScheduleConfig(row: typeof zoneSchedulesTable.$inferSelect): ZoneScheduleConfig {
+    return {
+        zone_id: row.zone_id,
+        weekly_hours: row.weekly_hours,
+        team_capacity: row.team_capacity,
+        slot_minutes: row.slot_minutes,
+        interval_minutes: row.interval_minutes,
+        buffer_minutes: row.buffer_minutes,
+        prayer_pause_enabled: row.prayer_pause_enabled,
+        prayer_pause_before_minutes: row.prayer_pause_before_minutes,
+        prayer_pause_after_minutes: row.prayer_pause_after_minutes,
+        is_default: false,
+        updated_by: row.updated_by,
+        updated_at: row.updated_at
+    };
+}
+
+function defaultZoneScheduleConfig(zone_id: number): ZoneScheduleConfig {
+    return {
+        ...DEFAULT_ZONE_SCHEDULE,
+        zone_id,
+        is_default: true,
+        updated_by: null,
+        updated_at: null
+    };
+}
+
+// Operating hours for the business weekday of `date`; null when the zone is closed that day
+export function getOperatingHoursForDate(config: ZoneScheduleConfig, date: Date): OperatingHours | null {
+    return config.weekly_hours[businessWeekday(date)] ?? null;
+}
+
+// Opening and closing time of `operating_hours` on the business day of `date`; hours ending at or
+// before their start close after midnight
+export function getOperatingWindow(date: Date, operating_hours: OperatingHours): { start: Date; end: Date } {
+    return businessTimeRange(date, operating_hours.start, operating_hours.end);
+}
+
+// Whether the window fits the hours of business day `day` (by default the day the window starts)
+export function isWithinOperatingHours(
+    start_time: Date,
+    end_time: Date,
+    operating_hours: OperatingHours,
+    day: Date = start_time
+): boolean {
+    const open = getOperatingWindow(day, operating_hours);
+    return start_time >= open.start && end_time <= open.end;
+}
+
+// Operating hours for `date` once holidays, blackouts and seasonal hours are applied.
+// Zone entries beat global ones; within the same scope a blackout beats changed hours,
+// and among changed hours the most recently added entry wins.
+export async function resolveOperatingHours(
+    config: ZoneScheduleConfig,
+    date: Date,
+    executor: DbExecutor = db
+): Promise<OperatingHours | null> {
+    const dateKey = toDateKey(date);
+
+    const exceptions = await executor.select()
+        .from(scheduleExceptionsTable)
+        .where(and(
+            or(eq(scheduleExceptionsTable.zone_id, config.zone_id), isNull(scheduleExceptionsTable.zone_id)),
+            lte(scheduleExceptionsTable.start_date, dateKey),
+            gte(scheduleExceptionsTable.end_date, dateKey)
+        ))
+        .orderBy(desc(scheduleExceptionsTable.id))
+        .execute();
+
+    for (const scope of [exceptions.filter(e => e.zone_id !== null), exceptions.filter(e => e.zone_id === null)]) {
+        if (scope.length === 0) {
+            continue;
+        }
+        if (scope.some(exception => exception.hours === null)) {
+            return null;
+        }
+        return scope[0].hours;
+    }
+
+    return getOperatingHoursForDate(config, date);
+}
+
+// The business day whose hours hold the window, with those hours: the day it starts on, or the
+// day before when its hours run past midnight (a 01:00 window on Tuesday belongs to Monday 21:00-02:00)
+export async function resolveCoveringOperatingHours(
+    config: ZoneScheduleConfig,
+    start_time: Date,
+    end_time: Date,
+    executor: DbExecutor = db
+): Promise<{ day: Date; hours: OperatingHours } | null> {
+    for (const day of [startOfBusinessDay(start_time), startOfBusinessDay(start_time, -1)]) {
+        const hours = await resolveOperatingHours(config, day, executor);
+        if (hours && isWithinOperatingHours(start_time, end_time, hours, day)) {
+            return { day, hours };
+        }
+    }
+    return null;
+}
+
+export async function getZoneScheduleConfig(zone_id: number, executor: DbExecutor = db): Promise<ZoneScheduleConfig> {
+    try {
+        const rows = await executor.select()
+            .from(zoneSchedulesTable)
+            .where(eq(zoneSchedulesTable.zone_id, zone_id))
+            .execute();
+
+        return rows.length > 0 ? toZoneScheduleConfig(rows[0]) : defaultZoneScheduleConfig(zone_id);
+    } catch (error) {
+        console.error('Failed to fetch zone schedule config:', error);
+        throw error;
+    }
+}
+
+// One entry per zone, including zones still on the defaults
+export async function getZoneScheduleConfigs(): Promise<ZoneScheduleConfig[]> {
+    try {
+        const zones = await db.select({ id: zonesTable.id })
+            .from(zonesTable)
+            .orderBy(zonesTable.id)
+            .execute();
+        const rows = await db.select()
+            .from(zoneSchedulesTable)
+            .execute();
+
+        return zones.map(zone => {
+            const row = rows.find(candidate => candidate.zone_id === zone.id);
+            return row ? toZoneScheduleConfig(row) : defaultZoneScheduleConfig(zone.id);
+        });
+    } catch (error) {
+        console.error('Failed to fetch zone schedule configs:', error);
+        throw error;
+    }
+}
+
+export async function upsertZoneScheduleConfig(
+    input: UpsertZoneScheduleInput,
+    updated_by: string | null = null
+): Promise<ZoneScheduleConfig> {
+    try {
+        const zones = await db.select({ id: zonesTable.id })
+            .from(zonesTable)
+            .where(eq(zonesTable.id, input.zone_id))
+            .execute();
+
+        if (zones.length === 0) {
+            throw new Error(`Zone with ID ${input.zone_id} not found`);
+        }
+
+        const values = {
+            weekly_hours: input.weekly_hours,
+            team_capacity: input.team_capacity,
+            slot_minutes: input.slot_minutes,
+            interval_minutes: input.interval_minutes,
+            buffer_minutes: input.buffer_minutes,
+            prayer_pause_enabled: input.prayer_pause_enabled,
+            prayer_pause_before_minutes: input.prayer_pause_before_minutes,
+            prayer_pause_after_minutes: input.prayer_pause_after_minutes,
+            updated_by,
+            updated_at: new Date()
+        };
+
+        const result = await db.insert(zoneSchedulesTable)
+            .values({ zone_id: input.zone_id, ...values })
+            .onConflictDoUpdate({ target: zoneSchedulesTable.zone_id, set: values })
+            .returning()
+            .execute();
+
+        return toZoneScheduleConfig(result[0]);
+    } catch (error) {
+        console.error('Failed to save zone schedule config:', error);
+        throw error;
+    }
+}
+
+// Drops the saved configuration so the zone falls back to the defaults
+export async function resetZoneScheduleConfig(zone_id: number): Promise<ZoneScheduleConfig> {
+    try {
+        await db.delete(zoneSchedulesTable)
+            .where(eq(zoneSchedulesTable.zone_id, zone_id))
+            .execute();
+
+        return defaultZoneScheduleConfig(zone_id);
+    } catch (error) {
+        console.error('Failed to reset zone schedule config:', error);
+        throw error;
+    }
+}
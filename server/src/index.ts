@@ -1,5 +1,5 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -12,33 +12,87 @@ import {
   createServiceInputSchema,
   updateServiceInputSchema,
   createAddonInputSchema,
+  createPlanInputSchema,
+  updatePlanInputSchema,
+  createSubscriptionInputSchema,
+  cancelSubscriptionInputSchema,
+  getSubscriptionsInputSchema,
+  createCouponInputSchema,
+  updateCouponInputSchema,
   createContentBlockInputSchema,
   createFaqInputSchema,
   createFleetLeadInputSchema,
   createKpisDailyInputSchema,
   createCustomerInputSchema,
   createPricingRuleInputSchema,
-  createSeoMetaInputSchema
+  updatePricingRuleInputSchema,
+  quoteConversionStatsInputSchema,
+  carTypeSchema,
+  setServiceCarTypePricesInputSchema,
+  setAddonCarTypePricesInputSchema,
+  createSeoMetaInputSchema,
+  createAdminUserInputSchema,
+  adminLoginInputSchema,
+  getWhatsAppMessagesInputSchema,
+  languageSchema,
+  createWhatsappTemplateInputSchema,
+  updateWhatsappTemplateInputSchema,
+  previewWhatsappTemplateInputSchema,
+  bookingTokenInputSchema,
+  rescheduleBookingByTokenInputSchema,
+  cancelBookingByTokenInputSchema,
+  upsertZoneScheduleInputSchema,
+  createScheduleExceptionInputSchema,
+  getScheduleExceptionsInputSchema,
+  createTeamInputSchema,
+  updateTeamInputSchema,
+  createTechnicianInputSchema,
+  updateTechnicianInputSchema,
+  setTeamShiftsInputSchema,
+  assignBookingInputSchema,
+  planRoutesInputSchema,
+  joinWaitlistInputSchema,
+  waitlistClaimInputSchema,
+  getWaitlistInputSchema,
+  createBookingSeriesInputSchema,
+  getBookingSeriesConflictsInputSchema,
+  skipSeriesOccurrenceInputSchema,
+  cancelBookingSeriesInputSchema,
+  type AdminRole,
+  type AdminUser
 } from './schema';
 
 // Additional schema for price calculation
 const calculatePriceInputSchema = z.object({
   service_id: z.number(),
   addons: z.array(z.number()),
-  car_type: z.enum(['sedan', 'suv', 'pickup']),
+  car_type: carTypeSchema,
   zone_id: z.number(),
   geo_point: z.object({
     lat: z.number(),
     lng: z.number()
   }),
-  is_solo: z.boolean()
+  is_solo: z.boolean(),
+  customer_phone: z.string().optional(),
+  booking_token: z.string().min(1).optional(),
+  coupon_code: z.string().trim().min(1).optional(),
+  scheduled_window: z.object({
+    start: z.coerce.date(),
+    end: z.coerce.date()
+  }).optional()
 });
 
+// A quote is only held for the slot it was priced for
+const createPriceQuoteInputSchema = calculatePriceInputSchema.required({ scheduled_window: true });
+
 // Handler imports
 import { createBooking } from './handlers/create_booking';
 import { getBookings, getBookingById } from './handlers/get_bookings';
 import { updateBooking } from './handlers/update_booking';
-import { calculatePrice } from './handlers/calculate_price';
+import { getBookingTimeline } from './handlers/booking_events';
+import { calculatePublicPrice, priceTimeSlots } from './handlers/calculate_price';
+import { createPriceQuote, getQuoteConversionStats } from './handlers/price_quotes';
+import { getPriceMatrix, setAddonCarTypePrices, setServiceCarTypePrices } from './handlers/price_matrix';
 import { getServices, getServiceById, getServiceBySlug } from './handlers/get_services';
 import { createService } from './handlers/create_service';
 import { updateService } from './handlers/update_service';
@@ -52,23 +106,137 @@ import { createFaq } from './handlers/create_faq';
 import { getTestimonials, getTestimonialsByDistrict } from './handlers/get_testimonials';
 import { getGalleryMedia, getGalleryMediaByFilters, uploadGalleryMedia } from './handlers/get_gallery_media';
 import { getAdminOverview, getTodayBookings, getBookingsByDateRange } from './handlers/admin_overview';
-import { sendWhatsAppMessage, sendBookingConfirmation, sendStatusUpdate } from './handlers/whatsapp_integration';
+import { sendWhatsAppMessage, sendBookingConfirmation, sendStatusUpdate, getMessageStatus } from './handlers/whatsapp_integration';
+import { getWhatsAppMessages } from './handlers/whatsapp_messages';
+import {
+  getWhatsAppTemplates,
+  createWhatsAppTemplate,
+  updateWhatsAppTemplate,
+  deleteWhatsAppTemplate,
+  previewWhatsAppTemplate
+} from './handlers/whatsapp_templates';
+import { handleWhatsAppWebhookRequest, WHATSAPP_WEBHOOK_PATH } from './handlers/whatsapp_webhook';
+import { getWhatsAppProvider } from './handlers/whatsapp_providers';
+import { startBookingReminderScheduler } from './handlers/booking_reminders';
+import { getBookingByToken, rescheduleBookingByToken, cancelBookingByToken } from './handlers/booking_self_service';
+import { getBookingLinkSecret } from './handlers/booking_tokens';
 import { createFleetLead, getFleetLeads, updateFleetLeadStatus, generateFleetLOI } from './handlers/fleet_management';
 import { recordDailyKPIs, getKPIsByDateRange, generateKPIReport, calculateOperationalKPIs, calculateMarketingKPIs } from './handlers/kpi_reports';
-import { getAvailableTimeSlots, validateTimeSlot, getZoneSchedule } from './handlers/time_slots';
+import { getAvailableTimeSlots, validateTimeSlot, getZoneSchedule, getJobMinutes } from './handlers/time_slots';
+import {
+  getZoneScheduleConfig,
+  getZoneScheduleConfigs,
+  upsertZoneScheduleConfig,
+  resetZoneScheduleConfig
+} from './handlers/zone_schedules';
+import {
+  getScheduleExceptions,
+  createScheduleException,
+  deleteScheduleException,
+  getBookingsNeedingReschedule
+} from './handlers/schedule_calendar';
+import {
+  getTeams,
+  createTeam,
+  updateTeam,
+  getTechnicians,
+  createTechnician,
+  updateTechnician,
+  getTeamShifts,
+  setTeamShifts
+} from './handlers/team_roster';
+import { assignBookingToTeam, getAvailableTeamsForBooking } from './handlers/booking_assignment';
+import { planRoutes } from './handlers/route_planning';
+import {
+  joinWaitlist,
+  getWaitlistOffer,
+  claimWaitlistOffer,
+  getWaitlist,
+  cancelWaitlistEntry,
+  startWaitlistScheduler
+} from './handlers/waitlist';
+import {
+  createBookingSeries,
+  getBookingSeries,
+  getSeriesConflicts,
+  skipSeriesOccurrence,
+  cancelBookingSeries,
+  startBookingSeriesScheduler
+} from './handlers/booking_series';
+import {
+  getPlans,
+  createPlan,
+  updatePlan,
+  deletePlan,
+  getSubscriptions,
+  createSubscription,
+  renewSubscription,
+  cancelSubscription,
+  startSubscriptionScheduler
+} from './handlers/subscription_plans';
+import { getCoupons, createCoupon, updateCoupon, deleteCoupon, getCouponStats } from './handlers/coupons';
 import { createCustomer, findCustomerByPhone, verifyCustomerWhatsApp } from './handlers/create_customer';
-import { getPricingRules, createPricingRule, calculateDistanceFee } from './handlers/pricing_rules';
+import {
+  getPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  calculateDistanceFee,
+  assertStoredPricingRulesValid
+} from './handlers/pricing_rules';
 import { publishContentBlocks, revalidateCache } from './handlers/cms_publish';
 import { getSeoMeta, getSeoMetaByRoute, createSeoMeta, generateSitemap } from './handlers/seo_management';
 import { uploadMedia, deleteMedia } from './handlers/media_upload';
+import {
+  createAdminUser,
+  getAdminUsers,
+  loginAdmin,
+  logoutAdmin,
+  getAdminBySessionToken,
+  hasRequiredRole,
+  ensureBootstrapOwner
+} from './handlers/admin_auth';
+
+interface Context {
+  admin: AdminUser | null;
+  sessionToken: string | null;
+}
 
-const t = initTRPC.create({
+async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const header = req.headers.authorization;
+  const sessionToken = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  const admin = sessionToken ? await getAdminBySessionToken(sessionToken) : null;
+  return { admin, sessionToken };
+}
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Requires a valid admin session token in the Authorization header
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.admin || !ctx.sessionToken) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Admin login required' });
+  }
+  return next({ ctx: { admin: ctx.admin, sessionToken: ctx.sessionToken } });
+});
+
+// Restricts a route to the given roles (owners are always allowed)
+const roleProcedure = (...roles: AdminRole[]) => protectedProcedure.use(({ ctx, next }) => {
+  if (!hasRequiredRole(ctx.admin, roles)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Requires one of roles: ${['owner', ...roles].join(', ')}` });
+  }
+  return next();
+});
+
+const ownerProcedure = roleProcedure();
+const dispatcherProcedure = roleProcedure('dispatcher');
+const contentProcedure = roleProcedure('content_editor');
+const marketingProcedure = roleProcedure('marketer');
+const contentOrMarketingProcedure = roleProcedure('content_editor', 'marketer');
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -82,16 +250,17 @@ const appRouter = router({
 
   calculatePrice: publicProcedure
     .input(calculatePriceInputSchema)
-    .query(({ input }) => calculatePrice(input)),
+    .query(({ input }) => calculatePublicPrice(input)),
+
+  // Stores the price for the chosen slot, so the customer can book at the price they saw until it expires
+  createPriceQuote: publicProcedure
+    .input(createPriceQuoteInputSchema)
+    .mutation(({ input }) => createPriceQuote(input)),
 
   getBookingById: publicProcedure
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getBookingById(input.id)),
 
-  updateBooking: publicProcedure
-    .input(updateBookingInputSchema)
-    .mutation(({ input }) => updateBooking(input)),
-
   // Public content procedures
   getServices: publicProcedure.query(() => getServices(true)),
 
@@ -109,6 +278,8 @@ const appRouter = router({
     .input(z.object({ ids: z.array(z.number()) }))
     .query(({ input }) => getAddonsByIds(input.ids)),
 
+  getPlans: publicProcedure.query(() => getPlans(true)),
+
   getZones: publicProcedure.query(() => getZones()),
 
   getZoneByLocation: publicProcedure
@@ -143,10 +314,67 @@ const appRouter = router({
   getAvailableTimeSlots: publicProcedure
     .input(z.object({
       zone_id: z.number(),
-      service_duration: z.number(),
-      date: z.coerce.date()
+      // Either the minutes of work, or the service and add-ons to take them from
+      service_duration: z.number().int().positive().optional(),
+      service_id: z.number().optional(),
+      addons: z.array(z.number()).default([]),
+      date: z.coerce.date(),
+      // With a service and the customer's location, each slot comes back with its price
+      car_type: carTypeSchema.default('sedan'),
+      is_solo: z.boolean().default(false),
+      geo_point: z.object({
+        lat: z.number(),
+        lng: z.number()
+      }).optional()
+    }).refine(input => input.service_duration !== undefined || input.service_id !== undefined, {
+      message: 'Either service_duration or service_id is required'
     }))
-    .query(({ input }) => getAvailableTimeSlots(input.zone_id, input.service_duration, input.date)),
+    .query(async ({ input }) => {
+      const slots = await getAvailableTimeSlots(
+        input.zone_id,
+        input.service_id !== undefined ? await getJobMinutes(input.service_id, input.addons) : input.service_duration!,
+        input.date
+      );
+
+      if (input.service_id === undefined || input.geo_point === undefined) {
+        return slots;
+      }
+      return priceTimeSlots(slots, {
+        service_id: input.service_id,
+        addons: input.addons,
+        car_type: input.car_type,
+        zone_id: input.zone_id,
+        geo_point: input.geo_point,
+        is_solo: input.is_solo
+      }, input.date);
+    }),
+
+  // Customer self-service through the signed links sent on WhatsApp
+  getBookingByToken: publicProcedure
+    .input(bookingTokenInputSchema)
+    .query(({ input }) => getBookingByToken(input.token)),
+  rescheduleBookingByToken: publicProcedure
+    .input(rescheduleBookingByTokenInputSchema)
+    .mutation(({ input }) => rescheduleBookingByToken(input)),
+  cancelBookingByToken: publicProcedure
+    .input(cancelBookingByTokenInputSchema)
+    .mutation(({ input }) => cancelBookingByToken(input)),
+
+  // Waitlist for full slots; offers arrive on WhatsApp with a claim link
+  joinWaitlist: publicProcedure
+    .input(joinWaitlistInputSchema)
+    .mutation(({ input }) => joinWaitlist(input)),
+  getWaitlistOffer: publicProcedure
+    .input(waitlistClaimInputSchema)
+    .query(({ input }) => getWaitlistOffer(input.token)),
+  claimWaitlistOffer: publicProcedure
+    .input(waitlistClaimInputSchema)
+    .mutation(({ input }) => claimWaitlistOffer(input.token)),
+
+  // Weekly or bi-weekly washes; each occurrence is booked a few weeks ahead
+  createBookingSeries: publicProcedure
+    .input(createBookingSeriesInputSchema)
+    .mutation(({ input }) => createBookingSeries(input)),
 
   // Fleet lead submission
   createFleetLead: publicProcedure
@@ -173,12 +401,25 @@ const appRouter = router({
 
   generateSitemap: publicProcedure.query(() => generateSitemap()),
 
-  // Admin procedures (in production these would be protected with auth)
+  // Admin procedures (session token + role checked per route)
   admin: router({
+    // Authentication
+    login: publicProcedure
+      .input(adminLoginInputSchema)
+      .mutation(({ input }) => loginAdmin(input)),
+    logout: protectedProcedure.mutation(({ ctx }) => logoutAdmin(ctx.sessionToken)),
+    me: protectedProcedure.query(({ ctx }) => ctx.admin),
+
+    // Admin user management
+    getAdminUsers: ownerProcedure.query(() => getAdminUsers()),
+    createAdminUser: ownerProcedure
+      .input(createAdminUserInputSchema)
+      .mutation(({ input }) => createAdminUser(input)),
+
     // Overview
-    getOverview: publicProcedure.query(() => getAdminOverview()),
-    getTodayBookings: publicProcedure.query(() => getTodayBookings()),
-    getBookingsByDateRange: publicProcedure
+    getOverview: dispatcherProcedure.query(() => getAdminOverview()),
+    getTodayBookings: dispatcherProcedure.query(() => getTodayBookings()),
+    getBookingsByDateRange: dispatcherProcedure
       .input(z.object({
         startDate: z.coerce.date(),
         endDate: z.coerce.date()
@@ -186,43 +427,165 @@ const appRouter = router({
       .query(({ input }) => getBookingsByDateRange(input.startDate, input.endDate)),
 
     // Bookings management
-    getAllBookings: publicProcedure.query(() => getBookings()),
-    getZoneSchedule: publicProcedure
+    getAllBookings: dispatcherProcedure.query(() => getBookings()),
+    updateBooking: dispatcherProcedure
+      .input(updateBookingInputSchema)
+      .mutation(({ input, ctx }) => updateBooking(input, ctx.admin.email)),
+    getBookingTimeline: dispatcherProcedure
+      .input(z.object({ booking_id: z.number() }))
+      .query(({ input }) => getBookingTimeline(input.booking_id)),
+    getZoneSchedule: dispatcherProcedure
       .input(z.object({ zone_id: z.number(), date: z.coerce.date() }))
       .query(({ input }) => getZoneSchedule(input.zone_id, input.date)),
 
+    // Zone hours, capacity and slot configuration
+    getZoneScheduleConfigs: dispatcherProcedure.query(() => getZoneScheduleConfigs()),
+    getZoneScheduleConfig: dispatcherProcedure
+      .input(z.object({ zone_id: z.number() }))
+      .query(({ input }) => getZoneScheduleConfig(input.zone_id)),
+    upsertZoneScheduleConfig: dispatcherProcedure
+      .input(upsertZoneScheduleInputSchema)
+      .mutation(({ input, ctx }) => upsertZoneScheduleConfig(input, ctx.admin.email)),
+    resetZoneScheduleConfig: dispatcherProcedure
+      .input(z.object({ zone_id: z.number() }))
+      .mutation(({ input }) => resetZoneScheduleConfig(input.zone_id)),
+
+    // Holidays, blackouts and seasonal hours
+    getScheduleExceptions: dispatcherProcedure
+      .input(getScheduleExceptionsInputSchema)
+      .query(({ input }) => getScheduleExceptions(input)),
+    createScheduleException: dispatcherProcedure
+      .input(createScheduleExceptionInputSchema)
+      .mutation(({ input, ctx }) => createScheduleException(input, ctx.admin.email)),
+    deleteScheduleException: dispatcherProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteScheduleException(input.id)),
+    getBookingsNeedingReschedule: dispatcherProcedure.query(() => getBookingsNeedingReschedule()),
+
+    // Team roster and crew assignment
+    getTeams: dispatcherProcedure
+      .input(z.object({ zone_id: z.number().optional() }))
+      .query(({ input }) => getTeams(input.zone_id)),
+    createTeam: dispatcherProcedure
+      .input(createTeamInputSchema)
+      .mutation(({ input }) => createTeam(input)),
+    updateTeam: dispatcherProcedure
+      .input(updateTeamInputSchema)
+      .mutation(({ input }) => updateTeam(input)),
+    getTechnicians: dispatcherProcedure
+      .input(z.object({ team_id: z.number().optional() }))
+      .query(({ input }) => getTechnicians(input.team_id)),
+    createTechnician: dispatcherProcedure
+      .input(createTechnicianInputSchema)
+      .mutation(({ input }) => createTechnician(input)),
+    updateTechnician: dispatcherProcedure
+      .input(updateTechnicianInputSchema)
+      .mutation(({ input }) => updateTechnician(input)),
+    getTeamShifts: dispatcherProcedure
+      .input(z.object({ team_id: z.number() }))
+      .query(({ input }) => getTeamShifts(input.team_id)),
+    setTeamShifts: dispatcherProcedure
+      .input(setTeamShiftsInputSchema)
+      .mutation(({ input }) => setTeamShifts(input)),
+    assignBooking: dispatcherProcedure
+      .input(assignBookingInputSchema)
+      .mutation(({ input }) => assignBookingToTeam(input)),
+    getAvailableTeamsForBooking: dispatcherProcedure
+      .input(z.object({ booking_id: z.number() }))
+      .query(({ input }) => getAvailableTeamsForBooking(input.booking_id)),
+    planRoutes: dispatcherProcedure
+      .input(planRoutesInputSchema)
+      .query(({ input }) => planRoutes(input)),
+
+    // Waitlist
+    getWaitlist: dispatcherProcedure
+      .input(getWaitlistInputSchema)
+      .query(({ input }) => getWaitlist(input)),
+    cancelWaitlistEntry: dispatcherProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => cancelWaitlistEntry(input.id)),
+
+    // Recurring bookings
+    getBookingSeries: dispatcherProcedure
+      .input(z.object({ id: z.number() }))
+      .query(({ input }) => getBookingSeries(input.id)),
+    getSeriesConflicts: dispatcherProcedure
+      .input(getBookingSeriesConflictsInputSchema)
+      .query(({ input }) => getSeriesConflicts(input)),
+    skipSeriesOccurrence: dispatcherProcedure
+      .input(skipSeriesOccurrenceInputSchema)
+      .mutation(({ input, ctx }) => skipSeriesOccurrence(input, ctx.admin.email)),
+    cancelBookingSeries: dispatcherProcedure
+      .input(cancelBookingSeriesInputSchema)
+      .mutation(({ input, ctx }) => cancelBookingSeries(input.series_id, ctx.admin.email)),
+
     // Services management
-    getAllServices: publicProcedure.query(() => getServices(false)),
-    createService: publicProcedure
+    getAllServices: ownerProcedure.query(() => getServices(false)),
+    createService: ownerProcedure
       .input(createServiceInputSchema)
       .mutation(({ input }) => createService(input)),
-    updateService: publicProcedure
+    updateService: ownerProcedure
       .input(updateServiceInputSchema)
       .mutation(({ input }) => updateService(input)),
 
     // Addons management
-    getAllAddons: publicProcedure.query(() => getAddons(false)),
-    createAddon: publicProcedure
+    getAllAddons: ownerProcedure.query(() => getAddons(false)),
+    createAddon: ownerProcedure
       .input(createAddonInputSchema)
       .mutation(({ input }) => createAddon(input)),
 
+    // Prices per car type
+    getPriceMatrix: ownerProcedure.query(() => getPriceMatrix()),
+    setServiceCarTypePrices: ownerProcedure
+      .input(setServiceCarTypePricesInputSchema)
+      .mutation(({ input }) => setServiceCarTypePrices(input)),
+    setAddonCarTypePrices: ownerProcedure
+      .input(setAddonCarTypePricesInputSchema)
+      .mutation(({ input }) => setAddonCarTypePrices(input)),
+
+    // Subscription plans
+    getAllPlans: ownerProcedure.query(() => getPlans(false)),
+    createPlan: ownerProcedure
+      .input(createPlanInputSchema)
+      .mutation(({ input }) => createPlan(input)),
+    updatePlan: ownerProcedure
+      .input(updatePlanInputSchema)
+      .mutation(({ input }) => updatePlan(input)),
+    deletePlan: ownerProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deletePlan(input.id)),
+
+    // Customer subscriptions
+    getSubscriptions: dispatcherProcedure
+      .input(getSubscriptionsInputSchema)
+      .query(({ input }) => getSubscriptions(input)),
+    createSubscription: dispatcherProcedure
+      .input(createSubscriptionInputSchema)
+      .mutation(({ input }) => createSubscription(input)),
+    renewSubscription: dispatcherProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => renewSubscription(input.id)),
+    cancelSubscription: dispatcherProcedure
+      .input(cancelSubscriptionInputSchema)
+      .mutation(({ input }) => cancelSubscription(input.id, input.immediate)),
+
     // Content management
-    getAllContentBlocks: publicProcedure
+    getAllContentBlocks: contentProcedure
       .input(z.object({ status: z.enum(['draft', 'published', 'all']).default('all') }))
       .query(({ input }) => getContentBlocks(input.status)),
-    createContentBlock: publicProcedure
-      .input(createContentBlockInputSchema)
-      .mutation(({ input }) => createContentBlock(input)),
+    createContentBlock: contentProcedure
+      .input(createContentBlockInputSchema.omit({ updated_by: true }))
+      .mutation(({ input, ctx }) => createContentBlock({ ...input, updated_by: ctx.admin.email })),
 
     // FAQ management
-    getAllFaqs: publicProcedure.query(() => getFaqs(false)),
-    createFaq: publicProcedure
+    getAllFaqs: contentProcedure.query(() => getFaqs(false)),
+    createFaq: contentProcedure
       .input(createFaqInputSchema)
       .mutation(({ input }) => createFaq(input)),
 
     // Gallery management
-    getAllGalleryMedia: publicProcedure.query(() => getGalleryMedia(false)),
-    uploadGalleryMedia: publicProcedure
+    getAllGalleryMedia: contentProcedure.query(() => getGalleryMedia(false)),
+    uploadGalleryMedia: contentProcedure
       .input(z.object({
         url: z.string(),
         alt_ar: z.string(),
@@ -232,72 +595,124 @@ const appRouter = router({
       .mutation(({ input }) => uploadGalleryMedia(input.url, input.alt_ar, input.alt_en, input.tags)),
 
     // Fleet management
-    getFleetLeads: publicProcedure.query(() => getFleetLeads()),
-    updateFleetLeadStatus: publicProcedure
+    getFleetLeads: marketingProcedure.query(() => getFleetLeads()),
+    updateFleetLeadStatus: marketingProcedure
       .input(z.object({
         id: z.number(),
         status: z.enum(['new', 'contacted', 'proposal_sent', 'trial_active', 'converted', 'lost']),
         notes: z.string().optional()
       }))
       .mutation(({ input }) => updateFleetLeadStatus(input.id, input.status, input.notes)),
-    generateFleetLOI: publicProcedure
+    generateFleetLOI: marketingProcedure
       .input(z.object({ leadId: z.number() }))
       .mutation(({ input }) => generateFleetLOI(input.leadId)),
 
+    // Coupons
+    getCoupons: marketingProcedure.query(() => getCoupons()),
+    getCouponStats: marketingProcedure.query(() => getCouponStats()),
+    createCoupon: marketingProcedure
+      .input(createCouponInputSchema)
+      .mutation(({ input }) => createCoupon(input)),
+    updateCoupon: marketingProcedure
+      .input(updateCouponInputSchema)
+      .mutation(({ input }) => updateCoupon(input)),
+    deleteCoupon: marketingProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteCoupon(input.id)),
+
+    // Price quotes
+    getQuoteConversionStats: marketingProcedure
+      .input(quoteConversionStatsInputSchema)
+      .query(({ input }) => getQuoteConversionStats(input)),
+
     // KPI and reporting
-    recordDailyKPIs: publicProcedure
+    recordDailyKPIs: marketingProcedure
       .input(createKpisDailyInputSchema)
       .mutation(({ input }) => recordDailyKPIs(input)),
-    getKPIsByDateRange: publicProcedure
+    getKPIsByDateRange: marketingProcedure
       .input(z.object({
         startDate: z.coerce.date(),
         endDate: z.coerce.date()
       }))
       .query(({ input }) => getKPIsByDateRange(input.startDate, input.endDate)),
-    generateKPIReport: publicProcedure
+    generateKPIReport: marketingProcedure
       .input(z.object({
         period: z.enum(['daily', 'weekly', 'monthly']),
         format: z.enum(['csv', 'pdf'])
       }))
       .mutation(({ input }) => generateKPIReport(input.period, input.format)),
-    getOperationalKPIs: publicProcedure.query(() => calculateOperationalKPIs()),
-    getMarketingKPIs: publicProcedure.query(() => calculateMarketingKPIs()),
+    getOperationalKPIs: marketingProcedure.query(() => calculateOperationalKPIs()),
+    getMarketingKPIs: marketingProcedure.query(() => calculateMarketingKPIs()),
 
     // WhatsApp integration
-    sendWhatsAppMessage: publicProcedure
+    sendWhatsAppMessage: dispatcherProcedure
       .input(z.object({
         to: z.string(),
         template: z.string(),
-        variables: z.record(z.string())
+        variables: z.record(z.string()),
+        customer_id: z.number().optional(),
+        language: languageSchema.optional()
       }))
       .mutation(({ input }) => sendWhatsAppMessage(input)),
-    sendStatusUpdate: publicProcedure
+    sendStatusUpdate: dispatcherProcedure
       .input(z.object({
         phone: z.string(),
         status: z.enum(['on_the_way', 'started', 'finished']),
-        details: z.record(z.any()).optional()
+        details: z.record(z.any()).optional(),
+        customer_id: z.number().optional(),
+        language: languageSchema.optional()
       }))
-      .mutation(({ input }) => sendStatusUpdate(input.phone, input.status, input.details)),
+      .mutation(({ input }) => sendStatusUpdate(
+        input.phone,
+        input.status,
+        input.details,
+        { customer_id: input.customer_id },
+        input.language
+      )),
+    getWhatsAppMessages: dispatcherProcedure
+      .input(getWhatsAppMessagesInputSchema)
+      .query(({ input }) => getWhatsAppMessages(input)),
+    getMessageStatus: dispatcherProcedure
+      .input(z.object({ message_id: z.string() }))
+      .query(({ input }) => getMessageStatus(input.message_id)),
+
+    // WhatsApp templates (customer-facing copy)
+    getWhatsAppTemplates: contentProcedure.query(() => getWhatsAppTemplates()),
+    createWhatsAppTemplate: contentProcedure
+      .input(createWhatsappTemplateInputSchema)
+      .mutation(({ input }) => createWhatsAppTemplate(input)),
+    updateWhatsAppTemplate: contentProcedure
+      .input(updateWhatsappTemplateInputSchema)
+      .mutation(({ input }) => updateWhatsAppTemplate(input)),
+    deleteWhatsAppTemplate: contentProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteWhatsAppTemplate(input.id)),
+    previewWhatsAppTemplate: contentProcedure
+      .input(previewWhatsappTemplateInputSchema)
+      .query(({ input }) => previewWhatsAppTemplate(input)),
 
     // Pricing rules management
-    getPricingRules: publicProcedure.query(() => getPricingRules()),
-    createPricingRule: publicProcedure
+    getPricingRules: ownerProcedure.query(() => getPricingRules()),
+    createPricingRule: ownerProcedure
       .input(createPricingRuleInputSchema)
       .mutation(({ input }) => createPricingRule(input)),
+    updatePricingRule: ownerProcedure
+      .input(updatePricingRuleInputSchema)
+      .mutation(({ input }) => updatePricingRule(input)),
 
     // CMS publishing
-    publishContentBlocks: publicProcedure
+    publishContentBlocks: contentProcedure
       .input(z.object({ keys: z.array(z.string()) }))
-      .mutation(({ input }) => publishContentBlocks(input.keys)),
+      .mutation(({ input, ctx }) => publishContentBlocks(input.keys, ctx.admin.email)),
 
     // SEO management
-    getAllSeoMeta: publicProcedure.query(() => getSeoMeta()),
-    createSeoMeta: publicProcedure
+    getAllSeoMeta: contentOrMarketingProcedure.query(() => getSeoMeta()),
+    createSeoMeta: contentOrMarketingProcedure
       .input(createSeoMetaInputSchema)
       .mutation(({ input }) => createSeoMeta(input)),
 
     // Media management
-    uploadMedia: publicProcedure
+    uploadMedia: contentProcedure
       .input(z.object({
         filename: z.string(),
         content: z.string(), // base64 encoded
@@ -307,7 +722,7 @@ const appRouter = router({
         const buffer = Buffer.from(input.content, 'base64');
         return uploadMedia(buffer, input.filename, input.mime_type);
       }),
-    deleteMedia: publicProcedure
+    deleteMedia: contentProcedure
       .input(z.object({ url: z.string() }))
       .mutation(({ input }) => deleteMedia(input.url))
   })
@@ -319,15 +734,42 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        // Provider delivery callbacks are plain HTTP, handled outside tRPC
+        if (req.url?.startsWith(WHATSAPP_WEBHOOK_PATH)) {
+          handleWhatsAppWebhookRequest(req, res);
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
+  await ensureBootstrapOwner();
+  // Refuses to price bookings while a stored rule no longer parses
+  await assertStoredPricingRulesValid();
+  // Fails on a missing or incomplete WhatsApp provider config before any message or callback arrives
+  getWhatsAppProvider();
+  getBookingLinkSecret();
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  if (process.env['BOOKING_REMINDERS_ENABLED'] !== 'false') {
+    startBookingReminderScheduler();
+  }
+
+  if (process.env['WAITLIST_OFFERS_ENABLED'] !== 'false') {
+    startWaitlistScheduler();
+  }
+
+  if (process.env['BOOKING_SERIES_ENABLED'] !== 'false') {
+    startBookingSeriesScheduler();
+  }
+
+  if (process.env['SUBSCRIPTION_RENEWALS_ENABLED'] !== 'false') {
+    startSubscriptionScheduler();
+  }
 }
 
 start();
\ No newline at end of file
@@ -1,11 +1,17 @@
 import { z } from 'zod';
 
+// Languages customers can be messaged in
+export const languageSchema = z.enum(['ar', 'en']);
+
+export type Language = z.infer<typeof languageSchema>;
+
 // Core entities
 export const customerSchema = z.object({
   id: z.number(),
   name: z.string(),
   phone: z.string(),
   whatsapp_verified: z.boolean(),
+  preferred_language: languageSchema,
   created_at: z.coerce.date()
 });
 
@@ -14,7 +20,8 @@ export type Customer = z.infer<typeof customerSchema>;
 export const createCustomerInputSchema = z.object({
   name: z.string(),
   phone: z.string(),
-  whatsapp_verified: z.boolean().default(false)
+  whatsapp_verified: z.boolean().default(false),
+  preferred_language: languageSchema.default('ar')
 });
 
 export type CreateCustomerInput = z.infer<typeof createCustomerInputSchema>;
@@ -39,6 +46,274 @@ export const createZoneInputSchema = z.object({
 
 export type CreateZoneInput = z.infer<typeof createZoneInputSchema>;
 
+// Zone schedule configuration
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+export const operatingHoursSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema
+}).refine(hours => hours.start !== hours.end, { message: 'Operating hours must not start and end at the same time' });
+// An end before the start closes after midnight (21:00-02:00), see businessTimeRange
+
+export type OperatingHours = z.infer<typeof operatingHoursSchema>;
+
+// Seven entries indexed by weekday (0 = Sunday); null marks a closed day
+const weeklyHoursSchema = z.array(operatingHoursSchema.nullable()).length(7);
+
+export const zoneScheduleConfigSchema = z.object({
+  zone_id: z.number(),
+  weekly_hours: weeklyHoursSchema,
+  team_capacity: z.number().int(),
+  slot_minutes: z.number().int(),
+  interval_minutes: z.number().int(),
+  buffer_minutes: z.number().int(),
+  prayer_pause_enabled: z.boolean(), // skip slots around the zone's prayer times
+  prayer_pause_before_minutes: z.number().int(),
+  prayer_pause_after_minutes: z.number().int(),
+  is_default: z.boolean(), // true when the zone has no saved configuration
+  updated_by: z.string().nullable(),
+  updated_at: z.coerce.date().nullable()
+});
+
+export type ZoneScheduleConfig = z.infer<typeof zoneScheduleConfigSchema>;
+
+export const upsertZoneScheduleInputSchema = z.object({
+  zone_id: z.number(),
+  weekly_hours: weeklyHoursSchema,
+  team_capacity: z.number().int().positive(),
+  slot_minutes: z.number().int().positive().max(24 * 60),
+  interval_minutes: z.number().int().positive().max(24 * 60),
+  buffer_minutes: z.number().int().nonnegative(),
+  prayer_pause_enabled: z.boolean().default(false),
+  prayer_pause_before_minutes: z.number().int().nonnegative().max(60).default(5),
+  prayer_pause_after_minutes: z.number().int().nonnegative().max(120).default(30)
+});
+
+export type UpsertZoneScheduleInput = z.infer<typeof upsertZoneScheduleInputSchema>;
+
+// Holiday, blackout and seasonal hours calendar
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+export const scheduleExceptionSchema = z.object({
+  id: z.number(),
+  zone_id: z.number().nullable(), // null applies to every zone
+  name: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  hours: operatingHoursSchema.nullable(), // null = closed
+  created_by: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ScheduleException = z.infer<typeof scheduleExceptionSchema>;
+
+export const createScheduleExceptionInputSchema = z.object({
+  zone_id: z.number().nullable().default(null),
+  name: z.string().min(1),
+  start_date: dateKeySchema,
+  end_date: dateKeySchema,
+  hours: operatingHoursSchema.nullable().default(null)
+}).refine(input => input.start_date <= input.end_date, { message: 'end_date must not be before start_date' });
+
+export type CreateScheduleExceptionInput = z.infer<typeof createScheduleExceptionInputSchema>;
+
+export const createScheduleExceptionResultSchema = z.object({
+  exception: scheduleExceptionSchema,
+  flagged_booking_ids: z.array(z.number()) // confirmed bookings that no longer fit the calendar
+});
+
+export type CreateScheduleExceptionResult = z.infer<typeof createScheduleExceptionResultSchema>;
+
+export const getScheduleExceptionsInputSchema = z.object({
+  zone_id: z.number().optional(), // includes the global entries
+  from: dateKeySchema.optional(),
+  to: dateKeySchema.optional()
+});
+
+export type GetScheduleExceptionsInput = z.infer<typeof getScheduleExceptionsInputSchema>;
+
+// Team roster
+export const teamTypeSchema = z.enum(['solo', 'team']);
+
+export type TeamType = z.infer<typeof teamTypeSchema>;
+
+export const teamSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: teamTypeSchema,
+  home_zone_id: z.number(),
+  active: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type Team = z.infer<typeof teamSchema>;
+
+export const createTeamInputSchema = z.object({
+  name: z.string().min(1),
+  type: teamTypeSchema,
+  home_zone_id: z.number()
+});
+
+export type CreateTeamInput = z.infer<typeof createTeamInputSchema>;
+
+export const updateTeamInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  type: teamTypeSchema.optional(),
+  home_zone_id: z.number().optional(),
+  active: z.boolean().optional()
+});
+
+export type UpdateTeamInput = z.infer<typeof updateTeamInputSchema>;
+
+export const technicianSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  phone: z.string(),
+  team_id: z.number().nullable(),
+  active: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type Technician = z.infer<typeof technicianSchema>;
+
+export const createTechnicianInputSchema = z.object({
+  name: z.string().min(1),
+  phone: z.string().min(1),
+  team_id: z.number().nullable().default(null)
+});
+
+export type CreateTechnicianInput = z.infer<typeof createTechnicianInputSchema>;
+
+export const updateTechnicianInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  phone: z.string().min(1).optional(),
+  team_id: z.number().nullable().optional(),
+  active: z.boolean().optional()
+});
+
+export type UpdateTechnicianInput = z.infer<typeof updateTechnicianInputSchema>;
+
+export const teamShiftSchema = z.object({
+  id: z.number(),
+  team_id: z.number(),
+  weekday: z.number().int(), // 0 = Sunday
+  start_time: z.string(),
+  end_time: z.string()
+});
+
+export type TeamShift = z.infer<typeof teamShiftSchema>;
+
+// Replaces all of a team's weekly shifts
+export const setTeamShiftsInputSchema = z.object({
+  team_id: z.number(),
+  shifts: z.array(z.object({
+    weekday: z.number().int().min(0).max(6),
+    start_time: timeOfDaySchema,
+    end_time: timeOfDaySchema
+  }).refine(shift => shift.start_time !== shift.end_time, { message: 'Shifts must not start and end at the same time' }))
+});
+
+export type SetTeamShiftsInput = z.infer<typeof setTeamShiftsInputSchema>;
+
+export const assignBookingInputSchema = z.object({
+  booking_id: z.number(),
+  team_id: z.number().nullable() // null unassigns the booking
+});
+
+export type AssignBookingInput = z.infer<typeof assignBookingInputSchema>;
+
+// Dispatch route planning
+export const planRoutesInputSchema = z.object({
+  date: z.coerce.date(),
+  zone_id: z.number().optional(),
+  team_id: z.number().optional()
+});
+
+export type PlanRoutesInput = z.infer<typeof planRoutesInputSchema>;
+
+export const routeStopSchema = z.object({
+  booking_id: z.number(),
+  customer_name: z.string(),
+  address_text: z.string(),
+  geo_point: z.string(),
+  window_start: z.coerce.date(),
+  window_end: z.coerce.date(),
+  service_minutes: z.number().int(),
+  travel_minutes: z.number().int(), // from the previous stop, or from the team's home zone
+  arrival: z.coerce.date(),
+  service_start: z.coerce.date(), // arrival, or the window start when the team is early
+  service_end: z.coerce.date(),
+  window_missed: z.boolean() // the service can't finish inside the booking window
+});
+
+export type RouteStop = z.infer<typeof routeStopSchema>;
+
+export const teamRouteSchema = z.object({
+  team_id: z.number(),
+  team_name: z.string(),
+  start_at: z.coerce.date(),
+  stops: z.array(routeStopSchema),
+  total_travel_minutes: z.number().int(),
+  missed_windows: z.number().int()
+});
+
+export type TeamRoute = z.infer<typeof teamRouteSchema>;
+
+export const routePlanSchema = z.object({
+  date: z.coerce.date(),
+  routes: z.array(teamRouteSchema),
+  unassigned_booking_ids: z.array(z.number())
+});
+
+export type RoutePlan = z.infer<typeof routePlanSchema>;
+
+// Admin users
+export const adminRoleSchema = z.enum(['owner', 'dispatcher', 'content_editor', 'marketer']);
+
+export type AdminRole = z.infer<typeof adminRoleSchema>;
+
+export const adminUserSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  role: adminRoleSchema,
+  active: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type AdminUser = z.infer<typeof adminUserSchema>;
+
+export const createAdminUserInputSchema = z.object({
+  email: z.string().email(),
+  name: z.string(),
+  password: z.string().min(8),
+  role: adminRoleSchema
+});
+
+export type CreateAdminUserInput = z.infer<typeof createAdminUserInputSchema>;
+
+export const adminLoginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string()
+});
+
+export type AdminLoginInput = z.infer<typeof adminLoginInputSchema>;
+
+export const adminSessionResponseSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  user: adminUserSchema
+});
+
+export type AdminSessionResponse = z.infer<typeof adminSessionResponseSchema>;
+
+// Car types a wash can be booked and priced for
+export const carTypeSchema = z.enum(['sedan', 'suv', 'pickup', 'van', 'motorcycle']);
+
+export type CarType = z.infer<typeof carTypeSchema>;
+
 // Services
 export const serviceSchema = z.object({
   id: z.number(),
@@ -101,6 +376,75 @@ export const createAddonInputSchema = z.object({
 
 export type CreateAddonInput = z.infer<typeof createAddonInputSchema>;
 
+// Explicit prices per car type; without one the car_type_multipliers rule scales the list price
+const uniqueCarTypes = (prices: { car_type: CarType }[]) =>
+  new Set(prices.map(price => price.car_type)).size === prices.length;
+
+export const serviceCarTypePriceSchema = z.object({
+  service_id: z.number(),
+  car_type: carTypeSchema,
+  price_team: z.number(),
+  price_solo: z.number()
+});
+
+export type ServiceCarTypePrice = z.infer<typeof serviceCarTypePriceSchema>;
+
+export const addonCarTypePriceSchema = z.object({
+  addon_id: z.number(),
+  car_type: carTypeSchema,
+  price: z.number()
+});
+
+export type AddonCarTypePrice = z.infer<typeof addonCarTypePriceSchema>;
+
+// Replaces all of a service's car type prices
+export const setServiceCarTypePricesInputSchema = z.object({
+  service_id: z.number(),
+  prices: z.array(z.object({
+    car_type: carTypeSchema,
+    price_team: z.number().positive(),
+    price_solo: z.number().positive()
+  })).refine(uniqueCarTypes, { message: 'Each car type can only have one price' })
+});
+
+export type SetServiceCarTypePricesInput = z.infer<typeof setServiceCarTypePricesInputSchema>;
+
+// Replaces all of an add-on's car type prices
+export const setAddonCarTypePricesInputSchema = z.object({
+  addon_id: z.number(),
+  prices: z.array(z.object({
+    car_type: carTypeSchema,
+    price: z.number().positive()
+  })).refine(uniqueCarTypes, { message: 'Each car type can only have one price' })
+});
+
+export type SetAddonCarTypePricesInput = z.infer<typeof setAddonCarTypePricesInputSchema>;
+
+// Effective prices for every car type, as calculatePrice would charge them before surcharges
+export const priceMatrixSchema = z.object({
+  services: z.array(z.object({
+    service_id: z.number(),
+    name_en: z.string(),
+    prices: z.array(z.object({
+      car_type: carTypeSchema,
+      price_team: z.number(),
+      price_solo: z.number(),
+      explicit: z.boolean() // false when scaled by the car type multiplier
+    }))
+  })),
+  addons: z.array(z.object({
+    addon_id: z.number(),
+    name_en: z.string(),
+    prices: z.array(z.object({
+      car_type: carTypeSchema,
+      price: z.number(),
+      explicit: z.boolean()
+    }))
+  }))
+});
+
+export type PriceMatrix = z.infer<typeof priceMatrixSchema>;
+
 // Plans (Subscriptions)
 export const planSchema = z.object({
   id: z.number(),
@@ -112,7 +456,10 @@ export const planSchema = z.object({
   price: z.number(),
   benefits_ar: z.array(z.string()),
   benefits_en: z.array(z.string()),
-  visible: z.boolean()
+  visible: z.boolean(),
+  credits_per_period: z.number().int(), // washes included each period
+  period_days: z.number().int(),
+  service_ids: z.array(z.number()) // services a credit pays for, empty = all
 });
 
 export type Plan = z.infer<typeof planSchema>;
@@ -126,18 +473,79 @@ export const createPlanInputSchema = z.object({
   price: z.number().positive(),
   benefits_ar: z.array(z.string()),
   benefits_en: z.array(z.string()),
-  visible: z.boolean().default(true)
+  visible: z.boolean().default(true),
+  credits_per_period: z.number().int().positive(),
+  period_days: z.number().int().positive().default(30),
+  service_ids: z.array(z.number()).default([])
 });
 
 export type CreatePlanInput = z.infer<typeof createPlanInputSchema>;
 
+export const updatePlanInputSchema = z.object({
+  id: z.number(),
+  code: z.string().optional(),
+  name_ar: z.string().optional(),
+  name_en: z.string().optional(),
+  desc_ar: z.string().optional(),
+  desc_en: z.string().optional(),
+  price: z.number().positive().optional(),
+  benefits_ar: z.array(z.string()).optional(),
+  benefits_en: z.array(z.string()).optional(),
+  visible: z.boolean().optional(),
+  credits_per_period: z.number().int().positive().optional(),
+  period_days: z.number().int().positive().optional(),
+  service_ids: z.array(z.number()).optional()
+});
+
+export type UpdatePlanInput = z.infer<typeof updatePlanInputSchema>;
+
+export const subscriptionStatusSchema = z.enum(['active', 'expired', 'canceled']);
+
+export type SubscriptionStatus = z.infer<typeof subscriptionStatusSchema>;
+
+export const subscriptionSchema = z.object({
+  id: z.number(),
+  customer_id: z.number(),
+  plan_id: z.number(),
+  status: subscriptionStatusSchema,
+  period_start: z.coerce.date(),
+  period_end: z.coerce.date(), // exclusive
+  credits_remaining: z.number().int(),
+  auto_renew: z.boolean(), // false = expires at period_end
+  created_at: z.coerce.date()
+});
+
+export type Subscription = z.infer<typeof subscriptionSchema>;
+
+export const createSubscriptionInputSchema = z.object({
+  customer_id: z.number(),
+  plan_id: z.number(),
+  auto_renew: z.boolean().default(true)
+});
+
+export type CreateSubscriptionInput = z.infer<typeof createSubscriptionInputSchema>;
+
+export const cancelSubscriptionInputSchema = z.object({
+  id: z.number(),
+  immediate: z.boolean().default(false) // otherwise the credits last until the period ends
+});
+
+export type CancelSubscriptionInput = z.infer<typeof cancelSubscriptionInputSchema>;
+
+export const getSubscriptionsInputSchema = z.object({
+  customer_id: z.number().optional(),
+  status: subscriptionStatusSchema.optional()
+});
+
+export type GetSubscriptionsInput = z.infer<typeof getSubscriptionsInputSchema>;
+
 // Bookings
 export const bookingSchema = z.object({
   id: z.number(),
   customer_id: z.number(),
   service_id: z.number(),
   addons: z.array(z.number()), // Array of addon IDs
-  car_type: z.enum(['sedan', 'suv', 'pickup']),
+  car_type: carTypeSchema,
   zone_id: z.number(),
   address_text: z.string(),
   geo_point: z.string(), // JSON string for lat/lng
@@ -147,6 +555,10 @@ export const bookingSchema = z.object({
   price_total: z.number(),
   is_solo: z.boolean(),
   distance_fee: z.number(),
+  needs_reschedule: z.boolean(), // the booked window was closed by a calendar change
+  team_id: z.number().nullable(), // assigned crew
+  series_id: z.number().nullable(), // recurring series this occurrence belongs to
+  subscription_id: z.number().nullable(), // paid with a subscription credit
   created_at: z.coerce.date()
 });
 
@@ -155,11 +567,12 @@ export type Booking = z.infer<typeof bookingSchema>;
 export const createBookingInputSchema = z.object({
   customer: z.object({
     name: z.string(),
-    phone: z.string()
+    phone: z.string(),
+    preferred_language: languageSchema.optional() // Updates returning customers when given
   }),
   service_id: z.number(),
   addons: z.array(z.number()).default([]),
-  car_type: z.enum(['sedan', 'suv', 'pickup']),
+  car_type: carTypeSchema,
   zone_id: z.number(),
   address_text: z.string(),
   geo_point: z.object({
@@ -170,11 +583,227 @@ export const createBookingInputSchema = z.object({
     start: z.coerce.date(),
     end: z.coerce.date()
   }),
-  is_solo: z.boolean().default(false)
+  is_solo: z.boolean().default(false),
+  coupon_code: z.string().trim().min(1).optional(),
+  quote_id: z.number().int().optional() // books at the locked price of an earlier quote
 });
 
 export type CreateBookingInput = z.infer<typeof createBookingInputSchema>;
 
+// Booking status history
+export const bookingEventSchema = z.object({
+  id: z.number(),
+  booking_id: z.number(),
+  actor: z.string(),
+  old_status: z.enum(['confirmed', 'on_the_way', 'started', 'finished', 'postponed', 'canceled']).nullable(),
+  new_status: z.enum(['confirmed', 'on_the_way', 'started', 'finished', 'postponed', 'canceled']),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type BookingEvent = z.infer<typeof bookingEventSchema>;
+
+// Customer self-service via signed booking links
+export const bookingTokenInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type BookingTokenInput = z.infer<typeof bookingTokenInputSchema>;
+
+export const rescheduleBookingByTokenInputSchema = z.object({
+  token: z.string().min(1),
+  scheduled_window: z.object({
+    start: z.coerce.date(),
+    end: z.coerce.date()
+  })
+});
+
+export type RescheduleBookingByTokenInput = z.infer<typeof rescheduleBookingByTokenInputSchema>;
+
+export const cancelBookingByTokenInputSchema = z.object({
+  token: z.string().min(1),
+  reason: z.string().max(500).optional()
+});
+
+export type CancelBookingByTokenInput = z.infer<typeof cancelBookingByTokenInputSchema>;
+
+// What a customer sees through their booking link; no contact details are exposed
+export const publicBookingSchema = z.object({
+  id: z.number(),
+  status: z.enum(['confirmed', 'on_the_way', 'started', 'finished', 'postponed', 'canceled']),
+  customer_name: z.string(),
+  service_id: z.number(),
+  service_name_ar: z.string(),
+  service_name_en: z.string(),
+  service_duration: z.number().int(), // service plus add-on minutes, for getAvailableTimeSlots
+  zone_id: z.number(),
+  car_type: carTypeSchema,
+  address_text: z.string(),
+  scheduled_window_start: z.coerce.date(),
+  scheduled_window_end: z.coerce.date(),
+  price_total: z.number(),
+  can_reschedule: z.boolean(),
+  can_cancel: z.boolean(),
+  change_deadline: z.coerce.date().nullable() // null when the cutoff doesn't apply (postponed bookings)
+});
+
+export type PublicBooking = z.infer<typeof publicBookingSchema>;
+
+// Waitlist for fully booked slots
+export const waitlistStatusSchema = z.enum(['waiting', 'offered', 'claimed', 'expired', 'canceled']);
+
+export type WaitlistStatus = z.infer<typeof waitlistStatusSchema>;
+
+export const waitlistEntrySchema = z.object({
+  id: z.number(),
+  customer_id: z.number(),
+  zone_id: z.number(),
+  service_id: z.number(),
+  addons: z.array(z.number()),
+  car_type: carTypeSchema,
+  address_text: z.string(),
+  geo_point: z.string(), // JSON string
+  is_solo: z.boolean(),
+  slot_start: z.coerce.date(),
+  slot_end: z.coerce.date(),
+  status: waitlistStatusSchema,
+  offered_at: z.coerce.date().nullable(),
+  offer_expires_at: z.coerce.date().nullable(), // claim links stop working after this
+  booking_id: z.number().nullable(), // the booking made when the offer was claimed
+  created_at: z.coerce.date()
+});
+
+export type WaitlistEntry = z.infer<typeof waitlistEntrySchema>;
+
+// Same details as a booking; scheduled_window is the full slot being waited for
+export const joinWaitlistInputSchema = createBookingInputSchema.omit({ coupon_code: true, quote_id: true });
+
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistInputSchema>;
+
+export const joinWaitlistResponseSchema = z.object({
+  entry: waitlistEntrySchema,
+  position: z.number().int() // 1 = next in line for the slot
+});
+
+export type JoinWaitlistResponse = z.infer<typeof joinWaitlistResponseSchema>;
+
+export const waitlistClaimInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type WaitlistClaimInput = z.infer<typeof waitlistClaimInputSchema>;
+
+export const getWaitlistInputSchema = z.object({
+  zone_id: z.number().optional(),
+  status: waitlistStatusSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export type GetWaitlistInput = z.infer<typeof getWaitlistInputSchema>;
+
+// Recurring bookings
+export const bookingSeriesFrequencySchema = z.enum(['weekly', 'biweekly']);
+
+export type BookingSeriesFrequency = z.infer<typeof bookingSeriesFrequencySchema>;
+
+export const bookingSeriesSchema = z.object({
+  id: z.number(),
+  customer_id: z.number(),
+  zone_id: z.number(),
+  service_id: z.number(),
+  addons: z.array(z.number()),
+  car_type: carTypeSchema,
+  address_text: z.string(),
+  geo_point: z.string(), // JSON string
+  is_solo: z.boolean(),
+  frequency: bookingSeriesFrequencySchema,
+  weekday: z.number().int(), // 0 = Sunday
+  window_start: z.string(), // HH:MM business time
+  window_end: z.string(),
+  start_date: z.string(), // YYYY-MM-DD
+  end_date: z.string().nullable(), // inclusive, null = until canceled
+  status: z.enum(['active', 'canceled']),
+  created_at: z.coerce.date()
+});
+
+export type BookingSeries = z.infer<typeof bookingSeriesSchema>;
+
+export const bookingSeriesOccurrenceStatusSchema = z.enum(['booked', 'conflict', 'skipped', 'canceled']);
+
+export type BookingSeriesOccurrenceStatus = z.infer<typeof bookingSeriesOccurrenceStatusSchema>;
+
+export const bookingSeriesOccurrenceSchema = z.object({
+  id: z.number(),
+  series_id: z.number(),
+  date: z.string(), // YYYY-MM-DD
+  status: bookingSeriesOccurrenceStatusSchema,
+  booking_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type BookingSeriesOccurrence = z.infer<typeof bookingSeriesOccurrenceSchema>;
+
+export const createBookingSeriesInputSchema = createBookingInputSchema.omit({ scheduled_window: true, coupon_code: true, quote_id: true }).extend({
+  frequency: bookingSeriesFrequencySchema,
+  weekday: z.number().int().min(0).max(6),
+  window_start: timeOfDaySchema,
+  window_end: timeOfDaySchema,
+  start_date: dateKeySchema,
+  end_date: dateKeySchema.nullable().default(null)
+}).refine(input => input.window_start < input.window_end, {
+  message: 'Window must end after it starts',
+  path: ['window_end']
+}).refine(input => input.end_date === null || input.end_date >= input.start_date, {
+  message: 'End date must not be before start date',
+  path: ['end_date']
+});
+
+export type CreateBookingSeriesInput = z.infer<typeof createBookingSeriesInputSchema>;
+
+export const bookingSeriesDetailsSchema = z.object({
+  series: bookingSeriesSchema,
+  occurrences: z.array(bookingSeriesOccurrenceSchema)
+});
+
+export type BookingSeriesDetails = z.infer<typeof bookingSeriesDetailsSchema>;
+
+// An occurrence that couldn't be booked and needs a dispatcher
+export const bookingSeriesConflictSchema = z.object({
+  occurrence_id: z.number(),
+  series_id: z.number(),
+  date: z.string(),
+  customer_id: z.number(),
+  customer_name: z.string(),
+  customer_phone: z.string(),
+  zone_id: z.number(),
+  window_start: z.string(),
+  window_end: z.string()
+});
+
+export type BookingSeriesConflict = z.infer<typeof bookingSeriesConflictSchema>;
+
+export const getBookingSeriesConflictsInputSchema = z.object({
+  zone_id: z.number().optional(),
+  from: dateKeySchema.optional(),
+  to: dateKeySchema.optional()
+});
+
+export type GetBookingSeriesConflictsInput = z.infer<typeof getBookingSeriesConflictsInputSchema>;
+
+export const skipSeriesOccurrenceInputSchema = z.object({
+  series_id: z.number(),
+  date: dateKeySchema
+});
+
+export type SkipSeriesOccurrenceInput = z.infer<typeof skipSeriesOccurrenceInputSchema>;
+
+export const cancelBookingSeriesInputSchema = z.object({
+  series_id: z.number()
+});
+
+export type CancelBookingSeriesInput = z.infer<typeof cancelBookingSeriesInputSchema>;
+
 // Pricing Rules
 export const pricingRuleSchema = z.object({
   id: z.number(),
@@ -185,14 +814,111 @@ export const pricingRuleSchema = z.object({
 
 export type PricingRule = z.infer<typeof pricingRuleSchema>;
 
+// One value schema per rule key; rules are stored as JSON text and parsed through these
+export const distanceFeeRuleSchema = z.preprocess(
+  // Older rules called the free radius max_free_distance_km
+  value => {
+    if (value && typeof value === 'object' && 'max_free_distance_km' in value && !('free_radius_km' in value)) {
+      const { max_free_distance_km, ...rest } = value as Record<string, unknown>;
+      return { ...rest, free_radius_km: max_free_distance_km };
+    }
+    return value;
+  },
+  z.object({
+    free_radius_km: z.number().nonnegative().default(5), // distance from the zone center that's free
+    fee_per_km: z.number().nonnegative(), // charged per km beyond the free radius
+    max_fee: z.number().positive().optional() // cap on the fee, none when omitted
+  }).strict()
+);
+
+export type DistanceFeeRule = z.infer<typeof distanceFeeRuleSchema>;
+
+export const carTypeMultipliersRuleSchema = z.object({
+  sedan: z.number().positive().default(1),
+  suv: z.number().positive().default(1),
+  pickup: z.number().positive().default(1),
+  van: z.number().positive().default(1),
+  motorcycle: z.number().positive().default(1)
+}).strict();
+
+export type CarTypeMultipliersRule = z.infer<typeof carTypeMultipliersRuleSchema>;
+
+// Peak and off-peak prices by the slot's business-time start; every matching window applies
+export const timeMultipliersRuleSchema = z.object({
+  windows: z.array(z.object({
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(), // 0 = Sunday, every day when omitted
+    start: timeOfDaySchema,
+    end: timeOfDaySchema, // exclusive
+    multiplier: z.number().positive() // below 1 for discounts
+  }).strict().refine(window => window.start < window.end, { message: 'Windows must end after they start' }))
+}).strict();
+
+export type TimeMultipliersRule = z.infer<typeof timeMultipliersRuleSchema>;
+
+// Demand pricing by how full the zone's day is; the highest tier reached applies
+export const utilisationMultipliersRuleSchema = z.object({
+  tiers: z.array(z.object({
+    min_utilisation: z.number().min(0).max(1), // share of the day's crew time already booked
+    multiplier: z.number().positive()
+  }).strict()).min(1)
+}).strict();
+
+export type UtilisationMultipliersRule = z.infer<typeof utilisationMultipliersRuleSchema>;
+
+export const pricingRuleValueSchemas = {
+  distance_fee: distanceFeeRuleSchema,
+  car_type_multipliers: carTypeMultipliersRuleSchema,
+  time_multipliers: timeMultipliersRuleSchema,
+  utilisation_multipliers: utilisationMultipliersRuleSchema
+};
+
+export const pricingRuleKeySchema = z.enum(['distance_fee', 'car_type_multipliers', 'time_multipliers', 'utilisation_multipliers']);
+
+export type PricingRuleKey = z.infer<typeof pricingRuleKeySchema>;
+
+export type PricingRuleValues = { [K in PricingRuleKey]: z.infer<typeof pricingRuleValueSchemas[K]> };
+
 export const createPricingRuleInputSchema = z.object({
-  key: z.string(),
+  key: pricingRuleKeySchema,
   value_json: z.string(),
   enabled: z.boolean().default(true)
 });
 
 export type CreatePricingRuleInput = z.infer<typeof createPricingRuleInputSchema>;
 
+export const updatePricingRuleInputSchema = z.object({
+  id: z.number(),
+  value_json: z.string().optional(),
+  enabled: z.boolean().optional()
+});
+
+export type UpdatePricingRuleInput = z.infer<typeof updatePricingRuleInputSchema>;
+
+// Price quotes
+export const quoteConversionStatsInputSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  zone_id: z.number().optional()
+});
+
+export type QuoteConversionStatsInput = z.infer<typeof quoteConversionStatsInputSchema>;
+
+const quoteConversionSchema = z.object({
+  quotes: z.number().int(),
+  converted: z.number().int(), // quotes that became a booking
+  conversion_rate: z.number() // converted / quotes, 0 without quotes
+});
+
+export const quoteConversionStatsSchema = quoteConversionSchema.extend({
+  expired: z.number().int(), // lapsed without a booking
+  open: z.number().int(), // not booked yet and still valid
+  average_quoted_price: z.number(),
+  average_converted_price: z.number(),
+  by_service: z.array(quoteConversionSchema.extend({ service_id: z.number() }))
+});
+
+export type QuoteConversionStats = z.infer<typeof quoteConversionStatsSchema>;
+
 // Content CMS
 export const contentBlockSchema = z.object({
   id: z.number(),
@@ -371,22 +1097,105 @@ export const createSeoMetaInputSchema = z.object({
 export type CreateSeoMetaInput = z.infer<typeof createSeoMetaInputSchema>;
 
 // WhatsApp Templates
+// Placeholder names as written inside {{...}} in template bodies
+export const templateVariableNameSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, 'Variable names must be lowercase snake_case');
+
+// Twilio sends business-initiated messages through approved content templates (HX...), one per language
+export const twilioContentSidsSchema = z.object({
+  ar: z.string().min(1).optional(),
+  en: z.string().min(1).optional()
+});
+
 export const whatsappTemplateSchema = z.object({
   id: z.number(),
   key: z.string(),
   body_ar: z.string(),
-  body_en: z.string()
+  body_en: z.string(),
+  required_variables: z.array(z.string()),
+  optional_variables: z.array(z.string()),
+  twilio_content_sids: twilioContentSidsSchema
 });
 
 export type WhatsAppTemplate = z.infer<typeof whatsappTemplateSchema>;
 
 export const createWhatsappTemplateInputSchema = z.object({
+  key: z.string().min(1).max(50),
+  body_ar: z.string().min(1),
+  body_en: z.string(),
+  required_variables: z.array(templateVariableNameSchema).default([]),
+  optional_variables: z.array(templateVariableNameSchema).optional(),
+  twilio_content_sids: twilioContentSidsSchema.optional()
+});
+
+export type CreateWhatsAppTemplateInput = z.infer<typeof createWhatsappTemplateInputSchema>;
+
+export const updateWhatsappTemplateInputSchema = z.object({
+  id: z.number(),
+  key: z.string().min(1).max(50).optional(),
+  body_ar: z.string().min(1).optional(),
+  body_en: z.string().optional(),
+  required_variables: z.array(templateVariableNameSchema).optional(),
+  optional_variables: z.array(templateVariableNameSchema).optional(),
+  twilio_content_sids: twilioContentSidsSchema.optional()
+});
+
+export type UpdateWhatsAppTemplateInput = z.infer<typeof updateWhatsappTemplateInputSchema>;
+
+export const previewWhatsappTemplateInputSchema = z.object({
+  key: z.string(),
+  variables: z.record(z.string()).default({}) // Overrides the built-in sample data
+});
+
+export type PreviewWhatsAppTemplateInput = z.infer<typeof previewWhatsappTemplateInputSchema>;
+
+export const whatsappTemplatePreviewSchema = z.object({
   key: z.string(),
+  required_variables: z.array(z.string()),
+  optional_variables: z.array(z.string()),
   body_ar: z.string(),
-  body_en: z.string()
+  body_en: z.string(),
+  variables_ar: z.record(z.string()),
+  variables_en: z.record(z.string())
 });
 
-export type CreateWhatsAppTemplateInput = z.infer<typeof createWhatsappTemplateInputSchema>;
+export type WhatsAppTemplatePreview = z.infer<typeof whatsappTemplatePreviewSchema>;
+
+// WhatsApp outbound message log
+export const whatsappMessageStatusSchema = z.enum(['queued', 'sent', 'delivered', 'read', 'failed']);
+
+export type WhatsAppMessageStatus = z.infer<typeof whatsappMessageStatusSchema>;
+
+export const whatsappMessageRecordSchema = z.object({
+  id: z.number(),
+  message_id: z.string(),
+  provider_message_id: z.string().nullable(),
+  customer_id: z.number().nullable(),
+  booking_id: z.number().nullable(),
+  to_phone: z.string(),
+  template_key: z.string(),
+  body: z.string(),
+  language: languageSchema,
+  status: whatsappMessageStatusSchema,
+  error: z.string().nullable(),
+  created_at: z.coerce.date(),
+  sent_at: z.coerce.date().nullable(),
+  delivered_at: z.coerce.date().nullable(),
+  read_at: z.coerce.date().nullable(),
+  failed_at: z.coerce.date().nullable()
+});
+
+export type WhatsAppMessageRecord = z.infer<typeof whatsappMessageRecordSchema>;
+
+export const getWhatsAppMessagesInputSchema = z.object({
+  customer_id: z.number().optional(),
+  booking_id: z.number().optional(),
+  status: whatsappMessageStatusSchema.optional(),
+  template_key: z.string().optional(),
+  limit: z.number().int().positive().max(200).default(50),
+  offset: z.number().int().nonnegative().default(0)
+});
+
+export type GetWhatsAppMessagesInput = z.infer<typeof getWhatsAppMessagesInputSchema>;
 
 // Coupons
 export const couponSchema = z.object({
@@ -396,22 +1205,54 @@ export const couponSchema = z.object({
   value: z.number(),
   start_at: z.coerce.date(),
   end_at: z.coerce.date(),
-  usage_limit: z.number().int()
+  usage_limit: z.number().int(),
+  per_customer_limit: z.number().int().nullable() // null = no limit per customer
 });
 
 export type Coupon = z.infer<typeof couponSchema>;
 
 export const createCouponInputSchema = z.object({
-  code: z.string(),
+  code: z.string().trim().min(1),
   discount_type: z.enum(['percentage', 'fixed']),
   value: z.number().positive(),
   start_at: z.coerce.date(),
   end_at: z.coerce.date(),
-  usage_limit: z.number().int().positive()
+  usage_limit: z.number().int().positive(),
+  per_customer_limit: z.number().int().positive().nullable().default(null)
+}).refine(input => input.start_at < input.end_at, {
+  message: 'Coupon must end after it starts',
+  path: ['end_at']
+}).refine(input => input.discount_type !== 'percentage' || input.value <= 100, {
+  message: 'Percentage discounts cannot exceed 100',
+  path: ['value']
 });
 
 export type CreateCouponInput = z.infer<typeof createCouponInputSchema>;
 
+export const updateCouponInputSchema = z.object({
+  id: z.number(),
+  code: z.string().trim().min(1).optional(),
+  discount_type: z.enum(['percentage', 'fixed']).optional(),
+  value: z.number().positive().optional(),
+  start_at: z.coerce.date().optional(),
+  end_at: z.coerce.date().optional(),
+  usage_limit: z.number().int().positive().optional(),
+  per_customer_limit: z.number().int().positive().nullable().optional()
+});
+
+export type UpdateCouponInput = z.infer<typeof updateCouponInputSchema>;
+
+export const couponStatsSchema = z.object({
+  coupon: couponSchema,
+  redemptions: z.number().int(), // bookings still using the coupon; canceled bookings give their use back
+  remaining_uses: z.number().int(),
+  customers: z.number().int(), // distinct customers among the redemptions
+  total_discount: z.number(),
+  last_redeemed_at: z.coerce.date().nullable()
+});
+
+export type CouponStats = z.infer<typeof couponStatsSchema>;
+
 // Fleet Leads
 export const fleetLeadSchema = z.object({
   id: z.number(),
@@ -463,7 +1304,8 @@ export type CreateKPIsDailyInput = z.infer<typeof createKpisDailyInputSchema>;
 export const createBookingResponseSchema = z.object({
   booking_id: z.string(),
   price_total: z.number(),
-  wa_message_id: z.string()
+  wa_message_id: z.string(),
+  coupon_discount: z.number() // 0 when no coupon was used
 });
 
 export type CreateBookingResponse = z.infer<typeof createBookingResponseSchema>;
@@ -509,7 +1351,9 @@ export const updateBookingInputSchema = z.object({
   scheduled_window_start: z.coerce.date().optional(),
   scheduled_window_end: z.coerce.date().optional(),
   address_text: z.string().optional(),
-  geo_point: z.string().optional()
+  geo_point: z.string().optional(),
+  reason: z.string().optional(), // Recorded on the status change event
+  eta_minutes: z.number().int().nonnegative().optional() // Sent to the customer with the on_the_way notification
 });
 
 export type UpdateBookingInput = z.infer<typeof updateBookingInputSchema>;
\ No newline at end of file
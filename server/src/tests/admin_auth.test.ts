@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminUsersTable, adminSessionsTable } from '../db/schema';
+import { type CreateAdminUserInput } from '../schema';
+import {
+  createAdminUser,
+  getAdminUsers,
+  loginAdmin,
+  logoutAdmin,
+  getAdminBySessionToken,
+  hasRequiredRole,
+  hashPassword,
+  verifyPassword
+} from '../handlers/admin_auth';
+import { eq } from 'drizzle-orm';
+
+const testAdminInput: CreateAdminUserInput = {
+  email: 'Dispatch@Example.com',
+  name: 'Dispatch Lead',
+  password: 'super-secret-pass',
+  role: 'dispatcher'
+};
+
+describe('admin auth', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('password hashing', () => {
+    it('should verify a matching password and reject others', async () => {
+      const hash = await hashPassword('correct horse');
+
+      expect(hash).not.toContain('correct horse');
+      expect(await verifyPassword('correct horse', hash)).toBe(true);
+      expect(await verifyPassword('wrong horse', hash)).toBe(false);
+      expect(await verifyPassword('correct horse', 'not-a-hash')).toBe(false);
+    });
+  });
+
+  describe('createAdminUser', () => {
+    it('should create an admin user with a hashed password', async () => {
+      const result = await createAdminUser(testAdminInput);
+
+      expect(result.id).toBeDefined();
+      expect(result.email).toEqual('dispatch@example.com');
+      expect(result.role).toEqual('dispatcher');
+      expect(result.active).toBe(true);
+      expect(result.created_at).toBeInstanceOf(Date);
+      expect((result as any).password_hash).toBeUndefined();
+
+      const users = await db.select()
+        .from(adminUsersTable)
+        .where(eq(adminUsersTable.id, result.id))
+        .execute();
+
+      expect(users).toHaveLength(1);
+      expect(users[0].password_hash).not.toEqual(testAdminInput.password);
+      expect(await verifyPassword(testAdminInput.password, users[0].password_hash)).toBe(true);
+    });
+
+    it('should reject duplicate emails', async () => {
+      await createAdminUser(testAdminInput);
+
+      await expect(createAdminUser({ ...testAdminInput, email: 'dispatch@example.com' }))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should list admin users without password hashes', async () => {
+      await createAdminUser(testAdminInput);
+      await createAdminUser({ ...testAdminInput, email: 'editor@example.com', role: 'content_editor' });
+
+      const users = await getAdminUsers();
+
+      expect(users).toHaveLength(2);
+      users.forEach(user => expect((user as any).password_hash).toBeUndefined());
+    });
+  });
+
+  describe('loginAdmin', () => {
+    it('should issue a session token that resolves to the user', async () => {
+      const user = await createAdminUser(testAdminInput);
+
+      const session = await loginAdmin({ email: 'dispatch@example.com', password: testAdminInput.password });
+
+      expect(session.token).toBeDefined();
+      expect(session.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(session.user.id).toEqual(user.id);
+
+      const resolved = await getAdminBySessionToken(session.token);
+      expect(resolved?.id).toEqual(user.id);
+      expect(resolved?.role).toEqual('dispatcher');
+
+      // Only the token digest is stored
+      const sessions = await db.select().from(adminSessionsTable).execute();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].token_hash).not.toEqual(session.token);
+    });
+
+    it('should reject wrong passwords and unknown emails', async () => {
+      await createAdminUser(testAdminInput);
+
+      await expect(loginAdmin({ email: 'dispatch@example.com', password: 'wrong-password' }))
+        .rejects.toThrow(/invalid email or password/i);
+      await expect(loginAdmin({ email: 'nobody@example.com', password: testAdminInput.password }))
+        .rejects.toThrow(/invalid email or password/i);
+    });
+
+    it('should reject inactive users', async () => {
+      const user = await createAdminUser(testAdminInput);
+      await db.update(adminUsersTable)
+        .set({ active: false })
+        .where(eq(adminUsersTable.id, user.id))
+        .execute();
+
+      await expect(loginAdmin({ email: 'dispatch@example.com', password: testAdminInput.password }))
+        .rejects.toThrow(/invalid email or password/i);
+    });
+  });
+
+  describe('getAdminBySessionToken', () => {
+    it('should return null for unknown and expired tokens', async () => {
+      await createAdminUser(testAdminInput);
+      const session = await loginAdmin({ email: 'dispatch@example.com', password: testAdminInput.password });
+
+      expect(await getAdminBySessionToken('unknown-token')).toBeNull();
+
+      await db.update(adminSessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      expect(await getAdminBySessionToken(session.token)).toBeNull();
+    });
+
+    it('should stop resolving after logout', async () => {
+      await createAdminUser(testAdminInput);
+      const session = await loginAdmin({ email: 'dispatch@example.com', password: testAdminInput.password });
+
+      expect(await logoutAdmin(session.token)).toBe(true);
+      expect(await getAdminBySessionToken(session.token)).toBeNull();
+      expect(await logoutAdmin(session.token)).toBe(false);
+    });
+  });
+
+  describe('hasRequiredRole', () => {
+    it('should allow owners everywhere and others only for listed roles', async () => {
+      const owner = await createAdminUser({ ...testAdminInput, email: 'owner@example.com', role: 'owner' });
+      const editor = await createAdminUser({ ...testAdminInput, email: 'editor@example.com', role: 'content_editor' });
+
+      expect(hasRequiredRole(owner, [])).toBe(true);
+      expect(hasRequiredRole(owner, ['dispatcher'])).toBe(true);
+      expect(hasRequiredRole(editor, ['content_editor', 'marketer'])).toBe(true);
+      expect(hasRequiredRole(editor, ['dispatcher'])).toBe(false);
+      expect(hasRequiredRole(editor, [])).toBe(false);
+    });
+  });
+});
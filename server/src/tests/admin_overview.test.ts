@@ -3,6 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { bookingsTable, customersTable, servicesTable, zonesTable, addonsTable, kpisDailyTable } from '../db/schema';
 import { getAdminOverview, getTodayBookings, getBookingsByDateRange } from '../handlers/admin_overview';
+import { atBusinessTime } from '../handlers/business_time';
 
 // Test data setup
 const testCustomer = {
@@ -220,8 +221,7 @@ describe('Admin Overview Handlers', () => {
         .execute();
 
       // Create today booking
-      const today = new Date();
-      today.setHours(14, 30, 0, 0);
+      const today = atBusinessTime(new Date(), '14:30');
 
       await db.insert(bookingsTable).values({
         customer_id: customerResult[0].id,
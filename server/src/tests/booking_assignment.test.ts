@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
+import { assignBookingToTeam, getAvailableTeamsForBooking } from '../handlers/booking_assignment';
+import { createTeam, setTeamShifts, updateTeam } from '../handlers/team_roster';
+import { businessDateTime } from '../handlers/business_time';
+
+const testZone = {
+  name_ar: 'منطقة تجريبية',
+  name_en: 'Test Zone',
+  polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+  notes: null
+};
+
+// 2030-01-15 is a Tuesday
+const TUESDAY = 2;
+
+describe('booking assignment', () => {
+  let zoneId: number;
+  let customerId: number;
+  let serviceId: number;
+
+  const insertBooking = async (startHour: number, overrides: Partial<typeof bookingsTable.$inferInsert> = {}) => {
+    const result = await db.insert(bookingsTable)
+      .values({
+        customer_id: customerId,
+        service_id: serviceId,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zoneId,
+        address_text: 'Test address',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: businessDateTime(2030, 1, 15, startHour, 0),
+        scheduled_window_end: businessDateTime(2030, 1, 15, startHour + 1, 30),
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00',
+        ...overrides
+      })
+      .returning()
+      .execute();
+    return result[0].id;
+  };
+
+  const createCrew = async (name: string, type: 'solo' | 'team' = 'team', zone_id: number = zoneId) => {
+    const team = await createTeam({ name, type, home_zone_id: zone_id });
+    await setTeamShifts({ team_id: team.id, shifts: [{ weekday: TUESDAY, start_time: '08:00', end_time: '18:00' }] });
+    return team;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable).values(testZone).returning().execute();
+    zoneId = zone[0].id;
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'أحمد محمد', phone: '0555123456', whatsapp_verified: true })
+      .returning()
+      .execute();
+    customerId = customer[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('assignBookingToTeam', () => {
+    it('should assign, reassign and unassign a booking', async () => {
+      const bookingId = await insertBooking(10);
+      const crewA = await createCrew('Crew A');
+      const crewB = await createCrew('Crew B');
+
+      expect((await assignBookingToTeam({ booking_id: bookingId, team_id: crewA.id })).team_id).toEqual(crewA.id);
+      expect((await assignBookingToTeam({ booking_id: bookingId, team_id: crewB.id })).team_id).toEqual(crewB.id);
+      expect((await assignBookingToTeam({ booking_id: bookingId, team_id: null })).team_id).toBeNull();
+    });
+
+    it('should refuse teams that are off shift, elsewhere or inactive', async () => {
+      const bookingId = await insertBooking(10);
+
+      const lateCrew = await createTeam({ name: 'Late Crew', type: 'team', home_zone_id: zoneId });
+      await setTeamShifts({ team_id: lateCrew.id, shifts: [{ weekday: TUESDAY, start_time: '14:00', end_time: '22:00' }] });
+      await expect(assignBookingToTeam({ booking_id: bookingId, team_id: lateCrew.id })).rejects.toThrow(/not on shift/i);
+
+      const otherZone = await db.insert(zonesTable).values({ ...testZone, name_en: 'Other Zone' }).returning().execute();
+      const remoteCrew = await createCrew('Remote Crew', 'team', otherZone[0].id);
+      await expect(assignBookingToTeam({ booking_id: bookingId, team_id: remoteCrew.id })).rejects.toThrow(/does not cover zone/i);
+
+      const retiredCrew = await createCrew('Retired Crew');
+      await updateTeam({ id: retiredCrew.id, active: false });
+      await expect(assignBookingToTeam({ booking_id: bookingId, team_id: retiredCrew.id })).rejects.toThrow(/inactive/i);
+
+      await expect(assignBookingToTeam({ booking_id: bookingId, team_id: 99999 })).rejects.toThrow(/team with id 99999 not found/i);
+    });
+
+    it('should not double-book a team', async () => {
+      const first = await insertBooking(10);
+      const overlapping = await insertBooking(11);
+      const later = await insertBooking(12);
+      const crew = await createCrew('Crew A');
+
+      await assignBookingToTeam({ booking_id: first, team_id: crew.id });
+
+      await expect(assignBookingToTeam({ booking_id: overlapping, team_id: crew.id }))
+        .rejects.toThrow(new RegExp(`already has booking #${first}`));
+      expect((await assignBookingToTeam({ booking_id: later, team_id: crew.id })).team_id).toEqual(crew.id);
+    });
+
+    it('should refuse finished and canceled bookings', async () => {
+      const bookingId = await insertBooking(10, { status: 'canceled' });
+      const crew = await createCrew('Crew A');
+
+      await expect(assignBookingToTeam({ booking_id: bookingId, team_id: crew.id })).rejects.toThrow(/cannot assign a canceled booking/i);
+      await expect(assignBookingToTeam({ booking_id: 99999, team_id: crew.id })).rejects.toThrow(/booking with id 99999 not found/i);
+    });
+  });
+
+  describe('getAvailableTeamsForBooking', () => {
+    it('should list free teams on shift, matching crew type first', async () => {
+      const bookingId = await insertBooking(10, { is_solo: true });
+      const busyBooking = await insertBooking(10);
+      const crew = await createCrew('Crew A');
+      const solo = await createCrew('Solo B', 'solo');
+      const busy = await createCrew('Crew C');
+      await assignBookingToTeam({ booking_id: busyBooking, team_id: busy.id });
+
+      const teams = await getAvailableTeamsForBooking(bookingId);
+
+      expect(teams.map(team => team.id)).toEqual([solo.id, crew.id]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
+import {
+  canTransitionBookingStatus,
+  recordBookingEvent,
+  getBookingTimeline
+} from '../handlers/booking_events';
+
+describe('booking events', () => {
+  let bookingId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'Test Customer', phone: '+966501234567', whatsapp_verified: false })
+      .returning()
+      .execute();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'خدمة تجريبية',
+        name_en: 'Test Service',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+
+    const booking = await db.insert(bookingsTable)
+      .values({
+        customer_id: customer[0].id,
+        service_id: service[0].id,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zone[0].id,
+        address_text: 'Test address',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: new Date('2024-01-15T10:00:00Z'),
+        scheduled_window_end: new Date('2024-01-15T11:30:00Z'),
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00'
+      })
+      .returning()
+      .execute();
+    bookingId = booking[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('canTransitionBookingStatus', () => {
+    it('should allow the forward lifecycle', () => {
+      expect(canTransitionBookingStatus('confirmed', 'on_the_way')).toBe(true);
+      expect(canTransitionBookingStatus('on_the_way', 'started')).toBe(true);
+      expect(canTransitionBookingStatus('started', 'finished')).toBe(true);
+    });
+
+    it('should allow postponing, rescheduling and canceling before work starts', () => {
+      expect(canTransitionBookingStatus('confirmed', 'postponed')).toBe(true);
+      expect(canTransitionBookingStatus('postponed', 'confirmed')).toBe(true);
+      expect(canTransitionBookingStatus('on_the_way', 'canceled')).toBe(true);
+      expect(canTransitionBookingStatus('postponed', 'canceled')).toBe(true);
+    });
+
+    it('should reject skipped steps and leaving terminal states', () => {
+      expect(canTransitionBookingStatus('confirmed', 'finished')).toBe(false);
+      expect(canTransitionBookingStatus('confirmed', 'started')).toBe(false);
+      expect(canTransitionBookingStatus('started', 'canceled')).toBe(false);
+      expect(canTransitionBookingStatus('canceled', 'finished')).toBe(false);
+      expect(canTransitionBookingStatus('finished', 'confirmed')).toBe(false);
+    });
+  });
+
+  describe('getBookingTimeline', () => {
+    it('should return events in chronological order', async () => {
+      await recordBookingEvent({
+        booking_id: bookingId,
+        actor: 'customer',
+        old_status: null,
+        new_status: 'confirmed'
+      });
+      await recordBookingEvent({
+        booking_id: bookingId,
+        actor: 'dispatch@example.com',
+        old_status: 'confirmed',
+        new_status: 'postponed',
+        reason: 'Customer asked for later'
+      });
+
+      const timeline = await getBookingTimeline(bookingId);
+
+      expect(timeline).toHaveLength(2);
+      expect(timeline[0].old_status).toBeNull();
+      expect(timeline[0].new_status).toBe('confirmed');
+      expect(timeline[0].actor).toBe('customer');
+      expect(timeline[0].reason).toBeNull();
+      expect(timeline[1].old_status).toBe('confirmed');
+      expect(timeline[1].new_status).toBe('postponed');
+      expect(timeline[1].reason).toBe('Customer asked for later');
+      expect(timeline[1].created_at).toBeInstanceOf(Date);
+    });
+
+    it('should return an empty history for a booking without events', async () => {
+      const timeline = await getBookingTimeline(bookingId);
+      expect(timeline).toEqual([]);
+    });
+
+    it('should throw for unknown bookings', async () => {
+      await expect(getBookingTimeline(999999)).rejects.toThrow(/Booking with ID 999999 not found/i);
+    });
+  });
+});
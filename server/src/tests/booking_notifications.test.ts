@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, customersTable, servicesTable, zonesTable, whatsappTemplatesTable, whatsappMessagesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  buildBookingLinks,
+  notifyBookingConfirmed,
+  notifyBookingStatusChange
+} from '../handlers/booking_notifications';
+import { verifyBookingToken } from '../handlers/booking_tokens';
+
+const testTemplates = [
+  {
+    key: 'booking_confirmation',
+    body_ar: 'مرحبا {{name}}، تم تأكيد حجزك لخدمة {{service}} بتاريخ {{date}} في الساعة {{time}}. السعر: {{price}} ريال.',
+    body_en: 'Hello {{name}}, your booking for {{service}} on {{date}} at {{time}} is confirmed. Price: {{price}} SAR.'
+  },
+  {
+    key: 'booking_on_the_way',
+    body_ar: 'الفريق في الطريق إليك! سنصل خلال {{eta}} دقيقة.',
+    body_en: 'Team is on the way! We will arrive in {{eta}} minutes.'
+  },
+  {
+    key: 'booking_finished',
+    body_ar: 'تم الانتهاء من الخدمة! رابط التقييم: {{stars_link}}',
+    body_en: 'Service completed! Rate us: {{stars_link}}'
+  }
+];
+
+describe('booking notifications', () => {
+  let bookingId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'أحمد محمد', phone: '0555123456', whatsapp_verified: true })
+      .returning()
+      .execute();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+
+    const booking = await db.insert(bookingsTable)
+      .values({
+        customer_id: customer[0].id,
+        service_id: service[0].id,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zone[0].id,
+        address_text: 'Test address',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: new Date('2024-01-15T10:00:00Z'),
+        scheduled_window_end: new Date('2024-01-15T11:30:00Z'),
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00'
+      })
+      .returning()
+      .execute();
+    bookingId = booking[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('buildBookingLinks', () => {
+    it('should build signed per-booking customer links', () => {
+      const links = buildBookingLinks({ id: 42, scheduled_window_end: new Date(Date.now() + 60 * 60 * 1000) });
+
+      const token = links.track_url.split('/b/')[1];
+      expect(verifyBookingToken(token)).toEqual(42);
+      expect(links.edit_url).toEqual(`${links.track_url}/edit`);
+      expect(links.cancel_url).toEqual(`${links.track_url}/cancel`);
+      expect(links.stars_link).toEqual(`${links.track_url}/review`);
+    });
+  });
+
+  describe('notifyBookingConfirmed', () => {
+    it('should send the confirmation template to the customer', async () => {
+      await db.insert(whatsappTemplatesTable).values(testTemplates).execute();
+
+      const result = await notifyBookingConfirmed(bookingId);
+
+      expect(result.status).toEqual('sent');
+      expect(result.message_id).toMatch(/^wam_/);
+    });
+
+    it('should message customers in their preferred language', async () => {
+      await db.insert(whatsappTemplatesTable).values(testTemplates).execute();
+      await db.update(customersTable)
+        .set({ preferred_language: 'en' })
+        .execute();
+
+      const result = await notifyBookingConfirmed(bookingId);
+
+      const logged = await db.select()
+        .from(whatsappMessagesTable)
+        .where(eq(whatsappMessagesTable.message_id, result.message_id))
+        .execute();
+      expect(logged[0].language).toEqual('en');
+      expect(logged[0].body).toMatch(/^Hello أحمد محمد, your booking for Full Wash on .+2024 at .+\. Price: 100\.00 SAR\.$/);
+    });
+
+    it('should report failure without throwing when the template is missing', async () => {
+      const result = await notifyBookingConfirmed(bookingId);
+
+      expect(result.status).toEqual('failed');
+    });
+
+    it('should report failure without throwing for unknown bookings', async () => {
+      await db.insert(whatsappTemplatesTable).values(testTemplates).execute();
+
+      const result = await notifyBookingConfirmed(999999);
+
+      expect(result.status).toEqual('failed');
+    });
+  });
+
+  describe('notifyBookingStatusChange', () => {
+    it('should send the matching status template', async () => {
+      await db.insert(whatsappTemplatesTable).values(testTemplates).execute();
+
+      const onTheWay = await notifyBookingStatusChange(bookingId, 'on_the_way', { eta: 20 });
+      const finished = await notifyBookingStatusChange(bookingId, 'finished');
+
+      expect(onTheWay?.status).toEqual('sent');
+      expect(finished?.status).toEqual('sent');
+    });
+
+    it('should skip statuses without a customer template', async () => {
+      await db.insert(whatsappTemplatesTable).values(testTemplates).execute();
+
+      expect(await notifyBookingStatusChange(bookingId, 'postponed')).toBeNull();
+      expect(await notifyBookingStatusChange(bookingId, 'canceled')).toBeNull();
+      expect(await notifyBookingStatusChange(bookingId, 'confirmed')).toBeNull();
+    });
+  });
+});
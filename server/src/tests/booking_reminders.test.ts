@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  bookingRemindersTable,
+  bookingsTable,
+  customersTable,
+  servicesTable,
+  whatsappMessagesTable,
+  whatsappTemplatesTable,
+  zonesTable
+} from '../db/schema';
+import { getReminderTiers, sendDueBookingReminders } from '../handlers/booking_reminders';
+import { eq } from 'drizzle-orm';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2024-03-10T08:00:00Z');
+const tiers = [
+  { label: '24h', lead_minutes: 1440 },
+  { label: '2h', lead_minutes: 120 }
+];
+
+describe('booking reminders', () => {
+  let customerId: number;
+  let serviceId: number;
+  let zoneId: number;
+
+  const insertBooking = async (startsInHours: number, overrides: Partial<typeof bookingsTable.$inferInsert> = {}) => {
+    const start = new Date(now.getTime() + startsInHours * HOUR);
+    const result = await db.insert(bookingsTable)
+      .values({
+        customer_id: customerId,
+        service_id: serviceId,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zoneId,
+        address_text: 'الرياض - حي النخيل',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: start,
+        scheduled_window_end: new Date(start.getTime() + HOUR),
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00',
+        created_at: new Date(now.getTime() - 72 * HOUR),
+        ...overrides
+      })
+      .returning()
+      .execute();
+    return result[0].id;
+  };
+
+  const remindersFor = (bookingId: number) => db.select()
+    .from(bookingRemindersTable)
+    .where(eq(bookingRemindersTable.booking_id, bookingId))
+    .execute();
+
+  beforeEach(async () => {
+    await createDB();
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'أحمد محمد', phone: '0555123456', whatsapp_verified: true })
+      .returning()
+      .execute();
+    customerId = customer[0].id;
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+
+    await db.insert(whatsappTemplatesTable)
+      .values({
+        key: 'booking_reminder',
+        body_ar: 'تذكير {{name}}: {{service}} في {{location}}. لتغيير الموعد: {{reschedule_url}} للإلغاء: {{cancel_url}}',
+        body_en: 'Reminder {{name}}: {{service}} at {{location}}. Reschedule: {{reschedule_url}} Cancel: {{cancel_url}}'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('getReminderTiers', () => {
+    afterEach(() => {
+      delete process.env['BOOKING_REMINDER_LEAD_MINUTES'];
+    });
+
+    it('should default to 24 hour and 2 hour reminders', () => {
+      expect(getReminderTiers()).toEqual(tiers);
+    });
+
+    it('should read and order configured lead times', () => {
+      process.env['BOOKING_REMINDER_LEAD_MINUTES'] = '30, 180,30';
+
+      expect(getReminderTiers()).toEqual([
+        { label: '3h', lead_minutes: 180 },
+        { label: '30m', lead_minutes: 30 }
+      ]);
+    });
+
+    it('should reject invalid lead times', () => {
+      process.env['BOOKING_REMINDER_LEAD_MINUTES'] = '1440,soon';
+
+      expect(() => getReminderTiers()).toThrow(/invalid BOOKING_REMINDER_LEAD_MINUTES/i);
+    });
+  });
+
+  describe('sendDueBookingReminders', () => {
+    it('should send each tier once even across repeated runs', async () => {
+      const bookingId = await insertBooking(20);
+
+      expect(await sendDueBookingReminders(now, tiers)).toEqual({ sent: 1, skipped: 0 });
+      expect(await sendDueBookingReminders(now, tiers)).toEqual({ sent: 0, skipped: 0 });
+
+      const reminders = await remindersFor(bookingId);
+      expect(reminders).toHaveLength(1);
+      expect(reminders[0].tier).toEqual('24h');
+      expect(reminders[0].message_id).toMatch(/^wam_/);
+
+      // The 2 hour tier follows once its window opens
+      expect(await sendDueBookingReminders(new Date(now.getTime() + 19 * HOUR), tiers)).toEqual({ sent: 1, skipped: 0 });
+      expect((await remindersFor(bookingId)).map(reminder => reminder.tier).sort()).toEqual(['24h', '2h']);
+    });
+
+    it('should include the self-service links and location', async () => {
+      const bookingId = await insertBooking(20);
+
+      await sendDueBookingReminders(now, tiers);
+
+      const messages = await db.select()
+        .from(whatsappMessagesTable)
+        .where(eq(whatsappMessagesTable.booking_id, bookingId))
+        .execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].template_key).toEqual('booking_reminder');
+      expect(messages[0].status).toEqual('sent');
+      expect(messages[0].body).toContain('الرياض - حي النخيل');
+      expect(messages[0].body).toMatch(new RegExp(`/b/${bookingId}\\.[^ ]+/edit`));
+      expect(messages[0].body).toMatch(new RegExp(`/b/${bookingId}\\.[^ ]+/cancel`));
+    });
+
+    it('should send only the tightest due tier and skip missed ones', async () => {
+      const bookingId = await insertBooking(1);
+
+      expect(await sendDueBookingReminders(now, tiers)).toEqual({ sent: 1, skipped: 1 });
+
+      const reminders = await remindersFor(bookingId);
+      expect(reminders.find(reminder => reminder.tier === '2h')?.message_id).toMatch(/^wam_/);
+      expect(reminders.find(reminder => reminder.tier === '24h')?.message_id).toBeNull();
+    });
+
+    it('should not remind bookings made inside the reminder window', async () => {
+      const bookingId = await insertBooking(20, { created_at: new Date(now.getTime() - HOUR) });
+
+      expect(await sendDueBookingReminders(now, tiers)).toEqual({ sent: 0, skipped: 0 });
+      expect(await remindersFor(bookingId)).toHaveLength(0);
+    });
+
+    it('should ignore bookings that are not confirmed or not yet due', async () => {
+      await insertBooking(20, { status: 'canceled' });
+      await insertBooking(20, { status: 'postponed' });
+      await insertBooking(30);
+      await insertBooking(-1);
+
+      expect(await sendDueBookingReminders(now, tiers)).toEqual({ sent: 0, skipped: 0 });
+    });
+  });
+});
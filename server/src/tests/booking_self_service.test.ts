@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  bookingEventsTable,
+  bookingRemindersTable,
+  bookingsTable,
+  customersTable,
+  pricingRulesTable,
+  servicesTable,
+  zonesTable
+} from '../db/schema';
+import { createBookingToken } from '../handlers/booking_tokens';
+import {
+  cancelBookingByToken,
+  getBookingByToken,
+  rescheduleBookingByToken
+} from '../handlers/booking_self_service';
+import { eq } from 'drizzle-orm';
+
+const MINUTE = 60 * 1000;
+
+// Slots are generated in the business timezone (Asia/Riyadh, UTC+3)
+const now = new Date('2030-01-10T08:00:00+03:00');
+const bookedStart = new Date('2030-01-15T10:00:00+03:00');
+const bookedEnd = new Date('2030-01-15T11:30:00+03:00');
+
+describe('booking self-service', () => {
+  let bookingId: number;
+  let zoneId: number;
+  let token: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'أحمد محمد', phone: '0555123456', whatsapp_verified: true })
+      .returning()
+      .execute();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+
+    const booking = await db.insert(bookingsTable)
+      .values({
+        customer_id: customer[0].id,
+        service_id: service[0].id,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zoneId,
+        address_text: 'Test address',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: bookedStart,
+        scheduled_window_end: bookedEnd,
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00'
+      })
+      .returning()
+      .execute();
+    bookingId = booking[0].id;
+    token = createBookingToken(bookingId, new Date('2030-02-15T00:00:00+03:00'));
+  });
+
+  afterEach(async () => {
+    delete process.env['BOOKING_CHANGE_CUTOFF_MINUTES'];
+    await resetDB();
+  });
+
+  describe('getBookingByToken', () => {
+    it('should return the customer view of the booking', async () => {
+      const result = await getBookingByToken(token, now);
+
+      expect(result.id).toEqual(bookingId);
+      expect(result.status).toEqual('confirmed');
+      expect(result.customer_name).toEqual('أحمد محمد');
+      expect(result.service_name_en).toEqual('Full Wash');
+      expect(result.service_duration).toEqual(60);
+      expect(result.zone_id).toEqual(zoneId);
+      expect(result.price_total).toEqual(100);
+      expect(result.can_reschedule).toBe(true);
+      expect(result.can_cancel).toBe(true);
+      expect(result.change_deadline).toEqual(new Date(bookedStart.getTime() - 120 * MINUTE));
+      expect((result as any).phone).toBeUndefined();
+    });
+
+    it('should close changes inside the configured cutoff', async () => {
+      process.env['BOOKING_CHANGE_CUTOFF_MINUTES'] = '1440';
+
+      const result = await getBookingByToken(token, new Date('2030-01-14T11:00:00+03:00'));
+
+      expect(result.can_reschedule).toBe(false);
+      expect(result.can_cancel).toBe(false);
+    });
+
+    it('should reject invalid tokens', async () => {
+      await expect(getBookingByToken(`${token}x`, now)).rejects.toThrow(/invalid booking link/i);
+      await expect(getBookingByToken(createBookingToken(999999, new Date('2031-01-01T00:00:00+03:00')), now))
+        .rejects.toThrow(/booking not found/i);
+    });
+  });
+
+  describe('rescheduleBookingByToken', () => {
+    const newStart = new Date('2030-01-16T13:00:00+03:00');
+    const newEnd = new Date('2030-01-16T14:30:00+03:00');
+
+    it('should move the booking to an offered slot', async () => {
+      await db.insert(bookingRemindersTable)
+        .values({ booking_id: bookingId, tier: '24h', message_id: 'wam_1_a' })
+        .execute();
+
+      const result = await rescheduleBookingByToken({ token, scheduled_window: { start: newStart, end: newEnd } }, now);
+
+      expect(result.scheduled_window_start).toEqual(newStart);
+      expect(result.scheduled_window_end).toEqual(newEnd);
+      expect(result.status).toEqual('confirmed');
+
+      // Reminders are sent again for the new time
+      const reminders = await db.select()
+        .from(bookingRemindersTable)
+        .where(eq(bookingRemindersTable.booking_id, bookingId))
+        .execute();
+      expect(reminders).toHaveLength(0);
+    });
+
+    it('should allow moving to an overlapping slot on the same day', async () => {
+      const laterStart = new Date('2030-01-15T11:00:00+03:00');
+      const laterEnd = new Date('2030-01-15T12:30:00+03:00');
+
+      const result = await rescheduleBookingByToken({ token, scheduled_window: { start: laterStart, end: laterEnd } }, now);
+
+      expect(result.scheduled_window_start).toEqual(laterStart);
+    });
+
+    it('should charge the surge of the new slot', async () => {
+      await db.insert(pricingRulesTable)
+        .values({
+          key: 'time_multipliers',
+          value_json: JSON.stringify({
+            windows: [
+              { start: '08:00', end: '10:00', multiplier: 0.8 },
+              { start: '16:00', end: '18:00', multiplier: 1.5 }
+            ]
+          }),
+          enabled: true
+        })
+        .execute();
+
+      // Booked at 10:00 for the normal price; the evening costs half as much again
+      const peak = await rescheduleBookingByToken({
+        token,
+        scheduled_window: { start: new Date('2030-01-16T16:00:00+03:00'), end: new Date('2030-01-16T17:30:00+03:00') }
+      }, now);
+      expect(peak.price_total).toEqual(150);
+
+      // Moving on to a quiet slot is charged from the evening price
+      const quiet = await rescheduleBookingByToken({
+        token,
+        scheduled_window: { start: new Date('2030-01-17T08:00:00+03:00'), end: new Date('2030-01-17T09:30:00+03:00') }
+      }, now);
+      expect(quiet.price_total).toEqual(80);
+    });
+
+    it('should reject times that are not offered slots', async () => {
+      await expect(rescheduleBookingByToken({
+        token,
+        scheduled_window: { start: new Date('2030-01-16T13:15:00+03:00'), end: new Date('2030-01-16T14:45:00+03:00') }
+      }, now)).rejects.toThrow(/not available/i);
+
+      await expect(rescheduleBookingByToken({
+        token,
+        scheduled_window: { start: new Date('2030-01-16T20:00:00+03:00'), end: new Date('2030-01-16T21:30:00+03:00') }
+      }, now)).rejects.toThrow(/not available/i);
+    });
+
+    it('should reject changes after the cutoff', async () => {
+      const lateNow = new Date(bookedStart.getTime() - 60 * MINUTE);
+
+      await expect(rescheduleBookingByToken({ token, scheduled_window: { start: newStart, end: newEnd } }, lateNow))
+        .rejects.toThrow(/120 minutes before/i);
+    });
+
+    it('should reconfirm postponed bookings', async () => {
+      await db.update(bookingsTable)
+        .set({ status: 'postponed' })
+        .where(eq(bookingsTable.id, bookingId))
+        .execute();
+
+      // The cutoff doesn't apply while the booking waits for a new time
+      const result = await rescheduleBookingByToken(
+        { token, scheduled_window: { start: newStart, end: newEnd } },
+        new Date('2030-01-15T10:30:00+03:00')
+      );
+
+      expect(result.status).toEqual('confirmed');
+
+      const events = await db.select()
+        .from(bookingEventsTable)
+        .where(eq(bookingEventsTable.booking_id, bookingId))
+        .execute();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ actor: 'customer', old_status: 'postponed', new_status: 'confirmed' });
+    });
+  });
+
+  describe('cancelBookingByToken', () => {
+    it('should cancel the booking and record the customer as actor', async () => {
+      const result = await cancelBookingByToken({ token, reason: 'Travelling' }, now);
+
+      expect(result.status).toEqual('canceled');
+      expect(result.can_cancel).toBe(false);
+
+      const events = await db.select()
+        .from(bookingEventsTable)
+        .where(eq(bookingEventsTable.booking_id, bookingId))
+        .execute();
+      expect(events[0]).toMatchObject({ actor: 'customer', new_status: 'canceled', reason: 'Travelling' });
+
+      await expect(cancelBookingByToken({ token }, now)).rejects.toThrow(/can no longer be changed/i);
+    });
+
+    it('should refuse bookings the team is already working on', async () => {
+      await db.update(bookingsTable)
+        .set({ status: 'on_the_way' })
+        .where(eq(bookingsTable.id, bookingId))
+        .execute();
+
+      await expect(cancelBookingByToken({ token }, now)).rejects.toThrow(/on_the_way can no longer be changed/i);
+    });
+
+    it('should honour a configured cutoff', async () => {
+      process.env['BOOKING_CHANGE_CUTOFF_MINUTES'] = '0';
+
+      const result = await cancelBookingByToken({ token }, new Date(bookedStart.getTime() - MINUTE));
+
+      expect(result.status).toEqual('canceled');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  bookingSeriesOccurrencesTable,
+  bookingsTable,
+  customersTable,
+  servicesTable,
+  zoneSchedulesTable,
+  zonesTable
+} from '../db/schema';
+import { createBookingSeriesInputSchema, type CreateBookingSeriesInput } from '../schema';
+import {
+  cancelBookingSeries,
+  createBookingSeries,
+  generateSeriesOccurrences,
+  getSeriesConflicts,
+  getSeriesDates,
+  skipSeriesOccurrence
+} from '../handlers/booking_series';
+import { updateBooking } from '../handlers/update_booking';
+import { eq } from 'drizzle-orm';
+
+// A Thursday; the series below runs on Tuesdays from the 15th
+const now = new Date('2030-01-10T08:00:00+03:00');
+
+describe('getSeriesDates', () => {
+  it('should list weekly dates from the first matching weekday', () => {
+    const series = { frequency: 'weekly', weekday: 2, start_date: '2030-01-10', end_date: null };
+
+    expect(getSeriesDates(series, '2030-01-10', '2030-02-07')).toEqual([
+      '2030-01-15', '2030-01-22', '2030-01-29', '2030-02-05'
+    ]);
+  });
+
+  it('should count bi-weekly dates from the start of the series and stop at its end date', () => {
+    const series = { frequency: 'biweekly', weekday: 2, start_date: '2030-01-15', end_date: '2030-03-01' };
+
+    // Starting the range mid-series must not shift the fortnight
+    expect(getSeriesDates(series, '2030-01-20', '2030-12-31')).toEqual(['2030-01-29', '2030-02-12', '2030-02-26']);
+  });
+});
+
+describe('booking series', () => {
+  let zoneId: number;
+  let serviceId: number;
+  let customerId: number;
+
+  const seriesInput = (overrides: Partial<CreateBookingSeriesInput> = {}): CreateBookingSeriesInput =>
+    createBookingSeriesInputSchema.parse({
+      customer: { name: 'أحمد محمد', phone: '0555123456' },
+      service_id: serviceId,
+      car_type: 'sedan',
+      zone_id: zoneId,
+      address_text: 'الرياض - حي النخيل',
+      geo_point: { lat: 24.7136, lng: 46.6753 },
+      frequency: 'weekly',
+      weekday: 2,
+      window_start: '10:00',
+      window_end: '11:30',
+      start_date: '2030-01-10',
+      ...overrides
+    });
+
+  const bookTaken = async (start: string, end: string) => {
+    const booking = await db.insert(bookingsTable)
+      .values({
+        customer_id: customerId,
+        service_id: serviceId,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zoneId,
+        address_text: 'الرياض - حي الملقا',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: new Date(start),
+        scheduled_window_end: new Date(end),
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00'
+      })
+      .returning()
+      .execute();
+    return booking[0].id;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    // One crew, so a single booking fills a slot
+    await db.insert(zoneSchedulesTable)
+      .values({
+        zone_id: zoneId,
+        weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+        team_capacity: 1,
+        slot_minutes: 90,
+        interval_minutes: 60,
+        buffer_minutes: 30
+      })
+      .execute();
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'سارة علي', phone: '0555000009' })
+      .returning()
+      .execute();
+    customerId = customer[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should book every occurrence within the horizon', async () => {
+    const result = await createBookingSeries(seriesInput(), now);
+
+    expect(result.series.status).toEqual('active');
+    expect(result.occurrences.map(occurrence => [occurrence.date, occurrence.status])).toEqual([
+      ['2030-01-15', 'booked'],
+      ['2030-01-22', 'booked'],
+      ['2030-01-29', 'booked'],
+      ['2030-02-05', 'booked']
+    ]);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.series_id, result.series.id))
+      .execute();
+    expect(bookings).toHaveLength(4);
+    expect(bookings.map(booking => booking.scheduled_window_start)).toContainEqual(new Date('2030-01-22T10:00:00+03:00'));
+    expect(parseFloat(bookings[0].price_total)).toEqual(100);
+
+    // Running the generator again books nothing twice
+    expect(await generateSeriesOccurrences(now)).toEqual({ booked: 0, conflicts: 0 });
+  });
+
+  it('should flag full windows for the dispatcher and book them once capacity frees up', async () => {
+    const takenId = await bookTaken('2030-01-22T10:00:00+03:00', '2030-01-22T11:30:00+03:00');
+
+    const result = await createBookingSeries(seriesInput(), now);
+
+    const conflict = result.occurrences.find(occurrence => occurrence.date === '2030-01-22');
+    expect(conflict?.status).toEqual('conflict');
+    expect(conflict?.booking_id).toBeNull();
+
+    const conflicts = await getSeriesConflicts({ zone_id: zoneId });
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ series_id: result.series.id, date: '2030-01-22', customer_phone: '0555123456' });
+
+    await updateBooking({ id: takenId, status: 'canceled' });
+    expect(await generateSeriesOccurrences(now)).toEqual({ booked: 1, conflicts: 0 });
+    expect(await getSeriesConflicts()).toHaveLength(0);
+  });
+
+  it('should skip a single occurrence and cancel its booking', async () => {
+    const result = await createBookingSeries(seriesInput(), now);
+    const booked = result.occurrences.find(occurrence => occurrence.date === '2030-01-22')!;
+
+    const skipped = await skipSeriesOccurrence({ series_id: result.series.id, date: '2030-01-22' }, 'dispatcher@example.com');
+
+    expect(skipped.status).toEqual('skipped');
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, booked.booking_id!))
+      .execute();
+    expect(bookings[0].status).toEqual('canceled');
+
+    // Skipping ahead of the horizon keeps the generator from booking that date later
+    await skipSeriesOccurrence({ series_id: result.series.id, date: '2030-02-12' });
+    const later = new Date('2030-01-20T08:00:00+03:00');
+    await generateSeriesOccurrences(later);
+
+    const occurrences = await db.select()
+      .from(bookingSeriesOccurrencesTable)
+      .where(eq(bookingSeriesOccurrencesTable.series_id, result.series.id))
+      .execute();
+    expect(occurrences.find(occurrence => occurrence.date === '2030-02-12')?.status).toEqual('skipped');
+
+    await expect(skipSeriesOccurrence({ series_id: result.series.id, date: '2030-01-23' }))
+      .rejects.toThrow(/no occurrence/i);
+  });
+
+  it('should cancel the upcoming bookings of a canceled series', async () => {
+    const result = await createBookingSeries(seriesInput(), now);
+
+    const canceled = await cancelBookingSeries(result.series.id, 'dispatcher@example.com', now);
+
+    expect(canceled.series.status).toEqual('canceled');
+    expect(canceled.occurrences.every(occurrence => occurrence.status === 'canceled')).toBe(true);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.series_id, result.series.id))
+      .execute();
+    expect(bookings.every(booking => booking.status === 'canceled')).toBe(true);
+
+    expect(await generateSeriesOccurrences(new Date('2030-02-01T08:00:00+03:00'))).toEqual({ booked: 0, conflicts: 0 });
+    await expect(cancelBookingSeries(result.series.id)).rejects.toThrow(/already been canceled/i);
+  });
+});
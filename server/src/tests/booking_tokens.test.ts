@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { createBookingToken, getBookingLinkSecret, getBookingTokenExpiry, verifyBookingToken } from '../handlers/booking_tokens';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2024-03-10T08:00:00Z');
+
+describe('booking tokens', () => {
+  afterEach(() => {
+    delete process.env['BOOKING_LINK_TTL_DAYS'];
+  });
+
+  it('should round-trip the booking id', () => {
+    const token = createBookingToken(42, new Date(now.getTime() + DAY));
+
+    expect(token).toMatch(/^42\.\d+\.[A-Za-z0-9_-]+$/);
+    expect(verifyBookingToken(token, now)).toEqual(42);
+  });
+
+  it('should reject tampered tokens', () => {
+    const token = createBookingToken(42, new Date(now.getTime() + DAY));
+    const [, expiry, signature] = token.split('.');
+
+    expect(() => verifyBookingToken(`43.${expiry}.${signature}`, now)).toThrow(/invalid booking link/i);
+    expect(() => verifyBookingToken(`42.${Number(expiry) + 3600}.${signature}`, now)).toThrow(/invalid booking link/i);
+    expect(() => verifyBookingToken('42', now)).toThrow(/invalid booking link/i);
+    expect(() => verifyBookingToken('', now)).toThrow(/invalid booking link/i);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createBookingToken(42, new Date(now.getTime() - 1000));
+
+    expect(() => verifyBookingToken(token, now)).toThrow(/expired/i);
+  });
+
+  it('should keep links valid for the configured days after the booking window', () => {
+    const windowEnd = new Date('2024-03-12T10:00:00Z');
+
+    expect(getBookingTokenExpiry(windowEnd, now)).toEqual(new Date(windowEnd.getTime() + 30 * DAY));
+
+    process.env['BOOKING_LINK_TTL_DAYS'] = '7';
+    expect(getBookingTokenExpiry(windowEnd, now)).toEqual(new Date(windowEnd.getTime() + 7 * DAY));
+
+    // Past windows are measured from now
+    expect(getBookingTokenExpiry(new Date('2024-01-01T00:00:00Z'), now)).toEqual(new Date(now.getTime() + 7 * DAY));
+  });
+
+  it('should require BOOKING_LINK_SECRET outside tests', () => {
+    const previous = { secret: process.env['BOOKING_LINK_SECRET'], nodeEnv: process.env['NODE_ENV'] };
+    try {
+      delete process.env['BOOKING_LINK_SECRET'];
+      process.env['NODE_ENV'] = 'production';
+      expect(() => getBookingLinkSecret()).toThrow(/BOOKING_LINK_SECRET must be set/);
+
+      process.env['BOOKING_LINK_SECRET'] = 'link-secret';
+      expect(getBookingLinkSecret()).toEqual('link-secret');
+    } finally {
+      for (const [key, value] of [['BOOKING_LINK_SECRET', previous.secret], ['NODE_ENV', previous.nodeEnv]] as const) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+});
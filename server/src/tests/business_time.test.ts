@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import {
+  atBusinessTime,
+  businessDateTime,
+  businessMinutesOfDay,
+  businessTimeRange,
+  businessWeekday,
+  fromDateKey,
+  getBusinessDateParts,
+  getBusinessTimeZone,
+  startOfBusinessDay,
+  toDateKey
+} from '../handlers/business_time';
+
+describe('business time', () => {
+  afterEach(() => {
+    delete process.env['BUSINESS_TIMEZONE'];
+  });
+
+  it('should default to Riyadh time', () => {
+    expect(getBusinessTimeZone()).toEqual('Asia/Riyadh');
+    expect(getBusinessDateParts(new Date('2030-01-15T21:30:00Z'))).toEqual({
+      year: 2030,
+      month: 1,
+      day: 16,
+      hour: 0,
+      minute: 30,
+      weekday: 3
+    });
+  });
+
+  it('should convert wall-clock times to instants', () => {
+    expect(businessDateTime(2030, 1, 15, 8, 0)).toEqual(new Date('2030-01-15T05:00:00Z'));
+    expect(atBusinessTime(new Date('2030-01-15T22:00:00Z'), '09:30')).toEqual(new Date('2030-01-16T06:30:00Z'));
+    expect(businessMinutesOfDay(new Date('2030-01-15T05:00:00Z'))).toEqual(8 * 60);
+  });
+
+  it('should find day boundaries in the business timezone rather than UTC', () => {
+    // 23:00 UTC on the 14th is already the 15th in Riyadh
+    const lateEvening = new Date('2030-01-14T23:00:00Z');
+
+    expect(startOfBusinessDay(lateEvening)).toEqual(new Date('2030-01-14T21:00:00Z'));
+    expect(startOfBusinessDay(lateEvening, 1)).toEqual(new Date('2030-01-15T21:00:00Z'));
+    expect(businessWeekday(lateEvening)).toEqual(2);
+    expect(toDateKey(lateEvening)).toEqual('2030-01-15');
+    expect(fromDateKey('2030-01-31', 1)).toEqual(new Date('2030-01-31T21:00:00Z'));
+  });
+
+  it('should read ranges ending before they start as running past midnight', () => {
+    const day = new Date('2030-01-15T09:00:00Z');
+
+    expect(businessTimeRange(day, '08:00', '18:00')).toEqual({
+      start: new Date('2030-01-15T05:00:00Z'),
+      end: new Date('2030-01-15T15:00:00Z')
+    });
+    expect(businessTimeRange(day, '21:00', '02:00')).toEqual({
+      start: new Date('2030-01-15T18:00:00Z'),
+      end: new Date('2030-01-15T23:00:00Z')
+    });
+  });
+
+  it('should follow a configured timezone across daylight saving changes', () => {
+    process.env['BUSINESS_TIMEZONE'] = 'America/New_York';
+
+    // Clocks go forward on 2030-03-10, so the day is only 23 hours long
+    const dayStart = startOfBusinessDay(new Date('2030-03-10T12:00:00Z'));
+    expect(dayStart).toEqual(new Date('2030-03-10T05:00:00Z'));
+    expect(startOfBusinessDay(dayStart, 1).getTime() - dayStart.getTime()).toEqual(23 * 60 * 60 * 1000);
+    expect(businessDateTime(2030, 3, 10, 9, 0)).toEqual(new Date('2030-03-10T13:00:00Z'));
+  });
+});
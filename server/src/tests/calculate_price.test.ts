@@ -1,8 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { servicesTable, addonsTable, zonesTable, pricingRulesTable } from '../db/schema';
-import { type PriceCalculationInput, calculatePrice } from '../handlers/calculate_price';
+import { servicesTable, addonsTable, zonesTable, pricingRulesTable, zoneSchedulesTable, customersTable, bookingsTable } from '../db/schema';
+import { type PriceCalculationInput, calculatePrice, priceTimeSlots } from '../handlers/calculate_price';
+import { getAvailableTimeSlots } from '../handlers/time_slots';
+import { getBusinessDateParts } from '../handlers/business_time';
+import { assertStoredPricingRulesValid } from '../handlers/pricing_rules';
 
 // Test data
 const testService = {
@@ -336,7 +339,7 @@ describe('calculatePrice', () => {
     expect(result.total_price).toEqual(50);
   });
 
-  it('should handle malformed pricing rules gracefully', async () => {
+  it('should refuse to price with a malformed pricing rule', async () => {
     // Create test data
     const serviceResult = await db.insert(servicesTable)
       .values(testService)
@@ -363,12 +366,9 @@ describe('calculatePrice', () => {
       zone_id: zoneResult[0].id
     };
 
-    const result = await calculatePrice(input);
-
-    // Should still work with default values
-    expect(result.base_price).toEqual(50);
-    expect(result.distance_fee).toEqual(0);
-    expect(result.total_price).toEqual(50);
+    // Pricing without the fee would quietly undercharge every booking
+    await expect(calculatePrice(input)).rejects.toThrow(/not valid JSON/i);
+    await expect(assertStoredPricingRulesValid()).rejects.toThrow(/distance_fee/);
   });
 
   it('should calculate complex scenario with all features', async () => {
@@ -438,4 +438,108 @@ describe('calculatePrice', () => {
     expect(result.total_price).toBeGreaterThan(110);
     expect(result.estimated_duration).toEqual(95); // 45 + 20 + 30
   });
-});
\ No newline at end of file
+
+  it('should price peak, quiet and busy slots', async () => {
+    const serviceResult = await db.insert(servicesTable)
+      .values(testService)
+      .returning()
+      .execute();
+    const addonResult = await db.insert(addonsTable)
+      .values(testAddon1)
+      .returning()
+      .execute();
+    const zoneResult = await db.insert(zonesTable)
+      .values(testZone)
+      .returning()
+      .execute();
+
+    // One crew from 08:00 to 18:00, so each booking below takes a fifth of the day.
+    // No buffer, so the 65-minute job fits a 90-minute window and the last slot starts at 16:00.
+    await db.insert(zoneSchedulesTable)
+      .values({
+        zone_id: zoneResult[0].id,
+        weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+        team_capacity: 1,
+        slot_minutes: 90,
+        interval_minutes: 60,
+        buffer_minutes: 0
+      })
+      .execute();
+
+    await db.insert(pricingRulesTable)
+      .values([
+        {
+          key: 'time_multipliers',
+          value_json: JSON.stringify({
+            windows: [
+              { start: '08:00', end: '10:00', multiplier: 0.8 },
+              { start: '16:00', end: '18:00', multiplier: 1.5 }
+            ]
+          }),
+          enabled: true
+        },
+        {
+          key: 'utilisation_multipliers',
+          value_json: JSON.stringify({ tiers: [{ min_utilisation: 0.4, multiplier: 1.1 }] }),
+          enabled: true
+        }
+      ])
+      .execute();
+
+    const input = {
+      ...testInput,
+      service_id: serviceResult[0].id,
+      addons: [addonResult[0].id],
+      zone_id: zoneResult[0].id
+    };
+    const window = (start: string, end: string) => ({
+      start: new Date(`2030-01-15T${start}:00+03:00`),
+      end: new Date(`2030-01-15T${end}:00+03:00`)
+    });
+
+    // Without a slot the service is quoted at its normal price
+    expect((await calculatePrice(input)).total_price).toEqual(65);
+
+    const evening = await calculatePrice({ ...input, scheduled_window: window('16:00', '17:30') });
+    expect(evening.surge_multiplier).toEqual(1.5);
+    expect(evening.surge_adjustment).toBeCloseTo(32.5);
+    expect(evening.total_price).toBeCloseTo(97.5);
+
+    // Two bookings fill 40% of the day, which adds the busy-day surcharge to every slot
+    const customer = await db.insert(customersTable)
+      .values({ name: 'Test Customer', phone: '0555000001' })
+      .returning()
+      .execute();
+    for (const [start, end] of [['10:00', '12:00'], ['12:00', '14:00']]) {
+      await db.insert(bookingsTable)
+        .values({
+          customer_id: customer[0].id,
+          service_id: serviceResult[0].id,
+          addons: [],
+          car_type: 'sedan',
+          zone_id: zoneResult[0].id,
+          address_text: 'Test Address',
+          geo_point: JSON.stringify(testInput.geo_point),
+          scheduled_window_start: window(start, end).start,
+          scheduled_window_end: window(start, end).end,
+          status: 'confirmed',
+          price_total: '65.00',
+          is_solo: false,
+          distance_fee: '0.00'
+        })
+        .execute();
+    }
+
+    const morning = await calculatePrice({ ...input, scheduled_window: window('08:00', '09:30') });
+    expect(morning.surge_multiplier).toBeCloseTo(0.88);
+    expect(morning.total_price).toBeCloseTo(57.2);
+
+    const testDate = new Date('2030-01-15T00:00:00+03:00');
+    const slots = await priceTimeSlots(await getAvailableTimeSlots(zoneResult[0].id, 65, testDate), input, testDate);
+    const priceAt = (hour: number) => slots.find(slot => getBusinessDateParts(slot.start).hour === hour)?.price;
+
+    expect(priceAt(8)).toEqual(57.2);
+    expect(priceAt(14)).toEqual(71.5);
+    expect(priceAt(16)).toEqual(107.25);
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { couponRedemptionsTable, servicesTable, zoneSchedulesTable, zonesTable } from '../db/schema';
+import { createCouponInputSchema, type CreateBookingInput, type CreateCouponInput } from '../schema';
+import { createCoupon, deleteCoupon, getCouponStats, updateCoupon } from '../handlers/coupons';
+import { calculatePrice } from '../handlers/calculate_price';
+import { createBooking } from '../handlers/create_booking';
+import { updateBooking } from '../handlers/update_booking';
+import { eq } from 'drizzle-orm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('coupons', () => {
+  let zoneId: number;
+  let serviceId: number;
+
+  const couponInput = (overrides: Partial<CreateCouponInput> = {}): CreateCouponInput => ({
+    code: 'welcome10',
+    discount_type: 'percentage',
+    value: 10,
+    start_at: new Date(Date.now() - DAY),
+    end_at: new Date(Date.now() + DAY),
+    usage_limit: 100,
+    per_customer_limit: null,
+    ...overrides
+  });
+
+  const bookingInput = (phone: string, coupon_code?: string): CreateBookingInput => ({
+    customer: { name: `Customer ${phone}`, phone },
+    service_id: serviceId,
+    addons: [],
+    car_type: 'sedan',
+    zone_id: zoneId,
+    address_text: 'الرياض - حي النخيل',
+    geo_point: { lat: 24.7136, lng: 46.6753 },
+    scheduled_window: {
+      start: new Date('2030-01-15T10:00:00+03:00'),
+      end: new Date('2030-01-15T11:30:00+03:00')
+    },
+    is_solo: false,
+    coupon_code
+  });
+
+  const quote = (coupon_code?: string, customer_phone?: string) => calculatePrice({
+    service_id: serviceId,
+    addons: [],
+    car_type: 'sedan',
+    zone_id: zoneId,
+    geo_point: { lat: 24.7136, lng: 46.6753 },
+    is_solo: false,
+    customer_phone,
+    coupon_code
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    // Enough crews that the bookings below never compete for the window
+    await db.insert(zoneSchedulesTable)
+      .values({
+        zone_id: zoneId,
+        weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+        team_capacity: 5,
+        slot_minutes: 90,
+        interval_minutes: 60,
+        buffer_minutes: 30
+      })
+      .execute();
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '150.00',
+        base_price_solo: '100.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('pricing', () => {
+    it('should apply percentage and fixed discounts as their own line', async () => {
+      await createCoupon(couponInput());
+      await createCoupon(couponInput({ code: 'FLAT200', discount_type: 'fixed', value: 200 }));
+
+      const percentage = await quote(' Welcome10 ');
+      expect(percentage.coupon_discount).toEqual(15);
+      expect(percentage.total_price).toEqual(135);
+      expect(percentage.base_price).toEqual(150);
+
+      // A fixed discount never takes the price below zero
+      const fixed = await quote('flat200');
+      expect(fixed.coupon_discount).toEqual(150);
+      expect(fixed.total_price).toEqual(0);
+
+      const none = await quote();
+      expect(none.coupon_discount).toEqual(0);
+      expect(none.coupon_id).toBeNull();
+    });
+
+    it('should reject unknown, future and expired codes', async () => {
+      await createCoupon(couponInput({ code: 'SOON', start_at: new Date(Date.now() + DAY), end_at: new Date(Date.now() + 2 * DAY) }));
+      await createCoupon(couponInput({ code: 'OLD', start_at: new Date(Date.now() - 2 * DAY), end_at: new Date(Date.now() - DAY) }));
+
+      await expect(quote('NOPE')).rejects.toThrow(/not found/i);
+      await expect(quote('SOON')).rejects.toThrow(/not active yet/i);
+      await expect(quote('OLD')).rejects.toThrow(/expired/i);
+    });
+
+    it('should validate coupon input', () => {
+      expect(() => createCouponInputSchema.parse(couponInput({ value: 150 }))).toThrow(/cannot exceed 100/i);
+      expect(() => createCouponInputSchema.parse(couponInput({ end_at: new Date(Date.now() - 2 * DAY) })))
+        .toThrow(/end after it starts/i);
+    });
+  });
+
+  describe('redemption', () => {
+    it('should record redemptions and enforce the usage limits', async () => {
+      const coupon = await createCoupon(couponInput({ usage_limit: 2, per_customer_limit: 1 }));
+
+      const first = await createBooking(bookingInput('0555000001', 'WELCOME10'));
+      expect(first.coupon_discount).toEqual(15);
+      expect(first.price_total).toEqual(135);
+
+      const redemptions = await db.select()
+        .from(couponRedemptionsTable)
+        .where(eq(couponRedemptionsTable.coupon_id, coupon.id))
+        .execute();
+      expect(redemptions).toHaveLength(1);
+      expect(redemptions[0].booking_id).toEqual(Number(first.booking_id));
+      expect(parseFloat(redemptions[0].discount_amount)).toEqual(15);
+
+      await expect(createBooking(bookingInput('0555000001', 'WELCOME10'))).rejects.toThrow(/already been used by this customer/i);
+
+      await createBooking(bookingInput('0555000002', 'WELCOME10'));
+      await expect(quote('WELCOME10', '0555000003')).rejects.toThrow(/usage limit/i);
+    });
+
+    it('should give the use back when the booking is canceled', async () => {
+      await createCoupon(couponInput({ usage_limit: 1 }));
+      const booking = await createBooking(bookingInput('0555000001', 'WELCOME10'));
+
+      await expect(quote('WELCOME10')).rejects.toThrow(/usage limit/i);
+
+      await updateBooking({ id: Number(booking.booking_id), status: 'canceled' });
+
+      expect((await quote('WELCOME10')).coupon_discount).toEqual(15);
+    });
+  });
+
+  describe('admin', () => {
+    it('should report usage per coupon', async () => {
+      const used = await createCoupon(couponInput({ usage_limit: 5 }));
+      const unused = await createCoupon(couponInput({ code: 'SPARE' }));
+
+      await createBooking(bookingInput('0555000001', 'WELCOME10'));
+      const canceled = await createBooking(bookingInput('0555000002', 'WELCOME10'));
+      await updateBooking({ id: Number(canceled.booking_id), status: 'canceled' });
+
+      const stats = await getCouponStats();
+      const usedStats = stats.find(entry => entry.coupon.id === used.id)!;
+      expect(usedStats.redemptions).toEqual(1);
+      expect(usedStats.remaining_uses).toEqual(4);
+      expect(usedStats.customers).toEqual(1);
+      expect(usedStats.total_discount).toEqual(15);
+      expect(usedStats.last_redeemed_at).toBeInstanceOf(Date);
+
+      const unusedStats = stats.find(entry => entry.coupon.id === unused.id)!;
+      expect(unusedStats.redemptions).toEqual(0);
+      expect(unusedStats.last_redeemed_at).toBeNull();
+    });
+
+    it('should update coupons and only delete unredeemed ones', async () => {
+      const used = await createCoupon(couponInput());
+      const unused = await createCoupon(couponInput({ code: 'SPARE' }));
+      await createBooking(bookingInput('0555000001', 'WELCOME10'));
+
+      const updated = await updateCoupon({ id: used.id, value: 20, code: 'welcome20' });
+      expect(updated.value).toEqual(20);
+      expect(updated.code).toEqual('WELCOME20');
+      await expect(updateCoupon({ id: used.id, value: 120 })).rejects.toThrow(/cannot exceed 100/i);
+
+      expect(await deleteCoupon(unused.id)).toEqual({ success: true });
+      await expect(deleteCoupon(used.id)).rejects.toThrow(/end it instead/i);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { customersTable, bookingsTable, servicesTable, addonsTable, zonesTable } from '../db/schema';
+import { customersTable, bookingsTable, servicesTable, addonsTable, zonesTable, pricingRulesTable, bookingEventsTable, whatsappTemplatesTable, whatsappMessagesTable } from '../db/schema';
 import { type CreateBookingInput } from '../schema';
 import { createBooking } from '../handlers/create_booking';
 import { eq } from 'drizzle-orm';
@@ -95,8 +95,8 @@ describe('createBooking', () => {
       lng: 46.6753
     },
     scheduled_window: {
-      start: new Date('2024-12-20T10:00:00Z'),
-      end: new Date('2024-12-20T12:00:00Z')
+      start: new Date('2024-12-20T10:00:00+03:00'),
+      end: new Date('2024-12-20T12:30:00+03:00')
     },
     is_solo: false,
     ...overrides
@@ -111,7 +111,6 @@ describe('createBooking', () => {
     expect(typeof result.booking_id).toBe('string');
     expect(result.price_total).toBe(150); // Team price
     expect(result.wa_message_id).toBeDefined();
-    expect(result.wa_message_id.startsWith('wa_')).toBe(true);
 
     // Verify booking was saved to database
     const bookings = await db.select()
@@ -173,6 +172,40 @@ describe('createBooking', () => {
 
     expect(customers).toHaveLength(1);
     expect(customers[0].whatsapp_verified).toBe(true); // Original value preserved
+    expect(customers[0].preferred_language).toBe('ar');
+  });
+
+  it('should capture the preferred language of new customers', async () => {
+    const result = await createBooking(createTestInput({
+      customer: { name: 'Sarah Smith', phone: '+966507654321', preferred_language: 'en' }
+    }));
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .innerJoin(customersTable, eq(bookingsTable.customer_id, customersTable.id))
+      .where(eq(bookingsTable.id, parseInt(result.booking_id)))
+      .execute();
+
+    expect(bookings[0].customers.preferred_language).toBe('en');
+  });
+
+  it('should update the preferred language of returning customers', async () => {
+    await createBooking(createTestInput());
+    await createBooking(createTestInput({
+      customer: { name: 'Ahmed Al-Rashid', phone: '+966501234567', preferred_language: 'en' },
+      scheduled_window: {
+        start: new Date('2024-12-20T13:00:00+03:00'),
+        end: new Date('2024-12-20T14:30:00+03:00')
+      }
+    }));
+
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.phone, '+966501234567'))
+      .execute();
+
+    expect(customers).toHaveLength(1);
+    expect(customers[0].preferred_language).toBe('en');
   });
 
   it('should calculate price with addons correctly', async () => {
@@ -232,8 +265,8 @@ describe('createBooking', () => {
   });
 
   it('should store scheduled window correctly', async () => {
-    const startTime = new Date('2024-12-20T14:00:00Z');
-    const endTime = new Date('2024-12-20T16:00:00Z');
+    const startTime = new Date('2024-12-20T14:00:00+03:00');
+    const endTime = new Date('2024-12-20T16:00:00+03:00');
 
     const input = createTestInput({
       scheduled_window: {
@@ -305,4 +338,179 @@ describe('createBooking', () => {
 
     expect(bookings[0].status).toBe('confirmed');
   });
-});
\ No newline at end of file
+
+  it('should price the booking with the pricing engine rules', async () => {
+    await db.insert(pricingRulesTable)
+      .values({
+        key: 'car_type_multipliers',
+        value_json: JSON.stringify({ sedan: 1, suv: 1.2, pickup: 1.3 }),
+        enabled: true
+      })
+      .execute();
+
+    const input = createTestInput({
+      car_type: 'suv',
+      addons: [testAddonIds[0]]
+    });
+
+    const result = await createBooking(input);
+
+    // (Team price 150 + addon 25) * 1.2 = 210
+    expect(result.price_total).toBe(210);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, parseInt(result.booking_id)))
+      .execute();
+
+    expect(parseFloat(bookings[0].price_total)).toBe(210);
+  });
+
+  it('should charge the distance fee for locations outside the free radius', async () => {
+    await db.insert(pricingRulesTable)
+      .values({
+        key: 'distance_fee',
+        value_json: JSON.stringify({ free_radius_km: 5, fee_per_km: 2 }),
+        enabled: true
+      })
+      .execute();
+
+    const input = createTestInput({
+      // Roughly 11km north of the zone center
+      geo_point: { lat: 24.8136, lng: 46.6753 }
+    });
+
+    const result = await createBooking(input);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, parseInt(result.booking_id)))
+      .execute();
+
+    const distanceFee = parseFloat(bookings[0].distance_fee);
+    expect(distanceFee).toBeGreaterThan(10);
+    expect(distanceFee).toBeLessThan(14);
+    expect(result.price_total).toBeCloseTo(150 + distanceFee, 2);
+  });
+
+  it('should reject windows outside operating hours', async () => {
+    const input = createTestInput({
+      scheduled_window: {
+        start: new Date('2024-12-20T05:00:00+03:00'),
+        end: new Date('2024-12-20T06:30:00+03:00')
+      }
+    });
+
+    await expect(createBooking(input)).rejects.toThrow(/time slot is not available/i);
+
+    const bookings = await db.select().from(bookingsTable).execute();
+    expect(bookings).toHaveLength(0);
+  });
+
+  it('should reject windows too short for the service and its add-ons', async () => {
+    // 60 minutes of washing, 35 of add-ons and the 30-minute buffer don't fit in 90 minutes
+    const input = createTestInput({
+      addons: testAddonIds,
+      scheduled_window: {
+        start: new Date('2024-12-20T10:00:00+03:00'),
+        end: new Date('2024-12-20T11:30:00+03:00')
+      }
+    });
+
+    await expect(createBooking(input)).rejects.toThrow(/time slot is not available/i);
+  });
+
+  it('should reject bookings once the zone is at capacity', async () => {
+    for (let i = 0; i < 3; i++) {
+      await createBooking(createTestInput({
+        customer: { name: `Customer ${i}`, phone: `+96650000000${i}` }
+      }));
+    }
+
+    await expect(createBooking(createTestInput({
+      customer: { name: 'Late Customer', phone: '+966500000009' }
+    }))).rejects.toThrow(/time slot is not available/i);
+
+    // The rejected booking must not leave a customer behind
+    const customers = await db.select()
+      .from(customersTable)
+      .where(eq(customersTable.phone, '+966500000009'))
+      .execute();
+    expect(customers).toHaveLength(0);
+  });
+
+  it('should not let concurrent requests overbook the last slot', async () => {
+    for (let i = 0; i < 2; i++) {
+      await createBooking(createTestInput({
+        customer: { name: `Customer ${i}`, phone: `+96650000000${i}` }
+      }));
+    }
+
+    const results = await Promise.allSettled([
+      createBooking(createTestInput({ customer: { name: 'Racer A', phone: '+966500000011' } })),
+      createBooking(createTestInput({ customer: { name: 'Racer B', phone: '+966500000012' } }))
+    ]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(r => r.status === 'rejected')).toHaveLength(1);
+
+    const bookings = await db.select().from(bookingsTable).execute();
+    expect(bookings).toHaveLength(3);
+  });
+
+  it('should record the creation event in the booking history', async () => {
+    const result = await createBooking(createTestInput());
+
+    const events = await db.select()
+      .from(bookingEventsTable)
+      .where(eq(bookingEventsTable.booking_id, parseInt(result.booking_id)))
+      .execute();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].old_status).toBeNull();
+    expect(events[0].new_status).toBe('confirmed');
+    expect(events[0].actor).toBe('customer');
+  });
+
+  it('should send the WhatsApp confirmation and return its message id', async () => {
+    await db.insert(whatsappTemplatesTable)
+      .values({
+        key: 'booking_confirmation',
+        body_ar: 'مرحبا {{name}}، تم تأكيد حجزك لخدمة {{service}}',
+        body_en: 'Hello {{name}}, your booking for {{service}} is confirmed'
+      })
+      .execute();
+
+    const result = await createBooking(createTestInput());
+
+    expect(result.wa_message_id).toMatch(/^wam_/);
+
+    // The returned id points at the logged outbound message for this booking
+    const messages = await db.select()
+      .from(whatsappMessagesTable)
+      .where(eq(whatsappMessagesTable.message_id, result.wa_message_id))
+      .execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].booking_id).toBe(parseInt(result.booking_id));
+    expect(messages[0].template_key).toBe('booking_confirmation');
+    expect(messages[0].status).toBe('sent');
+  });
+
+  it('should keep the booking when the WhatsApp confirmation fails', async () => {
+    // No templates exist, so the confirmation cannot be sent
+    const result = await createBooking(createTestInput());
+
+    const messages = await db.select()
+      .from(whatsappMessagesTable)
+      .where(eq(whatsappMessagesTable.message_id, result.wa_message_id))
+      .execute();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].status).toBe('failed');
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, parseInt(result.booking_id)))
+      .execute();
+    expect(bookings).toHaveLength(1);
+  });
+});
@@ -10,7 +10,8 @@ import { eq } from 'drizzle-orm';
 const testInput: CreateCustomerInput = {
   name: 'Ahmed Mohammed',
   phone: '+966501234567',
-  whatsapp_verified: false
+  whatsapp_verified: false,
+  preferred_language: 'ar'
 };
 
 // Test input with defaults
@@ -42,10 +43,18 @@ describe('createCustomer', () => {
     expect(result.name).toEqual('Sara Ali');
     expect(result.phone).toEqual('+966507654321');
     expect(result.whatsapp_verified).toEqual(false); // Should use default
+    expect(result.preferred_language).toEqual('ar'); // Should use default
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
   });
 
+  it('should store the preferred language', async () => {
+    const result = await createCustomer({ ...testInput, preferred_language: 'en' });
+
+    expect(result.preferred_language).toEqual('en');
+    expect((await findCustomerByPhone(testInput.phone))?.preferred_language).toEqual('en');
+  });
+
   it('should save customer to database', async () => {
     const result = await createCustomer(testInput);
 
@@ -70,7 +79,8 @@ describe('createCustomer', () => {
     const duplicateInput: CreateCustomerInput = {
       name: 'Different Name',
       phone: '+966501234567', // Same phone
-      whatsapp_verified: true
+      whatsapp_verified: true,
+      preferred_language: 'ar'
     };
 
     const secondCustomer = await createCustomer(duplicateInput);
@@ -93,7 +103,8 @@ describe('createCustomer', () => {
     const verifiedInput: CreateCustomerInput = {
       name: 'Verified User',
       phone: '+966509876543',
-      whatsapp_verified: true
+      whatsapp_verified: true,
+      preferred_language: 'ar'
     };
 
     const result = await createCustomer(verifiedInput);
@@ -134,13 +145,15 @@ describe('findCustomerByPhone', () => {
     await createCustomer({
       name: 'Customer 1',
       phone: '+966501111111',
-      whatsapp_verified: false
+      whatsapp_verified: false,
+      preferred_language: 'ar'
     });
 
     await createCustomer({
       name: 'Customer 2',
       phone: '+966502222222',
-      whatsapp_verified: true
+      whatsapp_verified: true,
+      preferred_language: 'ar'
     });
 
     // Find specific customer
@@ -162,7 +175,8 @@ describe('verifyCustomerWhatsApp', () => {
     const customer = await createCustomer({
       name: 'Test Customer',
       phone: '+966501111111',
-      whatsapp_verified: false
+      whatsapp_verified: false,
+      preferred_language: 'ar'
     });
 
     expect(customer.whatsapp_verified).toEqual(false);
@@ -187,7 +201,8 @@ describe('verifyCustomerWhatsApp', () => {
     const customer = await createCustomer({
       name: 'Already Verified',
       phone: '+966502222222',
-      whatsapp_verified: true
+      whatsapp_verified: true,
+      preferred_language: 'ar'
     });
 
     expect(customer.whatsapp_verified).toEqual(true);
@@ -207,7 +222,8 @@ describe('verifyCustomerWhatsApp', () => {
     await createCustomer({
       name: 'Database Test',
       phone: '+966503333333',
-      whatsapp_verified: false
+      whatsapp_verified: false,
+      preferred_language: 'ar'
     });
 
     // Verify WhatsApp
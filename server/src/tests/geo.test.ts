@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test';
+import { estimateTravelMinutes, getZoneCoordinates, haversineDistanceKm, parseGeoPoint } from '../handlers/geo';
+
+const riyadh = { lat: 24.7136, lng: 46.6753 };
+
+describe('geo helpers', () => {
+  describe('haversineDistanceKm', () => {
+    it('should measure great-circle distance', () => {
+      // Riyadh to Jeddah is roughly 845 km as the crow flies
+      expect(haversineDistanceKm(riyadh.lat, riyadh.lng, 21.5433, 39.1728)).toBeCloseTo(845, -1);
+      expect(haversineDistanceKm(riyadh.lat, riyadh.lng, riyadh.lat, riyadh.lng)).toEqual(0);
+    });
+  });
+
+  describe('estimateTravelMinutes', () => {
+    it('should estimate driving time with parking', () => {
+      // ~10 km straight line: 13 km by road at 30 km/h plus parking
+      const minutes = estimateTravelMinutes(riyadh, { lat: riyadh.lat + 0.09, lng: riyadh.lng });
+
+      expect(minutes).toBeGreaterThanOrEqual(30);
+      expect(minutes).toBeLessThanOrEqual(32);
+    });
+
+    it('should not charge travel for the same address', () => {
+      expect(estimateTravelMinutes(riyadh, riyadh)).toEqual(0);
+    });
+  });
+
+  describe('parseGeoPoint', () => {
+    it('should parse lat/lng JSON and reject anything else', () => {
+      expect(parseGeoPoint(JSON.stringify(riyadh))).toEqual(riyadh);
+      expect(parseGeoPoint('{"lat":"24"}')).toBeNull();
+      expect(parseGeoPoint('not json')).toBeNull();
+    });
+  });
+
+  describe('getZoneCoordinates', () => {
+    it('should read centre points', () => {
+      expect(getZoneCoordinates(JSON.stringify(riyadh))).toEqual(riyadh);
+      expect(getZoneCoordinates(JSON.stringify({ type: 'center', ...riyadh, radius: 5 }))).toEqual(riyadh);
+      expect(getZoneCoordinates(JSON.stringify({ center: riyadh }))).toEqual(riyadh);
+    });
+
+    it('should use the middle of a polygon', () => {
+      const polygon = {
+        type: 'polygon',
+        coordinates: [{ lat: 24, lng: 46 }, { lat: 24, lng: 47 }, { lat: 25, lng: 47 }, { lat: 25, lng: 46 }]
+      };
+
+      expect(getZoneCoordinates(JSON.stringify(polygon))).toEqual({ lat: 24.5, lng: 46.5 });
+    });
+
+    it('should return null for unusable geometry', () => {
+      expect(getZoneCoordinates('not json')).toBeNull();
+      expect(getZoneCoordinates(JSON.stringify({ type: 'polygon', coordinates: [] }))).toBeNull();
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   calculateMarketingKPIs
 } from '../handlers/kpi_reports';
 import { eq, gte, lte, between, and } from 'drizzle-orm';
+import { fromDateKey } from '../handlers/business_time';
 
 const testKPIInput: CreateKPIsDailyInput = {
   date: new Date('2024-01-15'),
@@ -29,7 +30,7 @@ describe('KPI Reports Handler', () => {
     it('should record daily KPI metrics', async () => {
       const result = await recordDailyKPIs(testKPIInput);
 
-      expect(result.date).toEqual(testKPIInput.date);
+      expect(result.date).toEqual(fromDateKey('2024-01-15'));
       expect(result.bookings).toEqual(25);
       expect(result.aov).toEqual(145.50);
       expect(result.cpl).toEqual(18.75);
@@ -56,6 +57,15 @@ describe('KPI Reports Handler', () => {
       expect(kpis[0].addons_ratio).toEqual(0.4);
     });
 
+    it('should file KPIs under the business day rather than the UTC date', async () => {
+      // 22:00 UTC on the 14th is 01:00 on the 15th in Riyadh
+      const result = await recordDailyKPIs({ ...testKPIInput, date: new Date('2024-01-14T22:00:00Z') });
+
+      expect(result.date).toEqual(fromDateKey('2024-01-15'));
+      const stored = await db.select().from(kpisDailyTable).execute();
+      expect(stored.map(kpi => kpi.date)).toEqual(['2024-01-15']);
+    });
+
     it('should update existing KPI record for same date', async () => {
       // Create initial record
       await recordDailyKPIs(testKPIInput);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'bun:test';
+import { calculatePrayerTimes, getPrayerPauses } from '../handlers/prayer_times';
+
+const riyadh = { lat: 24.7136, lng: 46.6753 };
+const MINUTE = 60 * 1000;
+
+// Published Umm al-Qura times are rounded to the minute, so allow a little drift
+const expectNear = (actual: Date, expected: string) => {
+    expect(Math.abs(actual.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(3 * MINUTE);
+};
+
+describe('Prayer times', () => {
+    describe('calculatePrayerTimes', () => {
+        it('should match the Umm al-Qura times for Riyadh in winter', () => {
+            const times = calculatePrayerTimes(new Date('2030-01-15T00:00:00+03:00'), riyadh);
+
+            expectNear(times.fajr, '2030-01-15T05:17:00+03:00');
+            expectNear(times.dhuhr, '2030-01-15T12:02:00+03:00');
+            expectNear(times.asr, '2030-01-15T15:06:00+03:00');
+            expectNear(times.maghrib, '2030-01-15T17:27:00+03:00');
+            expectNear(times.isha, '2030-01-15T18:57:00+03:00');
+        });
+
+        it('should match the Umm al-Qura times for Makkah in summer', () => {
+            const times = calculatePrayerTimes(new Date('2024-06-21T00:00:00+03:00'), { lat: 21.4225, lng: 39.8262 });
+
+            expectNear(times.fajr, '2024-06-21T04:12:00+03:00');
+            expectNear(times.dhuhr, '2024-06-21T12:22:00+03:00');
+            expectNear(times.asr, '2024-06-21T15:41:00+03:00');
+            expectNear(times.maghrib, '2024-06-21T19:07:00+03:00');
+            expectNear(times.isha, '2024-06-21T20:37:00+03:00');
+        });
+
+        it('should place isha 90 minutes after maghrib', () => {
+            const times = calculatePrayerTimes(new Date('2030-01-15T00:00:00+03:00'), riyadh);
+
+            expect(times.isha.getTime() - times.maghrib.getTime()).toEqual(90 * MINUTE);
+        });
+    });
+
+    describe('getPrayerPauses', () => {
+        it('should surround each prayer with the configured pause', () => {
+            const times = calculatePrayerTimes(new Date('2030-01-15T00:00:00+03:00'), riyadh);
+
+            const pauses = getPrayerPauses(times, 5, 30);
+
+            expect(pauses.map(pause => pause.prayer)).toEqual(['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']);
+            expect(pauses[1].start).toEqual(new Date(times.dhuhr.getTime() - 5 * MINUTE));
+            expect(pauses[1].end).toEqual(new Date(times.dhuhr.getTime() + 30 * MINUTE));
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { addonsTable, pricingRulesTable, servicesTable, zonesTable } from '../db/schema';
+import { createBookingInputSchema, setServiceCarTypePricesInputSchema } from '../schema';
+import { getPriceMatrix, setAddonCarTypePrices, setServiceCarTypePrices } from '../handlers/price_matrix';
+import { calculatePrice, type PriceCalculationInput } from '../handlers/calculate_price';
+
+describe('car type input', () => {
+  it('should accept the new car types in bookings', () => {
+    const booking = createBookingInputSchema.parse({
+      customer: { name: 'أحمد محمد', phone: '0555123456' },
+      service_id: 1,
+      car_type: 'motorcycle',
+      zone_id: 1,
+      address_text: 'الرياض - حي النخيل',
+      geo_point: { lat: 24.7136, lng: 46.6753 },
+      scheduled_window: { start: '2030-01-15T10:00:00+03:00', end: '2030-01-15T11:30:00+03:00' }
+    });
+
+    expect(booking.car_type).toEqual('motorcycle');
+  });
+
+  it('should reject two prices for one car type', () => {
+    expect(() => setServiceCarTypePricesInputSchema.parse({
+      service_id: 1,
+      prices: [
+        { car_type: 'van', price_team: 200, price_solo: 150 },
+        { car_type: 'van', price_team: 210, price_solo: 160 }
+      ]
+    })).toThrow(/only have one price/i);
+  });
+});
+
+describe('price matrix', () => {
+  let zoneId: number;
+  let serviceId: number;
+  let waxId: number;
+  let interiorId: number;
+
+  const priceInput = (overrides: Partial<PriceCalculationInput> = {}): PriceCalculationInput => ({
+    service_id: serviceId,
+    addons: [waxId, interiorId],
+    car_type: 'suv',
+    zone_id: zoneId,
+    geo_point: { lat: 24.7136, lng: 46.6753 },
+    is_solo: false,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'ceramic-coating',
+        name_ar: 'حماية سيراميك',
+        name_en: 'Ceramic Coating',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 120,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+
+    const addons = await db.insert(addonsTable)
+      .values([
+        {
+          slug: 'wax',
+          name_ar: 'تلميع',
+          name_en: 'Wax',
+          desc_ar: 'تلميع وشمع',
+          desc_en: 'Wax and polish',
+          price: '20.00',
+          est_minutes: 15,
+          order: 1,
+          visible: true
+        },
+        {
+          slug: 'interior',
+          name_ar: 'تنظيف داخلي',
+          name_en: 'Interior',
+          desc_ar: 'تنظيف داخلي شامل',
+          desc_en: 'Interior cleaning',
+          price: '30.00',
+          est_minutes: 20,
+          order: 2,
+          visible: true
+        }
+      ])
+      .returning()
+      .execute();
+    waxId = addons[0].id;
+    interiorId = addons[1].id;
+
+    await db.insert(pricingRulesTable)
+      .values({ key: 'car_type_multipliers', value_json: JSON.stringify({ suv: 1.2, van: 1.5 }), enabled: true })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should prefer explicit prices and fall back to the multiplier', async () => {
+    await setServiceCarTypePrices({ service_id: serviceId, prices: [{ car_type: 'suv', price_team: 180, price_solo: 150 }] });
+    await setAddonCarTypePrices({ addon_id: waxId, prices: [{ car_type: 'suv', price: 35 }] });
+
+    const suv = await calculatePrice(priceInput());
+    expect(suv.base_price).toEqual(180);
+    expect(suv.addons_total).toEqual(71); // explicit 35 for the wax, 30 * 1.2 for the interior
+    expect(suv.total_price).toEqual(251);
+    expect(suv.estimated_duration).toEqual(155);
+
+    expect((await calculatePrice(priceInput({ is_solo: true }))).base_price).toEqual(150);
+
+    // A van has no explicit prices yet, so the multiplier applies to everything
+    const van = await calculatePrice(priceInput({ car_type: 'van' }));
+    expect(van.base_price).toEqual(150);
+    expect(van.addons_total).toEqual(75);
+  });
+
+  it('should replace the prices of a service and reject unknown ones', async () => {
+    await setServiceCarTypePrices({ service_id: serviceId, prices: [{ car_type: 'suv', price_team: 180, price_solo: 150 }] });
+    const prices = await setServiceCarTypePrices({
+      service_id: serviceId,
+      prices: [{ car_type: 'motorcycle', price_team: 60, price_solo: 45 }]
+    });
+
+    expect(prices).toEqual([{ service_id: serviceId, car_type: 'motorcycle', price_team: 60, price_solo: 45 }]);
+    expect((await calculatePrice(priceInput({ addons: [] }))).base_price).toEqual(120);
+
+    await expect(setServiceCarTypePrices({ service_id: serviceId + 100, prices: [] })).rejects.toThrow(/not found/i);
+    await expect(setAddonCarTypePrices({ addon_id: interiorId + 100, prices: [] })).rejects.toThrow(/not found/i);
+  });
+
+  it('should show the effective price of every car type', async () => {
+    await setServiceCarTypePrices({ service_id: serviceId, prices: [{ car_type: 'motorcycle', price_team: 60, price_solo: 45 }] });
+
+    const matrix = await getPriceMatrix();
+
+    expect(matrix.services).toHaveLength(1);
+    expect(matrix.services[0].prices).toEqual([
+      { car_type: 'sedan', price_team: 100, price_solo: 80, explicit: false },
+      { car_type: 'suv', price_team: 120, price_solo: 96, explicit: false },
+      { car_type: 'pickup', price_team: 100, price_solo: 80, explicit: false },
+      { car_type: 'van', price_team: 150, price_solo: 120, explicit: false },
+      { car_type: 'motorcycle', price_team: 60, price_solo: 45, explicit: true }
+    ]);
+    expect(matrix.addons.map(addon => addon.prices.find(price => price.car_type === 'van')?.price)).toEqual([30, 45]);
+  });
+});
@@ -0,0 +1,257 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, priceQuotesTable, servicesTable, zoneSchedulesTable, zonesTable } from '../db/schema';
+import { type CreateBookingInput } from '../schema';
+import {
+  createPriceQuote,
+  getQuoteConversionStats,
+  getQuoteMismatches,
+  getQuoteTtlMinutes,
+  type PriceQuoteInput
+} from '../handlers/price_quotes';
+import { createBooking } from '../handlers/create_booking';
+import { eq } from 'drizzle-orm';
+
+const MINUTE = 60 * 1000;
+
+const window = {
+  start: new Date('2030-01-15T10:00:00+03:00'),
+  end: new Date('2030-01-15T11:30:00+03:00')
+};
+
+const bookingInput = (overrides: Partial<CreateBookingInput> = {}): CreateBookingInput => ({
+  customer: { name: 'أحمد محمد', phone: '0555123456' },
+  service_id: 1,
+  addons: [],
+  car_type: 'sedan',
+  zone_id: 1,
+  address_text: 'الرياض - حي النخيل',
+  geo_point: { lat: 24.7136, lng: 46.6753 },
+  scheduled_window: window,
+  is_solo: false,
+  ...overrides
+});
+
+describe('getQuoteMismatches', () => {
+  const quote: typeof priceQuotesTable.$inferSelect = {
+    id: 1,
+    service_id: 1,
+    addons: [3, 2],
+    car_type: 'sedan',
+    zone_id: 1,
+    geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+    is_solo: false,
+    customer_phone: null,
+    coupon_code: 'WELCOME10',
+    window_start: window.start,
+    window_end: window.end,
+    breakdown: {
+      base_price: 100,
+      addons_total: 0,
+      distance_fee: 0,
+      surge_multiplier: 1,
+      surge_adjustment: 0,
+      total_price: 100,
+      estimated_duration: 60,
+      subscription_discount: 0,
+      subscription_id: null,
+      coupon_discount: 0,
+      coupon_id: null
+    },
+    total_price: '100.00',
+    expires_at: new Date('2030-01-10T10:15:00+03:00'),
+    booking_id: null,
+    converted_at: null,
+    created_at: new Date('2030-01-10T10:00:00+03:00')
+  };
+
+  it('should accept the booking the quote was made for', () => {
+    // Add-on order and coupon spelling don't matter; anonymous quotes hold for any customer
+    expect(getQuoteMismatches(quote, bookingInput({ addons: [2, 3], coupon_code: ' welcome10' }))).toEqual([]);
+  });
+
+  it('should list what changed since the quote', () => {
+    expect(getQuoteMismatches(quote, bookingInput({
+      addons: [2],
+      car_type: 'suv',
+      scheduled_window: { start: new Date('2030-01-15T12:00:00+03:00'), end: new Date('2030-01-15T13:30:00+03:00') }
+    }))).toEqual(['addons', 'car_type', 'coupon_code', 'scheduled_window']);
+
+    expect(getQuoteMismatches({ ...quote, addons: [], coupon_code: null, customer_phone: '0555000009' }, bookingInput()))
+      .toEqual(['customer']);
+  });
+
+  it('should read the quote lifetime from the environment', () => {
+    const original = process.env['PRICE_QUOTE_TTL_MINUTES'];
+    try {
+      delete process.env['PRICE_QUOTE_TTL_MINUTES'];
+      expect(getQuoteTtlMinutes()).toEqual(15);
+      process.env['PRICE_QUOTE_TTL_MINUTES'] = 'soon';
+      expect(() => getQuoteTtlMinutes()).toThrow(/Invalid PRICE_QUOTE_TTL_MINUTES/);
+    } finally {
+      if (original === undefined) {
+        delete process.env['PRICE_QUOTE_TTL_MINUTES'];
+      } else {
+        process.env['PRICE_QUOTE_TTL_MINUTES'] = original;
+      }
+    }
+  });
+});
+
+describe('price quotes', () => {
+  let zoneId: number;
+  let serviceId: number;
+
+  const quoteInput = (): PriceQuoteInput => ({
+    service_id: serviceId,
+    addons: [],
+    car_type: 'sedan',
+    zone_id: zoneId,
+    geo_point: { lat: 24.7136, lng: 46.6753 },
+    is_solo: false,
+    customer_phone: '0555123456',
+    scheduled_window: window
+  });
+
+  const book = (quote_id: number, overrides: Partial<CreateBookingInput> = {}) =>
+    createBooking(bookingInput({ service_id: serviceId, zone_id: zoneId, quote_id, ...overrides }));
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    await db.insert(zoneSchedulesTable)
+      .values({
+        zone_id: zoneId,
+        weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+        team_capacity: 5,
+        slot_minutes: 90,
+        interval_minutes: 60,
+        buffer_minutes: 30
+      })
+      .execute();
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should book at the quoted price after the price changes', async () => {
+    const quote = await createPriceQuote(quoteInput());
+
+    expect(quote.total_price).toEqual(100);
+    expect(quote.expires_at.getTime()).toBeGreaterThan(Date.now() + 14 * MINUTE);
+
+    await db.update(servicesTable)
+      .set({ base_price_team: '120.00' })
+      .where(eq(servicesTable.id, serviceId))
+      .execute();
+
+    const result = await book(quote.quote_id);
+    expect(result.price_total).toEqual(100);
+
+    const stored = await db.select()
+      .from(priceQuotesTable)
+      .where(eq(priceQuotesTable.id, quote.quote_id))
+      .execute();
+    expect(stored[0].booking_id).toEqual(Number(result.booking_id));
+    expect(stored[0].breakdown.base_price).toEqual(100);
+
+    // Without a quote the current price applies
+    const unquoted = await createBooking(bookingInput({ service_id: serviceId, zone_id: zoneId }));
+    expect(unquoted.price_total).toEqual(120);
+  });
+
+  it('should only quote a slot the customer could book', async () => {
+    const { scheduled_window, ...input } = quoteInput();
+    await expect(createPriceQuote(input as PriceQuoteInput)).rejects.toThrow(/choose a time slot/i);
+
+    const at = (start: string, end: string) => ({
+      ...quoteInput(),
+      scheduled_window: { start: new Date(`2030-01-15T${start}:00+03:00`), end: new Date(`2030-01-15T${end}:00+03:00`) }
+    });
+    await expect(createPriceQuote(at('11:30', '10:00'))).rejects.toThrow(/not available/i);
+    await expect(createPriceQuote(at('10:15', '11:45'))).rejects.toThrow(/not available/i); // off the hourly grid
+    await expect(createPriceQuote(at('17:00', '18:30'))).rejects.toThrow(/not available/i); // past closing
+    await expect(createPriceQuote(at('10:00', '10:30'))).rejects.toThrow(/not available/i); // too short for the job
+
+    expect(await db.select().from(priceQuotesTable).execute()).toHaveLength(0);
+  });
+
+  it('should refuse expired, used and mismatched quotes', async () => {
+    const expired = await createPriceQuote(quoteInput(), new Date(Date.now() - 20 * MINUTE));
+    await expect(book(expired.quote_id)).rejects.toThrow(/has expired/i);
+
+    const quote = await createPriceQuote(quoteInput());
+    await expect(book(quote.quote_id, { car_type: 'pickup' })).rejects.toThrow(/does not match the booking \(car_type\)/i);
+    await expect(book(quote.quote_id, { customer: { name: 'سارة علي', phone: '0555000009' } }))
+      .rejects.toThrow(/customer/i);
+
+    await book(quote.quote_id);
+    await expect(book(quote.quote_id)).rejects.toThrow(/already been booked/i);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .execute();
+    expect(bookings).toHaveLength(1);
+  });
+
+  it('should let only one of two racing bookings use a quote', async () => {
+    const quote = await createPriceQuote(quoteInput());
+
+    const results = await Promise.allSettled([book(quote.quote_id), book(quote.quote_id)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(String(rejected.reason)).toMatch(/already been booked/i);
+    expect(await db.select().from(bookingsTable).execute()).toHaveLength(1);
+  });
+
+  it('should report how many quotes turned into bookings', async () => {
+    const now = new Date();
+    const booked = await createPriceQuote(quoteInput());
+    await createPriceQuote({ ...quoteInput(), is_solo: true });
+    await createPriceQuote(quoteInput(), new Date(now.getTime() - 20 * MINUTE));
+    await book(booked.quote_id);
+
+    const stats = await getQuoteConversionStats({
+      from: new Date(now.getTime() - 60 * MINUTE),
+      to: new Date(now.getTime() + 60 * MINUTE)
+    });
+
+    expect(stats).toMatchObject({ quotes: 3, converted: 1, expired: 1, open: 1, conversion_rate: 0.3333 });
+    expect(stats.average_quoted_price).toEqual(93.33);
+    expect(stats.average_converted_price).toEqual(100);
+    expect(stats.by_service).toEqual([{ service_id: serviceId, quotes: 3, converted: 1, conversion_rate: 0.3333 }]);
+
+    const otherZone = await getQuoteConversionStats({ from: new Date(now.getTime() - 60 * MINUTE), to: now, zone_id: zoneId + 1 });
+    expect(otherZone.quotes).toEqual(0);
+    expect(otherZone.conversion_rate).toEqual(0);
+  });
+});
@@ -6,8 +6,15 @@ import { type CreatePricingRuleInput } from '../schema';
 import { 
   getPricingRules, 
   createPricingRule, 
+  updatePricingRule,
   getPricingRuleByKey, 
-  calculateDistanceFee 
+  calculateDistanceFee,
+  computeTimeMultiplier,
+  computeUtilisationMultiplier,
+  loadPricingRule,
+  parsePricingRuleValue,
+  assertStoredPricingRulesValid,
+  computeZoneDistanceFee
 } from '../handlers/pricing_rules';
 import { eq } from 'drizzle-orm';
 
@@ -64,8 +71,8 @@ describe('createPricingRule', () => {
 
   it('should create rule with default enabled value', async () => {
     const input: CreatePricingRuleInput = {
-      key: 'surge_pricing',
-      value_json: JSON.stringify({ multiplier: 1.5 }),
+      key: 'car_type_multipliers',
+      value_json: JSON.stringify({ suv: 1.2, pickup: 1.5 }),
       enabled: true
     };
 
@@ -76,8 +83,8 @@ describe('createPricingRule', () => {
 
   it('should create rule with enabled false', async () => {
     const input: CreatePricingRuleInput = {
-      key: 'holiday_surcharge',
-      value_json: JSON.stringify({ rate: 0.1 }),
+      key: 'car_type_multipliers',
+      value_json: JSON.stringify({ pickup: 1.5 }),
       enabled: false
     };
 
@@ -87,6 +94,106 @@ describe('createPricingRule', () => {
   });
 });
 
+describe('pricing rule validation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should parse values with the schema for their key', () => {
+    expect(parsePricingRuleValue('distance_fee', JSON.stringify({ fee_per_km: 3 })))
+      .toEqual({ free_radius_km: 5, fee_per_km: 3 });
+    expect(parsePricingRuleValue('car_type_multipliers', JSON.stringify({ suv: 1.2 })))
+      .toEqual({ sedan: 1, suv: 1.2, pickup: 1, van: 1, motorcycle: 1 });
+
+    // Rules written with the old field name keep working
+    expect(parsePricingRuleValue('distance_fee', testPricingRuleInput.value_json))
+      .toEqual({ free_radius_km: 5, fee_per_km: 2.5, max_fee: 50 });
+  });
+
+  it('should reject invalid JSON, unknown keys and bad values', async () => {
+    await expect(createPricingRule({ key: 'distance_fee', value_json: 'invalid json', enabled: true }))
+      .rejects.toThrow(/not valid JSON/i);
+    await expect(createPricingRule({ key: 'distance_fee', value_json: JSON.stringify({ fee_per_km: -1 }), enabled: true }))
+      .rejects.toThrow(/fee_per_km/);
+    await expect(createPricingRule({ key: 'distance_fee', value_json: JSON.stringify({ fee_per_km: 2, feeCap: 10 }), enabled: true }))
+      .rejects.toThrow(/feeCap/);
+    expect(() => parsePricingRuleValue('holiday_surcharge', '{}')).toThrow(/unknown pricing rule/i);
+
+    expect(await getPricingRules()).toEqual([]);
+  });
+
+  it('should validate updates against the rule\'s key', async () => {
+    const rule = await createPricingRule(testPricingRuleInput);
+
+    await expect(updatePricingRule({ id: rule.id, value_json: JSON.stringify({ suv: 1.2 }) }))
+      .rejects.toThrow(/suv/);
+
+    const updated = await updatePricingRule({ id: rule.id, value_json: JSON.stringify({ fee_per_km: 4 }), enabled: false });
+    expect(updated.value_json).toEqual(JSON.stringify({ fee_per_km: 4 }));
+    expect(updated.enabled).toEqual(false);
+    expect(await loadPricingRule('distance_fee')).toBeNull();
+
+    await updatePricingRule({ id: rule.id, enabled: true });
+    expect(await loadPricingRule('distance_fee')).toEqual({ free_radius_km: 5, fee_per_km: 4 });
+  });
+
+  it('should fail loudly on stored rules that no longer parse', async () => {
+    // Written straight to the table, as rules saved before validation existed may be
+    const stored = await db.insert(pricingRulesTable)
+      .values([
+        { key: 'car_type_multipliers', value_json: JSON.stringify({ suv: 1.2, truck: 2 }), enabled: true },
+        { key: 'distance_fee', value_json: JSON.stringify({ fee_per_km: -1 }), enabled: false }
+      ])
+      .returning()
+      .execute();
+
+    await expect(loadPricingRule('car_type_multipliers')).rejects.toThrow(/invalid pricing rule 'car_type_multipliers'/i);
+    await expect(assertStoredPricingRulesValid()).rejects.toThrow(new RegExp(`#${stored[0].id}: .*truck`));
+
+    // Disabled rules don't price anything, but can't be switched back on as they are
+    await expect(updatePricingRule({ id: stored[1].id, enabled: true })).rejects.toThrow(/fee_per_km/);
+
+    await updatePricingRule({ id: stored[0].id, enabled: false });
+    await assertStoredPricingRulesValid();
+  });
+});
+
+describe('surge multipliers', () => {
+  // 2030-01-15 is a Tuesday, 2030-01-18 a Friday
+  const timeRule = parsePricingRuleValue('time_multipliers', JSON.stringify({
+    windows: [
+      { start: '07:00', end: '10:00', multiplier: 0.9 },
+      { start: '17:00', end: '21:00', multiplier: 1.2 },
+      { weekdays: [5, 6], start: '08:00', end: '22:00', multiplier: 1.1 }
+    ]
+  }));
+
+  it('should multiply every window the slot starts in', () => {
+    expect(computeTimeMultiplier(timeRule, new Date('2030-01-15T08:00:00+03:00'))).toEqual(0.9);
+    expect(computeTimeMultiplier(timeRule, new Date('2030-01-15T12:00:00+03:00'))).toEqual(1);
+    expect(computeTimeMultiplier(timeRule, new Date('2030-01-18T18:00:00+03:00'))).toBeCloseTo(1.32);
+
+    // Window ends are exclusive
+    expect(computeTimeMultiplier(timeRule, new Date('2030-01-15T10:00:00+03:00'))).toEqual(1);
+  });
+
+  it('should apply the highest utilisation tier reached', () => {
+    const rule = parsePricingRuleValue('utilisation_multipliers', JSON.stringify({
+      tiers: [{ min_utilisation: 0.8, multiplier: 1.25 }, { min_utilisation: 0.5, multiplier: 1.1 }]
+    }));
+
+    expect(computeUtilisationMultiplier(rule, 0.3)).toEqual(1);
+    expect(computeUtilisationMultiplier(rule, 0.5)).toEqual(1.1);
+    expect(computeUtilisationMultiplier(rule, 0.9)).toEqual(1.25);
+  });
+
+  it('should reject windows that end before they start', () => {
+    expect(() => parsePricingRuleValue('time_multipliers', JSON.stringify({
+      windows: [{ start: '21:00', end: '17:00', multiplier: 1.2 }]
+    }))).toThrow(/end after they start/i);
+    expect(() => parsePricingRuleValue('utilisation_multipliers', JSON.stringify({ tiers: [] }))).toThrow(/tiers/);
+  });
+});
+
 describe('getPricingRules', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -101,8 +208,8 @@ describe('getPricingRules', () => {
     // Create multiple test rules
     await createPricingRule(testPricingRuleInput);
     await createPricingRule({
-      key: 'surge_pricing',
-      value_json: JSON.stringify({ multiplier: 1.5 }),
+      key: 'car_type_multipliers',
+      value_json: JSON.stringify({ suv: 1.2, pickup: 1.5 }),
       enabled: false
     });
 
@@ -110,7 +217,7 @@ describe('getPricingRules', () => {
 
     expect(result).toHaveLength(2);
     expect(result.map(r => r.key)).toContain('distance_fee');
-    expect(result.map(r => r.key)).toContain('surge_pricing');
+    expect(result.map(r => r.key)).toContain('car_type_multipliers');
     
     // Verify all fields are present
     result.forEach(rule => {
@@ -147,15 +254,15 @@ describe('getPricingRuleByKey', () => {
   it('should return correct rule when multiple rules exist', async () => {
     await createPricingRule(testPricingRuleInput);
     await createPricingRule({
-      key: 'surge_pricing',
-      value_json: JSON.stringify({ multiplier: 1.5 }),
+      key: 'car_type_multipliers',
+      value_json: JSON.stringify({ suv: 1.2, pickup: 1.5 }),
       enabled: false
     });
 
-    const result = await getPricingRuleByKey('surge_pricing');
+    const result = await getPricingRuleByKey('car_type_multipliers');
 
     expect(result).not.toBeNull();
-    expect(result!.key).toEqual('surge_pricing');
+    expect(result!.key).toEqual('car_type_multipliers');
     expect(result!.enabled).toEqual(false);
   });
 });
@@ -234,18 +341,16 @@ describe('calculateDistanceFee', () => {
     expect(result).toBeLessThanOrEqual(50); // Should not exceed max fee
   });
 
-  it('should return default fee for non-existent zone', async () => {
+  it('should reject a non-existent zone', async () => {
     await createPricingRule(testPricingRuleInput);
 
-    const result = await calculateDistanceFee(
+    await expect(calculateDistanceFee(
       { lat: 24.7136, lng: 46.6753 },
       999 // Non-existent zone ID
-    );
-
-    expect(result).toEqual(10); // Default fee
+    )).rejects.toThrow(/not found/i);
   });
 
-  it('should handle invalid zone geometry gracefully', async () => {
+  it('should reject zone geometry it cannot measure from', async () => {
     await createPricingRule(testPricingRuleInput);
     
     // Create zone with invalid geometry data
@@ -257,32 +362,43 @@ describe('calculateDistanceFee', () => {
       .returning()
       .execute();
 
-    const result = await calculateDistanceFee(
+    await expect(calculateDistanceFee(
       { lat: 24.7136, lng: 46.6753 },
       invalidZoneResult[0].id
-    );
+    )).rejects.toThrow(/no center/i);
+  });
 
-    expect(result).toEqual(10); // Default fee for invalid geometry
+  it('should measure from every zone geometry the way pricing does', async () => {
+    const rule = parsePricingRuleValue('distance_fee', JSON.stringify({ free_radius_km: 0, fee_per_km: 1 }));
+    const onEquator = JSON.stringify({ lat: 0, lng: 46.6753 });
+
+    // A zero coordinate is a real coordinate, not a missing one
+    expect(computeZoneDistanceFee(rule, { lat: 0, lng: 46.6753 }, onEquator)).toEqual(0);
+    expect(computeZoneDistanceFee(rule, { lat: 0.1, lng: 46.6753 }, onEquator)).toBeCloseTo(11.12, 1);
+    expect(computeZoneDistanceFee(rule, { lat: 24.7136, lng: 46.6753 }, testZoneInput.polygon_or_center)).toEqual(0);
+    expect(() => computeZoneDistanceFee(rule, { lat: 24.7136, lng: 46.6753 }, JSON.stringify({ type: 'polygon', coordinates: [] })))
+      .toThrow(/no center/i);
   });
 
-  it('should handle invalid rule configuration gracefully', async () => {
-    await createPricingRule({
-      key: 'distance_fee',
-      value_json: 'invalid json',
-      enabled: true
-    });
+  it('should reject an invalid rule configuration instead of charging nothing', async () => {
+    // Written straight to the table, as rules saved before validation existed may be
+    await db.insert(pricingRulesTable)
+      .values({
+        key: 'distance_fee',
+        value_json: 'invalid json',
+        enabled: true
+      })
+      .execute();
     
     const zoneResult = await db.insert(zonesTable)
       .values(testZoneInput)
       .returning()
       .execute();
 
-    const result = await calculateDistanceFee(
+    await expect(calculateDistanceFee(
       { lat: 24.7136, lng: 46.6753 },
       zoneResult[0].id
-    );
-
-    expect(result).toEqual(0); // Return 0 for invalid configuration
+    )).rejects.toThrow(/not valid JSON/i);
   });
 
   it('should apply max fee limit correctly', async () => {
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { addonsTable, bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
+import { planRoutes, planTeamRoute, type PlannableStop } from '../handlers/route_planning';
+import { assignBookingToTeam } from '../handlers/booking_assignment';
+import { createTeam, setTeamShifts } from '../handlers/team_roster';
+import { businessDateTime } from '../handlers/business_time';
+
+const MINUTE = 60 * 1000;
+const home = { lat: 24.7136, lng: 46.6753 };
+// Points roughly 5 km apart heading north from the home zone
+const north = (steps: number) => ({ lat: home.lat + steps * 0.045, lng: home.lng });
+
+const at = (hour: number, minute: number = 0) => businessDateTime(2030, 1, 15, hour, minute);
+
+const stop = (booking_id: number, location: PlannableStop['location'], startHour: number, service_minutes: number = 60): PlannableStop => ({
+  booking_id,
+  location,
+  window_start: at(startHour),
+  window_end: at(startHour + 5),
+  service_minutes
+});
+
+describe('route planning', () => {
+  describe('planTeamRoute', () => {
+    it('should visit stops in the order that minimises travel', () => {
+      // Window order would zig-zag between the far and near stops
+      const stops = [stop(1, north(3), 9), stop(2, north(1), 9), stop(3, north(2), 9)];
+
+      const planned = planTeamRoute({ location: home, time: at(8) }, stops);
+
+      expect(planned.map(p => p.booking_id)).toEqual([2, 3, 1]);
+      expect(planned.every(p => !p.window_missed)).toBe(true);
+    });
+
+    it('should project arrival times and wait for windows to open', () => {
+      const planned = planTeamRoute({ location: home, time: at(8) }, [stop(1, north(1), 10, 45)]);
+
+      expect(planned[0].travel_minutes).toBeGreaterThan(0);
+      expect(planned[0].arrival.getTime()).toEqual(at(8).getTime() + planned[0].travel_minutes * MINUTE);
+      expect(planned[0].service_start).toEqual(at(10));
+      expect(planned[0].service_end).toEqual(at(10, 45));
+    });
+
+    it('should prefer meeting windows over shorter drives', () => {
+      const early = { ...stop(1, north(3), 8), window_end: at(10) };
+      const late = { ...stop(2, north(1), 8), window_end: at(13) };
+
+      const planned = planTeamRoute({ location: home, time: at(8) }, [late, early]);
+
+      expect(planned.map(p => p.booking_id)).toEqual([1, 2]);
+      expect(planned.some(p => p.window_missed)).toBe(false);
+    });
+
+    it('should flag windows that cannot be met', () => {
+      const first = { ...stop(1, north(1), 9, 120), window_end: at(11, 30) };
+      const second = { ...stop(2, north(4), 9, 60), window_end: at(11, 30) };
+
+      const planned = planTeamRoute({ location: home, time: at(9) }, [first, second]);
+
+      expect(planned.filter(p => p.window_missed)).toHaveLength(1);
+    });
+  });
+
+  describe('planRoutes', () => {
+    let zoneId: number;
+    let customerId: number;
+    let serviceId: number;
+
+    const insertBooking = async (location: { lat: number; lng: number }, startHour: number, overrides: Partial<typeof bookingsTable.$inferInsert> = {}) => {
+      const result = await db.insert(bookingsTable)
+        .values({
+          customer_id: customerId,
+          service_id: serviceId,
+          addons: [],
+          car_type: 'sedan',
+          zone_id: zoneId,
+          address_text: `Stop at ${location.lat}`,
+          geo_point: JSON.stringify(location),
+          scheduled_window_start: at(startHour),
+          scheduled_window_end: at(startHour + 1, 30),
+          status: 'confirmed',
+          price_total: '100.00',
+          is_solo: false,
+          distance_fee: '0.00',
+          ...overrides
+        })
+        .returning()
+        .execute();
+      return result[0].id;
+    };
+
+    beforeEach(async () => {
+      await createDB();
+
+      const zone = await db.insert(zonesTable)
+        .values({ name_ar: 'منطقة تجريبية', name_en: 'Test Zone', polygon_or_center: JSON.stringify(home), notes: null })
+        .returning()
+        .execute();
+      zoneId = zone[0].id;
+
+      const customer = await db.insert(customersTable)
+        .values({ name: 'أحمد محمد', phone: '0555123456', whatsapp_verified: true })
+        .returning()
+        .execute();
+      customerId = customer[0].id;
+
+      const service = await db.insert(servicesTable)
+        .values({
+          slug: 'test-service',
+          name_ar: 'غسيل شامل',
+          name_en: 'Full Wash',
+          desc_ar: 'وصف الخدمة',
+          desc_en: 'Service description',
+          base_price_team: '100.00',
+          base_price_solo: '80.00',
+          est_minutes: 60,
+          order: 1,
+          visible: true
+        })
+        .returning()
+        .execute();
+      serviceId = service[0].id;
+    });
+
+    afterEach(resetDB);
+
+    it('should build an itinerary per team and list unassigned bookings', async () => {
+      const crew = await createTeam({ name: 'Crew A', type: 'team', home_zone_id: zoneId });
+      // 2030-01-15 is a Tuesday
+      await setTeamShifts({ team_id: crew.id, shifts: [{ weekday: 2, start_time: '08:00', end_time: '18:00' }] });
+
+      const addon = await db.insert(addonsTable)
+        .values({ slug: 'wax', name_ar: 'شمع', name_en: 'Wax', desc_ar: 'شمع', desc_en: 'Wax', price: '20.00', est_minutes: 15 })
+        .returning()
+        .execute();
+
+      const far = await insertBooking(north(3), 9);
+      const near = await insertBooking(north(1), 11, { addons: [addon[0].id] });
+      const waiting = await insertBooking(north(2), 10);
+      await assignBookingToTeam({ booking_id: far, team_id: crew.id });
+      await assignBookingToTeam({ booking_id: near, team_id: crew.id });
+      await insertBooking(north(1), 12, { status: 'canceled' });
+
+      const plan = await planRoutes({ date: at(0) });
+
+      expect(plan.unassigned_booking_ids).toEqual([waiting]);
+      expect(plan.routes).toHaveLength(1);
+
+      const route = plan.routes[0];
+      expect(route.team_name).toEqual('Crew A');
+      expect(route.start_at).toEqual(at(8));
+      // The windows decide the order even though the near stop is closer to home
+      expect(route.stops.map(s => s.booking_id)).toEqual([far, near]);
+      expect(route.stops[0].service_start).toEqual(at(9));
+      expect(route.stops[1].service_minutes).toEqual(75);
+      expect(route.stops[0].customer_name).toEqual('أحمد محمد');
+      expect(route.total_travel_minutes).toEqual(route.stops[0].travel_minutes + route.stops[1].travel_minutes);
+      expect(route.missed_windows).toEqual(0);
+    });
+
+    it('should limit the plan to one team', async () => {
+      const crewA = await createTeam({ name: 'Crew A', type: 'team', home_zone_id: zoneId });
+      const crewB = await createTeam({ name: 'Crew B', type: 'team', home_zone_id: zoneId });
+      for (const team of [crewA, crewB]) {
+        await setTeamShifts({ team_id: team.id, shifts: [{ weekday: 2, start_time: '08:00', end_time: '18:00' }] });
+      }
+      await assignBookingToTeam({ booking_id: await insertBooking(north(1), 9), team_id: crewA.id });
+      await assignBookingToTeam({ booking_id: await insertBooking(north(2), 9), team_id: crewB.id });
+      await insertBooking(north(2), 10);
+
+      const plan = await planRoutes({ date: at(0), team_id: crewB.id });
+
+      expect(plan.routes.map(route => route.team_id)).toEqual([crewB.id]);
+      expect(plan.unassigned_booking_ids).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
+import {
+    createScheduleException,
+    deleteScheduleException,
+    getBookingsNeedingReschedule,
+    getScheduleExceptions
+} from '../handlers/schedule_calendar';
+import { getAvailableTimeSlots, validateTimeSlot } from '../handlers/time_slots';
+import { updateBooking } from '../handlers/update_booking';
+import { eq } from 'drizzle-orm';
+import { getBusinessDateParts } from '../handlers/business_time';
+
+const testZone = {
+    name_ar: 'منطقة الاختبار',
+    name_en: 'Test Zone',
+    polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+    notes: null
+};
+
+describe('Schedule calendar', () => {
+    let zoneId: number;
+    let otherZoneId: number;
+    let customerId: number;
+    let serviceId: number;
+
+    const insertBooking = async (start: Date, end: Date, overrides: Partial<typeof bookingsTable.$inferInsert> = {}) => {
+        const result = await db.insert(bookingsTable)
+            .values({
+                customer_id: customerId,
+                service_id: serviceId,
+                addons: [],
+                car_type: 'sedan',
+                zone_id: zoneId,
+                address_text: 'Test Address',
+                geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+                scheduled_window_start: start,
+                scheduled_window_end: end,
+                status: 'confirmed',
+                price_total: '100.00',
+                is_solo: false,
+                distance_fee: '0.00',
+                ...overrides
+            })
+            .returning()
+            .execute();
+        return result[0].id;
+    };
+
+    beforeEach(async () => {
+        await createDB();
+
+        const zone = await db.insert(zonesTable).values(testZone).returning().execute();
+        zoneId = zone[0].id;
+        const otherZone = await db.insert(zonesTable).values({ ...testZone, name_en: 'Other Zone' }).returning().execute();
+        otherZoneId = otherZone[0].id;
+
+        const customer = await db.insert(customersTable)
+            .values({ name: 'Test Customer', phone: '+966501234567', whatsapp_verified: true })
+            .returning()
+            .execute();
+        customerId = customer[0].id;
+
+        const service = await db.insert(servicesTable)
+            .values({
+                slug: 'basic-wash',
+                name_ar: 'غسيل أساسي',
+                name_en: 'Basic Wash',
+                desc_ar: 'وصف',
+                desc_en: 'Description',
+                base_price_team: '50.00',
+                base_price_solo: '40.00',
+                est_minutes: 60,
+                order: 1,
+                visible: true
+            })
+            .returning()
+            .execute();
+        serviceId = service[0].id;
+    });
+
+    afterEach(resetDB);
+
+    describe('slot generation', () => {
+        it('should close every zone on a global blackout', async () => {
+            await createScheduleException({ zone_id: null, name: 'Eid al-Fitr', start_date: '2030-03-05', end_date: '2030-03-07', hours: null });
+
+            expect(await getAvailableTimeSlots(zoneId, 60, new Date('2030-03-06T00:00:00+03:00'))).toHaveLength(0);
+            expect(await getAvailableTimeSlots(otherZoneId, 60, new Date('2030-03-07T00:00:00+03:00'))).toHaveLength(0);
+            expect(await validateTimeSlot(zoneId, new Date('2030-03-05T10:00:00+03:00'), new Date('2030-03-05T11:30:00+03:00'))).toBe(false);
+
+            // The day after the range is open again
+            expect((await getAvailableTimeSlots(zoneId, 60, new Date('2030-03-08T00:00:00+03:00'))).length).toBeGreaterThan(0);
+        });
+
+        it('should use seasonal hours for the date range', async () => {
+            await createScheduleException({
+                zone_id: null,
+                name: 'Ramadan evenings',
+                start_date: '2030-02-04',
+                end_date: '2030-03-04',
+                hours: { start: '20:00', end: '23:30' }
+            });
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, new Date('2030-02-10T00:00:00+03:00'));
+
+            expect(slots.map(slot => getBusinessDateParts(slot.start).hour)).toEqual([20, 21, 22]);
+            expect(await validateTimeSlot(zoneId, new Date('2030-02-10T10:00:00+03:00'), new Date('2030-02-10T11:30:00+03:00'))).toBe(false);
+            expect(await validateTimeSlot(zoneId, new Date('2030-02-10T21:00:00+03:00'), new Date('2030-02-10T22:30:00+03:00'))).toBe(true);
+        });
+
+        it('should let zone entries take precedence over global ones', async () => {
+            await createScheduleException({ zone_id: null, name: 'National Day', start_date: '2030-09-23', end_date: '2030-09-23', hours: null });
+            await createScheduleException({
+                zone_id: zoneId,
+                name: 'National Day event cover',
+                start_date: '2030-09-23',
+                end_date: '2030-09-23',
+                hours: { start: '10:00', end: '14:00' }
+            });
+
+            expect(await getAvailableTimeSlots(zoneId, 60, new Date('2030-09-23T00:00:00+03:00'))).toHaveLength(3);
+            expect(await getAvailableTimeSlots(otherZoneId, 60, new Date('2030-09-23T00:00:00+03:00'))).toHaveLength(0);
+        });
+    });
+
+    describe('createScheduleException', () => {
+        it('should flag confirmed bookings the change closes', async () => {
+            const inside = await insertBooking(new Date('2030-03-06T10:00:00+03:00'), new Date('2030-03-06T11:30:00+03:00'));
+            const otherZone = await insertBooking(new Date('2030-03-06T10:00:00+03:00'), new Date('2030-03-06T11:30:00+03:00'), { zone_id: otherZoneId });
+            const outside = await insertBooking(new Date('2030-03-08T10:00:00+03:00'), new Date('2030-03-08T11:30:00+03:00'));
+            await insertBooking(new Date('2030-03-06T12:00:00+03:00'), new Date('2030-03-06T13:30:00+03:00'), { status: 'canceled' });
+
+            const result = await createScheduleException(
+                { zone_id: zoneId, name: 'Eid al-Fitr', start_date: '2030-03-05', end_date: '2030-03-07', hours: null },
+                'owner@example.com'
+            );
+
+            expect(result.exception).toMatchObject({ zone_id: zoneId, name: 'Eid al-Fitr', hours: null, created_by: 'owner@example.com' });
+            expect(result.flagged_booking_ids).toEqual([inside]);
+
+            const flagged = await getBookingsNeedingReschedule();
+            expect(flagged.map(booking => booking.id)).toEqual([inside]);
+            expect(flagged.some(booking => booking.id === otherZone || booking.id === outside)).toBe(false);
+        });
+
+        it('should only flag bookings outside changed hours', async () => {
+            const morning = await insertBooking(new Date('2030-02-10T09:00:00+03:00'), new Date('2030-02-10T10:30:00+03:00'));
+            await insertBooking(new Date('2030-02-10T20:00:00+03:00'), new Date('2030-02-10T21:30:00+03:00'));
+
+            const result = await createScheduleException({
+                zone_id: null,
+                name: 'Ramadan evenings',
+                start_date: '2030-02-04',
+                end_date: '2030-03-04',
+                hours: { start: '20:00', end: '23:30' }
+            });
+
+            expect(result.flagged_booking_ids).toEqual([morning]);
+        });
+
+        it('should reject unknown zones', async () => {
+            await expect(createScheduleException({ zone_id: 99999, name: 'Eid', start_date: '2030-03-05', end_date: '2030-03-07', hours: null }))
+                .rejects.toThrow(/zone with id 99999 not found/i);
+        });
+
+        it('should clear the flag once the booking is moved', async () => {
+            const bookingId = await insertBooking(new Date('2030-03-06T10:00:00+03:00'), new Date('2030-03-06T11:30:00+03:00'));
+            await createScheduleException({ zone_id: null, name: 'Eid al-Fitr', start_date: '2030-03-05', end_date: '2030-03-07', hours: null });
+
+            const result = await updateBooking({
+                id: bookingId,
+                scheduled_window_start: new Date('2030-03-09T10:00:00+03:00'),
+                scheduled_window_end: new Date('2030-03-09T11:30:00+03:00')
+            });
+
+            expect(result.needs_reschedule).toBe(false);
+            expect(await getBookingsNeedingReschedule()).toHaveLength(0);
+        });
+    });
+
+    describe('getScheduleExceptions', () => {
+        it('should filter by zone and date range', async () => {
+            await createScheduleException({ zone_id: null, name: 'Eid al-Fitr', start_date: '2030-03-05', end_date: '2030-03-07', hours: null });
+            await createScheduleException({ zone_id: otherZoneId, name: 'Road works', start_date: '2030-03-06', end_date: '2030-03-06', hours: null });
+            await createScheduleException({ zone_id: zoneId, name: 'National Day', start_date: '2030-09-23', end_date: '2030-09-23', hours: null });
+
+            const forZone = await getScheduleExceptions({ zone_id: zoneId });
+            expect(forZone.map(exception => exception.name)).toEqual(['Eid al-Fitr', 'National Day']);
+
+            const inMarch = await getScheduleExceptions({ from: '2030-03-07', to: '2030-03-31' });
+            expect(inMarch.map(exception => exception.name)).toEqual(['Eid al-Fitr']);
+        });
+    });
+
+    describe('deleteScheduleException', () => {
+        it('should reopen the dates', async () => {
+            const { exception } = await createScheduleException({ zone_id: null, name: 'Eid al-Fitr', start_date: '2030-03-05', end_date: '2030-03-07', hours: null });
+
+            expect(await deleteScheduleException(exception.id)).toBe(true);
+            expect((await getAvailableTimeSlots(zoneId, 60, new Date('2030-03-06T00:00:00+03:00'))).length).toBeGreaterThan(0);
+            await expect(deleteScheduleException(exception.id)).rejects.toThrow(/not found/i);
+        });
+
+        it('should leave flagged bookings for dispatch to resolve', async () => {
+            const bookingId = await insertBooking(new Date('2030-03-06T10:00:00+03:00'), new Date('2030-03-06T11:30:00+03:00'));
+            const { exception } = await createScheduleException({ zone_id: null, name: 'Eid al-Fitr', start_date: '2030-03-05', end_date: '2030-03-07', hours: null });
+
+            await deleteScheduleException(exception.id);
+
+            const booking = await db.select().from(bookingsTable).where(eq(bookingsTable.id, bookingId)).execute();
+            expect(booking[0].needs_reschedule).toBe(true);
+        });
+    });
+});
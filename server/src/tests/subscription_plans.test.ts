@@ -0,0 +1,297 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { addonsTable, bookingsTable, customersTable, servicesTable, subscriptionsTable, zonesTable } from '../db/schema';
+import { createBookingSeriesInputSchema, type CreateBookingInput, type CreatePlanInput } from '../schema';
+import {
+  cancelSubscription,
+  createPlan,
+  createSubscription,
+  deletePlan,
+  getPlans,
+  processSubscriptionRenewals,
+  renewSubscription,
+  updatePlan
+} from '../handlers/subscription_plans';
+import { calculatePrice, calculatePublicPrice } from '../handlers/calculate_price';
+import { createBooking } from '../handlers/create_booking';
+import { createBookingSeries } from '../handlers/booking_series';
+import { createBookingToken } from '../handlers/booking_tokens';
+import { updateBooking } from '../handlers/update_booking';
+import { eq } from 'drizzle-orm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const testPlan: CreatePlanInput = {
+  code: 'monthly-4',
+  name_ar: 'الباقة الشهرية',
+  name_en: 'Monthly Plan',
+  desc_ar: 'أربع غسلات شهرياً',
+  desc_en: 'Four washes a month',
+  price: 399,
+  benefits_ar: ['أربع غسلات'],
+  benefits_en: ['Four washes'],
+  visible: true,
+  credits_per_period: 4,
+  period_days: 30,
+  service_ids: []
+};
+
+describe('subscription plans', () => {
+  let zoneId: number;
+  let serviceId: number;
+  let addonId: number;
+  let customerId: number;
+
+  const subscriptionById = async (id: number) => (await db.select()
+    .from(subscriptionsTable)
+    .where(eq(subscriptionsTable.id, id))
+    .execute())[0];
+
+  const bookingInput = (): CreateBookingInput => ({
+    customer: { name: 'أحمد محمد', phone: '0555123456' },
+    service_id: serviceId,
+    addons: [addonId],
+    car_type: 'sedan',
+    zone_id: zoneId,
+    address_text: 'الرياض - حي النخيل',
+    geo_point: { lat: 24.7136, lng: 46.6753 },
+    scheduled_window: {
+      start: new Date('2030-01-15T10:00:00+03:00'),
+      end: new Date('2030-01-15T12:30:00+03:00')
+    },
+    is_solo: false
+  });
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 45,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+
+    const addon = await db.insert(addonsTable)
+      .values({
+        slug: 'wax',
+        name_ar: 'تلميع',
+        name_en: 'Wax',
+        desc_ar: 'تلميع وشمع',
+        desc_en: 'Wax and polish',
+        price: '25.00',
+        est_minutes: 15,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    addonId = addon[0].id;
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'أحمد محمد', phone: '0555123456' })
+      .returning()
+      .execute();
+    customerId = customer[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('plans', () => {
+    it('should create, update and list plans', async () => {
+      const plan = await createPlan(testPlan);
+      await createPlan({ ...testPlan, code: 'hidden', price: 199, visible: false });
+
+      expect(plan.price).toEqual(399);
+      expect(plan.credits_per_period).toEqual(4);
+      expect((await getPlans()).map(visible => visible.code)).toEqual(['monthly-4']);
+      expect(await getPlans(false)).toHaveLength(2);
+
+      const updated = await updatePlan({ id: plan.id, price: 349, service_ids: [serviceId] });
+      expect(updated.price).toEqual(349);
+      expect(updated.service_ids).toEqual([serviceId]);
+      expect(updated.name_en).toEqual('Monthly Plan');
+    });
+
+    it('should only delete plans nobody subscribed to', async () => {
+      const unused = await createPlan({ ...testPlan, code: 'unused' });
+      const used = await createPlan(testPlan);
+      await createSubscription({ customer_id: customerId, plan_id: used.id, auto_renew: true });
+
+      expect(await deletePlan(unused.id)).toEqual({ success: true });
+      await expect(deletePlan(used.id)).rejects.toThrow(/hide it instead/i);
+    });
+  });
+
+  describe('credits', () => {
+    it('should quote the service as covered for subscribers', async () => {
+      const plan = await createPlan(testPlan);
+      const subscription = await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true });
+
+      const { customer, scheduled_window, ...priceInput } = bookingInput();
+      const quote = await calculatePrice({ ...priceInput, customer_phone: customer.phone, use_subscription: true });
+
+      expect(quote.subscription_id).toEqual(subscription.id);
+      expect(quote.subscription_discount).toEqual(100);
+      expect(quote.total_price).toEqual(25);
+
+      // Without a phone, or for a service the plan doesn't include, the full price applies
+      expect((await calculatePrice(priceInput)).total_price).toEqual(125);
+      await updatePlan({ id: plan.id, service_ids: [serviceId + 1] });
+      expect((await calculatePrice({ ...priceInput, customer_phone: customer.phone, use_subscription: true })).subscription_id).toBeNull();
+    });
+
+    it('should take a credit when booking and give it back on cancellation', async () => {
+      const plan = await createPlan({ ...testPlan, credits_per_period: 1 });
+      const subscription = await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true });
+
+      const result = await createBooking(bookingInput());
+
+      expect(result.price_total).toEqual(25);
+      expect((await subscriptionById(subscription.id)).credits_remaining).toEqual(0);
+
+      const bookings = await db.select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, Number(result.booking_id)))
+        .execute();
+      expect(bookings[0].subscription_id).toEqual(subscription.id);
+
+      // Out of credits: the next wash is charged in full
+      const { customer, scheduled_window, ...priceInput } = bookingInput();
+      expect((await calculatePrice({ ...priceInput, customer_phone: customer.phone, use_subscription: true })).total_price).toEqual(125);
+
+      await updateBooking({ id: Number(result.booking_id), status: 'canceled' });
+      expect((await subscriptionById(subscription.id)).credits_remaining).toEqual(1);
+    });
+
+    it('should only apply a subscription to public prices for a customer with a booking link', async () => {
+      const plan = await createPlan(testPlan);
+      const subscription = await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true });
+      const booking = await createBooking(bookingInput());
+
+      // A bare phone number must not reveal whether it has a subscription
+      const { customer, scheduled_window, ...priceInput } = bookingInput();
+      const anonymous = await calculatePublicPrice({ ...priceInput, customer_phone: customer.phone });
+      expect(anonymous.subscription_id).toBeNull();
+      expect(anonymous.total_price).toEqual(125);
+
+      const token = createBookingToken(Number(booking.booking_id), new Date('2030-02-01T00:00:00+03:00'));
+      const verified = await calculatePublicPrice({ ...priceInput, booking_token: token });
+      expect(verified.subscription_id).toEqual(subscription.id);
+      expect(verified.total_price).toEqual(25);
+
+      await expect(calculatePublicPrice({ ...priceInput, booking_token: `${token}x` })).rejects.toThrow(/invalid booking link/i);
+    });
+
+    it('should pay recurring occurrences with credits', async () => {
+      const plan = await createPlan({ ...testPlan, credits_per_period: 2 });
+      const subscription = await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true });
+
+      const result = await createBookingSeries(createBookingSeriesInputSchema.parse({
+        customer: { name: 'أحمد محمد', phone: '0555123456' },
+        service_id: serviceId,
+        car_type: 'sedan',
+        zone_id: zoneId,
+        address_text: 'الرياض - حي النخيل',
+        geo_point: { lat: 24.7136, lng: 46.6753 },
+        frequency: 'weekly',
+        weekday: 2,
+        window_start: '10:00',
+        window_end: '11:30',
+        start_date: '2030-01-10'
+      }), new Date('2030-01-10T08:00:00+03:00'));
+
+      const bookings = await db.select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.series_id, result.series.id))
+        .execute();
+
+      // Two credits cover two occurrences; the rest are charged in full
+      expect(bookings.length).toBeGreaterThan(2);
+      expect(bookings.filter(booking => booking.subscription_id === subscription.id)).toHaveLength(2);
+      expect(bookings.filter(booking => booking.subscription_id === null).every(booking => booking.price_total === '100.00'))
+        .toBe(true);
+      expect((await subscriptionById(subscription.id)).credits_remaining).toEqual(0);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should allow one active subscription per customer', async () => {
+      const plan = await createPlan(testPlan);
+      await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true });
+
+      await expect(createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true }))
+        .rejects.toThrow(/already has an active subscription/i);
+    });
+
+    it('should renew auto-renewing subscriptions and expire the rest', async () => {
+      const now = new Date('2030-01-01T09:00:00+03:00');
+      const plan = await createPlan(testPlan);
+      const otherCustomer = await db.insert(customersTable)
+        .values({ name: 'سارة علي', phone: '0555000009' })
+        .returning()
+        .execute();
+
+      const renewing = await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true }, now);
+      const ending = await createSubscription({ customer_id: otherCustomer[0].id, plan_id: plan.id, auto_renew: true }, now);
+      await cancelSubscription(ending.id);
+      await db.update(subscriptionsTable)
+        .set({ credits_remaining: 1 })
+        .where(eq(subscriptionsTable.id, renewing.id))
+        .execute();
+
+      // Nothing is due before the period ends
+      expect(await processSubscriptionRenewals(new Date(now.getTime() + 29 * DAY))).toEqual({ renewed: 0, expired: 0 });
+
+      // Two periods later, e.g. after downtime, the renewal still lines up with the original schedule
+      const later = new Date(now.getTime() + 65 * DAY);
+      expect(await processSubscriptionRenewals(later)).toEqual({ renewed: 1, expired: 1 });
+
+      const renewed = await subscriptionById(renewing.id);
+      expect(renewed.period_start).toEqual(new Date(now.getTime() + 60 * DAY));
+      expect(renewed.period_end).toEqual(new Date(now.getTime() + 90 * DAY));
+      expect(renewed.credits_remaining).toEqual(4);
+      expect((await subscriptionById(ending.id)).status).toEqual('expired');
+
+      // An expired subscriber can start again with a fresh period
+      const restarted = await renewSubscription(ending.id, later);
+      expect(restarted.status).toEqual('active');
+      expect(restarted.period_start).toEqual(later);
+      expect(restarted.credits_remaining).toEqual(4);
+      await expect(renewSubscription(renewing.id, later)).rejects.toThrow(/still active/i);
+    });
+
+    it('should stop credits at once when canceled immediately', async () => {
+      const plan = await createPlan(testPlan);
+      const subscription = await createSubscription({ customer_id: customerId, plan_id: plan.id, auto_renew: true });
+
+      const canceled = await cancelSubscription(subscription.id, true);
+
+      expect(canceled.status).toEqual('canceled');
+      const { customer, scheduled_window, ...priceInput } = bookingInput();
+      expect((await calculatePrice({ ...priceInput, customer_phone: customer.phone, use_subscription: true })).subscription_id).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { zonesTable } from '../db/schema';
+import {
+    countTeamsOnShift,
+    createTeam,
+    createTechnician,
+    getTeams,
+    getTeamShifts,
+    getTechnicians,
+    getZoneShiftWindows,
+    setTeamShifts,
+    updateTeam,
+    updateTechnician
+} from '../handlers/team_roster';
+
+const testZone = {
+    name_ar: 'منطقة الاختبار',
+    name_en: 'Test Zone',
+    polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+    notes: null
+};
+
+describe('Team roster', () => {
+    let zoneId: number;
+    let otherZoneId: number;
+
+    beforeEach(async () => {
+        await createDB();
+
+        const zone = await db.insert(zonesTable).values(testZone).returning().execute();
+        zoneId = zone[0].id;
+        const otherZone = await db.insert(zonesTable).values({ ...testZone, name_en: 'Other Zone' }).returning().execute();
+        otherZoneId = otherZone[0].id;
+    });
+
+    afterEach(resetDB);
+
+    describe('teams', () => {
+        it('should create, list and update teams', async () => {
+            const team = await createTeam({ name: 'Crew A', type: 'team', home_zone_id: zoneId });
+            await createTeam({ name: 'Solo B', type: 'solo', home_zone_id: otherZoneId });
+
+            expect(team).toMatchObject({ name: 'Crew A', type: 'team', home_zone_id: zoneId, active: true });
+            expect(await getTeams()).toHaveLength(2);
+            expect((await getTeams(zoneId)).map(t => t.name)).toEqual(['Crew A']);
+
+            const updated = await updateTeam({ id: team.id, home_zone_id: otherZoneId, active: false });
+            expect(updated).toMatchObject({ home_zone_id: otherZoneId, active: false });
+        });
+
+        it('should reject unknown zones and teams', async () => {
+            await expect(createTeam({ name: 'Crew A', type: 'team', home_zone_id: 99999 })).rejects.toThrow(/zone with id 99999 not found/i);
+            await expect(updateTeam({ id: 99999, name: 'Nobody' })).rejects.toThrow(/team with id 99999 not found/i);
+        });
+    });
+
+    describe('technicians', () => {
+        it('should add technicians to teams', async () => {
+            const team = await createTeam({ name: 'Crew A', type: 'team', home_zone_id: zoneId });
+
+            const technician = await createTechnician({ name: 'Khalid', phone: '0555000001', team_id: team.id });
+            await createTechnician({ name: 'Omar', phone: '0555000002', team_id: null });
+
+            expect(technician).toMatchObject({ name: 'Khalid', team_id: team.id, active: true });
+            expect((await getTechnicians(team.id)).map(t => t.name)).toEqual(['Khalid']);
+
+            const moved = await updateTechnician({ id: technician.id, team_id: null });
+            expect(moved.team_id).toBeNull();
+
+            await expect(createTechnician({ name: 'Ali', phone: '0555000003', team_id: 99999 })).rejects.toThrow(/team with id 99999 not found/i);
+        });
+    });
+
+    describe('shifts', () => {
+        it('should replace a team\'s weekly shifts', async () => {
+            const team = await createTeam({ name: 'Crew A', type: 'team', home_zone_id: zoneId });
+
+            await setTeamShifts({ team_id: team.id, shifts: [{ weekday: 0, start_time: '08:00', end_time: '12:00' }] });
+            const shifts = await setTeamShifts({
+                team_id: team.id,
+                shifts: [
+                    { weekday: 2, start_time: '14:00', end_time: '18:00' },
+                    { weekday: 2, start_time: '08:00', end_time: '12:00' }
+                ]
+            });
+
+            expect(shifts.map(shift => [shift.weekday, shift.start_time])).toEqual([[2, '08:00'], [2, '14:00']]);
+            expect(await getTeamShifts(team.id)).toHaveLength(2);
+        });
+
+        it('should build the day\'s shift windows for active teams in the zone', async () => {
+            const crew = await createTeam({ name: 'Crew A', type: 'team', home_zone_id: zoneId });
+            const solo = await createTeam({ name: 'Solo B', type: 'solo', home_zone_id: zoneId });
+            const retired = await createTeam({ name: 'Crew C', type: 'team', home_zone_id: zoneId });
+            await updateTeam({ id: retired.id, active: false });
+
+            // 2030-01-15 is a Tuesday
+            await setTeamShifts({ team_id: crew.id, shifts: [{ weekday: 2, start_time: '08:00', end_time: '16:00' }] });
+            await setTeamShifts({ team_id: solo.id, shifts: [{ weekday: 2, start_time: '12:00', end_time: '18:00' }] });
+            await setTeamShifts({ team_id: retired.id, shifts: [{ weekday: 2, start_time: '08:00', end_time: '18:00' }] });
+
+            const windows = await getZoneShiftWindows(zoneId, new Date('2030-01-15T00:00:00+03:00'));
+
+            expect(windows).toHaveLength(2);
+            expect(countTeamsOnShift(windows!, new Date('2030-01-15T09:00:00+03:00'), new Date('2030-01-15T10:30:00+03:00'))).toBe(1);
+            expect(countTeamsOnShift(windows!, new Date('2030-01-15T13:00:00+03:00'), new Date('2030-01-15T14:30:00+03:00'))).toBe(2);
+            expect(countTeamsOnShift(windows!, new Date('2030-01-15T15:00:00+03:00'), new Date('2030-01-15T16:30:00+03:00'))).toBe(1);
+        });
+
+        it('should return null for zones without a roster', async () => {
+            expect(await getZoneShiftWindows(zoneId, new Date('2030-01-15T00:00:00+03:00'))).toBeNull();
+        });
+    });
+});
@@ -1,14 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { zonesTable, bookingsTable, customersTable, servicesTable } from '../db/schema';
+import { addonsTable, zonesTable, zoneSchedulesTable, bookingsTable, customersTable, servicesTable } from '../db/schema';
 import { 
     getAvailableTimeSlots, 
     validateTimeSlot, 
     getZoneSchedule, 
-    type TimeSlot 
+    getJobMinutes,
+    getDayUtilisation,
+    type TimeSlot,
+    type ZoneSchedule
 } from '../handlers/time_slots';
+import { calculatePrayerTimes, getPrayerPauses } from '../handlers/prayer_times';
+import { createTeam, setTeamShifts } from '../handlers/team_roster';
 import { eq } from 'drizzle-orm';
+import { getBusinessDateParts } from '../handlers/business_time';
+import { operatingHoursSchema } from '../schema';
 
 // Test data setup
 const testZone = {
@@ -103,8 +110,8 @@ describe('Time Slots Handler', () => {
 
             // All slots should be within 8:00-18:00
             result.forEach(slot => {
-                expect(slot.start.getHours()).toBeGreaterThanOrEqual(8);
-                expect(slot.end.getHours()).toBeLessThanOrEqual(18);
+                expect(getBusinessDateParts(slot.start).hour).toBeGreaterThanOrEqual(8);
+                expect(getBusinessDateParts(slot.end).hour).toBeLessThanOrEqual(18);
             });
         });
 
@@ -113,8 +120,8 @@ describe('Time Slots Handler', () => {
             const serviceDuration = 60;
 
             // Create 3 bookings (equal to team capacity) that conflict with one slot
-            const conflictStart = new Date('2024-01-15T09:00:00');
-            const conflictEnd = new Date('2024-01-15T10:30:00');
+            const conflictStart = new Date('2024-01-15T09:00:00+03:00');
+            const conflictEnd = new Date('2024-01-15T10:30:00+03:00');
 
             // Create 3 bookings at the same time to exceed capacity
             for (let i = 0; i < 3; i++) {
@@ -158,8 +165,8 @@ describe('Time Slots Handler', () => {
             const serviceDuration = 60;
 
             // Create multiple bookings at the same time (within team capacity)
-            const slotStart = new Date('2024-01-15T10:00:00');
-            const slotEnd = new Date('2024-01-15T11:30:00');
+            const slotStart = new Date('2024-01-15T10:00:00+03:00');
+            const slotEnd = new Date('2024-01-15T11:30:00+03:00');
 
             // Create 2 bookings (within capacity of 3)
             for (let i = 0; i < 2; i++) {
@@ -206,8 +213,8 @@ describe('Time Slots Handler', () => {
 
     describe('validateTimeSlot', () => {
         it('should validate available time slot', async () => {
-            const startTime = new Date('2024-01-15T10:00:00');
-            const endTime = new Date('2024-01-15T11:30:00');
+            const startTime = new Date('2024-01-15T10:00:00+03:00');
+            const endTime = new Date('2024-01-15T11:30:00+03:00');
 
             const result = await validateTimeSlot(zoneId, startTime, endTime);
 
@@ -216,8 +223,8 @@ describe('Time Slots Handler', () => {
 
         it('should reject time slot outside operating hours', async () => {
             // Slot starting at 6 AM (before 8 AM)
-            const startTime = new Date('2024-01-15T06:00:00');
-            const endTime = new Date('2024-01-15T07:30:00');
+            const startTime = new Date('2024-01-15T06:00:00+03:00');
+            const endTime = new Date('2024-01-15T07:30:00+03:00');
 
             const result = await validateTimeSlot(zoneId, startTime, endTime);
 
@@ -226,8 +233,8 @@ describe('Time Slots Handler', () => {
 
         it('should reject time slot ending after operating hours', async () => {
             // Slot ending at 8 PM (after 6 PM)
-            const startTime = new Date('2024-01-15T17:00:00');
-            const endTime = new Date('2024-01-15T20:00:00');
+            const startTime = new Date('2024-01-15T17:00:00+03:00');
+            const endTime = new Date('2024-01-15T20:00:00+03:00');
 
             const result = await validateTimeSlot(zoneId, startTime, endTime);
 
@@ -235,8 +242,8 @@ describe('Time Slots Handler', () => {
         });
 
         it('should reject time slot when team capacity is exceeded', async () => {
-            const startTime = new Date('2024-01-15T10:00:00');
-            const endTime = new Date('2024-01-15T11:30:00');
+            const startTime = new Date('2024-01-15T10:00:00+03:00');
+            const endTime = new Date('2024-01-15T11:30:00+03:00');
 
             // Create 3 bookings (equal to team capacity)
             for (let i = 0; i < 3; i++) {
@@ -265,8 +272,8 @@ describe('Time Slots Handler', () => {
         });
 
         it('should return false for non-existent zone', async () => {
-            const startTime = new Date('2024-01-15T10:00:00');
-            const endTime = new Date('2024-01-15T11:30:00');
+            const startTime = new Date('2024-01-15T10:00:00+03:00');
+            const endTime = new Date('2024-01-15T11:30:00+03:00');
             const nonExistentZoneId = 99999;
 
             const result = await validateTimeSlot(nonExistentZoneId, startTime, endTime);
@@ -285,8 +292,8 @@ describe('Time Slots Handler', () => {
             expect(result).toHaveProperty('booked_slots');
             expect(result).toHaveProperty('team_capacity');
             
-            expect(result.operating_hours.start).toBe('08:00');
-            expect(result.operating_hours.end).toBe('18:00');
+            expect(result.operating_hours?.start).toBe('08:00');
+            expect(result.operating_hours?.end).toBe('18:00');
             expect(result.team_capacity).toBe(3);
             expect(Array.isArray(result.booked_slots)).toBe(true);
         });
@@ -295,8 +302,8 @@ describe('Time Slots Handler', () => {
             const testDate = new Date('2024-01-15');
 
             // Create a booking for this date
-            const bookingStart = new Date('2024-01-15T10:00:00');
-            const bookingEnd = new Date('2024-01-15T11:30:00');
+            const bookingStart = new Date('2024-01-15T10:00:00+03:00');
+            const bookingEnd = new Date('2024-01-15T11:30:00+03:00');
 
             await db.insert(bookingsTable)
                 .values({
@@ -329,8 +336,8 @@ describe('Time Slots Handler', () => {
             const testDate = new Date('2024-01-15');
 
             // Create booking for different date
-            const differentDateBooking = new Date('2024-01-16T10:00:00');
-            const differentDateEnd = new Date('2024-01-16T11:30:00');
+            const differentDateBooking = new Date('2024-01-16T10:00:00+03:00');
+            const differentDateEnd = new Date('2024-01-16T11:30:00+03:00');
 
             await db.insert(bookingsTable)
                 .values({
@@ -359,8 +366,8 @@ describe('Time Slots Handler', () => {
             const testDate = new Date('2024-01-15');
 
             // Create cancelled booking
-            const bookingStart = new Date('2024-01-15T10:00:00');
-            const bookingEnd = new Date('2024-01-15T11:30:00');
+            const bookingStart = new Date('2024-01-15T10:00:00+03:00');
+            const bookingEnd = new Date('2024-01-15T11:30:00+03:00');
 
             await db.insert(bookingsTable)
                 .values({
@@ -386,10 +393,326 @@ describe('Time Slots Handler', () => {
         });
     });
 
+    describe('zone schedule configuration', () => {
+        const weekdayHours = { start: '09:00', end: '13:00' };
+
+        const saveSchedule = (overrides: Partial<typeof zoneSchedulesTable.$inferInsert> = {}) =>
+            db.insert(zoneSchedulesTable)
+                .values({
+                    zone_id: zoneId,
+                    // Closed on Mondays (2024-01-15)
+                    weekly_hours: [weekdayHours, null, weekdayHours, weekdayHours, weekdayHours, weekdayHours, weekdayHours],
+                    team_capacity: 3,
+                    slot_minutes: 90,
+                    interval_minutes: 60,
+                    buffer_minutes: 30,
+                    ...overrides
+                })
+                .execute();
+
+        it('should offer no slots on closed days', async () => {
+            await saveSchedule();
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, new Date('2024-01-15'));
+            const valid = await validateTimeSlot(zoneId, new Date('2024-01-15T10:00:00+03:00'), new Date('2024-01-15T11:30:00+03:00'));
+
+            expect(slots).toHaveLength(0);
+            expect(valid).toBe(false);
+        });
+
+        it('should use the configured hours, slot length and interval', async () => {
+            await saveSchedule({ slot_minutes: 60, interval_minutes: 30, buffer_minutes: 0 });
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, new Date('2024-01-16'));
+
+            // 09:00, 09:30, ... 12:00
+            expect(slots).toHaveLength(7);
+            expect(getBusinessDateParts(slots[0].start).hour).toBe(9);
+            expect(slots[1].start.getMinutes()).toBe(30);
+            expect(getBusinessDateParts(slots[slots.length - 1].end).hour).toBe(13);
+            expect(slots.every(slot => slot.available)).toBe(true);
+        });
+
+        it('should use the configured team capacity', async () => {
+            await saveSchedule({ team_capacity: 1 });
+
+            await db.insert(bookingsTable)
+                .values({
+                    customer_id: customerId,
+                    service_id: serviceId,
+                    addons: [],
+                    car_type: 'sedan',
+                    zone_id: zoneId,
+                    address_text: 'Test Address',
+                    geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+                    scheduled_window_start: new Date('2024-01-16T09:00:00+03:00'),
+                    scheduled_window_end: new Date('2024-01-16T10:30:00+03:00'),
+                    status: 'confirmed',
+                    price_total: '100.00',
+                    is_solo: false,
+                    distance_fee: '0.00'
+                })
+                .execute();
+
+            const valid = await validateTimeSlot(zoneId, new Date('2024-01-16T10:00:00+03:00'), new Date('2024-01-16T11:30:00+03:00'));
+            const schedule = await getZoneSchedule(zoneId, new Date('2024-01-16'));
+
+            expect(valid).toBe(false);
+            expect(schedule.team_capacity).toBe(1);
+            expect(schedule.operating_hours).toEqual(weekdayHours);
+        });
+    });
+
+    describe('hours past midnight', () => {
+        const lateHours = { start: '21:00', end: '02:00' };
+
+        beforeEach(async () => {
+            // Open late every night except Tuesday (2024-01-16)
+            await db.insert(zoneSchedulesTable)
+                .values({
+                    zone_id: zoneId,
+                    weekly_hours: [lateHours, lateHours, null, lateHours, lateHours, lateHours, lateHours],
+                    team_capacity: 1,
+                    slot_minutes: 90,
+                    interval_minutes: 60,
+                    buffer_minutes: 30
+                })
+                .execute();
+        });
+
+        it('should accept hours that close after midnight', () => {
+            expect(operatingHoursSchema.parse(lateHours)).toEqual(lateHours);
+            expect(() => operatingHoursSchema.parse({ start: '09:00', end: '09:00' })).toThrow(/same time/i);
+        });
+
+        it('should offer slots running on into the next day', async () => {
+            const slots = await getAvailableTimeSlots(zoneId, 60, new Date('2024-01-15T12:00:00+03:00'));
+
+            // 21:00, 22:00, 23:00 and 00:00, the last ending at 01:30
+            expect(slots).toHaveLength(4);
+            expect(slots[0].start).toEqual(new Date('2024-01-15T21:00:00+03:00'));
+            expect(slots[3].end).toEqual(new Date('2024-01-16T01:30:00+03:00'));
+        });
+
+        it('should validate early-hours windows against the previous night', async () => {
+            // Tuesday is closed, but its early hours belong to Monday night
+            expect(await validateTimeSlot(zoneId, new Date('2024-01-16T00:00:00+03:00'), new Date('2024-01-16T01:30:00+03:00'))).toBe(true);
+            expect(await validateTimeSlot(zoneId, new Date('2024-01-16T01:00:00+03:00'), new Date('2024-01-16T02:30:00+03:00'))).toBe(false);
+            // Tuesday night is closed, so Wednesday's early hours are too
+            expect(await validateTimeSlot(zoneId, new Date('2024-01-17T00:00:00+03:00'), new Date('2024-01-17T01:30:00+03:00'))).toBe(false);
+        });
+
+        it('should count bookings after midnight against the night they belong to', async () => {
+            await db.insert(bookingsTable)
+                .values({
+                    customer_id: customerId,
+                    service_id: serviceId,
+                    addons: [],
+                    car_type: 'sedan',
+                    zone_id: zoneId,
+                    address_text: 'Test Address',
+                    geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+                    scheduled_window_start: new Date('2024-01-16T00:00:00+03:00'),
+                    scheduled_window_end: new Date('2024-01-16T01:30:00+03:00'),
+                    status: 'confirmed',
+                    price_total: '100.00',
+                    is_solo: false,
+                    distance_fee: '0.00'
+                })
+                .execute();
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, new Date('2024-01-15T12:00:00+03:00'));
+
+            expect(slots.map(slot => slot.available)).toEqual([true, true, false, false]);
+        });
+    });
+
+    describe('prayer pauses', () => {
+        const testDate = new Date('2030-01-15T00:00:00+03:00');
+        const pauses = getPrayerPauses(calculatePrayerTimes(testDate, { lat: 24.7136, lng: 46.6753 }), 5, 30);
+
+        const enablePrayerPauses = (enabled: boolean) =>
+            db.insert(zoneSchedulesTable)
+                .values({
+                    zone_id: zoneId,
+                    weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+                    team_capacity: 3,
+                    slot_minutes: 90,
+                    interval_minutes: 60,
+                    buffer_minutes: 30,
+                    prayer_pause_enabled: enabled
+                })
+                .execute();
+
+        it('should keep slots clear of prayer pauses', async () => {
+            await enablePrayerPauses(true);
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, testDate);
+
+            expect(slots.length).toBeGreaterThan(0);
+            slots.forEach(slot => {
+                pauses.forEach(pause => {
+                    expect(slot.start < pause.end && pause.start < slot.end).toBe(false);
+                });
+            });
+
+            // Slots running into a pause are cut short rather than dropped
+            expect(slots.some(slot => pauses.some(pause => slot.end.getTime() === pause.start.getTime()))).toBe(true);
+        });
+
+        it('should reject windows that overlap a prayer pause', async () => {
+            await enablePrayerPauses(true);
+            const dhuhr = pauses.find(pause => pause.prayer === 'dhuhr')!;
+
+            const result = await validateTimeSlot(
+                zoneId,
+                new Date(dhuhr.start.getTime() - 30 * 60 * 1000),
+                new Date(dhuhr.start.getTime() + 60 * 60 * 1000)
+            );
+
+            expect(result).toBe(false);
+        });
+
+        it('should ignore prayer times when switched off for the zone', async () => {
+            await enablePrayerPauses(false);
+
+            const schedule = await getZoneSchedule(zoneId, testDate);
+            const slots = await getAvailableTimeSlots(zoneId, 60, testDate);
+
+            expect(schedule.prayer_pauses).toHaveLength(0);
+            expect(slots.every(slot => slot.end.getTime() - slot.start.getTime() === 90 * 60 * 1000)).toBe(true);
+        });
+    });
+
+    describe('team roster capacity', () => {
+        // 2030-01-15 is a Tuesday
+        const testDate = new Date('2030-01-15T00:00:00+03:00');
+
+        it('should take capacity from the teams on shift', async () => {
+            const early = await createTeam({ name: 'Early Crew', type: 'team', home_zone_id: zoneId });
+            const late = await createTeam({ name: 'Late Crew', type: 'team', home_zone_id: zoneId });
+            await setTeamShifts({ team_id: early.id, shifts: [{ weekday: 2, start_time: '08:00', end_time: '13:00' }] });
+            await setTeamShifts({ team_id: late.id, shifts: [{ weekday: 2, start_time: '12:30', end_time: '18:00' }] });
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, testDate);
+            const slotAt = (hour: number) => slots.find(slot => getBusinessDateParts(slot.start).hour === hour)!;
+
+            // 11:00-12:30 is covered by the early crew only; 12:00-13:30 by nobody for the whole window
+            expect(slotAt(11).available).toBe(true);
+            expect(slotAt(12).available).toBe(false);
+            expect(slotAt(14).available).toBe(true);
+
+            await db.insert(bookingsTable)
+                .values({
+                    customer_id: customerId,
+                    service_id: serviceId,
+                    addons: [],
+                    car_type: 'sedan',
+                    zone_id: zoneId,
+                    address_text: 'Test Address',
+                    geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+                    scheduled_window_start: new Date('2030-01-15T09:00:00+03:00'),
+                    scheduled_window_end: new Date('2030-01-15T10:30:00+03:00'),
+                    status: 'confirmed',
+                    price_total: '100.00',
+                    is_solo: false,
+                    distance_fee: '0.00'
+                })
+                .execute();
+
+            // The only crew on shift in the morning is now taken
+            expect(await validateTimeSlot(zoneId, new Date('2030-01-15T10:00:00+03:00'), new Date('2030-01-15T11:30:00+03:00'))).toBe(false);
+            expect(await validateTimeSlot(zoneId, new Date('2030-01-15T14:00:00+03:00'), new Date('2030-01-15T15:30:00+03:00'))).toBe(true);
+        });
+
+        it('should offer nothing when no team is on shift that day', async () => {
+            const crew = await createTeam({ name: 'Weekend Crew', type: 'team', home_zone_id: zoneId });
+            await setTeamShifts({ team_id: crew.id, shifts: [{ weekday: 5, start_time: '08:00', end_time: '18:00' }] });
+
+            const slots = await getAvailableTimeSlots(zoneId, 60, testDate);
+
+            expect(slots.length).toBeGreaterThan(0);
+            expect(slots.some(slot => slot.available)).toBe(false);
+        });
+    });
+
+    describe('active bookings and job length', () => {
+        const testDate = new Date('2030-01-15T00:00:00+03:00');
+
+        const insertBooking = (status: 'confirmed' | 'on_the_way' | 'started' | 'postponed' | 'finished' | 'canceled') =>
+            db.insert(bookingsTable)
+                .values({
+                    customer_id: customerId,
+                    service_id: serviceId,
+                    addons: [],
+                    car_type: 'sedan',
+                    zone_id: zoneId,
+                    address_text: 'Test Address',
+                    geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+                    scheduled_window_start: new Date('2030-01-15T10:00:00+03:00'),
+                    scheduled_window_end: new Date('2030-01-15T11:30:00+03:00'),
+                    status,
+                    price_total: '100.00',
+                    is_solo: false,
+                    distance_fee: '0.00'
+                })
+                .execute();
+
+        it('should count bookings that are under way against capacity', async () => {
+            await insertBooking('confirmed');
+            await insertBooking('on_the_way');
+            await insertBooking('started');
+
+            const schedule = await getZoneSchedule(zoneId, testDate);
+            const valid = await validateTimeSlot(zoneId, new Date('2030-01-15T10:00:00+03:00'), new Date('2030-01-15T11:30:00+03:00'));
+
+            expect(schedule.booked_slots).toHaveLength(3);
+            expect(valid).toBe(false);
+        });
+
+        it('should not count closed or postponed bookings', async () => {
+            await insertBooking('finished');
+            await insertBooking('canceled');
+            await insertBooking('postponed');
+
+            const schedule = await getZoneSchedule(zoneId, testDate);
+
+            expect(schedule.booked_slots).toHaveLength(0);
+        });
+
+        it('should give jobs longer than a window a window spanning several intervals', async () => {
+            // 150 minutes of detailing plus the 30-min buffer stretch the 90-min window by two hourly intervals
+            const slots = await getAvailableTimeSlots(zoneId, 150, testDate);
+
+            expect(slots.length).toBeGreaterThan(0);
+            expect(slots.every(slot => slot.end.getTime() - slot.start.getTime() === 210 * 60 * 1000)).toBe(true);
+            expect(getBusinessDateParts(slots[0].start).hour).toBe(8);
+            expect(getBusinessDateParts(slots[slots.length - 1].end).hour).toBe(17);
+        });
+
+        it('should reject windows too short for the job when a duration is given', async () => {
+            const start = new Date('2030-01-15T10:00:00+03:00');
+
+            expect(await validateTimeSlot(zoneId, start, new Date('2030-01-15T11:30:00+03:00'), db, undefined, 150)).toBe(false);
+            expect(await validateTimeSlot(zoneId, start, new Date('2030-01-15T13:30:00+03:00'), db, undefined, 150)).toBe(true);
+        });
+
+        it('should take the job length from the service and its add-ons', async () => {
+            const addon = await db.insert(addonsTable)
+                .values({ slug: 'wax', name_ar: 'شمع', name_en: 'Wax', desc_ar: 'شمع', desc_en: 'Wax', price: '20.00', est_minutes: 45 })
+                .returning()
+                .execute();
+
+            expect(await getJobMinutes(serviceId, [])).toBe(60);
+            expect(await getJobMinutes(serviceId, [addon[0].id])).toBe(105);
+            await expect(getJobMinutes(999999, [])).rejects.toThrow(/not found/i);
+        });
+    });
+
     describe('Edge cases and error handling', () => {
         it('should handle date boundaries correctly', async () => {
             // Test with date at midnight
-            const testDate = new Date('2024-01-15T00:00:00');
+            const testDate = new Date('2024-01-15T00:00:00+03:00');
             const serviceDuration = 60;
 
             const result = await getAvailableTimeSlots(zoneId, serviceDuration, testDate);
@@ -397,25 +720,22 @@ describe('Time Slots Handler', () => {
             expect(result.length).toBeGreaterThan(0);
             result.forEach(slot => {
                 // All slots should be on the same day
-                expect(slot.start.getDate()).toBe(15);
-                expect(slot.end.getDate()).toBe(15);
+                expect(getBusinessDateParts(slot.start).day).toBe(15);
+                expect(getBusinessDateParts(slot.end).day).toBe(15);
             });
         });
 
         it('should handle long service duration correctly', async () => {
             const testDate = new Date('2024-01-15');
-            const longServiceDuration = 120; // 2 hours (still fits in 90-min slot with 30-min buffer? No, should fail)
+            const longServiceDuration = 120; // plus the 30-min buffer this needs more than one 90-min window
 
             const result = await getAvailableTimeSlots(zoneId, longServiceDuration, testDate);
 
-            // Long service duration should make most/all slots unavailable due to buffer requirements
-            const availableSlots = result.filter(slot => slot.available);
-            const unavailableSlots = result.filter(slot => !slot.available);
-            
-            // Most slots should be unavailable due to duration + buffer > slot window
-            expect(unavailableSlots.length).toBeGreaterThan(0);
-            // Total slots should still be generated
+            // Windows stretch over an extra hourly interval instead of turning the job away
             expect(result.length).toBeGreaterThan(0);
+            expect(result.every(slot => slot.available)).toBe(true);
+            expect(result.every(slot => slot.end.getTime() - slot.start.getTime() === 150 * 60 * 1000)).toBe(true);
+            expect(getBusinessDateParts(result[result.length - 1].end).hour).toBeLessThanOrEqual(18);
         });
 
         it('should maintain slot ordering by time', async () => {
@@ -430,4 +750,40 @@ describe('Time Slots Handler', () => {
             }
         });
     });
-});
\ No newline at end of file
+});
+
+describe('getDayUtilisation', () => {
+    const testDate = new Date('2030-01-15T00:00:00+03:00');
+    const at = (time: string) => new Date(`2030-01-15T${time}:00+03:00`);
+
+    const schedule: ZoneSchedule = {
+        operating_hours: { start: '08:00', end: '18:00' },
+        booked_slots: [
+            { start: at('09:00'), end: at('11:30'), available: false, zone_id: 1 },
+            { start: at('14:00'), end: at('16:30'), available: false, zone_id: 1 }
+        ],
+        team_capacity: 2,
+        team_shifts: null,
+        slot_minutes: 90,
+        interval_minutes: 60,
+        buffer_minutes: 30,
+        prayer_pauses: []
+    };
+
+    it('should compare booked time with the crew time of the day', () => {
+        // 5 booked hours out of 2 crews x 10 hours
+        expect(getDayUtilisation(schedule, testDate)).toEqual(0.25);
+    });
+
+    it('should count rostered shifts within operating hours', () => {
+        const rostered: ZoneSchedule = {
+            ...schedule,
+            team_shifts: [{ team_id: 1, start: at('06:00'), end: at('13:00') }]
+        };
+
+        // Only 08:00-13:00 of the shift is bookable
+        expect(getDayUtilisation(rostered, testDate)).toEqual(1);
+        expect(getDayUtilisation({ ...rostered, team_shifts: [] }, testDate)).toEqual(0);
+        expect(getDayUtilisation({ ...schedule, operating_hours: null }, testDate)).toEqual(0);
+    });
+});
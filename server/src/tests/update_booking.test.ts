@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { bookingsTable, customersTable, servicesTable, zonesTable } from '../db/schema';
+import { bookingsTable, bookingEventsTable, customersTable, pricingRulesTable, servicesTable, zonesTable } from '../db/schema';
 import { type UpdateBookingInput } from '../schema';
 import { updateBooking } from '../handlers/update_booking';
 import { eq } from 'drizzle-orm';
@@ -131,6 +131,35 @@ describe('updateBooking', () => {
     expect(updatedBookings[0].scheduled_window_end).toEqual(newEnd);
   });
 
+  it('should charge the surge of the slot a booking is moved to', async () => {
+    const { booking } = await createTestData();
+    await db.update(bookingsTable)
+      .set({
+        scheduled_window_start: new Date('2024-01-15T10:00:00+03:00'),
+        scheduled_window_end: new Date('2024-01-15T12:00:00+03:00')
+      })
+      .where(eq(bookingsTable.id, booking.id))
+      .execute();
+    await db.insert(pricingRulesTable)
+      .values({
+        key: 'time_multipliers',
+        value_json: JSON.stringify({ windows: [{ start: '16:00', end: '18:00', multiplier: 1.5 }] }),
+        enabled: true
+      })
+      .execute();
+
+    const result = await updateBooking({
+      id: booking.id,
+      scheduled_window_start: new Date('2024-01-16T16:00:00+03:00'),
+      scheduled_window_end: new Date('2024-01-16T18:00:00+03:00')
+    });
+
+    expect(result.price_total).toBe(150);
+
+    // Other changes leave the price alone
+    expect((await updateBooking({ id: booking.id, address_text: 'New address' })).price_total).toBe(150);
+  });
+
   it('should update address and location', async () => {
     const { booking } = await createTestData();
 
@@ -164,7 +193,7 @@ describe('updateBooking', () => {
 
     const updateInput: UpdateBookingInput = {
       id: booking.id,
-      status: 'started',
+      status: 'on_the_way',
       scheduled_window_start: newStart,
       scheduled_window_end: newEnd,
       address_text: 'Multi-field update address'
@@ -173,7 +202,7 @@ describe('updateBooking', () => {
     const result = await updateBooking(updateInput);
 
     expect(result.id).toBe(booking.id);
-    expect(result.status).toBe('started');
+    expect(result.status).toBe('on_the_way');
     expect(result.scheduled_window_start).toEqual(newStart);
     expect(result.scheduled_window_end).toEqual(newEnd);
     expect(result.address_text).toBe('Multi-field update address');
@@ -185,7 +214,7 @@ describe('updateBooking', () => {
       .execute();
 
     const dbBooking = updatedBookings[0];
-    expect(dbBooking.status).toBe('started');
+    expect(dbBooking.status).toBe('on_the_way');
     expect(dbBooking.scheduled_window_start).toEqual(newStart);
     expect(dbBooking.scheduled_window_end).toEqual(newEnd);
     expect(dbBooking.address_text).toBe('Multi-field update address');
@@ -232,6 +261,12 @@ describe('updateBooking', () => {
   it('should handle completion status update', async () => {
     const { booking } = await createTestData();
 
+    // Finishing is only allowed once the job has started
+    await db.update(bookingsTable)
+      .set({ status: 'started' })
+      .where(eq(bookingsTable.id, booking.id))
+      .execute();
+
     const updateInput: UpdateBookingInput = {
       id: booking.id,
       status: 'finished'
@@ -283,13 +318,13 @@ describe('updateBooking', () => {
     // Only update status
     const updateInput: UpdateBookingInput = {
       id: booking.id,
-      status: 'started'
+      status: 'on_the_way'
     };
 
     const result = await updateBooking(updateInput);
 
     // Status should be updated
-    expect(result.status).toBe('started');
+    expect(result.status).toBe('on_the_way');
 
     // Other fields should remain unchanged
     expect(result.address_text).toBe('Original address');
@@ -297,4 +332,66 @@ describe('updateBooking', () => {
     expect(result.car_type).toBe('sedan');
     expect(result.is_solo).toBe(false);
   });
-});
\ No newline at end of file
+
+  it('should reject status changes that skip steps', async () => {
+    const { booking } = await createTestData();
+
+    await expect(updateBooking({ id: booking.id, status: 'finished' }))
+      .rejects.toThrow(/cannot change booking status from confirmed to finished/i);
+
+    const bookings = await db.select()
+      .from(bookingsTable)
+      .where(eq(bookingsTable.id, booking.id))
+      .execute();
+    expect(bookings[0].status).toBe('confirmed');
+  });
+
+  it('should not reopen a canceled booking', async () => {
+    const { booking } = await createTestData();
+
+    await updateBooking({ id: booking.id, status: 'canceled' });
+
+    await expect(updateBooking({ id: booking.id, status: 'finished' }))
+      .rejects.toThrow(/cannot change booking status from canceled to finished/i);
+    await expect(updateBooking({ id: booking.id, status: 'confirmed' }))
+      .rejects.toThrow(/cannot change booking status/i);
+  });
+
+  it('should walk the full lifecycle and record each transition', async () => {
+    const { booking } = await createTestData();
+
+    await updateBooking({ id: booking.id, status: 'on_the_way' }, 'dispatch@example.com');
+    await updateBooking({ id: booking.id, status: 'started' }, 'dispatch@example.com');
+    const result = await updateBooking({ id: booking.id, status: 'finished', reason: 'Job done' }, 'dispatch@example.com');
+
+    expect(result.status).toBe('finished');
+
+    const events = await db.select()
+      .from(bookingEventsTable)
+      .where(eq(bookingEventsTable.booking_id, booking.id))
+      .orderBy(bookingEventsTable.id)
+      .execute();
+
+    expect(events).toHaveLength(3);
+    expect(events.map(e => [e.old_status, e.new_status])).toEqual([
+      ['confirmed', 'on_the_way'],
+      ['on_the_way', 'started'],
+      ['started', 'finished']
+    ]);
+    events.forEach(e => expect(e.actor).toBe('dispatch@example.com'));
+    expect(events[2].reason).toBe('Job done');
+    expect(events[2].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should not record an event when status is unchanged', async () => {
+    const { booking } = await createTestData();
+
+    await updateBooking({ id: booking.id, status: 'confirmed', address_text: 'Same status, new address' });
+
+    const events = await db.select()
+      .from(bookingEventsTable)
+      .where(eq(bookingEventsTable.booking_id, booking.id))
+      .execute();
+    expect(events).toHaveLength(0);
+  });
+});
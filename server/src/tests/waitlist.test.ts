@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  bookingsTable,
+  customersTable,
+  servicesTable,
+  waitlistEntriesTable,
+  whatsappMessagesTable,
+  whatsappTemplatesTable,
+  zoneSchedulesTable,
+  zonesTable
+} from '../db/schema';
+import { type JoinWaitlistInput } from '../schema';
+import {
+  cancelWaitlistEntry,
+  claimWaitlistOffer,
+  expireWaitlistOffers,
+  getWaitlist,
+  joinWaitlist
+} from '../handlers/waitlist';
+import { createBookingToken, createWaitlistClaimToken } from '../handlers/booking_tokens';
+import { updateBooking } from '../handlers/update_booking';
+import { rescheduleBookingByToken } from '../handlers/booking_self_service';
+import { eq } from 'drizzle-orm';
+
+const MINUTE = 60 * 1000;
+const now = new Date('2030-01-10T08:00:00+03:00');
+const slotStart = new Date('2030-01-15T10:00:00+03:00');
+const slotEnd = new Date('2030-01-15T11:30:00+03:00');
+
+describe('waitlist', () => {
+  let zoneId: number;
+  let serviceId: number;
+  let bookingId: number;
+
+  const waitlistInput = (phone: string, overrides: Partial<JoinWaitlistInput> = {}): JoinWaitlistInput => ({
+    customer: { name: `Customer ${phone}`, phone, preferred_language: 'en' },
+    service_id: serviceId,
+    addons: [],
+    car_type: 'sedan',
+    zone_id: zoneId,
+    address_text: 'الرياض - حي النخيل',
+    geo_point: { lat: 24.7136, lng: 46.6753 },
+    scheduled_window: { start: slotStart, end: slotEnd },
+    is_solo: false,
+    ...overrides
+  });
+
+  const entryById = async (id: number) => (await db.select()
+    .from(waitlistEntriesTable)
+    .where(eq(waitlistEntriesTable.id, id))
+    .execute())[0];
+
+  beforeEach(async () => {
+    await createDB();
+
+    const zone = await db.insert(zonesTable)
+      .values({
+        name_ar: 'منطقة تجريبية',
+        name_en: 'Test Zone',
+        polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        notes: null
+      })
+      .returning()
+      .execute();
+    zoneId = zone[0].id;
+
+    // One crew, so a single booking fills a slot
+    await db.insert(zoneSchedulesTable)
+      .values({
+        zone_id: zoneId,
+        weekly_hours: Array.from({ length: 7 }, () => ({ start: '08:00', end: '18:00' })),
+        team_capacity: 1,
+        slot_minutes: 90,
+        interval_minutes: 60,
+        buffer_minutes: 30
+      })
+      .execute();
+
+    const service = await db.insert(servicesTable)
+      .values({
+        slug: 'test-service',
+        name_ar: 'غسيل شامل',
+        name_en: 'Full Wash',
+        desc_ar: 'وصف الخدمة',
+        desc_en: 'Service description',
+        base_price_team: '100.00',
+        base_price_solo: '80.00',
+        est_minutes: 60,
+        order: 1,
+        visible: true
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+
+    const customer = await db.insert(customersTable)
+      .values({ name: 'أحمد محمد', phone: '0555123456', whatsapp_verified: true })
+      .returning()
+      .execute();
+
+    const booking = await db.insert(bookingsTable)
+      .values({
+        customer_id: customer[0].id,
+        service_id: serviceId,
+        addons: [],
+        car_type: 'sedan',
+        zone_id: zoneId,
+        address_text: 'الرياض - حي الملقا',
+        geo_point: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+        scheduled_window_start: slotStart,
+        scheduled_window_end: slotEnd,
+        status: 'confirmed',
+        price_total: '100.00',
+        is_solo: false,
+        distance_fee: '0.00'
+      })
+      .returning()
+      .execute();
+    bookingId = booking[0].id;
+
+    await db.insert(whatsappTemplatesTable)
+      .values({
+        key: 'waitlist_offer',
+        body_ar: 'مرحباً {{name}}، توفر موعد {{service}} يوم {{date}} الساعة {{time}}. احجزه قبل {{expires_at}}: {{claim_url}}',
+        body_en: 'Hi {{name}}, a {{service}} slot opened on {{date}} at {{time}}. Claim it before {{expires_at}}: {{claim_url}}'
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('joinWaitlist', () => {
+    it('should queue customers for a full slot in order', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+      const second = await joinWaitlist(waitlistInput('0555000002'), now);
+
+      expect(first.position).toEqual(1);
+      expect(second.position).toEqual(2);
+      expect(first.entry.status).toEqual('waiting');
+      expect(first.entry.slot_start).toEqual(slotStart);
+      expect(first.entry.offer_expires_at).toBeNull();
+    });
+
+    it('should refuse slots that can still be booked or do not exist', async () => {
+      await expect(joinWaitlist(waitlistInput('0555000001', {
+        scheduled_window: { start: new Date('2030-01-15T14:00:00+03:00'), end: new Date('2030-01-15T15:30:00+03:00') }
+      }), now)).rejects.toThrow(/still available/i);
+
+      await expect(joinWaitlist(waitlistInput('0555000001', {
+        scheduled_window: { start: new Date('2030-01-15T10:15:00+03:00'), end: new Date('2030-01-15T11:45:00+03:00') }
+      }), now)).rejects.toThrow(/does not exist/i);
+    });
+
+    it('should not queue the same customer twice for a slot', async () => {
+      await joinWaitlist(waitlistInput('0555000001'), now);
+
+      await expect(joinWaitlist(waitlistInput('0555000001'), now)).rejects.toThrow(/already on the waitlist/i);
+    });
+  });
+
+  describe('offers', () => {
+    it('should offer a canceled booking\'s slot to the first customer in line', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+      const second = await joinWaitlist(waitlistInput('0555000002'), now);
+
+      await updateBooking({ id: bookingId, status: 'canceled' });
+
+      const offered = await entryById(first.entry.id);
+      expect(offered.status).toEqual('offered');
+      expect(offered.offer_expires_at!.getTime() - offered.offered_at!.getTime()).toEqual(30 * MINUTE);
+      expect((await entryById(second.entry.id)).status).toEqual('waiting');
+
+      const messages = await db.select()
+        .from(whatsappMessagesTable)
+        .where(eq(whatsappMessagesTable.template_key, 'waitlist_offer'))
+        .execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].customer_id).toEqual(offered.customer_id);
+      expect(messages[0].body).toContain('/w/w');
+    });
+
+    it('should offer the old slot when the customer reschedules', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+
+      await rescheduleBookingByToken({
+        token: createBookingToken(bookingId, new Date('2030-02-15T00:00:00+03:00')),
+        scheduled_window: { start: new Date('2030-01-16T13:00:00+03:00'), end: new Date('2030-01-16T14:30:00+03:00') }
+      }, now);
+
+      expect((await entryById(first.entry.id)).status).toEqual('offered');
+    });
+
+    it('should book the slot when the offer is claimed', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+      await updateBooking({ id: bookingId, status: 'postponed' });
+      const offered = await entryById(first.entry.id);
+
+      const result = await claimWaitlistOffer(createWaitlistClaimToken(offered.id, offered.offer_expires_at!));
+
+      const claimed = await entryById(first.entry.id);
+      expect(claimed.status).toEqual('claimed');
+      expect(claimed.booking_id).toEqual(Number(result.booking_id));
+
+      const bookings = await db.select()
+        .from(bookingsTable)
+        .where(eq(bookingsTable.id, Number(result.booking_id)))
+        .execute();
+      expect(bookings[0].scheduled_window_start).toEqual(slotStart);
+      expect(bookings[0].customer_id).toEqual(first.entry.customer_id);
+
+      // A second tap on the same link can't book again
+      await expect(claimWaitlistOffer(createWaitlistClaimToken(offered.id, offered.offer_expires_at!)))
+        .rejects.toThrow(/no longer available/i);
+    });
+
+    it('should pass unclaimed offers to the next customer', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+      const second = await joinWaitlist(waitlistInput('0555000002'), now);
+      await updateBooking({ id: bookingId, status: 'canceled' });
+      const offered = await entryById(first.entry.id);
+
+      const afterExpiry = new Date(offered.offer_expires_at!.getTime() + MINUTE);
+      const result = await expireWaitlistOffers(afterExpiry);
+
+      expect(result).toEqual({ expired: 1, offered: 1 });
+      expect((await entryById(first.entry.id)).status).toEqual('expired');
+      expect((await entryById(second.entry.id)).status).toEqual('offered');
+
+      await expect(claimWaitlistOffer(createWaitlistClaimToken(offered.id, offered.offer_expires_at!), afterExpiry))
+        .rejects.toThrow(/expired/i);
+    });
+
+    it('should hand a withdrawn offer to the next customer', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+      const second = await joinWaitlist(waitlistInput('0555000002'), now);
+      await updateBooking({ id: bookingId, status: 'canceled' });
+
+      const canceled = await cancelWaitlistEntry(first.entry.id);
+
+      expect(canceled.status).toEqual('canceled');
+      expect((await entryById(second.entry.id)).status).toEqual('offered');
+      expect((await getWaitlist({ zone_id: zoneId, status: 'offered' })).map(entry => entry.id)).toEqual([second.entry.id]);
+    });
+
+    it('should not accept booking links as claim links', async () => {
+      const first = await joinWaitlist(waitlistInput('0555000001'), now);
+
+      await expect(claimWaitlistOffer(createBookingToken(first.entry.id, slotEnd)))
+        .rejects.toThrow(/invalid waitlist link/i);
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { whatsappTemplatesTable } from '../db/schema';
+import { customersTable, whatsappTemplatesTable, whatsappMessagesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
 import {
     sendWhatsAppMessage,
     sendBookingConfirmation,
@@ -10,8 +11,13 @@ import {
     sendBookingReminder,
     verifyWhatsAppNumber,
     getMessageStatus,
+    getCustomerLanguage,
+    formatLocalizedDate,
+    formatLocalizedPrice,
+    formatLocalizedTime,
     type WhatsAppMessage
 } from '../handlers/whatsapp_integration';
+import { createFakeWhatsAppProvider, setWhatsAppProvider } from '../handlers/whatsapp_providers';
 
 // Test data
 const testTemplate = {
@@ -23,7 +29,8 @@ const testTemplate = {
 const testStatusTemplate = {
     key: 'booking_on_the_way',
     body_ar: 'الفريق في الطريق إليك! سنصل خلال {{eta}} دقيقة.',
-    body_en: 'Team is on the way! We will arrive in {{eta}} minutes.'
+    body_en: 'Team is on the way! We will arrive in {{eta}} minutes.',
+    required_variables: ['eta']
 };
 
 const testStartedTemplate = {
@@ -41,7 +48,8 @@ const testFinishedTemplate = {
 const testPromoTemplate = {
     key: 'promotion',
     body_ar: 'عرض خاص! {{offer_title}} - خصم {{discount}}. صالح حتى {{valid_until}}. كود الخصم: {{promo_code}}',
-    body_en: 'Special offer! {{offer_title}} - {{discount}} off. Valid until {{valid_until}}. Promo code: {{promo_code}}'
+    body_en: 'Special offer! {{offer_title}} - {{discount}} off. Valid until {{valid_until}}. Promo code: {{promo_code}}',
+    optional_variables: ['promo_code']
 };
 
 const testReminderTemplate = {
@@ -111,8 +119,8 @@ describe('WhatsApp Integration', () => {
             for (const phone of testCases) {
                 const result = await sendWhatsAppMessage({
                     to: phone,
-                    template: 'booking_confirmation',
-                    variables: { name: 'Test' }
+                    template: 'booking_started',
+                    variables: {}
                 });
 
                 expect(result.status).toEqual('sent');
@@ -150,20 +158,85 @@ describe('WhatsApp Integration', () => {
             const result = await sendWhatsAppMessage(message);
 
             expect(result.status).toEqual('failed');
-            expect(result.message_id).toMatch(/^failed_\d+$/);
+            expect(result.message_id).toBeDefined();
+
+            // The failed attempt is still logged with its reason
+            const logged = await db.select()
+                .from(whatsappMessagesTable)
+                .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                .execute();
+            expect(logged).toHaveLength(1);
+            expect(logged[0].status).toEqual('failed');
+            expect(logged[0].error).toMatch(/not found/i);
         });
 
-        it('should handle empty variables', async () => {
-            const message: WhatsAppMessage = {
+        it('should log the rendered message with its references', async () => {
+            const result = await sendWhatsAppMessage({
+                to: '0555123456',
+                template: 'booking_on_the_way',
+                variables: { eta: '15' }
+            });
+
+            const logged = await db.select()
+                .from(whatsappMessagesTable)
+                .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                .execute();
+
+            expect(logged).toHaveLength(1);
+            expect(logged[0].to_phone).toEqual('966555123456');
+            expect(logged[0].template_key).toEqual('booking_on_the_way');
+            expect(logged[0].body).toEqual('الفريق في الطريق إليك! سنصل خلال 15 دقيقة.');
+            expect(logged[0].language).toEqual('ar');
+            expect(logged[0].status).toEqual('sent');
+            expect(logged[0].provider_message_id).toBeDefined();
+            expect(logged[0].sent_at).toBeInstanceOf(Date);
+        });
+
+        it('should fail sends that are missing required variables', async () => {
+            const result = await sendWhatsAppMessage({
                 to: '966555123456',
-                template: 'booking_confirmation',
+                template: 'booking_on_the_way',
                 variables: {}
-            };
+            });
 
-            const result = await sendWhatsAppMessage(message);
+            expect(result.status).toEqual('failed');
+            const logged = await db.select()
+                .from(whatsappMessagesTable)
+                .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                .execute();
+            expect(logged[0].status).toEqual('failed');
+            expect(logged[0].error).toEqual("WhatsApp template 'booking_on_the_way' is missing required variables: eta");
+            expect(logged[0].sent_at).toBeNull();
+        });
+
+        it('should fail sends that would leave placeholders in the text', async () => {
+            const result = await sendWhatsAppMessage({
+                to: '966555123456',
+                template: 'booking_confirmation',
+                variables: { name: 'سارة', service: 'غسيل', price: '50' }
+            });
+
+            expect(result.status).toEqual('failed');
+            const logged = await db.select()
+                .from(whatsappMessagesTable)
+                .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                .execute();
+            expect(logged[0].error).toEqual("WhatsApp template 'booking_confirmation' left placeholders unfilled: date, time, map_link");
+        });
+
+        it('should render optional variables that were left out as empty', async () => {
+            const result = await sendPromoMessage('966555123456', {
+                offer_title: 'عرض محدود',
+                discount: '20%',
+                valid_until: 'نهاية الشهر'
+            }, {}, 'en');
 
+            const logged = await db.select()
+                .from(whatsappMessagesTable)
+                .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                .execute();
             expect(result.status).toEqual('sent');
-            expect(result.message_id).toBeDefined();
+            expect(logged[0].body).toEqual('Special offer! عرض محدود - 20% off. Valid until نهاية الشهر. Promo code: ');
         });
     });
 
@@ -359,37 +432,199 @@ describe('WhatsApp Integration', () => {
     });
 
     describe('getMessageStatus', () => {
-        it('should return failed status for failed message IDs', async () => {
-            const failedMessageId = 'failed_1234567890';
-            const status = await getMessageStatus(failedMessageId);
+        it('should return the logged status for sent messages', async () => {
+            const result = await sendWhatsAppMessage({
+                to: '966555123456',
+                template: 'booking_started',
+                variables: {}
+            });
 
-            expect(status).toEqual('failed');
+            const status = await getMessageStatus(result.message_id);
+
+            expect(status).toEqual('sent');
         });
 
-        it('should return sent status for recent messages', async () => {
-            const recentMessageId = `wam_${Date.now()}_abc123`;
-            const status = await getMessageStatus(recentMessageId);
+        it('should reflect delivery updates stored in the log', async () => {
+            const result = await sendWhatsAppMessage({
+                to: '966555123456',
+                template: 'booking_started',
+                variables: {}
+            });
 
-            expect(status).toEqual('sent');
+            await db.update(whatsappMessagesTable)
+                .set({ status: 'read', read_at: new Date() })
+                .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                .execute();
+
+            expect(await getMessageStatus(result.message_id)).toEqual('read');
         });
 
-        it('should simulate message status progression', async () => {
-            // Test with old timestamp to simulate delivered status
-            const oldTimestamp = Date.now() - 10000; // 10 seconds ago
-            const oldMessageId = `wam_${oldTimestamp}_def456`;
-            const status = await getMessageStatus(oldMessageId);
+        it('should return failed status for failed messages', async () => {
+            const result = await sendWhatsAppMessage({
+                to: '966555123456',
+                template: 'non_existent_template',
+                variables: {}
+            });
 
-            expect(['delivered', 'read']).toContain(status);
+            expect(await getMessageStatus(result.message_id)).toEqual('failed');
         });
 
-        it('should handle invalid message IDs', async () => {
-            const invalidMessageId = 'invalid_message_id';
-            const status = await getMessageStatus(invalidMessageId);
+        it('should log provider rejections as failed', async () => {
+            const provider = createFakeWhatsAppProvider();
+            provider.failNext(1, 'Recipient is not a WhatsApp user');
+            setWhatsAppProvider(provider);
+
+            try {
+                const result = await sendWhatsAppMessage({
+                    to: '966555123456',
+                    template: 'booking_started',
+                    variables: {}
+                });
+
+                expect(await getMessageStatus(result.message_id)).toEqual('failed');
+                const rows = await db.select()
+                    .from(whatsappMessagesTable)
+                    .where(eq(whatsappMessagesTable.message_id, result.message_id))
+                    .execute();
+                expect(rows[0].error).toEqual('Recipient is not a WhatsApp user');
+                expect(provider.sent).toHaveLength(0);
+            } finally {
+                setWhatsAppProvider(null);
+            }
+        });
+
+        it('should hand the provider a template send with ordered parameters', async () => {
+            const provider = createFakeWhatsAppProvider();
+            setWhatsAppProvider(provider);
+
+            try {
+                await db.update(whatsappTemplatesTable)
+                    .set({ twilio_content_sids: { ar: 'HX_AR' } })
+                    .where(eq(whatsappTemplatesTable.key, 'booking_finished'))
+                    .execute();
+
+                await sendWhatsAppMessage({
+                    to: '0555123456',
+                    template: 'booking_finished',
+                    variables: { comment_link: 'https://example.com/c', stars_link: 'https://example.com/s' },
+                    language: 'ar'
+                });
+
+                expect(provider.sent).toHaveLength(1);
+                expect(provider.sent[0]).toMatchObject({
+                    to: '966555123456',
+                    template_key: 'booking_finished',
+                    language: 'ar',
+                    parameters: ['https://example.com/s', 'https://example.com/c'],
+                    twilio_content_sid: 'HX_AR'
+                });
+            } finally {
+                setWhatsAppProvider(null);
+            }
+        });
+
+        it('should handle unknown message IDs', async () => {
+            const status = await getMessageStatus('invalid_message_id');
 
             expect(status).toEqual('failed');
         });
     });
 
+    describe('customer language', () => {
+        const loggedBody = async (messageId: string) => {
+            const rows = await db.select()
+                .from(whatsappMessagesTable)
+                .where(eq(whatsappMessagesTable.message_id, messageId))
+                .execute();
+            return rows[0];
+        };
+
+        const createCustomerWithLanguage = async (preferred_language: 'ar' | 'en') => {
+            const customers = await db.insert(customersTable)
+                .values({ name: 'Sara', phone: '0555000111', whatsapp_verified: true, preferred_language })
+                .returning()
+                .execute();
+            return customers[0].id;
+        };
+
+        it('should default to Arabic for customers without a preference', async () => {
+            expect(await getCustomerLanguage(undefined)).toEqual('ar');
+            expect(await getCustomerLanguage(999999)).toEqual('ar');
+        });
+
+        it('should send the English body to customers who prefer English', async () => {
+            const customerId = await createCustomerWithLanguage('en');
+
+            const result = await sendWhatsAppMessage({
+                to: '0555000111',
+                template: 'booking_on_the_way',
+                variables: { eta: '15' },
+                customer_id: customerId
+            });
+
+            const logged = await loggedBody(result.message_id);
+            expect(logged.language).toEqual('en');
+            expect(logged.body).toEqual('Team is on the way! We will arrive in 15 minutes.');
+        });
+
+        it('should fall back to Arabic when the English body is empty', async () => {
+            const customerId = await createCustomerWithLanguage('en');
+            await db.insert(whatsappTemplatesTable)
+                .values({ key: 'arabic_only', body_ar: 'مرحبا {{name}}', body_en: '' })
+                .execute();
+
+            const result = await sendWhatsAppMessage({
+                to: '0555000111',
+                template: 'arabic_only',
+                variables: { name: 'سارة' },
+                customer_id: customerId
+            });
+
+            const logged = await loggedBody(result.message_id);
+            expect(logged.language).toEqual('ar');
+            expect(logged.body).toEqual('مرحبا سارة');
+        });
+
+        it('should let an explicit language override the customer preference', async () => {
+            const customerId = await createCustomerWithLanguage('en');
+
+            const result = await sendWhatsAppMessage({
+                to: '0555000111',
+                template: 'booking_started',
+                variables: {},
+                customer_id: customerId,
+                language: 'ar'
+            });
+
+            expect((await loggedBody(result.message_id)).body).toEqual('بدأ الفريق العمل على سيارتك الآن.');
+        });
+
+        it('should format prices, dates and times in the customer locale', async () => {
+            const customerId = await createCustomerWithLanguage('en');
+            const scheduled = new Date('2024-01-15T10:30:00+03:00');
+
+            const result = await sendBookingConfirmation('0555000111', {
+                ...testBookingDetails,
+                price: 1250.5,
+                date: scheduled,
+                time: scheduled
+            }, { customer_id: customerId });
+
+            const logged = await loggedBody(result.message_id);
+            expect(logged.body).toContain('on Monday, 15 January 2024 at 10:30 am');
+            expect(logged.body).toContain('Price: 1,250.50 SAR');
+        });
+
+        it('should use Arabic digits and month names for Arabic customers', () => {
+            const scheduled = new Date('2024-01-15T10:30:00+03:00');
+
+            expect(formatLocalizedPrice(125.75, 'ar')).toEqual('١٢٥٫٧٥');
+            expect(formatLocalizedDate(scheduled, 'ar')).toContain('يناير');
+            expect(formatLocalizedTime(scheduled, 'ar')).toContain('١٠:٣٠');
+            expect(formatLocalizedPrice(125.75, 'en')).toEqual('125.75');
+        });
+    });
+
     describe('Template Integration', () => {
         it('should retrieve templates from database', async () => {
             const templates = await db.select()
@@ -441,7 +676,7 @@ describe('WhatsApp Integration', () => {
             const result = await sendWhatsAppMessage(message);
 
             expect(result.status).toEqual('failed');
-            expect(result.message_id).toMatch(/^failed_/);
+            expect(result.message_id).toBeDefined();
         });
 
         it('should handle malformed phone numbers', async () => {
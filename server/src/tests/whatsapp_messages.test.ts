@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { customersTable, whatsappMessagesTable } from '../db/schema';
+import {
+  createOutboundMessage,
+  markMessageSent,
+  markMessageFailed,
+  applyDeliveryStatus,
+  getWhatsAppMessage,
+  getWhatsAppMessages
+} from '../handlers/whatsapp_messages';
+import { eq } from 'drizzle-orm';
+
+const baseMessage = {
+  to_phone: '966555123456',
+  template_key: 'booking_confirmation',
+  body: 'مرحبا',
+  language: 'ar' as const
+};
+
+describe('whatsapp message log', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createOutboundMessage', () => {
+    it('should store a queued message', async () => {
+      const result = await createOutboundMessage({ ...baseMessage, message_id: 'wam_1_a' });
+
+      expect(result.id).toBeDefined();
+      expect(result.status).toEqual('queued');
+      expect(result.provider_message_id).toBeNull();
+      expect(result.customer_id).toBeNull();
+      expect(result.created_at).toBeInstanceOf(Date);
+    });
+
+    it('should mark messages sent and failed', async () => {
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_1_a' });
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_2_b' });
+
+      await markMessageSent('wam_1_a', 'wamid.provider1');
+      await markMessageFailed('wam_2_b', 'Provider rejected number');
+
+      const sent = await getWhatsAppMessage('wam_1_a');
+      expect(sent?.status).toEqual('sent');
+      expect(sent?.provider_message_id).toEqual('wamid.provider1');
+      expect(sent?.sent_at).toBeInstanceOf(Date);
+
+      const failed = await getWhatsAppMessage('wam_2_b');
+      expect(failed?.status).toEqual('failed');
+      expect(failed?.error).toEqual('Provider rejected number');
+      expect(failed?.failed_at).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('applyDeliveryStatus', () => {
+    beforeEach(async () => {
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_1_a' });
+      await markMessageSent('wam_1_a', 'wamid.provider1');
+    });
+
+    it('should move a message through delivered and read', async () => {
+      const deliveredAt = new Date('2024-01-15T10:00:00Z');
+      const readAt = new Date('2024-01-15T10:05:00Z');
+
+      const delivered = await applyDeliveryStatus('wamid.provider1', 'delivered', deliveredAt);
+      expect(delivered?.status).toEqual('delivered');
+      expect(delivered?.delivered_at).toEqual(deliveredAt);
+
+      const read = await applyDeliveryStatus('wamid.provider1', 'read', readAt);
+      expect(read?.status).toEqual('read');
+      expect(read?.read_at).toEqual(readAt);
+      expect(read?.delivered_at).toEqual(deliveredAt);
+    });
+
+    it('should ignore out-of-order callbacks', async () => {
+      await applyDeliveryStatus('wamid.provider1', 'read');
+      const result = await applyDeliveryStatus('wamid.provider1', 'delivered');
+
+      expect(result?.status).toEqual('read');
+      expect(await applyDeliveryStatus('wamid.provider1', 'failed', new Date(), 'late failure'))
+        .toMatchObject({ status: 'read', error: null });
+    });
+
+    it('should record provider failures', async () => {
+      const result = await applyDeliveryStatus('wamid.provider1', 'failed', new Date(), 'Message undeliverable');
+
+      expect(result?.status).toEqual('failed');
+      expect(result?.error).toEqual('Message undeliverable');
+    });
+
+    it('should return null for unknown provider ids', async () => {
+      expect(await applyDeliveryStatus('wamid.unknown', 'delivered')).toBeNull();
+    });
+  });
+
+  describe('getWhatsAppMessages', () => {
+    it('should filter by customer, status and template', async () => {
+      const customer = await db.insert(customersTable)
+        .values({ name: 'Test Customer', phone: '0555123456', whatsapp_verified: true })
+        .returning()
+        .execute();
+      const customerId = customer[0].id;
+
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_1_a', customer_id: customerId });
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_2_b', customer_id: customerId, template_key: 'booking_started' });
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_3_c' });
+      await markMessageFailed('wam_2_b', 'boom');
+
+      const forCustomer = await getWhatsAppMessages({ customer_id: customerId, limit: 50, offset: 0 });
+      expect(forCustomer).toHaveLength(2);
+
+      const failed = await getWhatsAppMessages({ status: 'failed', limit: 50, offset: 0 });
+      expect(failed).toHaveLength(1);
+      expect(failed[0].message_id).toEqual('wam_2_b');
+
+      const confirmations = await getWhatsAppMessages({ template_key: 'booking_confirmation', limit: 50, offset: 0 });
+      expect(confirmations).toHaveLength(2);
+
+      const all = await getWhatsAppMessages({ limit: 2, offset: 0 });
+      expect(all).toHaveLength(2);
+      // Newest first
+      expect(all[0].message_id).toEqual('wam_3_c');
+    });
+
+    it('should find messages by provider id as well as our id', async () => {
+      await createOutboundMessage({ ...baseMessage, message_id: 'wam_1_a' });
+      await markMessageSent('wam_1_a', 'wamid.provider1');
+
+      const byProviderId = await getWhatsAppMessage('wamid.provider1');
+      expect(byProviderId?.message_id).toEqual('wam_1_a');
+
+      const rows = await db.select()
+        .from(whatsappMessagesTable)
+        .where(eq(whatsappMessagesTable.message_id, 'wam_1_a'))
+        .execute();
+      expect(rows).toHaveLength(1);
+    });
+  });
+});
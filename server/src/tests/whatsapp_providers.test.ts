@@ -0,0 +1,270 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { createHmac } from 'crypto';
+import {
+  createFakeWhatsAppProvider,
+  createMetaCloudProvider,
+  createTwilioProvider,
+  createWhatsAppProviderFromEnv,
+  getWhatsAppProvider,
+  setWhatsAppProvider,
+  parseMetaStatusPayload
+} from '../handlers/whatsapp_providers';
+
+const testMessage = {
+  to: '966555123456',
+  body: 'مرحبا أحمد',
+  template_key: 'booking_confirmation',
+  language: 'ar' as const,
+  parameters: ['أحمد', '١٥٠٫٠٠'],
+  twilio_content_sid: 'HX123'
+};
+
+const metaStatusPayload = (statuses: any[]) => ({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: 'waba-id',
+    changes: [{ field: 'messages', value: { messaging_product: 'whatsapp', statuses } }]
+  }]
+});
+
+// Records outgoing requests and answers with a canned JSON response (no network access)
+const recordingFetch = (status: number, body: any) => {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fetchImpl = async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+  return { calls, fetchImpl };
+};
+
+const withEnv = (values: Record<string, string | undefined>, fn: () => void) => {
+  const previous: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(values)) {
+    previous[key] = process.env[key];
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  try {
+    fn();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+};
+
+describe('WhatsApp providers', () => {
+  afterEach(() => setWhatsAppProvider(null));
+
+  describe('fake provider', () => {
+    it('should record sent messages with unique provider ids', async () => {
+      const provider = createFakeWhatsAppProvider();
+
+      const first = await provider.send(testMessage);
+      const second = await provider.send({ ...testMessage, body: 'second' });
+
+      expect(first.provider_message_id).not.toEqual(second.provider_message_id);
+      expect(provider.sent).toHaveLength(2);
+      expect(provider.sent[0]).toMatchObject({ ...testMessage, provider_message_id: first.provider_message_id });
+    });
+
+    it('should simulate failures for the next sends only', async () => {
+      const provider = createFakeWhatsAppProvider();
+      provider.failNext(2, 'Number not on WhatsApp');
+
+      await expect(provider.send(testMessage)).rejects.toThrow(/number not on whatsapp/i);
+      await expect(provider.send(testMessage)).rejects.toThrow(/number not on whatsapp/i);
+      await provider.send(testMessage);
+
+      expect(provider.sent).toHaveLength(1);
+
+      provider.reset();
+      expect(provider.sent).toHaveLength(0);
+    });
+  });
+
+  describe('Meta Cloud API provider', () => {
+    it('should post a template message and return the wamid', async () => {
+      const { calls, fetchImpl } = recordingFetch(200, { messages: [{ id: 'wamid.ABC' }] });
+      const provider = createMetaCloudProvider({ accessToken: 'token', phoneNumberId: '12345', appSecret: 'secret', fetchImpl });
+
+      const result = await provider.send(testMessage);
+
+      expect(result.provider_message_id).toEqual('wamid.ABC');
+      expect(calls).toHaveLength(1);
+      expect(calls[0].url).toEqual('https://graph.facebook.com/v20.0/12345/messages');
+      expect((calls[0].init.headers as Record<string, string>)['Authorization']).toEqual('Bearer token');
+      expect(JSON.parse(calls[0].init.body as string)).toEqual({
+        messaging_product: 'whatsapp',
+        to: '966555123456',
+        type: 'template',
+        template: {
+          name: 'booking_confirmation',
+          language: { code: 'ar' },
+          components: [{
+            type: 'body',
+            parameters: [{ type: 'text', text: 'أحمد' }, { type: 'text', text: '١٥٠٫٠٠' }]
+          }]
+        }
+      });
+
+      await provider.send({ ...testMessage, parameters: [] });
+      expect(JSON.parse(calls[1].init.body as string).template.components).toEqual([]);
+    });
+
+    it('should reject when the API returns an error', async () => {
+      const { fetchImpl } = recordingFetch(400, { error: { message: 'Invalid parameter' } });
+      const provider = createMetaCloudProvider({ accessToken: 'token', phoneNumberId: '12345', appSecret: 'secret', fetchImpl });
+
+      await expect(provider.send(testMessage)).rejects.toThrow(/invalid parameter/i);
+    });
+
+    it('should verify X-Hub-Signature-256 with the app secret', () => {
+      const provider = createMetaCloudProvider({ accessToken: 'token', phoneNumberId: '12345', appSecret: 'secret' });
+      const body = JSON.stringify(metaStatusPayload([]));
+      const signature = `sha256=${createHmac('sha256', 'secret').update(body).digest('hex')}`;
+
+      expect(provider.verifyCallback(body, { 'x-hub-signature-256': signature }, '')).toBe(true);
+      expect(provider.verifyCallback(body + ' ', { 'x-hub-signature-256': signature }, '')).toBe(false);
+      expect(provider.verifyCallback(body, {}, '')).toBe(false);
+
+      // Without a secret nothing can be verified, so nothing is trusted
+      const unsigned = createMetaCloudProvider({ accessToken: 'token', phoneNumberId: '12345', appSecret: '' });
+      expect(unsigned.verifyCallback(body, { 'x-hub-signature-256': signature }, '')).toBe(false);
+    });
+
+    it('should parse status callbacks with timestamps and errors', () => {
+      const updates = parseMetaStatusPayload(metaStatusPayload([
+        { id: 'wamid.1', status: 'delivered', timestamp: '1705312800' },
+        { id: 'wamid.2', status: 'failed', timestamp: '1705312800', errors: [{ code: 131026, title: 'Message undeliverable' }] },
+        { id: 'wamid.3', status: 'something_else' }
+      ]));
+
+      expect(updates).toHaveLength(2);
+      expect(updates[0]).toEqual({
+        provider_message_id: 'wamid.1',
+        status: 'delivered',
+        occurred_at: new Date(1705312800 * 1000),
+        error: undefined
+      });
+      expect(updates[1].error).toEqual('Message undeliverable');
+      expect(parseMetaStatusPayload(null)).toEqual([]);
+      expect(parseMetaStatusPayload({ entry: [{ changes: [{ value: { statuses: [{ status: 'read' }] } }] }] })).toEqual([]);
+    });
+  });
+
+  describe('Twilio provider', () => {
+    const twilioConfig = {
+      accountSid: 'AC123',
+      authToken: 'auth-token',
+      from: '+14155238886',
+      statusCallbackUrl: 'https://example.com/api/webhooks/whatsapp'
+    };
+
+    it('should post a form-encoded content template and return the sid', async () => {
+      const { calls, fetchImpl } = recordingFetch(201, { sid: 'SM123' });
+      const provider = createTwilioProvider({ ...twilioConfig, fetchImpl });
+
+      const result = await provider.send(testMessage);
+
+      expect(result.provider_message_id).toEqual('SM123');
+      expect(calls[0].url).toEqual('https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json');
+      const form = new URLSearchParams(calls[0].init.body as string);
+      expect(form.get('From')).toEqual('whatsapp:+14155238886');
+      expect(form.get('To')).toEqual('whatsapp:+966555123456');
+      expect(form.get('ContentSid')).toEqual('HX123');
+      expect(JSON.parse(form.get('ContentVariables') as string)).toEqual({ '1': 'أحمد', '2': '١٥٠٫٠٠' });
+      expect(form.get('Body')).toBeNull();
+      expect(form.get('StatusCallback')).toEqual(twilioConfig.statusCallbackUrl);
+    });
+
+    it('should refuse templates without a content SID', async () => {
+      const { calls, fetchImpl } = recordingFetch(201, { sid: 'SM123' });
+      const provider = createTwilioProvider({ ...twilioConfig, fetchImpl });
+
+      await expect(provider.send({ ...testMessage, twilio_content_sid: null })).rejects.toThrow(/no Twilio content SID for 'ar'/);
+      expect(calls).toHaveLength(0);
+    });
+
+    it('should parse status callbacks and map undelivered to failed', () => {
+      const provider = createTwilioProvider(twilioConfig);
+
+      const delivered = provider.parseStatusCallback('MessageSid=SM123&MessageStatus=delivered', 'application/x-www-form-urlencoded');
+      expect(delivered).toHaveLength(1);
+      expect(delivered[0]).toMatchObject({ provider_message_id: 'SM123', status: 'delivered' });
+
+      const undelivered = provider.parseStatusCallback('MessageSid=SM123&MessageStatus=undelivered&ErrorCode=63016', undefined);
+      expect(undelivered[0]).toMatchObject({ status: 'failed', error: 'Twilio error 63016' });
+
+      expect(provider.parseStatusCallback('MessageStatus=delivered', undefined)).toEqual([]);
+    });
+
+    it('should verify X-Twilio-Signature against the callback URL and sorted params', () => {
+      const provider = createTwilioProvider(twilioConfig);
+      const body = 'MessageStatus=read&MessageSid=SM123';
+      const signature = createHmac('sha1', 'auth-token')
+        .update(`${twilioConfig.statusCallbackUrl}MessageSidSM123MessageStatusread`)
+        .digest('base64');
+
+      expect(provider.verifyCallback(body, { 'x-twilio-signature': signature }, '')).toBe(true);
+      expect(provider.verifyCallback('MessageStatus=failed&MessageSid=SM123', { 'x-twilio-signature': signature }, '')).toBe(false);
+      expect(provider.verifyCallback(body, {}, '')).toBe(false);
+    });
+  });
+
+  describe('provider selection', () => {
+    it('should only fall back to the fake provider under test', () => {
+      withEnv({ WHATSAPP_PROVIDER: undefined, NODE_ENV: 'test' }, () => {
+        expect(createWhatsAppProviderFromEnv().name).toEqual('fake');
+      });
+
+      withEnv({ WHATSAPP_PROVIDER: undefined, NODE_ENV: 'development' }, () => {
+        expect(() => createWhatsAppProviderFromEnv()).toThrow(/WHATSAPP_PROVIDER must be set/);
+      });
+
+      withEnv({ WHATSAPP_PROVIDER: 'fake', NODE_ENV: 'development' }, () => {
+        expect(createWhatsAppProviderFromEnv().name).toEqual('fake');
+      });
+
+      withEnv({ WHATSAPP_PROVIDER: 'fake', NODE_ENV: 'production' }, () => {
+        expect(() => createWhatsAppProviderFromEnv()).toThrow(/cannot be used in production/);
+      });
+    });
+
+    it('should build configured providers and require their credentials', () => {
+      withEnv({
+        WHATSAPP_PROVIDER: 'meta',
+        WHATSAPP_META_ACCESS_TOKEN: 'token',
+        WHATSAPP_META_PHONE_NUMBER_ID: '12345',
+        WHATSAPP_APP_SECRET: 'secret'
+      }, () => {
+        expect(createWhatsAppProviderFromEnv().name).toEqual('meta');
+      });
+
+      withEnv({
+        WHATSAPP_PROVIDER: 'meta',
+        WHATSAPP_META_ACCESS_TOKEN: 'token',
+        WHATSAPP_META_PHONE_NUMBER_ID: '12345',
+        WHATSAPP_APP_SECRET: ''
+      }, () => {
+        expect(() => createWhatsAppProviderFromEnv()).toThrow(/WHATSAPP_APP_SECRET must be set/);
+      });
+
+      withEnv({ WHATSAPP_PROVIDER: 'twilio', TWILIO_ACCOUNT_SID: undefined }, () => {
+        expect(() => createWhatsAppProviderFromEnv()).toThrow(/TWILIO_ACCOUNT_SID must be set/);
+      });
+
+      withEnv({ WHATSAPP_PROVIDER: 'carrier-pigeon' }, () => {
+        expect(() => createWhatsAppProviderFromEnv()).toThrow(/unknown WHATSAPP_PROVIDER/i);
+      });
+    });
+
+    it('should let callers override the active provider', () => {
+      const fake = createFakeWhatsAppProvider();
+      setWhatsAppProvider(fake);
+
+      expect(getWhatsAppProvider()).toBe(fake);
+    });
+  });
+});
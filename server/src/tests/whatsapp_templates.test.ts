@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import {
+  createWhatsAppTemplate,
+  deleteWhatsAppTemplate,
+  extractTemplateVariables,
+  findMissingVariables,
+  getWhatsAppTemplateByKey,
+  getWhatsAppTemplates,
+  previewWhatsAppTemplate,
+  renderTemplate,
+  updateWhatsAppTemplate
+} from '../handlers/whatsapp_templates';
+
+const onTheWayTemplate = {
+  key: 'booking_on_the_way',
+  body_ar: 'الفريق في الطريق إليك يا {{name}}! سنصل خلال {{eta}} دقيقة.',
+  body_en: 'Hi {{name}}, the team is on the way! We will arrive in {{ eta }} minutes.',
+  required_variables: ['name', 'eta']
+};
+
+describe('whatsapp templates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('template helpers', () => {
+    it('should extract unique placeholders in order', () => {
+      expect(extractTemplateVariables('{{name}} {{ eta }} {{name}}')).toEqual(['name', 'eta']);
+      expect(extractTemplateVariables('no placeholders')).toEqual([]);
+    });
+
+    it('should render known variables and leave unknown ones untouched', () => {
+      expect(renderTemplate('{{name}} in {{ eta }} ({{other}})', { name: 'Sara', eta: '5' }))
+        .toEqual('Sara in 5 ({{other}})');
+    });
+
+    it('should treat blank values as missing', () => {
+      expect(findMissingVariables(['name', 'eta', 'price'], { name: 'Sara', eta: '  ' })).toEqual(['eta', 'price']);
+    });
+  });
+
+  describe('createWhatsAppTemplate', () => {
+    it('should store the template with its required variables', async () => {
+      const result = await createWhatsAppTemplate(onTheWayTemplate);
+
+      expect(result.id).toBeDefined();
+      expect(result.key).toEqual('booking_on_the_way');
+      expect(result.required_variables).toEqual(['name', 'eta']);
+
+      const stored = await getWhatsAppTemplateByKey('booking_on_the_way');
+      expect(stored?.body_en).toEqual(onTheWayTemplate.body_en);
+    });
+
+    it('should reject placeholders that are not declared as required', async () => {
+      await expect(createWhatsAppTemplate({ ...onTheWayTemplate, required_variables: ['name'] }))
+        .rejects.toThrow(/undeclared variables: eta/i);
+    });
+
+    it('should accept optional placeholders but not ones declared both ways', async () => {
+      const result = await createWhatsAppTemplate({ ...onTheWayTemplate, required_variables: ['name'], optional_variables: ['eta'] });
+      expect(result.optional_variables).toEqual(['eta']);
+
+      await expect(createWhatsAppTemplate({ ...onTheWayTemplate, key: 'other', optional_variables: ['eta'] }))
+        .rejects.toThrow(/both required and optional: eta/i);
+    });
+
+    it('should reject duplicate keys', async () => {
+      await createWhatsAppTemplate(onTheWayTemplate);
+
+      await expect(createWhatsAppTemplate(onTheWayTemplate)).rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('updateWhatsAppTemplate', () => {
+    it('should update bodies and validate the merged template', async () => {
+      const template = await createWhatsAppTemplate(onTheWayTemplate);
+
+      const updated = await updateWhatsAppTemplate({
+        id: template.id,
+        body_en: 'The team will arrive in {{eta}} minutes.'
+      });
+      expect(updated.body_en).toEqual('The team will arrive in {{eta}} minutes.');
+      expect(updated.body_ar).toEqual(onTheWayTemplate.body_ar);
+
+      // Dropping a variable still used by the Arabic body is refused
+      await expect(updateWhatsAppTemplate({ id: template.id, required_variables: ['eta'] }))
+        .rejects.toThrow(/undeclared variables: name/i);
+    });
+
+    it('should refuse renaming onto an existing key', async () => {
+      await createWhatsAppTemplate(onTheWayTemplate);
+      const other = await createWhatsAppTemplate({
+        key: 'booking_started',
+        body_ar: 'بدأ العمل',
+        body_en: 'Work started',
+        required_variables: []
+      });
+
+      await expect(updateWhatsAppTemplate({ id: other.id, key: 'booking_on_the_way' }))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should throw for unknown templates', async () => {
+      await expect(updateWhatsAppTemplate({ id: 999999, body_en: 'x' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('deleteWhatsAppTemplate', () => {
+    it('should remove the template', async () => {
+      const template = await createWhatsAppTemplate(onTheWayTemplate);
+
+      expect(await deleteWhatsAppTemplate(template.id)).toBe(true);
+      expect(await getWhatsAppTemplates()).toHaveLength(0);
+      await expect(deleteWhatsAppTemplate(template.id)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('previewWhatsAppTemplate', () => {
+    it('should render both languages with sample data', async () => {
+      await createWhatsAppTemplate(onTheWayTemplate);
+
+      const preview = await previewWhatsAppTemplate({ key: 'booking_on_the_way', variables: {} });
+
+      expect(preview.body_ar).toEqual('الفريق في الطريق إليك يا أحمد! سنصل خلال ٢٠ دقيقة.');
+      expect(preview.body_en).toEqual('Hi Ahmed, the team is on the way! We will arrive in 20 minutes.');
+      expect(preview.required_variables).toEqual(['name', 'eta']);
+    });
+
+    it('should prefer caller-provided values and fill unknown variables', async () => {
+      await createWhatsAppTemplate({
+        key: 'custom_notice',
+        body_ar: '{{name}}: {{tracking_link}} {{bay_number}}',
+        body_en: '{{name}}: {{tracking_link}} {{bay_number}}',
+        required_variables: ['name', 'tracking_link', 'bay_number']
+      });
+
+      const preview = await previewWhatsAppTemplate({ key: 'custom_notice', variables: { name: 'Sara' } });
+
+      expect(preview.body_en).toEqual('Sara: https://example.com/bookings/123 [bay_number]');
+      expect(preview.variables_ar['name']).toEqual('Sara');
+    });
+
+    it('should throw for unknown keys', async () => {
+      await expect(previewWhatsAppTemplate({ key: 'missing', variables: {} })).rejects.toThrow(/not found/i);
+    });
+  });
+});
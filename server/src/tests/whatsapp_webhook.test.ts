@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createOutboundMessage, markMessageSent, getWhatsAppMessage } from '../handlers/whatsapp_messages';
+import { processStatusWebhook } from '../handlers/whatsapp_webhook';
+
+describe('whatsapp status webhook', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('processStatusWebhook', () => {
+    beforeEach(async () => {
+      await createOutboundMessage({
+        message_id: 'wam_1_a',
+        to_phone: '966555123456',
+        template_key: 'booking_confirmation',
+        body: 'مرحبا',
+        language: 'ar'
+      });
+      await markMessageSent('wam_1_a', 'wamid.known');
+    });
+
+    it('should update known messages and count unknown ones', async () => {
+      const readAt = new Date(1705312800 * 1000);
+
+      const result = await processStatusWebhook([
+        { provider_message_id: 'wamid.known', status: 'read', occurred_at: readAt },
+        { provider_message_id: 'wamid.unknown', status: 'delivered', occurred_at: readAt }
+      ]);
+
+      expect(result).toEqual({ updated: 1, ignored: 1 });
+
+      const message = await getWhatsAppMessage('wam_1_a');
+      expect(message?.status).toEqual('read');
+      expect(message?.read_at).toEqual(readAt);
+    });
+
+    it('should store provider failure reasons', async () => {
+      await processStatusWebhook([
+        { provider_message_id: 'wamid.known', status: 'failed', occurred_at: new Date(), error: 'Message undeliverable' }
+      ]);
+
+      const message = await getWhatsAppMessage('wam_1_a');
+      expect(message?.status).toEqual('failed');
+      expect(message?.error).toEqual('Message undeliverable');
+    });
+
+    it('should accept an empty batch', async () => {
+      expect(await processStatusWebhook([])).toEqual({ updated: 0, ignored: 0 });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { zonesTable } from '../db/schema';
+import {
+    DEFAULT_ZONE_SCHEDULE,
+    getOperatingHoursForDate,
+    getZoneScheduleConfig,
+    getZoneScheduleConfigs,
+    resetZoneScheduleConfig,
+    upsertZoneScheduleConfig
+} from '../handlers/zone_schedules';
+import { type UpsertZoneScheduleInput } from '../schema';
+
+const testZone = {
+    name_ar: 'منطقة الاختبار',
+    name_en: 'Test Zone',
+    polygon_or_center: JSON.stringify({ lat: 24.7136, lng: 46.6753 }),
+    notes: null
+};
+
+const weekdayHours = { start: '07:00', end: '22:00' };
+
+describe('Zone schedules', () => {
+    let zoneId: number;
+
+    const scheduleInput = (overrides: Partial<UpsertZoneScheduleInput> = {}): UpsertZoneScheduleInput => ({
+        zone_id: zoneId,
+        // Closed on Fridays
+        weekly_hours: [weekdayHours, weekdayHours, weekdayHours, weekdayHours, weekdayHours, null, weekdayHours],
+        team_capacity: 5,
+        slot_minutes: 120,
+        interval_minutes: 30,
+        buffer_minutes: 15,
+        prayer_pause_enabled: false,
+        prayer_pause_before_minutes: 5,
+        prayer_pause_after_minutes: 30,
+        ...overrides
+    });
+
+    beforeEach(async () => {
+        await createDB();
+
+        const zone = await db.insert(zonesTable)
+            .values(testZone)
+            .returning()
+            .execute();
+        zoneId = zone[0].id;
+    });
+
+    afterEach(resetDB);
+
+    it('should fall back to the defaults for unconfigured zones', async () => {
+        const result = await getZoneScheduleConfig(zoneId);
+
+        expect(result).toMatchObject({ ...DEFAULT_ZONE_SCHEDULE, zone_id: zoneId, is_default: true });
+        expect(result.updated_at).toBeNull();
+    });
+
+    it('should save and update a zone schedule', async () => {
+        const created = await upsertZoneScheduleConfig(scheduleInput(), 'owner@example.com');
+
+        expect(created).toMatchObject({ ...scheduleInput(), is_default: false, updated_by: 'owner@example.com' });
+        expect(created.updated_at).toBeInstanceOf(Date);
+
+        await upsertZoneScheduleConfig(scheduleInput({ team_capacity: 2 }), 'dispatch@example.com');
+
+        const result = await getZoneScheduleConfig(zoneId);
+        expect(result.team_capacity).toBe(2);
+        expect(result.weekly_hours[5]).toBeNull();
+        expect(result.updated_by).toBe('dispatch@example.com');
+    });
+
+    it('should reject unknown zones', async () => {
+        await expect(upsertZoneScheduleConfig(scheduleInput({ zone_id: 99999 }))).rejects.toThrow(/zone with id 99999 not found/i);
+    });
+
+    it('should reset a zone back to the defaults', async () => {
+        await upsertZoneScheduleConfig(scheduleInput());
+
+        const reset = await resetZoneScheduleConfig(zoneId);
+        const result = await getZoneScheduleConfig(zoneId);
+
+        expect(reset.is_default).toBe(true);
+        expect(result).toMatchObject({ ...DEFAULT_ZONE_SCHEDULE, is_default: true });
+    });
+
+    it('should list every zone with its schedule', async () => {
+        const other = await db.insert(zonesTable)
+            .values({ ...testZone, name_en: 'Other Zone' })
+            .returning()
+            .execute();
+        await upsertZoneScheduleConfig(scheduleInput());
+
+        const result = await getZoneScheduleConfigs();
+
+        expect(result).toHaveLength(2);
+        expect(result.find(config => config.zone_id === zoneId)?.team_capacity).toBe(5);
+        expect(result.find(config => config.zone_id === other[0].id)?.is_default).toBe(true);
+    });
+
+    it('should look up hours by weekday', async () => {
+        const config = await upsertZoneScheduleConfig(scheduleInput());
+
+        // 2024-01-19 is a Friday, 2024-01-20 a Saturday
+        expect(getOperatingHoursForDate(config, new Date('2024-01-19T00:00:00+03:00'))).toBeNull();
+        expect(getOperatingHoursForDate(config, new Date('2024-01-20T00:00:00+03:00'))).toEqual(weekdayHours);
+    });
+});